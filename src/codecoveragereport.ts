@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {Labels} from './labels/labels';
+import {Utility} from './misc/utility';
+import {CodeCoverageReportType} from './settings';
+
+
+
+/**
+ * Writes the code coverage as LCOV or Cobertura XML file, e.g. to show
+ * the assembler coverage in the same tools as the coverage of other languages.
+ * The covered addresses are mapped to the source lines with the labels.
+ * All lines that are associated with an address count as instrumented lines,
+ * i.e. also lines with data (e.g. 'defb').
+ * The hit count of a covered line is always 1.
+ */
+export class CodeCoverageReport {
+	/// The addresses covered in the current debug session or unit test run.
+	protected static coveredAddresses=new Set<number>();
+
+
+	/**
+	 * Clears the collected addresses. Called at the start of a debug
+	 * session or unit test run.
+	 */
+	public static clear() {
+		CodeCoverageReport.coveredAddresses=new Set<number>();
+	}
+
+
+	/**
+	 * Adds covered addresses, e.g. from the 'coverage' event.
+	 */
+	public static addAddresses(addresses: Iterable<number>) {
+		for (const address of addresses)
+			CodeCoverageReport.coveredAddresses.add(address);
+	}
+
+
+	/**
+	 * Returns the addresses collected since 'clear'.
+	 */
+	public static getAddresses(): Set<number> {
+		return CodeCoverageReport.coveredAddresses;
+	}
+
+
+	/**
+	 * Writes the reports configured in 'codeCoverageReport'.
+	 * @param report The settings, i.e. Settings.launch.codeCoverageReport.
+	 * @param addresses The covered addresses.
+	 */
+	public static writeReports(report: CodeCoverageReportType, addresses: Set<number>) {
+		if (report.lcov)
+			CodeCoverageReport.writeFile(report.lcov, CodeCoverageReport.getLcov(addresses));
+		if (report.cobertura)
+			CodeCoverageReport.writeFile(report.cobertura, CodeCoverageReport.getCobertura(addresses, new Date()));
+	}
+
+
+	/**
+	 * Writes one report. The format depends on the file extension:
+	 * '.xml' for Cobertura XML, otherwise LCOV.
+	 * @param filePath The absolute path of the file.
+	 * @param addresses The covered addresses.
+	 */
+	public static writeReport(filePath: string, addresses: Set<number>) {
+		const text=(path.extname(filePath).toLowerCase()=='.xml') ? CodeCoverageReport.getCobertura(addresses, new Date()) : CodeCoverageReport.getLcov(addresses);
+		CodeCoverageReport.writeFile(filePath, text);
+	}
+
+
+	/**
+	 * Returns the LCOV tracefile ('genhtml' format).
+	 * @param addresses The covered addresses.
+	 * @returns The text.
+	 */
+	public static getLcov(addresses: Set<number>): string {
+		const lines=new Array<string>();
+		lines.push('TN:');
+		for (const [file, fileLines] of CodeCoverageReport.getFileLines(addresses)) {
+			lines.push('SF:'+file);
+			let hit=0;
+			for (const [lineNr, covered] of fileLines) {
+				lines.push('DA:'+(lineNr+1)+','+((covered) ? 1 : 0));
+				if (covered)
+					hit++;
+			}
+			lines.push('LF:'+fileLines.size);
+			lines.push('LH:'+hit);
+			lines.push('end_of_record');
+		}
+		return lines.join('\n')+'\n';
+	}
+
+
+	/**
+	 * Returns the Cobertura XML report.
+	 * Each directory is a 'package', each file a 'class'. The file names are
+	 * relative to the project folder.
+	 * @param addresses The covered addresses.
+	 * @param timestamp The time of the report.
+	 * @returns The XML text.
+	 */
+	public static getCobertura(addresses: Set<number>, timestamp: Date): string {
+		const fileLines=CodeCoverageReport.getFileLines(addresses);
+		const countHit=(lineMaps: Array<Map<number, boolean>>) => lineMaps.reduce((sum, m) => sum+Array.from(m.values()).filter(covered => covered).length, 0);
+		const countValid=(lineMaps: Array<Map<number, boolean>>) => lineMaps.reduce((sum, m) => sum+m.size, 0);
+		const getRate=(hit: number, valid: number) => ((valid>0) ? hit/valid : 1).toFixed(4);
+
+		// Group by directory
+		const packages=new Map<string, Array<string>>();
+		for (const file of fileLines.keys()) {
+			const dir=path.dirname(Utility.getRelFilePath(file));
+			let files=packages.get(dir);
+			if (!files) {
+				files=new Array<string>();
+				packages.set(dir, files);
+			}
+			files.push(file);
+		}
+
+		const allMaps=Array.from(fileLines.values());
+		const hitAll=countHit(allMaps);
+		const validAll=countValid(allMaps);
+		const lines=new Array<string>();
+		lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+		lines.push('<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">');
+		lines.push('<coverage line-rate="'+getRate(hitAll, validAll)+'" branch-rate="0" lines-covered="'+hitAll+'" lines-valid="'+validAll+'" branches-covered="0" branches-valid="0" complexity="0" version="DeZog" timestamp="'+timestamp.getTime()+'">');
+		lines.push('\t<sources>');
+		lines.push('\t\t<source>'+CodeCoverageReport.escapeXml(Utility.getAbsFilePath('.'))+'</source>');
+		lines.push('\t</sources>');
+		lines.push('\t<packages>');
+		for (const [dir, files] of packages) {
+			const maps=files.map(file => fileLines.get(file)!);
+			lines.push('\t\t<package name="'+CodeCoverageReport.escapeXml(dir)+'" line-rate="'+getRate(countHit(maps), countValid(maps))+'" branch-rate="0" complexity="0">');
+			lines.push('\t\t\t<classes>');
+			for (const file of files) {
+				const lineMap=fileLines.get(file)!;
+				const relFile=Utility.getRelFilePath(file);
+				lines.push('\t\t\t\t<class name="'+CodeCoverageReport.escapeXml(path.basename(relFile))+'" filename="'+CodeCoverageReport.escapeXml(relFile)+'" line-rate="'+getRate(countHit([lineMap]), lineMap.size)+'" branch-rate="0" complexity="0">');
+				lines.push('\t\t\t\t\t<methods/>');
+				lines.push('\t\t\t\t\t<lines>');
+				for (const [lineNr, covered] of lineMap)
+					lines.push('\t\t\t\t\t\t<line number="'+(lineNr+1)+'" hits="'+((covered) ? 1 : 0)+'" branch="false"/>');
+				lines.push('\t\t\t\t\t</lines>');
+				lines.push('\t\t\t\t</class>');
+			}
+			lines.push('\t\t\t</classes>');
+			lines.push('\t\t</package>');
+		}
+		lines.push('\t</packages>');
+		lines.push('</coverage>');
+		return lines.join('\n')+'\n';
+	}
+
+
+	/**
+	 * Returns all lines with an address and whether they are covered.
+	 * @param addresses The covered addresses.
+	 * @returns A map (sorted by file) with the absolute file path and a map
+	 * (sorted by line) of line number and covered flag.
+	 */
+	protected static getFileLines(addresses: Set<number>): Map<string, Map<number, boolean>> {
+		const fileLines=new Map<string, Map<number, boolean>>();
+		for (const address of Labels.getAllAddressesWithFileAndLine()) {
+			const entry=Labels.getFileAndLineForAddress(address);
+			if (!entry.fileName)
+				continue;
+			let lineMap=fileLines.get(entry.fileName);
+			if (!lineMap) {
+				lineMap=new Map<number, boolean>();
+				fileLines.set(entry.fileName, lineMap);
+			}
+			const covered=addresses.has(address);
+			lineMap.set(entry.lineNr, covered||(lineMap.get(entry.lineNr)==true));
+		}
+		// Sort
+		const sorted=new Map<string, Map<number, boolean>>();
+		for (const file of Array.from(fileLines.keys()).sort()) {
+			const lineMap=fileLines.get(file)!;
+			sorted.set(file, new Map(Array.from(lineMap).sort((a, b) => a[0]-b[0])));
+		}
+		return sorted;
+	}
+
+
+	/**
+	 * Escapes the special XML characters.
+	 */
+	protected static escapeXml(text: string): string {
+		return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+	}
+
+
+	/**
+	 * Writes a file. Creates the directory if not existing.
+	 */
+	protected static writeFile(filePath: string, text: string) {
+		fs.mkdirSync(path.dirname(filePath), {recursive: true});
+		fs.writeFileSync(filePath, text);
+	}
+}
@@ -5,7 +5,7 @@ import { /*Handles,*/ Breakpoint /*, OutputEvent*/, DebugSession, InitializedEve
 import {DebugProtocol} from 'vscode-debugprotocol/lib/debugProtocol';
 import {Labels} from './labels/labels';
 import {Log, LogSocket} from './log';
-import {RemoteBreakpoint} from './remotes/remotebase';
+import {RemoteBreakpoint, RemoteFeature} from './remotes/remotebase';
 import {MemoryDumpView} from './views/memorydumpview';
 import {MemoryRegisterView} from './views/memoryregisterview';
 import {RefList} from './misc/refList';
@@ -24,12 +24,15 @@ import {ShallowVar} from './variables/shallowvar';
 //import {SerialFake} from './remotes/zxnext/serialfake';
 import {ZxSimulationView} from './remotes/zxsimulator/zxsimulationview';
 import {ZSimRemote} from './remotes/zxsimulator/zsimremote';
+import {ZxAudio} from './remotes/zxsimulator/zxaudio';
+import {ZxNextCopper} from './remotes/zxsimulator/zxnextcopper';
 import {CpuHistoryClass, CpuHistory, StepHistory} from './remotes/cpuhistory';
 import {StepHistoryClass} from './remotes/stephistory';
 import {DisassemblyClass, Disassembly} from './misc/disassembly';
 import {TimeWait} from './misc/timewait';
 import {MemoryArray} from './misc/memoryarray';
 import {Z80UnitTests} from './z80unittests';
+import {CodeCoverageReport} from './codecoveragereport';
 
 
 
@@ -288,8 +291,18 @@ export class DebugSessionClass extends DebugSession {
 			// Clear decoration
 			Decoration?.clearAllButCodeCoverageDecorations();
 		}
-		else
+		else {
 			Decoration?.clearAllDecorations();
+			// Code coverage files (for unit tests written by Z80UnitTests)
+			if (Settings.launch?.codeCoverageReport) {
+				try {
+					CodeCoverageReport.writeReports(Settings.launch.codeCoverageReport, CodeCoverageReport.getAddresses());
+				}
+				catch (e) {
+					this.showError("Could not write the code coverage report: "+e.message);
+				}
+			}
+		}
 		DebugSessionClass.state=DbgAdaperState.NORMAL;
 		// Close register memory view
 		BaseView.staticCloseAll();
@@ -430,6 +443,7 @@ export class DebugSessionClass extends DebugSession {
 	 */
 	protected async launch(response: DebugProtocol.Response) {
 		DebugSessionClass.state=DbgAdaperState.NORMAL;
+		CodeCoverageReport.clear();
 		// Setup the disassembler
 		DisassemblyClass.createDisassemblyInstance();
 
@@ -485,7 +499,13 @@ export class DebugSessionClass extends DebugSession {
 		CpuHistoryClass.setCpuHistory(undefined);
 
 		// Create the Remote
-		RemoteFactory.createRemote(Settings.launch.remoteType);
+		try {
+			RemoteFactory.createRemote(Settings.launch.remoteType);
+		}
+		catch (err) {
+			// E.g. a replay file with wrong format
+			return err.message;
+		}
 
 		// Check if a cpu history object has been created by the Remote.
 		if (!(CpuHistory as any)) {
@@ -513,6 +533,7 @@ export class DebugSessionClass extends DebugSession {
 
 		Remote.on('coverage', coveredAddresses => {
 			// coveredAddresses: Only diff of addresses since last step-command.
+			CodeCoverageReport.addAddresses(coveredAddresses);
 			this.delayedDecorations.push(() => {
 				// Covered addresses (since last break) have been sent
 				Decoration.showCodeCoverage(coveredAddresses);
@@ -1710,18 +1731,36 @@ export class DebugSessionClass extends DebugSession {
 		else if (cmd=='-dasm') {
 			return await this.evalDasm(tokens);
 		}
+		else if (cmd=='-interrupt') {
+			return await this.evalInterrupt(tokens);
+		}
+		else if (cmd=='-copper') {
+			return await this.evalCopper(tokens);
+		}
+		else if (cmd=='-nmi') {
+			return await this.evalNmi(tokens);
+		}
 		else if (cmd=='-patterns') {
 			return await this.evalSpritePatterns(tokens);
 		}
 		else if (cmd=='-WPMEM'||cmd=='-wpmem') {
 			return await this.evalWPMEM(tokens);
 		}
+		else if (cmd=='-reset') {
+			return await this.evalReset(tokens);
+		}
 		else if (cmd=='-sprites') {
 			return await this.evalSprites(tokens);
 		}
 		else if (cmd=='-state') {
 			return await this.evalStateSaveRestore(tokens);
 		}
+		else if (cmd=='-snapshot') {
+			return await this.evalSnapshot(tokens);
+		}
+		else if (cmd=='-wav') {
+			return await this.evalWav(tokens);
+		}
 		// Debug commands
 		else if (cmd=='-dbg') {
 			return await this.evalDebug(tokens);
@@ -1874,17 +1913,20 @@ export class DebugSessionClass extends DebugSession {
 "-ASSERT enable|disable|status":
 	- enable|disable: Enables/disables all breakpoints caused by ASSERTs set in the sources. All ASSERTs are by default enabled after startup of the debugger.
 	- status: Shows enable status of ASSERT breakpoints.
+"-copper [index [count]]": zsim only: Disassembles the ZX Next copper list. Without parameters the list is shown up to its last instruction. The next executed instruction is marked with '>'.
 "-dasm address count": Disassembles a memory area. count=number of lines.
 "-eval expr": Evaluates an expression. The expression might contain
 mathematical expressions and also labels. It will also return the label if
 the value correspondends to a label.
 "-exec|e [-view] cmd args": cmd and args are directly passed to ZEsarUX. E.g. "-exec get-registers". If you add "-view" the output will go into a new view instead of the console.
 "-help|h": This command. Do "-e help" to get all possible ZEsarUX commands.
+"-interrupt [data]": zsim only: Generates a maskable interrupt. 'data' is the value on the data bus (default 0xFF), used in IM 2 as low byte of the vector address and in IM 0 as instruction. The interrupt is ignored if interrupts are disabled.
 "-label|-l XXX": Returns the matching labels (XXX) with their values. Allows wildcard "*".
 "-LOGPOINT enable|disable|status [group]":
 	- enable|disable: Enables/disables all logpoints caused by LOGPOINTs of a certain group set in the sources. If no group is given all logpoints are affected. All logpoints are by default disabled after startup of the debugger.
 	- status: Shows enable status of LOGPOINTs per group.
 "-md address size [address_n size_n]*": Memory Dump at 'address' with 'size' bytes. Will open a new view to display the memory dump.
+"-nmi": zsim only: Generates a non maskable interrupt, i.e. the CPU continues at 0x0066.
 "-patterns [index[+count|-endindex] [...]": Shows the tbblue sprite patterns beginning at 'index' until 'endindex' or a number of 'count' indices. The values can be omitted. 'index' defaults to 0 and 'count' to 1.
 Without any parameter it will show all sprite patterns.
 You can concat several ranges.
@@ -1892,10 +1934,13 @@ Example: "-patterns 10-15 20+3 33" will show sprite patterns at index 10, 11, 12
 "-WPMEM enable|disable|status":
 	- enable|disable: Enables/disables all WPMEM set in the sources. All WPMEM are by default enabled after startup of the debugger.
 	- status: Shows enable status of WPMEM watchpoints.
+"-reset [soft|hard]": zsim only: Resets the machine. 'soft' (default) resets the CPU and the memory paging like the reset button. 'hard' additionally clears the RAM (power cycle).
 "-sprites [slot[+count|-endslot] [...]": Shows the tbblue sprite registers beginning at 'slot' until 'endslot' or a number of 'count' slots. The values can be omitted. 'slot' defaults to 0 and 'count' to 1. You can concat several ranges.
 Example: "-sprite 10-15 20+3 33" will show sprite slots 10, 11, 12, 13, 14, 15, 20, 21, 22, 33.
 Without any parameter it will show all visible sprites automatically.
+"-snapshot save file": Saves the memory and the registers as .z80 or .szx snapshot file (zsim, ZX Next, CSpect).
 "-state save|restore|list|clear|clearall [statename]": Saves/restores the current state. I.e. the complete RAM + the registers.
+"-wav file [seconds]": zsim only: Exports the last seconds (default 10) of the simulated audio (beeper, AY) to a WAV file.
 
 Examples:
 "-exec h 0 100": Does a hexdump of 100 bytes at address 0.
@@ -1903,9 +1948,13 @@ Examples:
 "-e gr": Shows all registers.
 "-eval 2+3*5": Results to "17".
 "-md 0 10": Shows the memory at address 0 to address 9.
+"-interrupt 0xFE": Generates an interrupt with 0xFE on the data bus. In IM 2 the vector is read from address I*256+0xFE.
+"-reset hard": Power cycles the machine.
 "-sprites": Shows all visible sprites.
+"-snapshot save game.z80": Saves the current memory and registers to 'game.z80'.
 "-state save 1": Stores the current state as 'into' 1.
 "-state restore 1": Restores the state 'from' 1.
+"-wav sound.wav 5": Writes the last 5 seconds of audio to 'sound.wav'.
 
 Notes:
 "-exec run" will not work at the moment and leads to a disconnect.
@@ -2182,6 +2231,8 @@ Notes:
 	 */
 	protected async evalWPMEM(tokens: Array<string>): Promise<string> {
 		const param=tokens[0]||'';
+		if (!Remote.supportsFeature(RemoteFeature.WATCHPOINTS))
+			throw new Error("WPMEM: The remote does not support watchpoints.");
 		if (param=='enable'||param=='disable') {
 			// Enable or disable all WPMEM watchpoints
 			const enable=(param=='enable');
@@ -2219,6 +2270,8 @@ Notes:
  	 * @returns A Promise<string> with a text to print.
 	 */
 	protected async evalSpritePatterns(tokens: Array<string>): Promise<string> {
+		if (!Remote.supportsFeature(RemoteFeature.SPRITES))
+			throw new Error("The remote does not support sprites.");
 		// Evaluate arguments
 		let title;
 		let params: Array<number>|undefined=[];
@@ -2291,6 +2344,8 @@ Notes:
  	 * @returns A Promise<string> with a text to print.
 	 */
 	protected async evalSprites(tokens: Array<string>): Promise<string> {
+		if (!Remote.supportsFeature(RemoteFeature.SPRITES))
+			throw new Error("The remote does not support sprites.");
 		// First check for tbblue
 		// Evaluate arguments
 		let title;
@@ -2368,6 +2423,8 @@ Notes:
 		if (!stateName&&
 			(param=='save'||param=='restore'||param=='clear'))
 			throw new Error("Parameter missing: You need to add a name for the state, e.g. '0', '1' or more descriptive 'start'");
+		if ((param=='save'||param=='restore')&&!Remote.supportsFeature(RemoteFeature.STATE_SAVE))
+			throw new Error("The remote does not support saving and restoring the state.");
 
 		if (param=='save') {
 			// Save current state
@@ -2431,6 +2488,125 @@ Notes:
 	}
 
 
+	/**
+	 * Saves a snapshot file.
+	 * @param tokens The arguments. I.e. 'save' and the file name.
+	 * @returns A Promise<string> with a text to print.
+	 */
+	protected async evalSnapshot(tokens: Array<string>): Promise<string> {
+		const param=tokens[0]||'';
+		if (param!='save')
+			throw new Error("Unknown argument: '"+param+"'");
+		const fileName=tokens[1];
+		if (!fileName)
+			throw new Error("Parameter missing: You need to add a file name, e.g. 'game.z80' or 'game.szx'.");
+		const path=Utility.getAbsFilePath(fileName);
+		await Remote.snapshotSave(path);
+		return "Saved snapshot to '"+path+"'.";
+	}
+
+
+	/**
+	 * Exports the last seconds of the zsim audio to a WAV file.
+	 * @param tokens The arguments. I.e. the file name and optionally the seconds.
+	 * @returns A Promise<string> with a text to print.
+	 */
+	protected async evalWav(tokens: Array<string>): Promise<string> {
+		const fileName=tokens[0];
+		if (!fileName)
+			throw new Error("Parameter missing: You need to add a file name, e.g. 'sound.wav'.");
+		let seconds=10;
+		if (tokens[1]!=undefined) {
+			seconds=parseFloat(tokens[1]);
+			if (isNaN(seconds)||seconds<=0)
+				throw new Error("Expected a positive number of seconds: '"+tokens[1]+"'.");
+		}
+		const audio=(Remote instanceof ZSimRemote)? Remote.audio:undefined;
+		if (!audio)
+			throw new Error("Audio is only available with remoteType 'zsim' and 'zsim.audio' enabled.");
+
+		// Write file
+		const samples=audio.getLastSamples(seconds);
+		const path=Utility.getAbsFilePath(fileName);
+		fs.writeFileSync(path, ZxAudio.createWav(samples, audio.sampleRate));
+		return "Exported "+(samples.length/audio.sampleRate).toFixed(2)+" seconds to '"+path+"'.";
+	}
+
+
+	/**
+	 * Generates a non maskable interrupt.
+	 * @param tokens No arguments.
+	 * @returns A Promise<string> with a text to print.
+	 */
+	protected async evalNmi(tokens: Array<string>): Promise<string> {
+		await Remote.generateNmi();
+		return "NMI generated.";
+	}
+
+
+	/**
+	 * Generates a one-shot maskable interrupt.
+	 * @param tokens The arguments. I.e. optionally the value on the data bus.
+	 * @returns A Promise<string> with a text to print.
+	 */
+	protected async evalInterrupt(tokens: Array<string>): Promise<string> {
+		let data=0xFF;
+		if (tokens[0]!=undefined) {
+			data=Utility.evalExpression(tokens[0]);
+			if (data<0||data>0xFF)
+				throw new Error("Expected a byte value for the data bus: '"+tokens[0]+"'.");
+		}
+		const accepted=await Remote.generateInterrupt(data);
+		if (!accepted)
+			return "Interrupts are disabled (IFF1=0). The interrupt was not accepted.";
+		return "Interrupt generated (data bus="+Utility.getHexString(data, 2)+"h).";
+	}
+
+
+	/**
+	 * Resets the machine.
+	 * @param tokens The arguments. I.e. 'soft' (default) or 'hard'.
+	 * @returns A Promise<string> with a text to print.
+	 */
+	protected async evalReset(tokens: Array<string>): Promise<string> {
+		const param=tokens[0]||'soft';
+		if (param!='soft'&&param!='hard')
+			throw new Error("Unknown argument: '"+param+"'");
+		const hard=(param=='hard');
+		await Remote.resetMachine(hard);
+		return (hard)? "Hard reset done.":"Soft reset done.";
+	}
+
+
+	/**
+	 * Disassembles the copper list of the ZX Next (zsim only).
+	 * @param tokens The arguments: start index and count.
+ 	 * @returns A Promise<string> with a text to print.
+	 */
+	protected async evalCopper(tokens: Array<string>): Promise<string> {
+		const copper=(Remote instanceof ZSimRemote)? Remote.copper:undefined;
+		if (!copper)
+			throw new Error("The copper is only available with remoteType 'zsim' and 'zsim.tbblueMemoryManagementSlots' enabled.");
+		let start=0;
+		let count=ZxNextCopper.INSTRUCTION_COUNT;
+		if (tokens[0]!=undefined) {
+			start=Utility.evalExpression(tokens[0]);
+			if (start<0||start>=ZxNextCopper.INSTRUCTION_COUNT)
+				throw new Error("Index out of range (0-1023): '"+tokens[0]+"'.");
+			if (tokens[1]!=undefined)
+				count=Utility.evalExpression(tokens[1]);
+		}
+		const modes=['stopped', 'running (start at 0)', 'running (continue)', 'running (restart each frame)'];
+		const lines=copper.disassembleList(start, count);
+		let output="Copper: "+modes[copper.control]+", next instruction: "+Utility.getHexString(copper.pc, 3)+"h";
+		if (lines.length==0)
+			output+="\nThe copper list is empty.";
+		else
+			output+="\n"+lines.join("\n");
+		return output;
+	}
+
+
 	/**
 	 * Debug commands. Not shown publicly.
 	 * @param tokens The arguments.
@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import { WorkspaceFolder, DebugConfiguration, ProviderResult, CancellationToken } from 'vscode';
 import { DebugSessionClass } from './debugadapter';
 import { Z80UnitTests } from './z80unittests';
+import {Z80UnitTestController} from './z80unittestcontroller';
+import {CodeCoverageReport} from './codecoveragereport';
 import * as Net from 'net';
 import { DecorationClass, Decoration } from './decoration';
 import { LogSocket, Log } from './log';
@@ -78,6 +80,30 @@ export function activate(context: vscode.ExtensionContext) {
 		Decoration?.clearAllDecorations();
 	}));
 
+	// Unit tests in the Test Explorer
+	Z80UnitTestController.init(context);
+
+	// Command to write the code coverage of the current or last debug session or unit test run.
+	context.subscriptions.push(vscode.commands.registerCommand('dezog.exportCodeCoverage', async () => {
+		const addresses=CodeCoverageReport.getAddresses();
+		if (addresses.size==0) {
+			vscode.window.showInformationMessage("No code coverage available. Please enable 'codeCoverageEnabled' and start a debug session or run the unit tests.");
+			return;
+		}
+		const uri=await vscode.window.showSaveDialog({
+			filters: {'LCOV': ['info'], 'Cobertura XML': ['xml']},
+			saveLabel: 'Export'
+		});
+		if (!uri)
+			return;
+		try {
+			CodeCoverageReport.writeReport(uri.fsPath, addresses);
+		}
+		catch (e) {
+			vscode.window.showErrorMessage("Could not write the code coverage report: "+e.message);
+		}
+	}));
+
 	// Command to execute all unit tests
 	context.subscriptions.push(vscode.commands.registerCommand('dezog.runAllUnitTests', () => {
 		Z80UnitTests.runAllUnitTests();
@@ -132,6 +158,16 @@ export function activate(context: vscode.ExtensionContext) {
 		Z80UnitTests.debugPartialUnitTests();
 	}));
 
+	// Command to show the unit tests that cover the current line.
+	context.subscriptions.push(vscode.commands.registerCommand('dezog.showUnitTestsForLine', () => {
+		return Z80UnitTests.cmdShowTestCasesForLine();
+	}));
+
+	// Command to list the lines not covered by any unit test.
+	context.subscriptions.push(vscode.commands.registerCommand('dezog.showLinesNotCoveredByUnitTests', () => {
+		Z80UnitTests.cmdShowUncoveredLines();
+	}));
+
 	// Command to cancel the unit tests. E.g. during debugging of one unit test.
 	context.subscriptions.push(vscode.commands.registerCommand('dezog.cancelUnitTests', () => {
 		return Z80UnitTests.cmdCancelAllUnitTests();
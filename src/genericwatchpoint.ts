@@ -24,3 +24,26 @@ export interface GenericBreakpoint {
 	log?: string;	///< If set the log will be printed instead of stopping execution.
 }
 
+
+
+/**
+ * Represents a mocked subroutine for the unit tests (UNITTEST_MOCK).
+ * If the PC reaches the address of the subroutine the remote does not
+ * execute it but sets the registers and returns immediately.
+ */
+export interface GenericMock {
+	lineAddress: number;	///< The address of the UNITTEST_MOCK line. Associates the mock with its test case.
+	label: string;	///< The mocked subroutine as written in the source, e.g. "read_port"
+	address: number;	///< The address of the subroutine
+	registers: Array<{name: string, value: number}>;	///< The registers to set on return, e.g. {name: 'A', value: 5}
+	expectedCalls?: number;	///< If set the test case fails if the subroutine is called a different number of times
+}
+
+
+/**
+ * Represents the maximum number of T-states of a unit test case (UNITTEST_TSTATES).
+ */
+export interface GenericTstatesBudget {
+	lineAddress: number;	///< The address of the UNITTEST_TSTATES line. Associates the budget with its test case.
+	maxTstates: number;	///< The test case fails if it takes more T-states
+}
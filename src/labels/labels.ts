@@ -891,6 +891,16 @@ export class LabelsClass {
 	}
 
 
+	/**
+	 * Returns all addresses that are associated with a file and line number.
+	 * Use getFileAndLineForAddress to get the file and line.
+	 * @returns An array with addresses, unsorted.
+	 */
+	public getAllAddressesWithFileAndLine(): Array<number> {
+		return Array.from(this.fileLineNrs.keys());
+	}
+
+
 	/**
 	 * Returns the memory address associated with a certain file and line number.
 	 * @param fileName The path to the file. Can be an absolute path.
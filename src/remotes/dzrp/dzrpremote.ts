@@ -1,10 +1,13 @@
 import * as fs from 'fs';
-import {RemoteBase, RemoteBreakpoint, BREAK_REASON_NUMBER, MemoryBank} from '../remotebase';
+import {RemoteBase, RemoteBreakpoint, BREAK_REASON_NUMBER, MemoryBank, RemoteFeature, REMOTE_FEATURE_NAMES} from '../remotebase';
 import {GenericWatchpoint, GenericBreakpoint} from '../../genericwatchpoint';
 import {Z80RegistersClass, Z80_REG, Z80Registers} from '../z80registers';
 import {MemBank16k} from './membank16k';
 import {SnaFile} from './snafile';
 import {NexFile} from './nexfile';
+import {SnapshotFile} from './snapshotfile';
+import {Z80File} from './z80file';
+import {SzxFile} from './szxfile';
 import {Settings} from '../../settings';
 import {Utility} from '../../misc/utility';
 import * as path from 'path';
@@ -18,7 +21,11 @@ import {Log} from '../../log';
 
 
 // The current implemented version of the protocol.
-export const DZRP_VERSION=[1, 6, 0];
+export const DZRP_VERSION=[1, 7, 0];
+
+// The oldest minor version (of the same major version) that is still accepted.
+// Remotes with a lower version do not transmit their capabilities.
+export const DZRP_MIN_MINOR_VERSION=6;
 
 // The program name and version transmitted during CMD_INIT.
 export const DZRP_PROGRAM_NAME="DeZog v"+process.version;
@@ -66,6 +73,20 @@ export enum DZRP {
 	CMD_WRITE_STATE=51,
 };
 
+/**
+ * The capabilities of a remote as transmitted in the CMD_INIT response
+ * (since DZRP 1.7.0).
+ */
+export interface DzrpCapabilities {
+	// The commands supported by the remote.
+	commands: Set<DZRP>,
+	// The supported features. Bit n corresponds to RemoteFeature n.
+	features: number,
+	// The maximum length of a message the remote can receive. 0 = no limit.
+	maxMessageSize: number
+}
+
+
 /**
  * DZRP notifications.
  */
@@ -123,6 +144,11 @@ export class DzrpRemote extends RemoteBase {
 	// the tmpBreakpoints are updated.
 	protected tmpBreakpoints=new Map<number,Array<GenericBreakpoint>>();
 
+	// The capabilities received with CMD_INIT.
+	// Undefined if the remote does not transmit them. In that case all
+	// features are assumed to be supported.
+	protected capabilities: DzrpCapabilities|undefined;
+
 
 	/// Constructor.
 	/// Override this.
@@ -151,6 +177,7 @@ export class DzrpRemote extends RemoteBase {
 			const resp=await this.sendDzrpCmdInit();
 			if (resp.error)
 				throw Error(resp.error);
+			this.capabilities=resp.capabilities;
 
 			// Load sna or nex file
 			const loadPath=Settings.launch.load;
@@ -182,7 +209,10 @@ export class DzrpRemote extends RemoteBase {
 			await this.getRegisters();
 
 			// Ready
-			const text="'"+resp.programName+"' initialized.";
+			let text="'"+resp.programName+"' initialized.";
+			const unsupported=this.getUnsupportedFeatureNames();
+			if (unsupported.length>0)
+				text+="\nNot supported by the remote: "+unsupported.join(', ')+".";
 			this.emit('initialized', text)
 		}
 		catch (err) {
@@ -202,6 +232,19 @@ export class DzrpRemote extends RemoteBase {
 	}
 
 
+	/**
+	 * Returns if the remote supports a feature.
+	 * Evaluates the capabilities received with CMD_INIT.
+	 * @param feature E.g. RemoteFeature.SPRITES
+	 * @returns true if supported.
+	 */
+	public supportsFeature(feature: RemoteFeature): boolean {
+		if (!this.capabilities)
+			return true;
+		return (this.capabilities.features&(1<<feature))!=0;
+	}
+
+
 	/**
 	* If cache is empty retrieves the registers from
 	* the Remote.
@@ -234,6 +277,12 @@ export class DzrpRemote extends RemoteBase {
 		if (cmd_name=="cmd_init") {
 			const resp=await this.sendDzrpCmdInit();
 			response="Program: '" +resp.programName+"', DZRP Version: "+resp.dzrpVersion+", Error: "+resp.error;
+			const caps=resp.capabilities;
+			if (caps) {
+				response+="\nCommands: "+[...caps.commands].map(cmd => DZRP[cmd]).join(', ');
+				response+="\nFeatures: "+REMOTE_FEATURE_NAMES.filter((name, feature) => (caps.features&(1<<feature))!=0).join(', ');
+				response+="\nMax. message size: "+caps.maxMessageSize;
+			}
 		}
 		else if (cmd_name=="cmd_continue") {
 			await this.sendDzrpCmdContinue();
@@ -333,14 +382,42 @@ export class DzrpRemote extends RemoteBase {
 			for (let i=0; i<palette.length; i++)
 				response+=Utility.getHexString(palette[i], 3)+" ";
 		}
-		// TODO: Add missing ones: CMD_SET_BREAKPOINTS, CMD_RESTORE_MEM
 		else if (cmd_name=="cmd_get_sprites_clip_window_and_control") {
 			const clip=await this.sendDzrpCmdGetSpritesClipWindow();
 			response+="xl="+clip.xl+", xr="+clip.xr+", yt="+clip.yt+", yb="+clip.yb+", control="+Utility.getBitsString(clip.control, 8);
 		}
+		else if (cmd_name=="cmd_loopback") {
+			if (cmdArray.length<1) {
+				// Error
+				return "Expecting at least 1 parameter: the data bytes.";
+			}
+			const data=Buffer.from(cmdArray.map(value => Utility.parseValue(value)&0xFF));
+			const recData=await this.sendDzrpCmdLoopback(data);
+			response=(recData.equals(data))? "OK":"Received data differs: "+[...recData].map(value => Utility.getHexString(value, 2)+"h").join(' ');
+		}
 		else if (cmd_name=="cmd_set_breakpoints") {
+			if (cmdArray.length<1) {
+				// Error
+				return "Expecting at least 1 parameter: the breakpoint addresses.";
+			}
+			const bpAddresses=cmdArray.map(value => Utility.parseValue(value)&0xFFFF);
+			const opcodes=await this.sendDzrpCmdSetBreakpoints(bpAddresses);
+			// Print
+			for (let i=0; i<bpAddresses.length; i++)
+				response+="\n"+Utility.getHexString(bpAddresses[i], 4)+"h: "+Utility.getHexString(opcodes[i], 2)+"h";
 		}
 		else if (cmd_name=="cmd_restore_mem") {
+			if (cmdArray.length<2||cmdArray.length%2!=0) {
+				// Error
+				return "Expecting pairs of parameters: address and value.";
+			}
+			const elems=new Array<{address: number, value: number}>();
+			for (let i=0; i<cmdArray.length; i+=2) {
+				const address=Utility.parseValue(cmdArray[i])&0xFFFF;
+				const value=Utility.parseValue(cmdArray[i+1])&0xFF;
+				elems.push({address, value});
+			}
+			await this.sendDzrpCmdRestoreMem(elems);
 		}
 
 		/*
@@ -1105,18 +1182,28 @@ export class DzrpRemote extends RemoteBase {
 
 
 	/**
-	 * Loads .nex or .sna files.
+	 * Loads .nex, .sna, .z80 or .szx files.
 	 */
 	protected async loadBin(filePath: string): Promise<void> {
 		// Check file extension
-		const ext=path.extname(filePath);
+		const ext=path.extname(filePath).toLowerCase();
 		if (ext=='.sna')
 			await this.loadBinSna(filePath);
 		else if (ext=='.nex')
 			await this.loadBinNex(filePath);
+		else if (ext=='.z80') {
+			const z80File=new Z80File();
+			z80File.readFile(filePath);
+			await this.loadBinSnapshot(z80File);
+		}
+		else if (ext=='.szx') {
+			const szxFile=new SzxFile();
+			szxFile.readFile(filePath);
+			await this.loadBinSnapshot(szxFile);
+		}
 		else {
 			// Error: neither sna nor nex file
-			throw Error("File extension not supported in '"+filePath+"' with remoteType:'"+Settings.launch.remoteType+"'. Can only load .sna and .nex files.");
+			throw Error("File extension not supported in '"+filePath+"' with remoteType:'"+Settings.launch.remoteType+"'. Can only load .sna, .z80, .szx and .nex files.");
 		}
 		// Make sure that the registers are reloaded
 		Z80Registers.clearCache();
@@ -1150,12 +1237,22 @@ export class DzrpRemote extends RemoteBase {
 		// Load and parse file
 		const snaFile=new SnaFile();
 		snaFile.readFile(filePath);
+		await this.loadBinSnapshot(snaFile);
+	}
+
 
+	/**
+	 * Transfers a snapshot (.sna, .z80, .szx) to the remote.
+	 * I.e. the memory banks, the slots and the registers.
+	 * For a 128K snapshot the bank given by port 0x7FFD is paged in at 0xC000.
+	 * @param snapshot The parsed snapshot file.
+	 */
+	protected async loadBinSnapshot(snapshot: SnapshotFile): Promise<void> {
 		// Set the border
-		await this.sendDzrpCmdSetBorder(snaFile.borderColor);
+		await this.sendDzrpCmdSetBorder(snapshot.borderColor);
 
 		// Transfer 16k memory banks
-		for (const memBank of snaFile.memBanks) {
+		for (const memBank of snapshot.memBanks) {
 			// As 2x 8k memory banks
 			const bank8=2*memBank.bank;
 			await this.sendDzrpCmdWriteBank(bank8, memBank.data.slice(0, MemBank16k.BANK16K_SIZE/2));
@@ -1164,27 +1261,46 @@ export class DzrpRemote extends RemoteBase {
 
 		// Set the default slot/bank association
 		const slotBanks=[254, 255, 10, 11, 4, 5, 0, 1];	// 5, 2, 0
+		if (snapshot.port7ffd!=undefined) {
+			const bank8=2*(snapshot.port7ffd&0x07);
+			slotBanks[6]=bank8;
+			slotBanks[7]=bank8+1;
+		}
 		for (let slot=0; slot<8; slot++) {
 			const bank8=slotBanks[slot];
 			await this.sendDzrpCmdSetSlot(slot, bank8);
 		}
 
 		// Set the registers
-		await this.sendDzrpCmdSetRegister(Z80_REG.PC, snaFile.pc);
-		await this.sendDzrpCmdSetRegister(Z80_REG.SP, snaFile.sp);
-		await this.sendDzrpCmdSetRegister(Z80_REG.AF, snaFile.af);
-		await this.sendDzrpCmdSetRegister(Z80_REG.BC, snaFile.bc);
-		await this.sendDzrpCmdSetRegister(Z80_REG.DE, snaFile.de);
-		await this.sendDzrpCmdSetRegister(Z80_REG.HL, snaFile.hl);
-		await this.sendDzrpCmdSetRegister(Z80_REG.IX, snaFile.ix);
-		await this.sendDzrpCmdSetRegister(Z80_REG.IY, snaFile.iy);
-		await this.sendDzrpCmdSetRegister(Z80_REG.AF2, snaFile.af2);
-		await this.sendDzrpCmdSetRegister(Z80_REG.BC2, snaFile.bc2);
-		await this.sendDzrpCmdSetRegister(Z80_REG.DE2, snaFile.de2);
-		await this.sendDzrpCmdSetRegister(Z80_REG.HL2, snaFile.hl2);
-		await this.sendDzrpCmdSetRegister(Z80_REG.R, snaFile.r);
-		await this.sendDzrpCmdSetRegister(Z80_REG.I, snaFile.i);
-		await this.sendDzrpCmdSetRegister(Z80_REG.IM, snaFile.im);
+		await this.sendDzrpCmdSetRegister(Z80_REG.PC, snapshot.pc);
+		await this.sendDzrpCmdSetRegister(Z80_REG.SP, snapshot.sp);
+		await this.sendDzrpCmdSetRegister(Z80_REG.AF, snapshot.af);
+		await this.sendDzrpCmdSetRegister(Z80_REG.BC, snapshot.bc);
+		await this.sendDzrpCmdSetRegister(Z80_REG.DE, snapshot.de);
+		await this.sendDzrpCmdSetRegister(Z80_REG.HL, snapshot.hl);
+		await this.sendDzrpCmdSetRegister(Z80_REG.IX, snapshot.ix);
+		await this.sendDzrpCmdSetRegister(Z80_REG.IY, snapshot.iy);
+		await this.sendDzrpCmdSetRegister(Z80_REG.AF2, snapshot.af2);
+		await this.sendDzrpCmdSetRegister(Z80_REG.BC2, snapshot.bc2);
+		await this.sendDzrpCmdSetRegister(Z80_REG.DE2, snapshot.de2);
+		await this.sendDzrpCmdSetRegister(Z80_REG.HL2, snapshot.hl2);
+		await this.sendDzrpCmdSetRegister(Z80_REG.R, snapshot.r);
+		await this.sendDzrpCmdSetRegister(Z80_REG.I, snapshot.i);
+		await this.sendDzrpCmdSetRegister(Z80_REG.IM, snapshot.im);
+
+		// Remote specific HW
+		await this.loadSnapshotHwState(snapshot);
+	}
+
+
+	/**
+	 * Sets the state of the HW that cannot be set through DZRP,
+	 * e.g. the interrupt flip-flops, port 0x7FFD (ROM, shadow screen)
+	 * or the AY registers.
+	 * Override.
+	 * @param snapshot The parsed snapshot file.
+	 */
+	protected async loadSnapshotHwState(snapshot: SnapshotFile): Promise<void> {
 	}
 
 
@@ -1238,6 +1354,112 @@ export class DzrpRemote extends RemoteBase {
 	}
 
 
+	/**
+	 * Called from "-snapshot save" command.
+	 * Saves memory and registers as .z80 or .szx file.
+	 * A 48K snapshot contains the banks 5, 2, 0 (as currently paged in),
+	 * a 128K snapshot all 8 banks. For the latter the banks are paged in
+	 * one after the other at 0xC000 to read them.
+	 * @param filePath The file path to store to. The extension
+	 * (.z80 or .szx) determines the format.
+	 */
+	public async snapshotSave(filePath: string): Promise<void> {
+		const ext=path.extname(filePath).toLowerCase();
+		let snapshot: Z80File|SzxFile;
+		if (ext=='.z80')
+			snapshot=new Z80File();
+		else if (ext=='.szx')
+			snapshot=new SzxFile();
+		else
+			throw Error("File extension not supported in '"+filePath+"'. Can only save .z80 and .szx files.");
+
+		// Registers
+		await this.getRegisters();
+		snapshot.pc=Z80Registers.getRegValue(Z80_REG.PC);
+		snapshot.sp=Z80Registers.getRegValue(Z80_REG.SP);
+		snapshot.af=Z80Registers.getRegValue(Z80_REG.AF);
+		snapshot.bc=Z80Registers.getRegValue(Z80_REG.BC);
+		snapshot.de=Z80Registers.getRegValue(Z80_REG.DE);
+		snapshot.hl=Z80Registers.getRegValue(Z80_REG.HL);
+		snapshot.ix=Z80Registers.getRegValue(Z80_REG.IX);
+		snapshot.iy=Z80Registers.getRegValue(Z80_REG.IY);
+		snapshot.af2=Z80Registers.getRegValue(Z80_REG.AF2);
+		snapshot.bc2=Z80Registers.getRegValue(Z80_REG.BC2);
+		snapshot.de2=Z80Registers.getRegValue(Z80_REG.DE2);
+		snapshot.hl2=Z80Registers.getRegValue(Z80_REG.HL2);
+		snapshot.r=Z80Registers.getRegValue(Z80_REG.R);
+		snapshot.i=Z80Registers.getRegValue(Z80_REG.I);
+		snapshot.im=Z80Registers.getRegValue(Z80_REG.IM);
+		const iff=await this.getInterruptFlipFlops();
+		if (iff) {
+			snapshot.iff1=iff.iff1;
+			snapshot.iff2=iff.iff2;
+		}
+		else {
+			// Not available: assume interrupts enabled and warn
+			snapshot.iff1=1;
+			snapshot.iff2=1;
+			this.emit('warning', "The interrupt state (IFF1/IFF2) cannot be read from the remote. The snapshot is saved with interrupts enabled.");
+		}
+
+		// Memory
+		const size=MemBank16k.BANK16K_SIZE;
+		const slots=await this.sendDzrpCmdGetSlots();
+		if (this.isSnapshot128k()) {
+			snapshot.port7ffd=((slots[6]>>>1)&0x07)|0b010000;	// ROM 1 (48K BASIC)
+			for (let bank=0; bank<8; bank++) {
+				await this.sendDzrpCmdSetSlot(6, 2*bank);
+				await this.sendDzrpCmdSetSlot(7, 2*bank+1);
+				snapshot.addMemBank(bank, await this.sendDzrpCmdReadMem(0xC000, size));
+			}
+			// Restore
+			await this.sendDzrpCmdSetSlot(6, slots[6]);
+			await this.sendDzrpCmdSetSlot(7, slots[7]);
+		}
+		else {
+			snapshot.addMemBank(5, await this.sendDzrpCmdReadMem(0x4000, size));
+			snapshot.addMemBank(2, await this.sendDzrpCmdReadMem(0x8000, size));
+			snapshot.addMemBank(0, await this.sendDzrpCmdReadMem(0xC000, size));
+		}
+
+		// Remote specific HW
+		await this.saveSnapshotHwState(snapshot);
+
+		// Write
+		snapshot.writeFile(filePath);
+	}
+
+
+	/**
+	 * Returns true if a 128K snapshot should be saved.
+	 * Override.
+	 */
+	protected isSnapshot128k(): boolean {
+		return true;
+	}
+
+
+	/**
+	 * Returns the interrupt flip-flops IFF1 and IFF2.
+	 * They cannot be read through DZRP.
+	 * Override.
+	 * @returns The flip-flops (0 or 1) or undefined if not available.
+	 */
+	protected async getInterruptFlipFlops(): Promise<{iff1: number, iff2: number}|undefined> {
+		return undefined;
+	}
+
+
+	/**
+	 * Adds the state of the HW that cannot be read through DZRP to the
+	 * snapshot, e.g. the border, port 0x7FFD or the AY registers.
+	 * Override.
+	 * @param snapshot The snapshot to fill.
+	 */
+	protected async saveSnapshotHwState(snapshot: SnapshotFile): Promise<void> {
+	}
+
+
 	/**
 	 * Called from "-state restore" command.
 	 * Restores all RAM + the registers from a former "-state save".
@@ -1325,11 +1547,12 @@ export class DzrpRemote extends RemoteBase {
 	/**
 	 * Override.
 	 * The first command send. Includes the version number.
-	 * @returns The error, program name (incl. version) and dzrp version.
+	 * @returns The error, program name (incl. version), dzrp version and
+	 * the capabilities (undefined if not transmitted by the remote).
 	 * error is 0 on success. 0xFF if version numbers not match.
 	 * Other numbers indicate an error on remote side.
 	 */
-	protected async sendDzrpCmdInit(): Promise<{error: string|undefined, programName: string, dzrpVersion: string}> {
+	protected async sendDzrpCmdInit(): Promise<{error: string|undefined, programName: string, dzrpVersion: string, capabilities?: DzrpCapabilities}> {
 		Utility.assert(false);
 		return {error: undefined, dzrpVersion: "", programName: ""};
 	}
@@ -1585,5 +1808,39 @@ export class DzrpRemote extends RemoteBase {
 		Utility.assert(false);
 	}
 
+
+	/**
+	 * Override.
+	 * Sends the command to set all breakpoints.
+	 * @param bpAddresses The breakpoint addresses. Each 0x0000-0xFFFF.
+	 * @returns A Promise with the memory contents from each breakpoint address.
+	 */
+	protected async sendDzrpCmdSetBreakpoints(bpAddresses: Array<number>): Promise<Array<number>> {
+		Utility.assert(false);
+		return [];
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the command to restore the memory for all breakpoints.
+	 * @param elems The addresses + memory content.
+	 */
+	protected async sendDzrpCmdRestoreMem(elems: Array<{address: number, value: number}>): Promise<void> {
+		Utility.assert(false);
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the loopback command. Used to test the connection.
+	 * @param data The data to send.
+	 * @returns A Promise with the received data. Should be the same as 'data'.
+ 	*/
+	public async sendDzrpCmdLoopback(data: Buffer): Promise<Buffer> {
+		Utility.assert(false);
+		return Buffer.alloc(0);
+	}
+
 }
 
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import {Utility} from '../../misc/utility';
 import {MemBank16k} from './membank16k';
+import {SnapshotFile} from './snapshotfile';
 
 
 
@@ -8,45 +9,11 @@ import {MemBank16k} from './membank16k';
  * A parser for the .sna file format.
  * Can read 48k sna and 128k sna file formats.
  */
-export class SnaFile {
-
-	// All read memory banks.
-	public memBanks: Array<MemBank16k>;
-
-	// The register values:
-	public i: number;
-	public hl2: number;
-	public de2: number;
-	public bc2: number;
-	public af2: number;
-	public hl: number;
-	public de: number;
-	public bc: number;
-	public iy: number;
-	public ix: number;
-	public iff2: number;
-	public r: number;
-	public af: number;
-	public sp: number;
-	public im: number;
-	public borderColor: number;
-
+export class SnaFile extends SnapshotFile {
 	// 128k sna
-	public pc: number;
-	public port7ffd: number; // Bits 0-2: RAM page(0-7) to map at 0xc000.
-							 // Bit 3: Select normal(0) or shadow(1) screen to be displayed. The normal screen is in bank 5, whilst the shadow screen is in bank 7.
-							 // Bit 4: ROM select
 	public trdosrom: number;
 
 
-	/**
-	 * Constructor.
-	 */
-	constructor() {
-		this.memBanks= new Array<MemBank16k>();
-	}
-
-
 	/**
 	 * Reads in the data from a .nex file.
 	 * @see https://www.worldofspectrum.org/faq/reference/formats.htm
@@ -68,7 +35,8 @@ export class SnaFile {
 		this.bc=Utility.getWord(snaBuffer, 13);
 		this.iy=Utility.getWord(snaBuffer, 15);
 		this.ix=Utility.getWord(snaBuffer, 17);
-		this.iff2=Utility.getWord(snaBuffer, 19);
+		this.iff2=(snaBuffer[19]&0x04)? 1:0;
+		this.iff1=this.iff2;
 		this.r=snaBuffer[20];
 		this.af=Utility.getWord(snaBuffer, 21);
 		this.sp=Utility.getWord(snaBuffer, 23);
@@ -0,0 +1,121 @@
+import {MemBank16k} from './membank16k';
+
+
+
+/**
+ * The common data of the snapshot file formats (.sna, .z80, .szx).
+ * Holds the registers, the memory banks and the state of the
+ * ZX 128K hardware.
+ * The memory banks use the 16k bank numbers of the ZX 128K. I.e. a
+ * 48K snapshot consists of the banks 5 (0x4000), 2 (0x8000) and
+ * 0 (0xC000).
+ */
+export class SnapshotFile {
+	// All read memory banks.
+	public memBanks: Array<MemBank16k>;
+
+	// The register values:
+	public i: number;
+	public hl2: number;
+	public de2: number;
+	public bc2: number;
+	public af2: number;
+	public hl: number;
+	public de: number;
+	public bc: number;
+	public iy: number;
+	public ix: number;
+	public iff1: number;
+	public iff2: number;
+	public r: number;
+	public af: number;
+	public sp: number;
+	public pc: number;
+	public im: number;
+	public borderColor: number;
+
+	// The value of port 0x7FFD. Undefined for a 48K snapshot.
+	// Bits 0-2: RAM page(0-7) to map at 0xc000.
+	// Bit 3: Select normal(0) or shadow(1) screen to be displayed. The normal screen is in bank 5, whilst the shadow screen is in bank 7.
+	// Bit 4: ROM select
+	public port7ffd: number|undefined;
+
+	// The value of port 0x1FFD of a ZX +2A/+3 snapshot. Undefined otherwise.
+	// Bit 0: Special paging mode, bits 1-2: memory configuration or ROM select (bit 2).
+	public port1ffd: number|undefined;
+
+	// The AY-3-8912 registers. Undefined if not available.
+	public ayRegisters: Uint8Array|undefined;
+
+	// The selected AY register (last write to port 0xFFFD).
+	public aySelectedRegister: number;
+
+
+	/**
+	 * Constructor.
+	 */
+	constructor() {
+		this.memBanks=new Array<MemBank16k>();
+		this.i=0;
+		this.hl2=0;
+		this.de2=0;
+		this.bc2=0;
+		this.af2=0;
+		this.hl=0;
+		this.de=0;
+		this.bc=0;
+		this.iy=0;
+		this.ix=0;
+		this.iff1=0;
+		this.iff2=0;
+		this.r=0;
+		this.af=0;
+		this.sp=0;
+		this.pc=0;
+		this.im=0;
+		this.borderColor=0;
+		this.aySelectedRegister=0;
+	}
+
+
+	/**
+	 * Returns true for a 128K snapshot.
+	 */
+	public is128k(): boolean {
+		return this.port7ffd!=undefined;
+	}
+
+
+	/**
+	 * Returns the memory bank.
+	 * @param bank The 16k bank number.
+	 * @returns The bank or undefined if not in the snapshot.
+	 */
+	public getMemBank(bank: number): MemBank16k|undefined {
+		return this.memBanks.find(memBank => memBank.bank==bank);
+	}
+
+
+	/**
+	 * Adds a memory bank.
+	 * @param bank The 16k bank number.
+	 * @param data The 16k of data.
+	 */
+	public addMemBank(bank: number, data: Uint8Array) {
+		const memBank=new MemBank16k();
+		memBank.bank=bank;
+		memBank.data.set(data);
+		this.memBanks.push(memBank);
+	}
+
+
+	/**
+	 * Returns the banks that are stored in a snapshot.
+	 * 5, 2, 0 for 48K, 0-7 for 128K.
+	 */
+	public getSnapshotBanks(): number[] {
+		if (this.is128k())
+			return [0, 1, 2, 3, 4, 5, 6, 7];
+		return [5, 2, 0];
+	}
+}
@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import {MemBank16k} from './membank16k';
+import {SnapshotFile} from './snapshotfile';
+
+
+
+/**
+ * A parser and writer for the .szx (zx-state) file format.
+ * Reads and writes the registers ('Z80R'), the ZX Spectrum ports
+ * ('SPCR'), the memory pages ('RAMP') and the AY-3-8912 state ('AY').
+ * Other blocks are skipped.
+ * @see https://www.spectaculator.com/docs/zx-state/intro.shtml
+ */
+export class SzxFile extends SnapshotFile {
+	// The machine IDs written.
+	protected static MACHINE_48K=1;
+	protected static MACHINE_128K=2;
+	protected static MACHINE_PLUS3=5;
+
+	// The machine IDs of 48K machines (16K, 48K, TC2048, 48K NTSC).
+	protected static MACHINES_48K=[0, 1, 8, 15];
+
+	// The machine IDs of 128K machines (128K, +2, Pentagon 128, 128Ke).
+	protected static MACHINES_128K=[2, 3, 7, 16];
+
+	// The machine IDs of machines with port 0x1FFD (+2A, +3, +3e).
+	protected static MACHINES_PLUS3=[4, 5, 6];
+
+	// The machine ID of the read file.
+	public machineId: number;
+
+
+	/**
+	 * Reads in the data from a .szx file.
+	 * @param path The file path.
+	 */
+	public readFile(path: string) {
+		const buffer=fs.readFileSync(path);
+		this.readBuffer(buffer);
+	}
+
+
+	/**
+	 * Reads in the data from the contents of a .szx file.
+	 * @param buffer The file contents.
+	 */
+	public readBuffer(buffer: Buffer) {
+		if (buffer.length<8||buffer.toString('ascii', 0, 4)!='ZXST')
+			throw Error("Szx file: Wrong signature.");
+		this.machineId=buffer[6];
+		const plus3=SzxFile.MACHINES_PLUS3.includes(this.machineId);
+		const is128k=plus3||SzxFile.MACHINES_128K.includes(this.machineId);
+		if (!is128k&&!SzxFile.MACHINES_48K.includes(this.machineId))
+			throw Error("Szx file: Machine "+this.machineId+" not supported.");
+		if (is128k)
+			this.port7ffd=0;
+		if (plus3)
+			this.port1ffd=0;
+
+		// Blocks
+		let index=8;
+		while (index<buffer.length) {
+			if (index+8>buffer.length)
+				throw Error("Szx file: Block header expected at offset "+index+".");
+			const id=buffer.toString('ascii', index, index+4);
+			const size=buffer.readUInt32LE(index+4);
+			index+=8;
+			const block=buffer.slice(index, index+size);
+			if (block.length<size)
+				throw Error("Szx file: Block '"+id+"' exceeds the file size.");
+			index+=size;
+			switch (id) {
+				case 'Z80R':
+					this.readRegisters(block);
+					break;
+				case 'SPCR':
+					this.borderColor=block[0]&0x07;
+					if (is128k)
+						this.port7ffd=block[1];
+					if (plus3)
+						this.port1ffd=block[2];
+					break;
+				case 'RAMP':
+					{
+						const flags=block.readUInt16LE(0);
+						const page=block[2];
+						let data: Uint8Array=block.slice(3);
+						if (flags&0x01)
+							data=zlib.inflateSync(data);
+						if (data.length!=MemBank16k.BANK16K_SIZE)
+							throw Error("Szx file: Wrong size of memory page "+page+".");
+						this.addMemBank(page, data);
+					}
+					break;
+				case 'AY\0\0':
+					this.aySelectedRegister=block[1]&0x0F;
+					this.ayRegisters=new Uint8Array(block.slice(2, 2+16));
+					break;
+			}
+		}
+	}
+
+
+	/**
+	 * Reads the 'Z80R' block.
+	 */
+	protected readRegisters(block: Buffer) {
+		this.af=block.readUInt16LE(0);
+		this.bc=block.readUInt16LE(2);
+		this.de=block.readUInt16LE(4);
+		this.hl=block.readUInt16LE(6);
+		this.af2=block.readUInt16LE(8);
+		this.bc2=block.readUInt16LE(10);
+		this.de2=block.readUInt16LE(12);
+		this.hl2=block.readUInt16LE(14);
+		this.ix=block.readUInt16LE(16);
+		this.iy=block.readUInt16LE(18);
+		this.sp=block.readUInt16LE(20);
+		this.pc=block.readUInt16LE(22);
+		this.i=block[24];
+		this.r=block[25];
+		this.iff1=block[26];
+		this.iff2=block[27];
+		this.im=block[28];
+	}
+
+
+	/**
+	 * Writes the snapshot to a .szx file.
+	 * @param path The file path.
+	 */
+	public writeFile(path: string) {
+		fs.writeFileSync(path, this.createBuffer());
+	}
+
+
+	/**
+	 * Creates the contents of a .szx file.
+	 */
+	public createBuffer(): Buffer {
+		const is128k=this.is128k();
+		const header=Buffer.alloc(8);
+		header.write('ZXST', 0, 'ascii');
+		header[4]=1;	// Version 1.4
+		header[5]=4;
+		const plus3=is128k&&this.port1ffd!=undefined;
+		header[6]=(plus3)? SzxFile.MACHINE_PLUS3:(is128k)? SzxFile.MACHINE_128K:SzxFile.MACHINE_48K;
+		const buffers=[header];
+
+		// Registers
+		const regs=Buffer.alloc(37);
+		const words=[this.af, this.bc, this.de, this.hl, this.af2, this.bc2, this.de2, this.hl2, this.ix, this.iy, this.sp, this.pc];
+		words.forEach((value, i) => regs.writeUInt16LE(value, 2*i));
+		regs[24]=this.i;
+		regs[25]=this.r;
+		regs[26]=this.iff1;
+		regs[27]=this.iff2;
+		regs[28]=this.im;
+		buffers.push(SzxFile.createBlock('Z80R', regs));
+
+		// Ports
+		const spcr=Buffer.alloc(8);
+		spcr[0]=this.borderColor;
+		spcr[1]=this.port7ffd??0;
+		spcr[2]=this.port1ffd??0;
+		spcr[3]=this.borderColor;	// Last write to 0xFE
+		buffers.push(SzxFile.createBlock('SPCR', spcr));
+
+		// AY
+		if (this.ayRegisters) {
+			const ay=Buffer.alloc(18);
+			ay[1]=this.aySelectedRegister;
+			ay.set(this.ayRegisters.slice(0, 16), 2);
+			buffers.push(SzxFile.createBlock('AY\0\0', ay));
+		}
+
+		// Memory pages
+		for (const bank of this.getSnapshotBanks()) {
+			const memBank=this.getMemBank(bank);
+			if (!memBank)
+				continue;
+			const data=zlib.deflateSync(memBank.data);
+			const ramp=Buffer.alloc(3);
+			ramp.writeUInt16LE(0x01, 0);	// Compressed
+			ramp[2]=bank;
+			buffers.push(SzxFile.createBlock('RAMP', Buffer.concat([ramp, data])));
+		}
+		return Buffer.concat(buffers);
+	}
+
+
+	/**
+	 * Returns a block with header (id and size).
+	 * @param id The 4 character block id.
+	 * @param data The block data.
+	 */
+	protected static createBlock(id: string, data: Buffer): Buffer {
+		const header=Buffer.alloc(8);
+		header.write(id, 0, 'ascii');
+		header.writeUInt32LE(data.length, 4);
+		return Buffer.concat([header, data]);
+	}
+}
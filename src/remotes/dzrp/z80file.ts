@@ -0,0 +1,332 @@
+import * as fs from 'fs';
+import {MemBank16k} from './membank16k';
+import {SnapshotFile} from './snapshotfile';
+
+
+
+/// The machines of the .z80 hardware modes.
+export type Z80FileMachine='48k'|'128k'|'plus3';
+
+
+
+/**
+ * A parser and writer for the .z80 file format.
+ * Reads version 1 (48K only), 2 and 3, compressed or uncompressed.
+ * Writes version 3, compressed.
+ * The hardware modes are mapped explicitly to 48K, 128K or +2A/+3.
+ * Other machines (e.g. Scorpion, TC2068) are not supported.
+ * @see https://worldofspectrum.org/faq/reference/z80format.htm
+ */
+export class Z80File extends SnapshotFile {
+	// The length of the version 1 header.
+	protected static HEADER_LENGTH=30;
+
+	// The additional header length of version 3 (written).
+	protected static ADD_HEADER_LENGTH_V3=54;
+
+	// The additional header length of version 3 incl. port 0x1FFD (written for +2A/+3).
+	protected static ADD_HEADER_LENGTH_V3_1FFD=55;
+
+	// The hardware modes written.
+	protected static HW_MODE_48K=0;
+	protected static HW_MODE_128K=4;
+	protected static HW_MODE_PLUS3=7;
+
+	// The hardware modes of version 2 that are supported.
+	// 0=48K, 1=48K+IF1, 2=SamRam, 3=128K, 4=128K+IF1.
+	protected static HW_MODES_V2: {[hwMode: number]: Z80FileMachine}={0: '48k', 1: '48k', 2: '48k', 3: '128k', 4: '128k'};
+
+	// The hardware modes of version 3 that are supported.
+	// 0=48K, 1=48K+IF1, 2=SamRam, 3=48K+MGT, 4=128K, 5=128K+IF1, 6=128K+MGT.
+	protected static HW_MODES_V3: {[hwMode: number]: Z80FileMachine}={0: '48k', 1: '48k', 2: '48k', 3: '48k', 4: '128k', 5: '128k', 6: '128k'};
+
+	// The hardware modes that are the same for version 2 and 3.
+	// 7=+3, 8=+3 (some emulators), 9=Pentagon 128K, 11=Didaktik-Kompakt, 12=+2, 13=+2A, 14=TC2048.
+	// Not supported: 10=Scorpion 256K, 15=TC2068, 128=TS2068.
+	protected static HW_MODES_COMMON: {[hwMode: number]: Z80FileMachine}={7: 'plus3', 8: 'plus3', 9: '128k', 11: '48k', 12: '128k', 13: 'plus3', 14: '48k'};
+
+	// The version of the read file (1, 2 or 3).
+	public version: number;
+
+
+	/**
+	 * Reads in the data from a .z80 file.
+	 * @param path The file path.
+	 */
+	public readFile(path: string) {
+		const buffer=fs.readFileSync(path);
+		this.readBuffer(buffer);
+	}
+
+
+	/**
+	 * Reads in the data from the contents of a .z80 file.
+	 * @param buffer The file contents.
+	 */
+	public readBuffer(buffer: Buffer) {
+		if (buffer.length<Z80File.HEADER_LENGTH)
+			throw Error("Z80 file: File too short.");
+
+		// Registers
+		this.af=(buffer[0]<<8)+buffer[1];
+		this.bc=buffer.readUInt16LE(2);
+		this.hl=buffer.readUInt16LE(4);
+		this.pc=buffer.readUInt16LE(6);
+		this.sp=buffer.readUInt16LE(8);
+		this.i=buffer[10];
+		let flags=buffer[12];
+		if (flags==0xFF)
+			flags=1;	// For compatibility
+		this.r=(buffer[11]&0x7F)|((flags&0x01)<<7);
+		this.borderColor=(flags>>>1)&0x07;
+		this.de=buffer.readUInt16LE(13);
+		this.bc2=buffer.readUInt16LE(15);
+		this.de2=buffer.readUInt16LE(17);
+		this.hl2=buffer.readUInt16LE(19);
+		this.af2=(buffer[21]<<8)+buffer[22];
+		this.iy=buffer.readUInt16LE(23);
+		this.ix=buffer.readUInt16LE(25);
+		this.iff1=(buffer[27])? 1:0;
+		this.iff2=(buffer[28])? 1:0;
+		this.im=buffer[29]&0x03;
+
+		// Version 1
+		if (this.pc!=0) {
+			this.version=1;
+			let data: Uint8Array=buffer.slice(Z80File.HEADER_LENGTH);
+			if (flags&0x20) {
+				// Remove end marker
+				const length=data.length;
+				if (length>=4&&data[length-4]==0&&data[length-3]==0xED&&data[length-2]==0xED&&data[length-1]==0)
+					data=data.slice(0, length-4);
+				data=Z80File.decompress(data, 3*MemBank16k.BANK16K_SIZE);
+			}
+			if (data.length!=3*MemBank16k.BANK16K_SIZE)
+				throw Error("Z80 file: Wrong memory size.");
+			const size=MemBank16k.BANK16K_SIZE;
+			this.addMemBank(5, data.slice(0, size));
+			this.addMemBank(2, data.slice(size, 2*size));
+			this.addMemBank(0, data.slice(2*size));
+			return;
+		}
+
+		// Version 2 or 3
+		const addLength=buffer.readUInt16LE(30);
+		this.version=(addLength==23)? 2:3;
+		this.pc=buffer.readUInt16LE(32);
+		const hwMode=buffer[34];
+		const machine=Z80File.getMachine(this.version, hwMode);
+		const is128k=(machine!='48k');
+		if (is128k)
+			this.port7ffd=buffer[35];
+		if (machine=='plus3')
+			this.port1ffd=(addLength>=Z80File.ADD_HEADER_LENGTH_V3_1FFD)? buffer[86]:0;
+		// AY (128K or 48K with AY enabled)
+		if (is128k||(buffer[37]&0x04)) {
+			this.aySelectedRegister=buffer[38]&0x0F;
+			this.ayRegisters=new Uint8Array(buffer.slice(39, 39+16));
+		}
+
+		// Memory pages
+		let index=32+addLength;
+		while (index<buffer.length) {
+			if (index+3>buffer.length)
+				throw Error("Z80 file: Memory page header expected at offset "+index+".");
+			const length=buffer.readUInt16LE(index);
+			const page=buffer[index+2];
+			index+=3;
+			let data: Uint8Array;
+			if (length==0xFFFF) {
+				data=buffer.slice(index, index+MemBank16k.BANK16K_SIZE);
+				index+=MemBank16k.BANK16K_SIZE;
+			}
+			else {
+				data=Z80File.decompress(buffer.slice(index, index+length), MemBank16k.BANK16K_SIZE);
+				index+=length;
+			}
+			if (data.length!=MemBank16k.BANK16K_SIZE)
+				throw Error("Z80 file: Wrong size of memory page "+page+".");
+			const bank=Z80File.getBank(page, is128k);
+			if (bank!=undefined)
+				this.addMemBank(bank, data);
+		}
+	}
+
+
+	/**
+	 * Returns the machine for the hardware mode.
+	 * @param version The version of the file (2 or 3).
+	 * @param hwMode The hardware mode (byte 34).
+	 * @returns '48k', '128k' or 'plus3' (i.e. 128K with port 0x1FFD).
+	 * Throws an exception for hardware modes that are not supported.
+	 */
+	public static getMachine(version: number, hwMode: number): Z80FileMachine {
+		const modes=(version==2)? Z80File.HW_MODES_V2:Z80File.HW_MODES_V3;
+		const machine=modes[hwMode]??Z80File.HW_MODES_COMMON[hwMode];
+		if (!machine)
+			throw Error("Z80 file: Hardware mode "+hwMode+" (version "+version+") not supported.");
+		return machine;
+	}
+
+
+	/**
+	 * Returns the 16k bank for a page number.
+	 * @param page The page number of the .z80 file.
+	 * @param is128k true for a 128K snapshot.
+	 * @returns The bank or undefined for ROM pages.
+	 */
+	protected static getBank(page: number, is128k: boolean): number|undefined {
+		if (is128k) {
+			if (page>=3&&page<=10)
+				return page-3;
+			return undefined;
+		}
+		return {4: 2, 5: 0, 8: 5}[page];
+	}
+
+
+	/**
+	 * Returns the page number for a 16k bank.
+	 * @param bank The 16k bank.
+	 * @param is128k true for a 128K snapshot.
+	 */
+	protected static getPage(bank: number, is128k: boolean): number {
+		if (is128k)
+			return bank+3;
+		return {2: 4, 0: 5, 5: 8}[bank];
+	}
+
+
+	/**
+	 * Decompresses the data.
+	 * 'ED ED nn bb' is expanded to nn times the byte bb.
+	 * @param data The compressed data.
+	 * @param size The expected size.
+	 */
+	public static decompress(data: Uint8Array, size: number): Uint8Array {
+		const result=new Uint8Array(size);
+		let k=0;
+		let i=0;
+		while (i<data.length&&k<size) {
+			const value=data[i];
+			if (value==0xED&&data[i+1]==0xED&&i+3<data.length) {
+				const count=data[i+2];
+				const repeated=data[i+3];
+				for (let j=0; j<count&&k<size; j++)
+					result[k++]=repeated;
+				i+=4;
+			}
+			else {
+				result[k++]=value;
+				i++;
+			}
+		}
+		return result.slice(0, k);
+	}
+
+
+	/**
+	 * Compresses the data.
+	 * Runs of at least 5 equal bytes and runs of at least 2 0xED bytes
+	 * are replaced by 'ED ED nn bb'. A byte directly following a single
+	 * 0xED is not taken into a run.
+	 * @param data The data to compress.
+	 */
+	public static compress(data: Uint8Array): Uint8Array {
+		const result=new Array<number>();
+		const length=data.length;
+		let i=0;
+		while (i<length) {
+			const value=data[i];
+			let count=1;
+			while (i+count<length&&count<255&&data[i+count]==value)
+				count++;
+			if (count>=5||(value==0xED&&count>=2)) {
+				result.push(0xED, 0xED, count, value);
+				i+=count;
+			}
+			else {
+				result.push(value);
+				i++;
+				if (value==0xED&&i<length) {
+					result.push(data[i]);
+					i++;
+				}
+			}
+		}
+		return new Uint8Array(result);
+	}
+
+
+	/**
+	 * Writes the snapshot to a .z80 file (version 3).
+	 * @param path The file path.
+	 */
+	public writeFile(path: string) {
+		fs.writeFileSync(path, this.createBuffer());
+	}
+
+
+	/**
+	 * Creates the contents of a .z80 file (version 3).
+	 */
+	public createBuffer(): Buffer {
+		const is128k=this.is128k();
+		const plus3=is128k&&this.port1ffd!=undefined;
+		const addLength=(plus3)? Z80File.ADD_HEADER_LENGTH_V3_1FFD:Z80File.ADD_HEADER_LENGTH_V3;
+		const header=Buffer.alloc(32+addLength);
+		header[0]=this.af>>>8;
+		header[1]=this.af&0xFF;
+		header.writeUInt16LE(this.bc, 2);
+		header.writeUInt16LE(this.hl, 4);
+		header.writeUInt16LE(0, 6);	// PC=0: version 2 or 3
+		header.writeUInt16LE(this.sp, 8);
+		header[10]=this.i;
+		header[11]=this.r&0x7F;
+		header[12]=(this.r>>>7)|((this.borderColor&0x07)<<1)|0x20;	// Compressed
+		header.writeUInt16LE(this.de, 13);
+		header.writeUInt16LE(this.bc2, 15);
+		header.writeUInt16LE(this.de2, 17);
+		header.writeUInt16LE(this.hl2, 19);
+		header[21]=this.af2>>>8;
+		header[22]=this.af2&0xFF;
+		header.writeUInt16LE(this.iy, 23);
+		header.writeUInt16LE(this.ix, 25);
+		header[27]=this.iff1;
+		header[28]=this.iff2;
+		header[29]=this.im&0x03;
+		// Version 3
+		header.writeUInt16LE(addLength, 30);
+		header.writeUInt16LE(this.pc, 32);
+		header[34]=(plus3)? Z80File.HW_MODE_PLUS3:(is128k)? Z80File.HW_MODE_128K:Z80File.HW_MODE_48K;
+		header[35]=this.port7ffd??0;
+		if (plus3)
+			header[86]=this.port1ffd!;
+		if (this.ayRegisters) {
+			if (!is128k)
+				header[37]=0x04;	// AY in use
+			header[38]=this.aySelectedRegister;
+			header.set(this.ayRegisters.slice(0, 16), 39);
+		}
+
+		// Memory pages
+		const buffers=[header];
+		for (const bank of this.getSnapshotBanks()) {
+			const memBank=this.getMemBank(bank);
+			if (!memBank)
+				continue;
+			let data=Z80File.compress(memBank.data);
+			let length=data.length;
+			if (length>=MemBank16k.BANK16K_SIZE) {
+				// Store uncompressed
+				data=memBank.data;
+				length=0xFFFF;
+			}
+			const pageHeader=Buffer.alloc(3);
+			pageHeader.writeUInt16LE(length, 0);
+			pageHeader[2]=Z80File.getPage(bank, is128k);
+			buffers.push(pageHeader, Buffer.from(data));
+		}
+		return Buffer.concat(buffers);
+	}
+}
@@ -2,6 +2,8 @@ import {LogSocket} from '../../log';
 import {DzrpBufferRemote, CONNECTION_TIMEOUT} from './dzrpbufferremote';
 import {Socket} from 'net';
 import {Settings} from '../../settings';
+import {DzrpCapabilities} from '../dzrp/dzrpremote';
+import {RemoteFeature} from '../remotebase';
 //import {Utility} from '../../misc/utility';
 
 
@@ -132,6 +134,17 @@ export class CSpectRemote extends DzrpBufferRemote {
 	}
 
 
+	/**
+	 * Watchpoints and state saving are not supported by CSpect.
+	 * If the plugin transmits its capabilities these are used additionally.
+	 */
+	public supportsFeature(feature: RemoteFeature): boolean {
+		if (feature==RemoteFeature.WATCHPOINTS||feature==RemoteFeature.STATE_SAVE)
+			return false;
+		return super.supportsFeature(feature);
+	}
+
+
 	/**
 	 * Watchpoints and WPMEM is disabled for CSpect for now.
 	 * There is a problem in CSpect: If a read-breakpoint is set it
@@ -161,7 +174,7 @@ export class CSpectRemote extends DzrpBufferRemote {
 	 * error is 0 on success. 0xFF if version numbers not match.
 	 * Other numbers indicate an error on remote side.
 	 */
-	protected async sendDzrpCmdInit(): Promise<{error: string|undefined, programName: string, dzrpVersion: string}> {
+	protected async sendDzrpCmdInit(): Promise<{error: string|undefined, programName: string, dzrpVersion: string, capabilities?: DzrpCapabilities}> {
 		const result=await super.sendDzrpCmdInit();
 		if (result.error) {
 			// An error occured. Add some help.
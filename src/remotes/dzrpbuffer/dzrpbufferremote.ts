@@ -2,8 +2,10 @@ import {LogSocket} from '../../log';
 import {DzrpRemote, AlternateCommand} from '../dzrp/dzrpremote';
 import {Z80RegistersClass, Z80_REG, Z80Registers, Z80RegistersStandardDecoder} from '../z80registers';
 import {Utility} from '../../misc/utility';
-import {DZRP, DZRP_VERSION, DZRP_PROGRAM_NAME} from '../dzrp/dzrpremote';
+import {DZRP, DZRP_VERSION, DZRP_MIN_MINOR_VERSION, DZRP_PROGRAM_NAME, DzrpCapabilities} from '../dzrp/dzrpremote';
 import {GenericBreakpoint} from '../../genericwatchpoint';
+import {Settings} from '../../settings';
+import {DzrpRecorder} from './dzrprecording';
 
 
 
@@ -12,6 +14,9 @@ export const CONNECTION_TIMEOUT=1000;	///< 1 sec
 const CHUNK_TIMEOUT=1000;	///< 1 sec
 //const QUIT_TIMEOUT=1000;	///< 1 sec
 
+/// The bytes of a CMD_WRITE_MEM message besides the data: seqno, cmd, reserved, address.
+const WRITE_MEM_HEADER_SIZE=5;
+
 
 
 
@@ -77,6 +82,9 @@ export class DzrpBufferRemote extends DzrpRemote {
 	// Timeout between data chunks
 	protected chunkTimeout?: NodeJS.Timeout;
 
+	// Records all messages if 'dzrpRecordFile' is set.
+	protected recorder: DzrpRecorder|undefined;
+
 
 	/// Constructor.
 	constructor() {
@@ -86,6 +94,9 @@ export class DzrpBufferRemote extends DzrpRemote {
 		this.messageQueue=new Array<MessageBuffer>();
 		// Set decoder
 		Z80Registers.decoder=new Z80RegistersStandardDecoder();
+		// Record the session
+		if (Settings.launch.dzrpRecordFile)
+			this.recorder=new DzrpRecorder(Settings.launch.dzrpRecordFile, Settings.launch.remoteType);
 	}
 
 
@@ -131,14 +142,27 @@ export class DzrpBufferRemote extends DzrpRemote {
 			// Show warning
 			this.emit('warning', err.message);
 			// Remove message / Queue next message
-			const msg=this.messageQueue.shift()!;
-			this.sendNextMessage();
-			// Pass error data to right consumer
-			msg.reject(err);
+			this.rejectPendingMessage(err);
 		}, respTimeoutTime);
 	}
 
 
+	/**
+	 * Removes the message waiting for its response from the queue and
+	 * passes the error to its consumer. Then the next message is sent.
+	 * @param err The error to pass to the consumer.
+	 */
+	protected rejectPendingMessage(err: Error) {
+		this.stopCmdRespTimeout();
+		const msg=this.messageQueue.shift();
+		if (!msg)
+			return;
+		this.sendNextMessage();
+		// Pass error data to right consumer
+		msg.reject(err);
+	}
+
+
 	/**
 	 * Stops the command/response timeout.
 	 */
@@ -176,6 +200,18 @@ export class DzrpBufferRemote extends DzrpRemote {
 					data=Buffer.from(data);	// Convert to Buffer if Array
 				len+=data.length;
 			}
+			// Check if supported by the remote
+			const caps=this.capabilities;
+			if (caps) {
+				if (!caps.commands.has(cmd)) {
+					reject(Error("The remote does not support "+DZRP[cmd]+"."));
+					return;
+				}
+				if (caps.maxMessageSize&&len>caps.maxMessageSize) {
+					reject(Error(DZRP[cmd]+": Message length ("+len+") exceeds the maximum message size of the remote ("+caps.maxMessageSize+")."));
+					return;
+				}
+			}
 			// Put length in buffer
 			const totalLength=4+len;
 			const buffer=Buffer.alloc(totalLength);
@@ -342,6 +378,7 @@ export class DzrpBufferRemote extends DzrpRemote {
 		// Check for notification
 		if (recSeqno==0) {
 			// Notification.
+			this.recorder?.recordNotification(data.subarray(1));
 			const breakNumber=data[2];
 			const breakAddress=Utility.getWord(data, 3);
 			// Call resolve of 'continue'
@@ -373,6 +410,7 @@ export class DzrpBufferRemote extends DzrpRemote {
 				return;
 			}
 			data=data.subarray(1);  // Cut off seq number
+			this.recorder?.recordResponse(msg.buffer, data);
 			// Queue next message
 			this.messageQueue.shift();
 			this.sendNextMessage();
@@ -474,7 +512,7 @@ export class DzrpBufferRemote extends DzrpRemote {
 	 * error is 0 on success. 0xFF if version numbers not match.
 	 * Other numbers indicate an error on remote side.
 	 */
-	protected async sendDzrpCmdInit(): Promise<{error: string|undefined, programName: string, dzrpVersion: string}> {
+	protected async sendDzrpCmdInit(): Promise<{error: string|undefined, programName: string, dzrpVersion: string, capabilities?: DzrpCapabilities}> {
 		const nameBuffer=Utility.getBufferFromString(DZRP_PROGRAM_NAME);
 		const resp=await this.sendDzrpCmd(DZRP.CMD_INIT, [...DZRP_VERSION, ...nameBuffer], this.initCloseRespTimeoutTime);
 		let error;
@@ -485,13 +523,46 @@ export class DzrpBufferRemote extends DzrpRemote {
 		if (!program_name)
 			program_name="Unknown";
 		// Check version number. Check only major and minor number.
+		// Older minor versions are accepted down to DZRP_MIN_MINOR_VERSION.
 		if (DZRP_VERSION[0]!=resp[1]
-			||DZRP_VERSION[1]!=resp[2]) {
+			||DZRP_VERSION[1]<resp[2]
+			||DZRP_MIN_MINOR_VERSION>resp[2]) {
 			error="DZRP versions do not match.\n";
-			error+="Required version is "+DZRP_VERSION[0]+"."+DZRP_VERSION[1]+".\n";
+			error+="Required version is "+DZRP_VERSION[0]+"."+DZRP_MIN_MINOR_VERSION+" to "+DZRP_VERSION[0]+"."+DZRP_VERSION[1]+".\n";
 			error+="But this remote ("+program_name+") supports only version "+resp[1]+"."+resp[2]+".";
 		}
-		return {error, dzrpVersion: dzrp_version, programName: program_name};
+		// Capabilities follow the program name (since 1.7.0)
+		let capabilities;
+		const capIndex=resp.indexOf(0, 4)+1;
+		if (!error&&capIndex>0&&resp.length>=capIndex+13)
+			capabilities=DzrpBufferRemote.decodeCapabilities(resp, capIndex);
+		return {error, dzrpVersion: dzrp_version, programName: program_name, capabilities};
+	}
+
+
+	/**
+	 * Decodes the capabilities of the CMD_INIT response.
+	 * @param buffer The response.
+	 * @param index The index of the capabilities, i.e. after the program name.
+	 * @returns The decoded capabilities.
+	 * Throws an error if the max. message size is too small for CMD_WRITE_MEM.
+	 */
+	protected static decodeCapabilities(buffer: Buffer, index: number): DzrpCapabilities {
+		// 8 bytes: bit n = command n is supported
+		const commands=new Set<DZRP>();
+		for (let cmd=0; cmd<64; cmd++) {
+			if (buffer[index+(cmd>>>3)]&(1<<(cmd&0x07)))
+				commands.add(cmd);
+		}
+		// Init is always supported
+		commands.add(DZRP.CMD_INIT);
+		// 1 byte: features
+		const features=buffer[index+8];
+		// 4 bytes: max message size (0 = no limit)
+		const maxMessageSize=buffer.readUInt32LE(index+9);
+		if (maxMessageSize>0&&maxMessageSize<=WRITE_MEM_HEADER_SIZE)
+			throw Error("The maximum message size of the remote ("+maxMessageSize+") is too small. At least "+(WRITE_MEM_HEADER_SIZE+1)+" bytes are required.");
+		return {commands, features, maxMessageSize};
 	}
 
 
@@ -674,9 +745,18 @@ export class DzrpBufferRemote extends DzrpRemote {
  	*/
 	public async sendDzrpCmdWriteMem(address: number, dataArray: Buffer|Uint8Array): Promise<void> {
 		const data=Buffer.from(dataArray);
-		await this.sendDzrpCmd(DZRP.CMD_WRITE_MEM, [0,
-			address&0xFF, address>>>8,
-			...data]);
+		// Split into several messages if the remote has a maximum message size
+		const maxMessageSize=this.capabilities?.maxMessageSize;
+		const chunkSize=(maxMessageSize)? maxMessageSize-WRITE_MEM_HEADER_SIZE:data.length;
+		let offset=0;
+		do {
+			const chunk=data.subarray(offset, offset+chunkSize);
+			const addr=(address+offset)&0xFFFF;
+			await this.sendDzrpCmd(DZRP.CMD_WRITE_MEM, [0,
+				addr&0xFF, addr>>>8,
+				...chunk]);
+			offset+=chunkSize;
+		} while (offset<data.length);
 	}
 
 
@@ -833,5 +913,61 @@ export class DzrpBufferRemote extends DzrpRemote {
 		await this.sendDzrpCmd(DZRP.CMD_SET_BORDER, [borderColor]);
 	}
 
+
+	/**
+	 * Sends the command to set all breakpoints.
+	 * For the ZXNext all breakpoints are set at once just before the
+	 * next 'continue' is executed.
+	 * @param bpAddresses The breakpoint addresses. Each 0x0000-0xFFFF.
+	 * @returns A Promise with the memory contents from each breakpoint address.
+	 */
+	protected async sendDzrpCmdSetBreakpoints(bpAddresses: Array<number>): Promise<Array<number>> {
+		// Create buffer from array
+		const count=bpAddresses.length;
+		const buffer=Buffer.alloc(2*count);
+		let i=0;
+		for (const addr of bpAddresses) {
+			buffer[i++]=addr&0xFF;
+			buffer[i++]=(addr>>>8)&0xFF;
+		}
+		const opcodes=await this.sendDzrpCmd(DZRP.CMD_SET_BREAKPOINTS, buffer);
+		return [...opcodes];
+	}
+
+
+	/**
+	 * Sends the command to restore the memory for all breakpoints.
+	 * This is send just after the 'continue' command.
+	 * So that the user only sees correct memory contents even if doing
+	 * a disassembly or memory read.
+	 * It is also required otherwise the breakpoints in 'calcStep' are not correctly
+	 * calculated.
+	 * @param elems The addresses + memory content.
+	 */
+	protected async sendDzrpCmdRestoreMem(elems: Array<{address: number, value: number}>): Promise<void> {
+		// Create buffer from array
+		const count=elems.length;
+		const buffer=Buffer.alloc(3*count);
+		let i=0;
+		for (const elem of elems) {
+			const addr=elem.address;
+			buffer[i++]=addr&0xFF;
+			buffer[i++]=(addr>>>8)&0xFF;
+			buffer[i++]=elem.value;
+		}
+		await this.sendDzrpCmd(DZRP.CMD_RESTORE_MEM, buffer);
+	}
+
+
+	/**
+	 * Sends the loopback command. Used to test the connection.
+	 * @param data The data to send.
+	 * @returns A Promise with the received data. Should be the same as 'data'.
+ 	*/
+	public async sendDzrpCmdLoopback(data: Buffer): Promise<Buffer> {
+		const recData=await this.sendDzrpCmd(DZRP.CMD_LOOPBACK, data);
+		return recData;
+	}
+
 }
 
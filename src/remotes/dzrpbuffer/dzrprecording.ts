@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import {DZRP} from '../dzrp/dzrpremote';
+import {LogSocket} from '../../log';
+
+
+
+// The version of the recording file format.
+const RECORDING_FORMAT=1;
+
+
+/**
+ * One entry of a recording.
+ * Either a command together with its response or a notification.
+ * All data is stored as hex string.
+ */
+interface RecordingEntry {
+	// The command. Undefined for a notification.
+	cmd?: number,
+	// The name of the command. Informational only.
+	name?: string,
+	// The command data (without length, seq no and command).
+	data?: string,
+	// The response data (without seq no).
+	resp?: string,
+	// The notification data (without seq no).
+	ntf?: string
+}
+
+
+/**
+ * Records all DZRP commands/responses and notifications to a file.
+ * The file contains one JSON object per line. The first line is a header
+ * with the remote type. Each following line is a RecordingEntry.
+ * The entries are written immediately, so that the file is usable even
+ * if the debug session crashes.
+ */
+export class DzrpRecorder {
+
+	// The file to write to.
+	protected filePath: string;
+
+
+	/**
+	 * Creates (overwrites) the file and writes the header.
+	 * @param filePath The absolute path of the recording file.
+	 * @param remoteType The remote type, e.g. 'zxnext' or 'cspect'.
+	 */
+	constructor(filePath: string, remoteType: string) {
+		this.filePath=filePath;
+		fs.writeFileSync(filePath, JSON.stringify({format: RECORDING_FORMAT, remoteType})+'\n');
+	}
+
+
+	/**
+	 * Records a command and its response.
+	 * @param cmdBuffer The complete sent message (incl. length, seq no and command).
+	 * @param resp The response data (without seq no).
+	 */
+	public recordResponse(cmdBuffer: Buffer, resp: Buffer) {
+		const cmd=cmdBuffer[5];
+		this.append({
+			cmd,
+			name: DZRP[cmd],
+			data: cmdBuffer.subarray(6).toString('hex'),
+			resp: resp.toString('hex')
+		});
+	}
+
+
+	/**
+	 * Records a notification.
+	 * @param ntf The notification data (without seq no).
+	 */
+	public recordNotification(ntf: Buffer) {
+		this.append({ntf: ntf.toString('hex')});
+	}
+
+
+	/**
+	 * Appends one entry to the file.
+	 */
+	protected append(entry: RecordingEntry) {
+		fs.appendFileSync(this.filePath, JSON.stringify(entry)+'\n');
+	}
+}
+
+
+/**
+ * A recording read from a file.
+ * Serves the recorded responses in the same order as they were recorded.
+ * The commands sent during replay need to be the same as the recorded ones,
+ * i.e. the same actions need to be done in the same order.
+ * The command data is not compared (e.g. the program name in CMD_INIT
+ * may differ), only the command itself.
+ */
+export class DzrpRecording {
+
+	// The remote type the recording was made with.
+	public remoteType: string;
+
+	// All entries of the recording.
+	protected entries: Array<RecordingEntry>;
+
+	// The index of the next entry to replay.
+	protected index: number;
+
+
+	/**
+	 * Reads the recording.
+	 * Throws an error if the file cannot be read or has a wrong format.
+	 * @param filePath The absolute path of the recording file.
+	 */
+	constructor(filePath: string) {
+		const lines=fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.trim().length>0);
+		let header;
+		try {
+			header=JSON.parse(lines[0]);
+			this.entries=lines.slice(1).map(line => JSON.parse(line));
+		}
+		catch (e) {
+			throw Error("'"+filePath+"' is not a DZRP recording: "+e.message);
+		}
+		if (header?.format!=RECORDING_FORMAT)
+			throw Error("'"+filePath+"' is not a DZRP recording (format "+RECORDING_FORMAT+").");
+		this.remoteType=header.remoteType;
+		this.index=0;
+	}
+
+
+	/**
+	 * Returns true if all entries have been replayed.
+	 */
+	public isAtEnd(): boolean {
+		return this.index>=this.entries.length;
+	}
+
+
+	/**
+	 * Replays the response for a sent message.
+	 * The response and all notifications that were recorded directly
+	 * after it are passed to 'receive' asynchronously.
+	 * Throws an error if the sent command is not the recorded one.
+	 * @param buffer The complete sent message (incl. length, seq no and command).
+	 * @param receive Called with the received message (incl. seq no) for
+	 * the response and for each notification.
+	 */
+	public replay(buffer: Buffer, receive: (data: Buffer) => void) {
+		const seqno=buffer[4];
+		const cmd=buffer[5];
+		const entry=this.entries[this.index];
+		if (!entry)
+			throw Error("Replay: End of recording reached. "+DZRP[cmd]+" not recorded.");
+		if (entry.cmd!=cmd)
+			throw Error("Replay: Recorded "+(entry.name||'a notification')+" (entry "+(this.index+1)+") but sent "+DZRP[cmd]+".");
+		if (entry.data!=buffer.subarray(6).toString('hex'))
+			LogSocket.log('Replay: '+entry.name+' data differs from recording.');
+		this.index++;
+
+		// Collect response and following notifications
+		const msgs=[Buffer.concat([Buffer.from([seqno]), Buffer.from(entry.resp!, 'hex')])];
+		let ntfEntry;
+		while ((ntfEntry=this.entries[this.index])?.ntf!=undefined) {
+			msgs.push(Buffer.concat([Buffer.from([0]), Buffer.from(ntfEntry.ntf, 'hex')]));
+			this.index++;
+		}
+
+		// Pass asynchronously, as a real remote would do
+		setImmediate(() => {
+			for (const msg of msgs)
+				receive(msg);
+		});
+	}
+}
@@ -0,0 +1,110 @@
+import {LogSocket} from '../../log';
+import {CSpectRemote} from './cspectremote';
+import {ZxNextSocketRemote} from './zxnextsocketremote';
+import {DzrpRecording} from './dzrprecording';
+
+
+
+/**
+ * Replays a recorded CSpect session.
+ * Instead of sending the messages to CSpect the recorded responses
+ * are returned. Everything else behaves as the CSpectRemote.
+ */
+export class CSpectReplayRemote extends CSpectRemote {
+
+	// The recording to replay.
+	protected recording: DzrpRecording;
+
+
+	/// Constructor.
+	constructor(recording: DzrpRecording) {
+		super();
+		this.recording=recording;
+	}
+
+
+	/// Override.
+	/// No connection required, just starts the replay.
+	public async doInitialization(): Promise<void> {
+		LogSocket.log('CSpectReplayRemote: Replaying recorded session.');
+		this.onConnect();
+	}
+
+
+	/**
+	 * Nothing to disconnect.
+	 */
+	public async disconnect(): Promise<void> {
+	}
+
+
+	/**
+	 * Passes the buffer to the recording which returns the recorded response.
+	 * If the sent command does not match the recording the request is rejected.
+	 */
+	protected async sendBuffer(buffer: Buffer): Promise<void> {
+		LogSocket.log('>>> CSpectReplayRemote: Sending '+this.dzrpCmdBufferToString(buffer));
+		try {
+			this.recording.replay(buffer, data => this.receivedMsg(data));
+		}
+		catch (err) {
+			// Mismatch: answer the pending request immediately
+			this.rejectPendingMessage(err);
+			this.emit('error', err);
+		}
+	}
+}
+
+
+/**
+ * Replays a recorded ZX Next session.
+ * Instead of sending the messages to the ZX Next the recorded responses
+ * are returned. Everything else behaves as the ZxNextSocketRemote.
+ * I.e. bugs that only occur with the real HW can be debugged offline.
+ */
+export class ZxNextReplayRemote extends ZxNextSocketRemote {
+
+	// The recording to replay.
+	protected recording: DzrpRecording;
+
+
+	/// Constructor.
+	constructor(recording: DzrpRecording) {
+		super();
+		this.recording=recording;
+	}
+
+
+	/// Override.
+	/// No connection required, just starts the replay.
+	public async doInitialization(): Promise<void> {
+		LogSocket.log('ZxNextReplayRemote: Replaying recorded session.');
+		this.breakedAddress=undefined;
+		this.breakpointIdLastIndex=0;
+		this.onConnect();
+	}
+
+
+	/**
+	 * Nothing to disconnect.
+	 */
+	public async disconnect(): Promise<void> {
+	}
+
+
+	/**
+	 * Passes the buffer to the recording which returns the recorded response.
+	 * If the sent command does not match the recording the request is rejected.
+	 */
+	protected async sendBuffer(buffer: Buffer): Promise<void> {
+		LogSocket.log('>>> ZxNextReplayRemote: Sending '+this.dzrpCmdBufferToString(buffer));
+		try {
+			this.recording.replay(buffer, data => this.receivedMsg(data));
+		}
+		catch (err) {
+			// Mismatch: answer the pending request immediately
+			this.rejectPendingMessage(err);
+			this.emit('error', err);
+		}
+	}
+}
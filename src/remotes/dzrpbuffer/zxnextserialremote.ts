@@ -0,0 +1,140 @@
+import {LogSocket} from '../../log';
+import {ZxNextSocketRemote} from './zxnextsocketremote';
+import {Settings} from '../../settings';
+import * as fs from 'fs';
+import * as tty from 'tty';
+import {execFileSync} from 'child_process';
+
+
+
+// The data used for the CMD_LOOPBACK health check.
+// Contains the message start byte and zeroes on purpose.
+const LOOPBACK_TEST_DATA=[0xA5, 0x00, 0x01, 0x7F, 0x80, 0xFF, 0x5A, 0x00];
+
+
+/**
+ * A ZX Next remote that is connected directly via a serial device.
+ * I.e. no other program is required to convert socket to serial.
+ *
+ * The serial device is opened as tty stream. A tty stream is a
+ * socket so everything else (framing, timeouts, breakpoint handling)
+ * is the same as for the ZxNextSocketRemote.
+ *
+ * Baud rate and flow control are configured with 'stty'.
+ * Therefore the serial connection is not available on Windows.
+ */
+export class ZxNextSerialRemote extends ZxNextSocketRemote {
+
+	/// Initializes the machine.
+	/// When ready it emits this.emit('initialized') or this.emit('error', Error(...));
+	/// The successful emit takes place in 'onConnect' which is called
+	/// after a successful loopback check.
+	public async doInitialization(): Promise<void> {
+		const serial=Settings.launch.zxnext.serial;
+		if (process.platform=='win32')
+			throw Error("launch.json: 'zxnext.serial' is not supported on Windows. Use the socket connection instead.");
+
+		// Configure and open the serial device
+		ZxNextSerialRemote.configureSerialPort(serial.path, serial.baudRate, serial.flowControl);
+		const fd=fs.openSync(serial.path, fs.constants.O_RDWR|fs.constants.O_NOCTTY);
+		const ttyStream=new tty.ReadStream(fd);
+		ttyStream.setRawMode(true);
+		this.socket=ttyStream;
+		LogSocket.log('ZxNextSerialRemote: Opened '+serial.path);
+
+		this.receivedData=Buffer.alloc(0);
+		this.msgStartByteFound=false;
+		this.expectedLength=4;	// for length
+		this.receivingHeader=true;
+		this.stopChunkTimeout();
+		this.breakedAddress=undefined;
+		this.breakpointIdLastIndex=0;
+
+		// Handle errors
+		this.socket.on('error', err => {
+			LogSocket.log('ZxNextSerialRemote: Error: '+err);
+			// Error
+			this.emit('error', err);
+		});
+
+		// Receive data
+		this.socket.on('data', data => {
+			this.dataReceived(data);
+		});
+
+		// Check the connection
+		try {
+			await this.checkConnection();
+		}
+		catch (err) {
+			this.emit('error', err);
+			return;
+		}
+		this.onConnect();
+	}
+
+
+	/**
+	 * Sets baud rate, flow control and raw mode of the serial device.
+	 * @param path E.g. "/dev/tty.usbserial"
+	 * @param baudRate E.g. 230400
+	 * @param flowControl "none", "rtscts" or "xonxoff".
+	 */
+	protected static configureSerialPort(path: string, baudRate: number, flowControl: string) {
+		const args=[(process.platform=='darwin')? '-f':'-F', path, baudRate.toString(), 'raw', '-echo', 'cs8', '-cstopb', '-parenb', 'clocal'];
+		args.push((flowControl=='rtscts')? 'crtscts':'-crtscts');
+		if (flowControl=='xonxoff')
+			args.push('ixon', 'ixoff');
+		else
+			args.push('-ixon', '-ixoff');
+		try {
+			execFileSync('stty', args, {stdio: 'pipe'});
+		}
+		catch (err) {
+			throw Error("Could not configure serial device '"+path+"': "+(err.stderr||err.message).toString().trim());
+		}
+	}
+
+
+	/**
+	 * Sends a CMD_LOOPBACK and compares the received data.
+	 * Throws an error if the data differs.
+	 */
+	protected async checkConnection(): Promise<void> {
+		const data=Buffer.from(LOOPBACK_TEST_DATA);
+		const recData=await this.sendDzrpCmdLoopback(data);
+		if (!recData.equals(data))
+			throw Error("Serial connection check (CMD_LOOPBACK) failed: received data differs.");
+	}
+
+
+	/**
+	 * This will close the serial device.
+	 */
+	public async disconnect(): Promise<void> {
+		if (!this.socket)
+			return;
+		try {
+			await this.sendDzrpCmdClose();
+		}
+		catch {};
+		this.socket.removeAllListeners();
+		this.socket.destroy();
+	}
+
+
+	/**
+	 * Writes the buffer to the serial device.
+	 */
+	protected async sendBuffer(buffer: Buffer): Promise<void> {
+		// Send buffer
+		return new Promise<void>(resolve => {
+			// Send data
+			const txt=this.dzrpCmdBufferToString(buffer);
+			LogSocket.log('>>> ZxNextSerialRemote: Sending '+txt);
+			this.socket.write(buffer, () => {
+				resolve();
+			});
+		});
+	}
+}
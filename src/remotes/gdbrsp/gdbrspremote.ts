@@ -0,0 +1,821 @@
+import {LogSocket} from '../../log';
+import {DzrpRemote, DzrpCapabilities} from '../dzrp/dzrpremote';
+import {Z80_REG, Z80Registers, Z80RegistersClass, Z80RegistersStandardDecoder} from '../z80registers';
+import {Socket} from 'net';
+import {Settings} from '../../settings';
+import {Utility} from '../../misc/utility';
+import {GenericBreakpoint} from '../../genericwatchpoint';
+import {BREAK_REASON_NUMBER, MemoryBank, RemoteFeature} from '../remotebase';
+
+
+
+/// Timeouts.
+const CONNECTION_TIMEOUT=1000;	///< 1 sec
+const NO_TIMEOUT=0;	///< Used for 'continue': the stop reply can take forever.
+
+/// The max. number of bytes read or written with one 'm' or 'M' packet.
+const MAX_MEM_CHUNK=0x400;
+
+
+/**
+ * The register names that can be used in the register mapping table
+ * ('gdbrsp.registers' in launch.json) and their Z80_REG.
+ * All registers are 16 bit.
+ */
+export const GDB_REGISTER_NAMES=new Map<string, Z80_REG>([
+	["PC", Z80_REG.PC], ["SP", Z80_REG.SP],
+	["AF", Z80_REG.AF], ["BC", Z80_REG.BC], ["DE", Z80_REG.DE], ["HL", Z80_REG.HL],
+	["IX", Z80_REG.IX], ["IY", Z80_REG.IY],
+	["AF'", Z80_REG.AF2], ["BC'", Z80_REG.BC2], ["DE'", Z80_REG.DE2], ["HL'", Z80_REG.HL2],
+	["IR", Z80_REG.IR]
+]);
+
+
+/**
+ * Maps the 8 bit registers to their 16 bit register.
+ * true=high byte, false=low byte.
+ */
+const HALF_REGISTERS=new Map<Z80_REG, [Z80_REG, boolean]>([
+	[Z80_REG.F, [Z80_REG.AF, false]], [Z80_REG.A, [Z80_REG.AF, true]],
+	[Z80_REG.C, [Z80_REG.BC, false]], [Z80_REG.B, [Z80_REG.BC, true]],
+	[Z80_REG.E, [Z80_REG.DE, false]], [Z80_REG.D, [Z80_REG.DE, true]],
+	[Z80_REG.L, [Z80_REG.HL, false]], [Z80_REG.H, [Z80_REG.HL, true]],
+	[Z80_REG.IXL, [Z80_REG.IX, false]], [Z80_REG.IXH, [Z80_REG.IX, true]],
+	[Z80_REG.IYL, [Z80_REG.IY, false]], [Z80_REG.IYH, [Z80_REG.IY, true]],
+	[Z80_REG.F2, [Z80_REG.AF2, false]], [Z80_REG.A2, [Z80_REG.AF2, true]],
+	[Z80_REG.C2, [Z80_REG.BC2, false]], [Z80_REG.B2, [Z80_REG.BC2, true]],
+	[Z80_REG.E2, [Z80_REG.DE2, false]], [Z80_REG.D2, [Z80_REG.DE2, true]],
+	[Z80_REG.L2, [Z80_REG.HL2, false]], [Z80_REG.H2, [Z80_REG.HL2, true]],
+	[Z80_REG.R, [Z80_REG.IR, false]], [Z80_REG.I, [Z80_REG.IR, true]],
+]);
+
+
+/**
+ * A structure used to serialize the sent packets.
+ */
+class GdbPacket {
+	// The response timeout time. NO_TIMEOUT for 'continue'.
+	public respTimeoutTime: number;
+
+	// The complete packet to send, i.e. '$data#checksum'
+	public packet: string;
+
+	// The function to call when the response is received.
+	public resolve: (data: string) => void;
+
+	// The function to call when the command times out.
+	public reject: (error) => void;
+}
+
+
+/**
+ * The gdb RSP Remote.
+ * It connects via socket with the gdb stub of an emulator.
+ * The communication uses the gdb remote serial protocol (RSP).
+ *
+ * Like the ZSimRemote this class is derived from DzrpRemote although
+ * no DZRP is involved: the sendDzrpCmd... methods are mapped to
+ * gdb packets. This way the complete flow handling (conditions,
+ * logpoints, step-over, step-out) of the DzrpRemote is re-used.
+ *
+ * The emulator loads the ROMs itself. So 'load' (.sna/.nex) is not
+ * supported. 'loadObjs' is.
+ *
+ * The order of the registers in the 'g' packet differs from stub to
+ * stub. It is given by the register mapping table 'gdbrsp.registers'.
+ */
+export class GdbRspRemote extends DzrpRemote {
+
+	// The socket connection.
+	public socket: Socket;
+
+	// The name of the remote used in messages.
+	protected stubName='gdb stub';
+
+	// The hostname and port of the gdb stub.
+	protected hostname: string;
+	protected port: number;
+
+	// The register names in the order of the 'g' packet.
+	protected registerNames: Array<string>;
+
+	// The register order of the 'g' packet.
+	// Created from 'registerNames' in 'doInitialization'.
+	protected gdbRegisters: Array<Z80_REG>;
+
+	// The packet queue (used to serialize the sent packets).
+	protected packetQueue: Array<GdbPacket>;
+
+	// Timeout between sending command and receiving response.
+	protected cmdRespTimeout?: NodeJS.Timeout;
+
+	// The used timeout time.
+	protected cmdRespTimeoutTime=500;	// Will be overwritten.
+
+	// To collect received chunks.
+	protected receivedData: string;
+
+	// The breakpoints set in the emulator, address -> number of users.
+	// A breakpoint and a step breakpoint may share the same address.
+	protected gdbBreakpoints: Map<number, number>;
+
+	// The temporary breakpoints used for step-over/into.
+	protected stepBpAddresses: Array<number>;
+
+	// The type ('Z2', 'Z3', 'Z4') of the watchpoints set in the emulator.
+	// The key is 'address,size'.
+	protected gdbWatchpoints: Map<string, string>;
+
+	// Used to create the breakpoint IDs.
+	protected lastBpId: number;
+
+
+	/// Constructor.
+	constructor() {
+		super();
+		this.hostname=Settings.launch.gdbrsp.hostname;
+		this.port=Settings.launch.gdbrsp.port;
+		this.cmdRespTimeoutTime=Settings.launch.gdbrsp.socketTimeout*1000;
+		this.registerNames=Settings.launch.gdbrsp.registers;
+		this.packetQueue=new Array<GdbPacket>();
+		this.receivedData='';
+		this.gdbBreakpoints=new Map<number, number>();
+		this.stepBpAddresses=new Array<number>();
+		this.gdbWatchpoints=new Map<string, string>();
+		this.lastBpId=0;
+		// Set decoder
+		Z80Registers.decoder=new Z80RegistersStandardDecoder();
+	}
+
+
+	/// Override.
+	/// Initializes the machine.
+	/// When ready it emits this.emit('initialized') or this.emit('error', Error(...));
+	/// The successful emit takes place in 'onConnect' which should be called
+	/// by 'doInitialization' after a successful connect.
+	public async doInitialization(): Promise<void> {
+		// Check for unsupported settings
+		if (Settings.launch.unitTests) {
+			throw Error("launch.json: unitTests==true: "+this.stubName+" does not support running unit tests.");
+		}
+
+		// Create the register mapping
+		this.gdbRegisters=GdbRspRemote.getRegisterOrder(this.registerNames);
+
+		// Init socket
+		this.socket=new Socket();
+		this.socket.unref();
+
+		// React on-open
+		this.socket.on('connect', async () => {
+			LogSocket.log('GdbRspRemote: Connected to server!');
+
+			this.receivedData='';
+
+			// Check for unsupported settings
+			if (Settings.launch.history.codeCoverageEnabled) {
+				this.emit('warning', "launch.json: codeCoverageEnabled==true: "+this.stubName+" does not support code coverage.");
+			}
+
+			this.onConnect();
+		});
+
+		// Handle disconnect
+		this.socket.on('close', hadError => {
+			LogSocket.log('GdbRspRemote: closed connection: '+hadError);
+			// Error
+			const err=new Error(this.stubName+' terminated the connection!');
+			this.emit('error', err);
+		});
+
+		// Handle errors
+		this.socket.on('error', err => {
+			LogSocket.log('GdbRspRemote: Error: '+err);
+			// Error
+			this.emit('error', err);
+		});
+
+		// Receive data
+		this.socket.on('data', data => {
+			this.dataReceived(data.toString('latin1'));
+		});
+
+		// Start socket connection
+		this.socket.setTimeout(CONNECTION_TIMEOUT);
+		this.socket.connect(this.port, this.hostname);
+	}
+
+
+	/**
+	 * Converts the register names of the mapping table into Z80_REGs.
+	 * @param names E.g. ["AF", "BC", "DE", "HL", "SP", "PC", ...]
+	 * @returns E.g. [Z80_REG.AF, Z80_REG.BC, ...]
+	 */
+	public static getRegisterOrder(names: Array<string>): Array<Z80_REG> {
+		return names.map(name => {
+			const reg=GDB_REGISTER_NAMES.get(name.toUpperCase());
+			if (reg==undefined)
+				throw Error("launch.json: Unknown register '"+name+"' in 'registers'. Allowed are: "+[...GDB_REGISTER_NAMES.keys()].join(', ')+".");
+			return reg;
+		});
+	}
+
+
+	/**
+	 * This will detach from the emulator and disconnect the socket.
+	 */
+	public async disconnect(): Promise<void> {
+		if (!this.socket)
+			return;
+		try {
+			await this.sendDzrpCmdClose();
+		}
+		catch {};
+		return new Promise<void>(resolve => {
+			this.socket.removeAllListeners();
+			// Timeout is required because socket.end() does not call the
+			// callback it it is already closed and the state cannot
+			// reliable be determined.
+			const timeout=setTimeout(() => {
+				if (resolve) {
+					resolve();
+					resolve=undefined as any;
+				}
+			}, 1000);	// 1 sec
+			this.socket.end(() => {
+				if (resolve) {
+					resolve();
+					resolve=undefined as any;
+					clearTimeout(timeout);
+				}
+			});
+		});
+	}
+
+
+	/**
+	 * Starts the command/response timeout.
+	 * If the timer elapses a warning is shown.
+	 * The packet is removed from the packet queue.
+	 * @param respTimeoutTime The response timeout. NO_TIMEOUT to wait forever.
+	 */
+	protected startCmdRespTimeout(respTimeoutTime: number) {
+		this.stopCmdRespTimeout();
+		if (respTimeoutTime==NO_TIMEOUT)
+			return;
+		this.cmdRespTimeout=setTimeout(() => {
+			this.stopCmdRespTimeout();
+			const err=new Error('No response received from '+this.stubName+'.');
+			// Log
+			LogSocket.log('Warning: '+err.message);
+			// Show warning
+			this.emit('warning', err.message);
+			// Remove packet / Queue next packet
+			const msg=this.packetQueue.shift()!;
+			this.sendNextPacket();
+			// Pass error data to right consumer
+			msg.reject(err);
+		}, respTimeoutTime);
+	}
+
+
+	/**
+	 * Stops the command/response timeout.
+	 */
+	protected stopCmdRespTimeout() {
+		if (this.cmdRespTimeout)
+			clearTimeout(this.cmdRespTimeout);
+		this.cmdRespTimeout=undefined;
+	}
+
+
+	/**
+	 * Calculates the checksum of the packet data.
+	 * @param data E.g. 'm8000,10'
+	 * @returns The 8 bit sum of all characters as 2 digit hex string, e.g. '5c'.
+	 */
+	public static checksum(data: string): string {
+		let sum=0;
+		const len=data.length;
+		for (let i=0; i<len; i++)
+			sum+=data.charCodeAt(i);
+		return Utility.getHexString(sum&0xFF, 2).toLowerCase();
+	}
+
+
+	/**
+	 * Decodes the run length encoding and the escaping of a received
+	 * packet.
+	 * @param data The data between '$' and '#'.
+	 * @returns The decoded data.
+	 */
+	public static decodePacketData(data: string): string {
+		let result='';
+		const len=data.length;
+		for (let i=0; i<len; i++) {
+			const c=data[i];
+			if (c=='}') {
+				// Escaped character
+				i++;
+				result+=String.fromCharCode(data.charCodeAt(i)^0x20);
+			}
+			else if (c=='*') {
+				// Run length encoding: Repeat last character
+				i++;
+				const count=data.charCodeAt(i)-29;
+				result+=result[result.length-1].repeat(count);
+			}
+			else
+				result+=c;
+		}
+		return result;
+	}
+
+
+	/**
+	 * Sends a gdb packet and waits for the response.
+	 * @param data The packet data, e.g. 'g' or 'm8000,10'.
+	 * @param respTimeoutTime The response timeout. Undefined=use default.
+	 * @returns The (decoded) response data is returned in the Promise.
+	 */
+	protected async sendGdbPacket(data: string, respTimeoutTime?: number): Promise<string> {
+		return new Promise<string>((resolve, reject) => {
+			// Create new packet
+			const entry=new GdbPacket();
+			entry.packet='$'+data+'#'+GdbRspRemote.checksum(data);
+			entry.respTimeoutTime=(respTimeoutTime==undefined)? this.cmdRespTimeoutTime:respTimeoutTime;
+			entry.resolve=resolve;
+			entry.reject=reject;
+			// Add to queue
+			this.packetQueue.push(entry);
+
+			// Try to send immediately
+			if (this.packetQueue.length==1)
+				this.sendNextPacket();
+		});
+	}
+
+
+	/**
+	 * Sends a gdb packet. Throws an error if the stub responds with
+	 * an error ('Exx') or if the packet is not supported ('').
+	 * @param data The packet data, e.g. 'M8000,1:00'.
+	 * @returns The response data.
+	 */
+	protected async sendGdbPacketChecked(data: string): Promise<string> {
+		const resp=await this.sendGdbPacket(data);
+		if (resp.length==0)
+			throw Error(this.stubName+" does not support '"+data.substr(0, 1)+"' packets.");
+		if (/^E[0-9a-fA-F]{2}$/.test(resp))
+			throw Error(this.stubName+" returned error "+resp.substr(1)+" for '"+data.substr(0, 1)+"' packet.");
+		return resp;
+	}
+
+
+	/**
+	 * If packetQueue is empty returns immediately.
+	 * Otherwise the first packet in the queue is sent.
+	 */
+	protected sendNextPacket() {
+		if (this.packetQueue.length==0)
+			return;
+
+		// Get next packet from buffer
+		const msg=this.packetQueue[0];
+		this.startCmdRespTimeout(msg.respTimeoutTime);
+		this.writeToSocket(msg.packet);
+	}
+
+
+	/**
+	 * Writes the raw data to the socket.
+	 * @param raw E.g. '$g#67', '+' or '\x03'.
+	 */
+	protected writeToSocket(raw: string) {
+		LogSocket.log('>>> GdbRspRemote: Sending '+raw);
+		this.socket.write(Buffer.from(raw, 'latin1'));
+	}
+
+
+	/**
+	 * Called when data has been received.
+	 * Collects the data until a complete packet ('$...#xx') has been
+	 * received. Acknowledges ('+') are skipped.
+	 */
+	protected dataReceived(data: string) {
+		this.receivedData+=data;
+
+		while (true) {
+			// Skip everything up to the start of the packet, e.g. '+'
+			const start=this.receivedData.indexOf('$');
+			if (start<0) {
+				this.receivedData='';
+				return;
+			}
+			// Check that packet is complete (incl. checksum)
+			const end=this.receivedData.indexOf('#', start);
+			if (end<0||this.receivedData.length<end+3) {
+				this.receivedData=this.receivedData.substr(start);
+				return;	// Wait for more
+			}
+
+			// Complete packet received
+			const rawData=this.receivedData.substring(start+1, end);
+			const checksum=this.receivedData.substr(end+1, 2).toLowerCase();
+			this.receivedData=this.receivedData.substr(end+3);
+			LogSocket.log('<<< GdbRspRemote: Received $'+rawData+'#'+checksum);
+
+			// Check checksum
+			if (checksum!=GdbRspRemote.checksum(rawData)) {
+				// Request re-transmission
+				this.writeToSocket('-');
+				continue;
+			}
+
+			// Acknowledge and handle
+			this.writeToSocket('+');
+			this.receivedPacket(GdbRspRemote.decodePacketData(rawData));
+		}
+	}
+
+
+	/**
+	 * A gdb response has been received.
+	 * The response always belongs to the first packet in the queue.
+	 * If there are still packets in the queue the next packet is sent.
+	 */
+	protected receivedPacket(data: string) {
+		// Stop timeout
+		this.stopCmdRespTimeout();
+		// Get latest sent packet
+		const msg=this.packetQueue.shift();
+		if (!msg) {
+			// Unexpected, e.g. the stop reply of an already timed out packet.
+			LogSocket.log('GdbRspRemote: Unexpected packet received: '+data);
+			return;
+		}
+		// Queue next packet
+		this.sendNextPacket();
+		// Pass received data to right consumer
+		msg.resolve(data);
+	}
+
+
+	/**
+	 * Parses a stop reply packet, e.g. 'S05' or 'T05watch:8000;'.
+	 * Throws an error if the emulator has exited.
+	 * @param reply The stop reply.
+	 * @returns The watchpoint break number and address if a watchpoint was hit.
+	 * Otherwise undefined.
+	 */
+	protected parseStopReply(reply: string): {breakNumber: number, breakAddress: number}|undefined {
+		const type=reply.substr(0, 1);
+		if (type=='W'||type=='X')
+			throw Error(this.stubName+" has exited.");
+		if (type!='T')
+			return undefined;
+		// Check for watchpoint
+		const match=/(r|a)?watch:([0-9a-fA-F]+);/.exec(reply);
+		if (!match)
+			return undefined;
+		const breakNumber=(match[1])? BREAK_REASON_NUMBER.WATCHPOINT_READ:BREAK_REASON_NUMBER.WATCHPOINT_WRITE;
+		const breakAddress=parseInt(match[2], 16)&0xFFFF;
+		return {breakNumber, breakAddress};
+	}
+
+
+	/**
+	 * Called when the stop reply for a 'c' or 's' has been received.
+	 * Removes the step breakpoints, determines the break reason and
+	 * calls the 'continueResolve' function.
+	 * @param reply The stop reply.
+	 */
+	protected async handleStopReply(reply: string): Promise<void> {
+		try {
+			// Remove step breakpoints
+			const stepBps=this.stepBpAddresses;
+			this.stepBpAddresses=new Array<number>();
+			for (const address of stepBps)
+				await this.releaseGdbBreakpoint(address);
+
+			// Get break reason
+			let breakNumber=BREAK_REASON_NUMBER.NO_REASON;
+			let breakAddress;
+			const watchpoint=this.parseStopReply(reply);
+			if (watchpoint) {
+				breakNumber=watchpoint.breakNumber;
+				breakAddress=watchpoint.breakAddress;
+			}
+			else {
+				const regs=await this.sendDzrpCmdGetRegisters();
+				breakAddress=regs[Z80_REG.PC];
+				// Step breakpoints take precedence. The DzrpRemote evaluates
+				// the other breakpoints at the same address anyway.
+				if (!stepBps.includes(breakAddress) && this.getBreakpointsByAddress(breakAddress).length>0)
+					breakNumber=BREAK_REASON_NUMBER.BREAKPOINT_HIT;
+			}
+
+			// Call resolve of 'continue'
+			if (this.continueResolve) {
+				const continueHandler=this.continueResolve;
+				this.continueResolve=undefined;
+				continueHandler({breakNumber, breakAddress, breakReasonString: undefined});
+			}
+		}
+		catch (err) {
+			this.emit('error', err);
+		}
+	}
+
+
+	/**
+	 * Sets a breakpoint in the emulator if not yet set at that address.
+	 * @param address The breakpoint address.
+	 * @returns true if successful.
+	 */
+	protected async insertGdbBreakpoint(address: number): Promise<boolean> {
+		const count=this.gdbBreakpoints.get(address)||0;
+		if (count==0) {
+			const resp=await this.sendGdbPacket('Z0,'+address.toString(16)+',1');
+			if (resp!='OK')
+				return false;
+		}
+		this.gdbBreakpoints.set(address, count+1);
+		return true;
+	}
+
+
+	/**
+	 * Removes a breakpoint in the emulator if it is not used anymore.
+	 * @param address The breakpoint address.
+	 */
+	protected async releaseGdbBreakpoint(address: number): Promise<void> {
+		const count=this.gdbBreakpoints.get(address);
+		if (!count)
+			return;
+		if (count>1) {
+			this.gdbBreakpoints.set(address, count-1);
+			return;
+		}
+		this.gdbBreakpoints.delete(address);
+		await this.sendGdbPacket('z0,'+address.toString(16)+',1');
+	}
+
+
+	/**
+	 * 'load' is not supported. The emulator loads the ROMs itself.
+	 */
+	protected async loadBin(filePath: string): Promise<void> {
+		throw Error("launch.json: 'load' is not supported with remoteType:'"+Settings.launch.remoteType+"'. Use 'loadObjs' instead.");
+	}
+
+
+	/**
+	 * A gdb stub has no notion of ZX memory banks.
+	 * @returns An empty array.
+	 */
+	public async getMemoryBanks(): Promise<MemoryBank[]> {
+		return [];
+	}
+
+
+	/**
+	 * A gdb stub supports watchpoints (Z2-Z4) but no state saving and no sprites.
+	 */
+	public supportsFeature(feature: RemoteFeature): boolean {
+		return feature==RemoteFeature.WATCHPOINTS;
+	}
+
+
+	/**
+	 * State saving is not supported by gdb RSP.
+	 */
+	public async stateSave(filePath: string): Promise<void> {
+		throw Error("Saving and restoring the state is not supported with "+this.stubName+".");
+	}
+	public async stateRestore(filePath: string): Promise<void> {
+		throw Error("Saving and restoring the state is not supported with "+this.stubName+".");
+	}
+
+
+	//------- Send Commands -------
+
+	/**
+	 * Override.
+	 * Queries the halt reason. Used to check the connection.
+	 * @returns The program name. error is undefined on success.
+	 */
+	protected async sendDzrpCmdInit(): Promise<{error: string|undefined, programName: string, dzrpVersion: string, capabilities?: DzrpCapabilities}> {
+		const resp=await this.sendGdbPacket('?');
+		let error: string|undefined;
+		if (resp.length==0)
+			error=this.stubName+" did not respond to '?'.";
+		return {error, dzrpVersion: "", programName: this.stubName};
+	}
+
+
+	/**
+	 * Override.
+	 * Detaches from the emulator. The emulator continues to run.
+	 */
+	protected async sendDzrpCmdClose(): Promise<void> {
+		await this.sendGdbPacket('D');
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the 'g' packet to get all registers.
+	 * @returns An Uint16Array with the register data. Same order as in
+	 * 'Z80Registers.getRegisterData'.
+	 */
+	protected async sendDzrpCmdGetRegisters(): Promise<Uint16Array> {
+		const resp=await this.sendGdbPacketChecked('g');
+		const values=new Array<number>(Z80_REG.IM+1).fill(0);
+		this.gdbRegisters.forEach((reg, i) => {
+			// Little endian. Unavailable registers are transmitted as 'xx'.
+			const lo=parseInt(resp.substr(4*i, 2), 16)||0;
+			const hi=parseInt(resp.substr(4*i+2, 2), 16)||0;
+			values[reg]=lo+(hi<<8);
+		});
+		return Z80RegistersClass.getRegisterData(
+			values[Z80_REG.PC], values[Z80_REG.SP],
+			values[Z80_REG.AF], values[Z80_REG.BC], values[Z80_REG.DE], values[Z80_REG.HL],
+			values[Z80_REG.IX], values[Z80_REG.IY],
+			values[Z80_REG.AF2], values[Z80_REG.BC2], values[Z80_REG.DE2], values[Z80_REG.HL2],
+			values[Z80_REG.IR]>>>8, values[Z80_REG.IR]&0xFF, 0);
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the 'P' packet to set a register value.
+	 * 8 bit registers are combined with the other half of the
+	 * 16 bit register.
+	 * @param regIndex E.g. Z80_REG.BC or Z80_REG.A2
+	 * @param value A 1 byte or 2 byte value.
+	 */
+	protected async sendDzrpCmdSetRegister(regIndex: Z80_REG, value: number): Promise<void> {
+		// Map 8 bit register to 16 bit register
+		let reg=regIndex;
+		let value16=value&0xFFFF;
+		const half=HALF_REGISTERS.get(regIndex);
+		if (half) {
+			const [reg16, high]=half;
+			reg=reg16;
+			const regs=await this.sendDzrpCmdGetRegisters();
+			const prev=regs[reg16];
+			value16=(high)? (prev&0x00FF)|((value&0xFF)<<8):(prev&0xFF00)|(value&0xFF);
+		}
+
+		// Get index of register in the 'g' packet
+		const gdbIndex=this.gdbRegisters.indexOf(reg);
+		if (gdbIndex<0)
+			throw Error("Register "+Z80_REG[regIndex]+" cannot be changed with "+this.stubName+".");
+
+		// Little endian
+		const hex=Utility.getHexString(value16&0xFF, 2)+Utility.getHexString(value16>>>8, 2);
+		await this.sendGdbPacketChecked('P'+gdbIndex.toString(16)+'='+hex.toLowerCase());
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the 'c' packet to continue ('run') the program.
+	 * Returns after sending. The stop reply is handled in 'handleStopReply'.
+	 * @param bp1Address The address of breakpoint 1 or undefined if not used.
+	 * @param bp2Address The address of breakpoint 2 or undefined if not used.
+	 */
+	protected async sendDzrpCmdContinue(bp1Address?: number, bp2Address?: number): Promise<void> {
+		// Set the temporary breakpoints
+		for (const address of [bp1Address, bp2Address]) {
+			if (address==undefined)
+				continue;
+			if (await this.insertGdbBreakpoint(address))
+				this.stepBpAddresses.push(address);
+		}
+
+		// Run. Does not wait for the stop reply.
+		this.sendGdbPacket('c', NO_TIMEOUT)
+			.then(reply => this.handleStopReply(reply))
+			.catch(err => this.emit('error', err));
+	}
+
+
+	/**
+	 * Override.
+	 * Sends a break (Ctrl-C) to pause a running program.
+	 * The break is sent out-of-band, i.e. not as packet.
+	 * The stub answers with the stop reply to the pending 'c'.
+	 */
+	protected async sendDzrpCmdPause(): Promise<void> {
+		this.writeToSocket('\x03');
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the 'Z0' packet to add a breakpoint.
+	 * Note: conditions are evaluated by DeZog not by the emulator.
+	 * @param bp The breakpoint. sendDzrpCmdAddBreakpoint will set bp.bpId with the breakpoint
+	 * ID. If the breakpoint could not be set it is set to 0.
+	 */
+	protected async sendDzrpCmdAddBreakpoint(bp: GenericBreakpoint): Promise<void> {
+		if (await this.insertGdbBreakpoint(bp.address)) {
+			this.lastBpId++;
+			bp.bpId=this.lastBpId;
+		}
+		else
+			bp.bpId=0;
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the 'z0' packet to remove a breakpoint.
+	 * @param bp The breakpoint to remove.
+	 */
+	protected async sendDzrpCmdRemoveBreakpoint(bp: GenericBreakpoint): Promise<void> {
+		await this.releaseGdbBreakpoint(bp.address);
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the 'Z2' (write), 'Z3' (read) or 'Z4' (access) packet to add a watchpoint.
+	 * @param address The watchpoint address. 0x0000-0xFFFF.
+	 * @param size The size of the watchpoint. address+size-1 is the last address for the watchpoint.
+	 * @param access 'r', 'w' or 'rw'.
+	 * @param condition Not supported by gdb RSP.
+	 */
+	protected async sendDzrpCmdAddWatchpoint(address: number, size: number, access: string, condition: string): Promise<void> {
+		let type='Z4';
+		if (access=='w')
+			type='Z2';
+		else if (access=='r')
+			type='Z3';
+		await this.sendGdbPacketChecked(type+','+address.toString(16)+','+size.toString(16));
+		this.gdbWatchpoints.set(address+','+size, type);
+	}
+
+
+	/**
+	 * Override.
+	 * Sends the 'z2', 'z3' or 'z4' packet to remove a watchpoint for an address range.
+	 * @param address The watchpoint address. 0x0000-0xFFFF.
+	 * @param size The size of the watchpoint. address+size-1 is the last address for the watchpoint.
+	 */
+	protected async sendDzrpCmdRemoveWatchpoint(address: number, size: number): Promise<void> {
+		const key=address+','+size;
+		const type=this.gdbWatchpoints.get(key);
+		if (!type)
+			return;
+		this.gdbWatchpoints.delete(key);
+		await this.sendGdbPacket(type.toLowerCase()+','+address.toString(16)+','+size.toString(16));
+	}
+
+
+	/**
+	 * Override.
+	 * Sends 'm' packets to retrieve a memory dump.
+	 * @param address The memory start address.
+	 * @param size The memory size.
+	 * @returns A promise with an Uint8Array.
+	 */
+	protected async sendDzrpCmdReadMem(address: number, size: number): Promise<Uint8Array> {
+		const buffer=new Uint8Array(size);
+		let offset=0;
+		while (offset<size) {
+			// Don't wrap around in one packet
+			const addr=(address+offset)&0xFFFF;
+			const count=Math.min(size-offset, MAX_MEM_CHUNK, 0x10000-addr);
+			const resp=await this.sendGdbPacketChecked('m'+addr.toString(16)+','+count.toString(16));
+			for (let i=0; i<count; i++)
+				buffer[offset+i]=parseInt(resp.substr(2*i, 2), 16)||0;
+			offset+=count;
+		}
+		return buffer;
+	}
+
+
+	/**
+	 * Override.
+	 * Sends 'M' packets to write a memory dump.
+	 * @param address The memory start address.
+	 * @param dataArray The data to write.
+	 */
+	public async sendDzrpCmdWriteMem(address: number, dataArray: Buffer|Uint8Array): Promise<void> {
+		const size=dataArray.length;
+		let offset=0;
+		while (offset<size) {
+			// Don't wrap around in one packet
+			const addr=(address+offset)&0xFFFF;
+			const count=Math.min(size-offset, MAX_MEM_CHUNK, 0x10000-addr);
+			let hex='';
+			for (let i=0; i<count; i++)
+				hex+=Utility.getHexString(dataArray[offset+i], 2);
+			await this.sendGdbPacketChecked('M'+addr.toString(16)+','+count.toString(16)+':'+hex.toLowerCase());
+			offset+=count;
+		}
+	}
+}
@@ -0,0 +1,32 @@
+import {GdbRspRemote} from '../gdbrsp/gdbrspremote';
+import {Settings} from '../../settings';
+
+
+
+/**
+ * The register order used by the MAME gdbstub for the Z80 in the
+ * 'g' packet. All registers are 16 bit, little endian.
+ * I, R and IM are not transmitted by MAME.
+ */
+export const MAME_Z80_REGISTERS=["AF", "BC", "DE", "HL", "AF'", "BC'", "DE'", "HL'", "IX", "IY", "SP", "PC"];
+
+
+/**
+ * The MAME Remote.
+ * It connects via socket with the MAME gdbstub
+ * (mame ... -debugger gdbstub -debug).
+ * Apart from the settings and the register order it is a normal
+ * gdb RSP remote.
+ */
+export class MameRemote extends GdbRspRemote {
+
+	/// Constructor.
+	constructor() {
+		super();
+		this.stubName='MAME';
+		this.hostname=Settings.launch.mame.hostname;
+		this.port=Settings.launch.mame.port;
+		this.cmdRespTimeoutTime=Settings.launch.mame.socketTimeout*1000;
+		this.registerNames=MAME_Z80_REGISTERS;
+	}
+}
@@ -3,7 +3,7 @@ import {Z80RegistersClass, Z80_REG, Z80Registers} from './z80registers';
 import {RefList} from '../misc/refList';
 import {CallStackFrame} from '../callstackframe';
 import {EventEmitter} from 'events';
-import {GenericWatchpoint, GenericBreakpoint} from '../genericwatchpoint';
+import {GenericWatchpoint, GenericBreakpoint, GenericMock, GenericTstatesBudget} from '../genericwatchpoint';
 import {Labels, SourceFileEntry} from '../labels/labels';
 import {Settings, ListFile} from '../settings';
 import {Utility} from '../misc/utility';
@@ -33,6 +33,22 @@ export enum BREAK_REASON_NUMBER {
 };
 
 
+/**
+ * Optional features of a remote.
+ * If a remote does not support a feature the corresponding
+ * commands are disabled.
+ * Are used in DZRP as bit numbers as well, so be cautious when changing values.
+ */
+export enum RemoteFeature {
+	WATCHPOINTS=0,	// Watchpoints, i.e. also WPMEM
+	STATE_SAVE=1,	// "-state save/restore"
+	SPRITES=2		// "-sprites" and "-patterns"
+};
+
+/// The feature names used in messages. Index is the RemoteFeature.
+export const REMOTE_FEATURE_NAMES=['watchpoints (WPMEM)', 'state save/restore', 'sprites'];
+
+
 /**
  * The breakpoint representation.
  */
@@ -122,6 +138,12 @@ export class RemoteBase extends EventEmitter {
 	/// The logpoints can be enabled/disabled per group.
 	public logpointsEnabled=new Map<string, boolean>();
 
+	/// Stores the mocked subroutines of the unit tests (UNITTEST_MOCK).
+	protected mocks=new Array<GenericMock>();
+
+	/// Stores the T-state budgets of the unit tests (UNITTEST_TSTATES).
+	protected tstatesBudgets=new Array<GenericTstatesBudget>();
+
 
 	/// Constructor.
 	/// Override this.
@@ -302,6 +324,85 @@ export class RemoteBase extends EventEmitter {
 	}
 
 
+	/**
+	 * Creates the mocked subroutines from the text lines.
+	 * Syntax:
+	 * UNITTEST_MOCK subroutine [, reg=value]* [, calls=count]
+	 * e.g. UNITTEST_MOCK read_port, A=0x1F, HL=buffer+2, calls=1
+	 * Throws an exception if a line cannot be evaluated.
+	 * @param mockLines An array with address and line (text) pairs.
+	 * @return An array with the mocks.
+	 */
+	protected createMocks(mockLines: Array<{address: number, line: string}>): Array<GenericMock> {
+		const mocks=new Array<GenericMock>();
+		const regNames=['A', 'F', 'B', 'C', 'D', 'E', 'H', 'L', 'AF', 'BC', 'DE', 'HL', 'IX', 'IY'];
+		for (let entry of mockLines) {
+			const match=/;.*\bUNITTEST_MOCK\b([^;]*)/.exec(entry.line);
+			if (!match)
+				continue;
+			try {
+				// Labels are evaluated in the context of the line (sjasmplus modules)
+				const {modulePrefix, lastLabel}=Labels.getFileAndLineForAddress(entry.address);
+				const args=match[1].split(',').map(arg => arg.trim());
+				const label=args.shift();
+				if (!label)
+					throw "Expecting 'UNITTEST_MOCK subroutine'.";
+				const address=Utility.evalExpression(label, false, modulePrefix, lastLabel);
+				const mock: GenericMock={lineAddress: entry.address, label, address, registers: []};
+				for (const arg of args) {
+					const assignment=/^(\w+)\s*=\s*(.+)$/.exec(arg);
+					if (!assignment)
+						throw "Expecting 'reg=value' or 'calls=count' instead of '"+arg+"'.";
+					const name=assignment[1].toUpperCase();
+					const value=Utility.evalExpression(assignment[2], false, modulePrefix, lastLabel);
+					if (name=='CALLS')
+						mock.expectedCalls=value;
+					else if (regNames.includes(name))
+						mock.registers.push({name, value});
+					else
+						throw "Unknown register '"+assignment[1]+"'.";
+				}
+				mocks.push(mock);
+			}
+			catch (e) {
+				throw "Problem with UNITTEST_MOCK. Could not evaluate: '"+entry.line+"': "+e+"";
+			}
+		}
+		return mocks;
+	}
+
+
+	/**
+	 * Creates the T-state budgets from the text lines.
+	 * Syntax:
+	 * UNITTEST_TSTATES max
+	 * e.g. UNITTEST_TSTATES 2000
+	 * Throws an exception if a line cannot be evaluated.
+	 * @param budgetLines An array with address and line (text) pairs.
+	 * @return An array with the budgets.
+	 */
+	protected createTstatesBudgets(budgetLines: Array<{address: number, line: string}>): Array<GenericTstatesBudget> {
+		const budgets=new Array<GenericTstatesBudget>();
+		for (let entry of budgetLines) {
+			const match=/;.*\bUNITTEST_TSTATES\b([^;]*)/.exec(entry.line);
+			if (!match)
+				continue;
+			try {
+				const {modulePrefix, lastLabel}=Labels.getFileAndLineForAddress(entry.address);
+				const expr=match[1].trim();
+				if (!expr)
+					throw "Expecting 'UNITTEST_TSTATES max'.";
+				const maxTstates=Utility.evalExpression(expr, false, modulePrefix, lastLabel);
+				budgets.push({lineAddress: entry.address, maxTstates});
+			}
+			catch (e) {
+				throw "Problem with UNITTEST_TSTATES. Could not evaluate: '"+entry.line+"': "+e+"";
+			}
+		}
+		return budgets;
+	}
+
+
 	/**
 	 * Creates an array of log points from the text lines.
 	 * @param watchPointLines An array with address and line (text) pairs.
@@ -400,7 +501,7 @@ export class RemoteBase extends EventEmitter {
 
 	/**
 	 * Reads the list file and also retrieves all occurrences of
-	 * WPMEM, ASSERT and LOGPOINT.
+	 * WPMEM, ASSERT, LOGPOINT, UNITTEST_MOCK and UNITTEST_TSTATES.
 	 * Also sets WPMEM, ASSERT and LOGPOINT break/watchpoints.
 	 * May throw an error.
 	 * @param listFiles An array with all list files.
@@ -411,6 +512,8 @@ export class RemoteBase extends EventEmitter {
 		const watchPointLines=new Array<{address: number, line: string}>();
 		const assertLines=new Array<{address: number, line: string}>();
 		const logPointLines=new Array<{address: number, line: string}>();
+		const mockLines=new Array<{address: number, line: string}>();
+		const budgetLines=new Array<{address: number, line: string}>();
 		// Load user list and labels files
 		for (const listFile of listFiles) {
 			const file={
@@ -438,6 +541,16 @@ export class RemoteBase extends EventEmitter {
 					// Add assert line at this address
 					logPointLines.push({address: address, line: line});
 				}
+				// Quick search for UNITTEST_MOCK
+				if (line.indexOf('UNITTEST_MOCK')>=0) {
+					// Add mock line at this address
+					mockLines.push({address: address, line: line});
+				}
+				// Quick search for UNITTEST_TSTATES
+				if (line.indexOf('UNITTEST_TSTATES')>=0) {
+					// Add budget line at this address
+					budgetLines.push({address: address, line: line});
+				}
 			}, file.z88dkMapFile);
 		}
 
@@ -461,6 +574,12 @@ export class RemoteBase extends EventEmitter {
 		// LOGPOINTs
 		const logPointsMap=this.createLogPoints(logPointLines);
 		this.setLOGPOINTArray(logPointsMap);
+
+		// Mocked subroutines for the unit tests
+		this.mocks=this.createMocks(mockLines);
+
+		// T-state budgets for the unit tests
+		this.tstatesBudgets=this.createTstatesBudgets(budgetLines);
 	}
 
 
@@ -948,6 +1067,54 @@ export class RemoteBase extends EventEmitter {
 	}
 
 
+	/**
+	 * Returns all mocked subroutines (UNITTEST_MOCK) found in the list files.
+	 */
+	public getAllMocks(): Array<GenericMock> {
+		return this.mocks;
+	}
+
+
+	/**
+	 * Emits the 'coverage' event for the addresses executed since
+	 * the last 'coverage' event and clears them.
+	 * The promise is fulfilled after the event has been emitted.
+	 * Used by the unit tests to attribute the coverage to each test case.
+	 * Override if the remote supports code coverage.
+	 */
+	public async flushCodeCoverage(): Promise<void> {
+	}
+
+
+	/**
+	 * Returns all T-state budgets (UNITTEST_TSTATES) found in the list files.
+	 */
+	public getAllTstatesBudgets(): Array<GenericTstatesBudget> {
+		return this.tstatesBudgets;
+	}
+
+
+	/**
+	 * Activates the mocked subroutines for the next test case.
+	 * Any previously set mocks are removed and their call counters reset.
+	 * Override if the remote supports mocking.
+	 * @param mocks The mocks. An empty array removes all mocks.
+	 */
+	public async setMocks(mocks: Array<GenericMock>): Promise<void> {
+		if (mocks.length>0)
+			throw Error("The remote does not support mocking of subroutines (UNITTEST_MOCK).");
+	}
+
+
+	/**
+	 * Returns how often the mocked subroutines have been called since 'setMocks'.
+	 * @returns An array with the number of calls, in the order of the mocks passed to 'setMocks'.
+	 */
+	public async getMockCalls(): Promise<Array<number>> {
+		return [];
+	}
+
+
 	/**
 	 * Sets the LOGPOINTs array.
 	 * @param logpoints A list of addresses with messages to put a logpoint on.
@@ -1409,6 +1576,88 @@ export class RemoteBase extends EventEmitter {
 	}
 
 
+	/**
+	 * Returns if the remote supports a feature.
+	 * Override if the remote does not support all features.
+	 * @param feature E.g. RemoteFeature.SPRITES
+	 * @returns true if supported.
+	 */
+	public supportsFeature(feature: RemoteFeature): boolean {
+		return true;
+	}
+
+
+	/**
+	 * Returns the names of all features the remote does not support.
+	 * Used to inform the user.
+	 * @returns E.g. ['sprites']. An empty array if all features are supported.
+	 */
+	public getUnsupportedFeatureNames(): Array<string> {
+		const names=new Array<string>();
+		for (let feature=0; feature<REMOTE_FEATURE_NAMES.length; feature++) {
+			if (!this.supportsFeature(feature))
+				names.push(REMOTE_FEATURE_NAMES[feature]);
+		}
+		return names;
+	}
+
+
+	/**
+	 * Called from "-snapshot save" command.
+	 * Saves memory and registers as .z80 or .szx file.
+	 * Override.
+	 * @param filePath The file path to store to.
+	 */
+	public async snapshotSave(filePath: string): Promise<void> {
+		throw Error("The remote does not support saving snapshots.");
+	}
+
+
+	/**
+	 * Called from "-nmi" command.
+	 * Generates a non maskable interrupt.
+	 * Override.
+	 */
+	public async generateNmi(): Promise<void> {
+		throw Error("The remote does not support generating an NMI.");
+	}
+
+
+	/**
+	 * Called from "-interrupt" command.
+	 * Generates a one-shot maskable interrupt.
+	 * Override.
+	 * @param data The value on the data bus (used by IM 0 and IM 2).
+	 * @returns false if the interrupt was not accepted (interrupts disabled).
+	 */
+	public async generateInterrupt(data: number): Promise<boolean> {
+		throw Error("The remote does not support generating an interrupt.");
+	}
+
+
+	/**
+	 * Called from "-reset" command.
+	 * Resets the machine.
+	 * Override.
+	 * @param hard true for a hard reset (power cycle, RAM is cleared),
+	 * false for a soft reset (reset button).
+	 */
+	public async resetMachine(hard: boolean): Promise<void> {
+		throw Error("The remote does not support a reset.");
+	}
+
+
+	/**
+	 * Returns the interrupt flip-flops and the HALT state of the CPU.
+	 * Shown in the registers.
+	 * Override.
+	 * @returns undefined if not available.
+	 */
+	public async getInterruptState(): Promise<{iff1: number, iff2: number, halted: boolean}|undefined> {
+		return undefined;
+	}
+
+
 	/**
 	 * Called from "-state save" command.
 	 * Stores all RAM, registers etc.
@@ -5,7 +5,13 @@ import {ZSimRemote} from './zxsimulator/zsimremote';
 //import {ZxNextSocketRemote} from './zxnext/zxnextsocketremote';
 import {CSpectRemote} from './dzrpbuffer/cspectremote';
 import {Utility} from '../misc/utility';
+import {Settings} from '../settings';
 import {ZxNextSocketRemote} from './dzrpbuffer/zxnextsocketremote';
+import {ZxNextSerialRemote} from './dzrpbuffer/zxnextserialremote';
+import {MameRemote} from './mame/mameremote';
+import {GdbRspRemote} from './gdbrsp/gdbrspremote';
+import {DzrpRecording} from './dzrpbuffer/dzrprecording';
+import {CSpectReplayRemote, ZxNextReplayRemote} from './dzrpbuffer/replayremote';
 
 
 
@@ -15,7 +21,7 @@ import {ZxNextSocketRemote} from './dzrpbuffer/zxnextsocketremote';
 export class RemoteFactory {
 	/**
 	 * Factory method to create an emulator.
-	 * @param remoteType 'zrcp', 'zxnext' or 'zsim'. For 'zrcp' always the ZesaruxExtEmulator is created.
+	 * @param remoteType 'zrcp', 'cspect', 'zxnext', 'zsim', 'mame', 'gdbrsp' or 'replay'. For 'zrcp' always the ZesaruxExtEmulator is created.
 	 * It will fallback to Zesarux if no ZesaruxExt is connected.
 	 */
 	public static createRemote(remoteType: string) {
@@ -27,13 +33,22 @@ export class RemoteFactory {
 				RemoteFactory.setRemote(new CSpectRemote());
 				break;
 			case 'zxnext':	// The ZX Next USB/serial connection
-				RemoteFactory.setRemote(new ZxNextSocketRemote());
+				if (Settings.launch.zxnext.serial)
+					RemoteFactory.setRemote(new ZxNextSerialRemote());
+				else
+					RemoteFactory.setRemote(new ZxNextSocketRemote());
 				break;
 			case 'zsim':	// Simulator
 				RemoteFactory.setRemote(new ZSimRemote());
 				break;
-			case 'mame':
-				Utility.assert(false);	// needs to be implemented
+			case 'mame':	// MAME gdbstub
+				RemoteFactory.setRemote(new MameRemote());
+				break;
+			case 'gdbrsp':	// Generic gdb stub
+				RemoteFactory.setRemote(new GdbRspRemote());
+				break;
+			case 'replay':	// Recorded DZRP session
+				RemoteFactory.createReplayRemote(Settings.launch.replay.path);
 				break;
 			default:
 				Utility.assert(false);
@@ -42,6 +57,25 @@ export class RemoteFactory {
 	}
 
 
+	/**
+	 * Creates the replay remote for the remote type of the recording.
+	 * @param filePath The path of the recording.
+	 */
+	protected static createReplayRemote(filePath: string) {
+		const recording=new DzrpRecording(filePath);
+		switch (recording.remoteType) {
+			case 'cspect':
+				RemoteFactory.setRemote(new CSpectReplayRemote(recording));
+				break;
+			case 'zxnext':
+				RemoteFactory.setRemote(new ZxNextReplayRemote(recording));
+				break;
+			default:
+				throw Error("Replay: Recordings of remote type '"+recording.remoteType+"' cannot be replayed.");
+		}
+	}
+
+
 	/**
 	 * Sets the emulator variable.
 	 */
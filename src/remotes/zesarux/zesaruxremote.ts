@@ -650,33 +650,51 @@ export class ZesaruxRemote extends RemoteBase {
 
 	/**
 	 * Reads the coverage addresses and clears them in ZEsarUX.
+	 * @returns A promise that is fulfilled after the 'coverage' event has been emitted.
 	 */
-	protected handleCodeCoverage() {
-		// Check if code coverage is enabled
-		if(!Settings.launch.history.codeCoverageEnabled)
-			return;
-
-		// Get coverage
-		zSocket.send('cpu-code-coverage get', data => {
-			// Check for error
-			if(data.startsWith('Error'))
+	protected handleCodeCoverage(): Promise<void> {
+		return new Promise<void>(resolve => {
+			// Check if code coverage is enabled
+			if(!Settings.launch.history.codeCoverageEnabled) {
+				resolve();
 				return;
-			// Parse data and collect addresses
-			const addresses = new Set<number>();
-			const length = data.length;
-			for(let k=0; k<length; k+=5) {
-				const addressString = data.substr(k,4);
-				const address = parseInt(addressString, 16);
-				addresses.add(address);
 			}
-			// Clear coverage in ZEsarUX
-			zSocket.send('cpu-code-coverage clear');
-			// Emit code coverage event
-			this.emit('coverage', addresses);
+
+			// Get coverage
+			zSocket.send('cpu-code-coverage get', data => {
+				// Check for error
+				if(data.startsWith('Error')) {
+					resolve();
+					return;
+				}
+				// Parse data and collect addresses
+				const addresses = new Set<number>();
+				const length = data.length;
+				for(let k=0; k<length; k+=5) {
+					const addressString = data.substr(k,4);
+					const address = parseInt(addressString, 16);
+					addresses.add(address);
+				}
+				// Clear coverage in ZEsarUX
+				zSocket.send('cpu-code-coverage clear');
+				// Emit code coverage event
+				this.emit('coverage', addresses);
+				resolve();
+			});
 		});
 	}
 
 
+	/**
+	 * Emits the code coverage collected in ZEsarUX.
+	 * As the responses are received in order a previously requested
+	 * coverage has been emitted as well when the promise is fulfilled.
+	 */
+	public async flushCodeCoverage(): Promise<void> {
+		await this.handleCodeCoverage();
+	}
+
+
 	/**
 	 * 'step out' of current subroutine.
 	 * @returns A Promise with a string containing the break reason.
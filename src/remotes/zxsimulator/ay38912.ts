@@ -0,0 +1,245 @@
+import {MemBuffer} from '../../misc/membuffer';
+
+
+
+/**
+ * Simulation of the AY-3-8912 sound chip as used in the ZX 128K and ZX Next.
+ * See https://worldofspectrum.org/faq/reference/128kreference.htm#Sound
+ *
+ * The chip is advanced with 'tick()' at 1/8 of the AY clock.
+ * 'getOutput()' returns the mixed output of the 3 channels.
+ */
+export class Ay38912 {
+	// The (logarithmic) output levels of the 16 amplitudes.
+	protected static VOLUMES=[0, 0.0137, 0.0205, 0.0291, 0.0423, 0.0618, 0.0847, 0.1369, 0.1691, 0.2647, 0.3527, 0.4499, 0.5704, 0.6873, 0.8482, 1.0];
+
+	// The 16 registers.
+	protected registers: Uint8Array;
+
+	// The selected register (port 0xFFFD).
+	protected selectedRegister: number;
+
+	// The tone counters and outputs of channels A, B, C.
+	protected toneCounters: number[];
+	protected toneOutputs: number[];
+
+	// The noise counter, the shift register (17 bit) and the output.
+	protected noiseCounter: number;
+	protected noiseShift: number;
+	protected noiseOutput: number;
+
+	// The envelope counter, step (0-15), mask (0 or 15 for decay) and
+	// current volume.
+	protected envCounter: number;
+	protected envStep: number;
+	protected envMask: number;
+	protected envHolding: boolean;
+	protected envVolume: number;
+
+
+	/// Constructor.
+	constructor() {
+		this.registers=new Uint8Array(16);
+		this.reset();
+	}
+
+
+	/**
+	 * Resets the chip: all registers are 0, the channels are silent.
+	 */
+	public reset() {
+		this.registers.fill(0);
+		this.selectedRegister=0;
+		this.toneCounters=[0, 0, 0];
+		this.toneOutputs=[0, 0, 0];
+		this.noiseCounter=0;
+		this.noiseShift=1;
+		this.noiseOutput=0;
+		this.resetEnvelope();
+	}
+
+
+	/**
+	 * Selects the register for the following read/write.
+	 * Port 0xFFFD (write).
+	 */
+	public selectRegister(value: number) {
+		this.selectedRegister=value&0x0F;
+	}
+
+
+	/**
+	 * Returns the value of the selected register.
+	 * Port 0xFFFD (read).
+	 */
+	public readRegister(): number {
+		return this.registers[this.selectedRegister];
+	}
+
+
+	/**
+	 * Writes the selected register.
+	 * Port 0xBFFD (write).
+	 */
+	public writeRegister(value: number) {
+		this.registers[this.selectedRegister]=value;
+		// Writing the envelope shape restarts the envelope
+		if (this.selectedRegister==13)
+			this.resetEnvelope();
+	}
+
+
+	/**
+	 * Returns the selected register.
+	 */
+	public getSelectedRegister(): number {
+		return this.selectedRegister;
+	}
+
+
+	/**
+	 * Returns the value of a register.
+	 * @param reg 0-15
+	 */
+	public getRegister(reg: number): number {
+		return this.registers[reg];
+	}
+
+
+	/**
+	 * Restarts the envelope with the shape of register 13.
+	 */
+	protected resetEnvelope() {
+		this.envCounter=0;
+		this.envStep=0;
+		this.envMask=(this.registers[13]&0x04)? 0:0x0F;	// Attack or decay
+		this.envHolding=false;
+		this.envVolume=this.envMask;
+	}
+
+
+	/**
+	 * Advances the chip by 8 AY clock cycles.
+	 */
+	public tick() {
+		const regs=this.registers;
+
+		// Tone
+		for (let i=0; i<3; i++) {
+			const period=(regs[2*i]+256*(regs[2*i+1]&0x0F))||1;
+			this.toneCounters[i]++;
+			if (this.toneCounters[i]>=period) {
+				this.toneCounters[i]=0;
+				this.toneOutputs[i]^=1;
+			}
+		}
+
+		// Noise (runs at half the tone rate)
+		const noisePeriod=2*((regs[6]&0x1F)||1);
+		this.noiseCounter++;
+		if (this.noiseCounter>=noisePeriod) {
+			this.noiseCounter=0;
+			const bit=(this.noiseShift^(this.noiseShift>>>3))&0x01;
+			this.noiseShift=(this.noiseShift>>>1)|(bit<<16);
+			this.noiseOutput=this.noiseShift&0x01;
+		}
+
+		// Envelope (16 steps, also at half the tone rate)
+		if (!this.envHolding) {
+			const envPeriod=2*((regs[11]+256*regs[12])||1);
+			this.envCounter++;
+			if (this.envCounter>=envPeriod) {
+				this.envCounter=0;
+				this.stepEnvelope();
+			}
+		}
+	}
+
+
+	/**
+	 * Next step of the envelope.
+	 * At the end of a cycle the shape decides whether to hold,
+	 * repeat or alternate.
+	 */
+	protected stepEnvelope() {
+		const shape=this.registers[13];
+		this.envStep++;
+		if (this.envStep>15) {
+			if ((shape&0x08)==0) {
+				// No continue: hold at 0
+				this.envHolding=true;
+				this.envVolume=0;
+				return;
+			}
+			if (shape&0x01) {
+				// Hold
+				this.envHolding=true;
+				this.envStep=15;
+				if (shape&0x02)
+					this.envMask^=0x0F;
+			}
+			else {
+				// Repeat
+				this.envStep=0;
+				if (shape&0x02)
+					this.envMask^=0x0F;
+			}
+		}
+		this.envVolume=this.envStep^this.envMask;
+	}
+
+
+	/**
+	 * Returns the output of all 3 channels mixed.
+	 * @returns A value between 0 and 1.
+	 */
+	public getOutput(): number {
+		const regs=this.registers;
+		const mixer=regs[7];
+		let output=0;
+		for (let i=0; i<3; i++) {
+			const toneOff=(mixer>>>i)&0x01;
+			const noiseOff=(mixer>>>(i+3))&0x01;
+			if ((this.toneOutputs[i]|toneOff)&(this.noiseOutput|noiseOff)) {
+				const amplitude=regs[8+i];
+				const volume=(amplitude&0x10)? this.envVolume:amplitude&0x0F;
+				output+=Ay38912.VOLUMES[volume];
+			}
+		}
+		return output/3;
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer=new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size=memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object.
+	 * Only the registers are stored.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.write8(this.selectedRegister);
+		memBuffer.writeArrayBuffer(this.registers);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.selectedRegister=memBuffer.read8();
+		this.registers.set(memBuffer.readArrayBuffer());
+		this.resetEnvelope();
+	}
+}
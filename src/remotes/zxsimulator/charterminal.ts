@@ -0,0 +1,85 @@
+import {ZxMemory} from './zxmemory';
+
+
+
+/**
+ * A generic memory-mapped character terminal.
+ * The characters are stored in memory line by line (columns x lines
+ * bytes). Printable ASCII characters (0x20-0x7E) are displayed, all
+ * others are shown as space.
+ * Keys pressed in the simulator view are queued and can be read from
+ * a port one after the other. If no key is available 0 is read.
+ */
+export class CharTerminal {
+	// The address of the character memory.
+	public address: number;
+
+	// The size of the terminal.
+	public columns: number;
+	public lines: number;
+
+	// The port to read the keys from. Undefined if there is no keyboard.
+	public keyboardPort: number|undefined;
+
+	// The memory, used to get the characters.
+	protected memory: ZxMemory;
+
+	// The pressed keys (ASCII codes) not yet read.
+	protected keys: Array<number>;
+
+
+	/**
+	 * Constructor.
+	 * @param memory The memory.
+	 * @param address The address of the character memory.
+	 * @param columns The number of columns.
+	 * @param lines The number of lines.
+	 * @param keyboardPort The port to read the keys from. Undefined if there is no keyboard.
+	 */
+	constructor(memory: ZxMemory, address: number, columns: number, lines: number, keyboardPort?: number) {
+		this.memory=memory;
+		this.address=address;
+		this.columns=columns;
+		this.lines=lines;
+		this.keyboardPort=keyboardPort;
+		this.keys=new Array<number>();
+	}
+
+
+	/**
+	 * Returns the contents of the terminal as text. The lines are
+	 * separated by '\n'.
+	 */
+	public getText(): string {
+		const textLines=new Array<string>();
+		let addr=this.address;
+		for (let line=0; line<this.lines; line++) {
+			let text='';
+			for (let column=0; column<this.columns; column++) {
+				const code=this.memory.getMemory8(addr);
+				addr=(addr+1)&0xFFFF;
+				text+=(code>=0x20&&code<0x7F)? String.fromCharCode(code):' ';
+			}
+			textLines.push(text);
+		}
+		return textLines.join('\n');
+	}
+
+
+	/**
+	 * Called if a key is pressed in the simulator view.
+	 * @param code The ASCII code of the key.
+	 */
+	public keyPressed(code: number) {
+		this.keys.push(code&0xFF);
+	}
+
+
+	/**
+	 * Returns the next pressed key or 0 if no key is available.
+	 * Used as read function of the keyboard port.
+	 */
+	public readKey(): number {
+		return this.keys.shift()??0;
+	}
+}
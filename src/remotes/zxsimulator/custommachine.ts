@@ -0,0 +1,241 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {ZxMemory} from './zxmemory';
+
+
+
+/// A region of the memory map. Start and size are multiples of the 8k slot size.
+export interface CustomMemoryRegion {
+	// The start address.
+	start: number;
+	// The size in bytes.
+	size: number;
+	// "rom" or "ram".
+	type: string;
+	// The contents of the ROM. Absolute path. Undefined for no contents.
+	file: string|undefined;
+	// If defined the region mirrors the memory at this address.
+	mirror: number|undefined;
+}
+
+
+/// A port that pages memory banks into slots.
+export interface CustomBankingPort {
+	// The port address (after masking).
+	port: number;
+	// The bits of the port address to decode.
+	mask: number;
+	// The first slot (0-7) to page into.
+	slot: number;
+	// The number of 8k slots that are paged.
+	slotCount: number;
+	// The bank paged in for value 0. Value n pages in firstBank+n*slotCount.
+	firstBank: number;
+	// The bits of the written value that select the bank.
+	valueMask: number;
+}
+
+
+/// An I/O device stub: reads return a constant value, writes are ignored.
+export interface CustomPortStub {
+	// The port address (after masking).
+	port: number;
+	// The bits of the port address to decode.
+	mask: number;
+	// The value returned on a read.
+	value: number;
+}
+
+
+/// The periodic interrupt.
+export interface CustomInterrupt {
+	// "int" (maskable interrupt), "nmi" (non maskable interrupt) or "none".
+	source: string;
+	// The T-states between 2 interrupts.
+	tstates: number;
+	// The value on the data bus (for IM 2).
+	data: number;
+}
+
+
+/// The display.
+export interface CustomDisplay {
+	// "zx81" (display file, rendered directly) or "terminal" (memory-mapped characters).
+	type: string;
+	// Terminal: the address of the character memory.
+	address: number;
+	// Terminal: the number of columns and lines.
+	columns: number;
+	lines: number;
+	// Terminal: the port to read the last pressed key from. Undefined if no keyboard.
+	keyboardPort: number|undefined;
+}
+
+
+/**
+ * The description of a custom (non ZX Spectrum) machine, read from a
+ * JSON file ('zsim.machineFile').
+ * E.g.
+ * {
+ *   "name": "Z80 board",
+ *   "cpuFrequency": 4000000,
+ *   "memory": [
+ *     {"start": "0x0000", "size": "0x2000", "type": "rom", "file": "monitor.rom"}
+ *   ],
+ *   "banking": [{"port": "0x78", "mask": "0xFF", "slot": 2, "size": "0x8000", "firstBank": 8, "valueMask": "0x07"}],
+ *   "ports": [{"port": "0x02", "mask": "0xFF", "value": "0x00"}],
+ *   "interrupt": {"source": "int", "tstates": 80000},
+ *   "display": {"type": "terminal", "address": "0xF800", "columns": 80, "lines": 24, "keyboardPort": "0x01"}
+ * }
+ * Numbers can be given as number or as string (e.g. "0x4000").
+ * Relative file paths are relative to the JSON file.
+ */
+export class CustomMachine {
+	// The name of the machine.
+	public name: string;
+
+	// The CPU frequency in Hz.
+	public cpuFreq: number;
+
+	// The memory map. Not listed memory is RAM.
+	public memory: Array<CustomMemoryRegion>;
+
+	// The ports for memory banking.
+	public banking: Array<CustomBankingPort>;
+
+	// The I/O device stubs.
+	public ports: Array<CustomPortStub>;
+
+	// The periodic interrupt.
+	public interrupt: CustomInterrupt;
+
+	// The display. Undefined if there is no display.
+	public display: CustomDisplay|undefined;
+
+
+	/**
+	 * Constructor.
+	 */
+	constructor() {
+		this.name='Custom';
+		this.cpuFreq=3500000;
+		this.memory=new Array<CustomMemoryRegion>();
+		this.banking=new Array<CustomBankingPort>();
+		this.ports=new Array<CustomPortStub>();
+		this.interrupt={source: 'none', tstates: 70000, data: 0xFF};
+	}
+
+
+	/**
+	 * Reads in the machine description from a JSON file.
+	 * @param filePath The file path.
+	 */
+	public readFile(filePath: string) {
+		const text=fs.readFileSync(filePath).toString();
+		let json;
+		try {
+			json=JSON.parse(text);
+		}
+		catch (e) {
+			throw Error("Machine file '"+filePath+"': "+e.message);
+		}
+		this.parse(json, path.dirname(filePath));
+	}
+
+
+	/**
+	 * Parses and checks the machine description.
+	 * @param json The parsed JSON object.
+	 * @param dir The directory to which file paths are relative.
+	 */
+	public parse(json: any, dir: string) {
+		if (json.name!=undefined)
+			this.name=json.name;
+		if (json.cpuFrequency!=undefined)
+			this.cpuFreq=CustomMachine.getNumber(json.cpuFrequency, 'cpuFrequency');
+
+		// Memory map
+		const slotSize=ZxMemory.MEMORY_BANK_SIZE;
+		for (const region of json.memory??[]) {
+			const start=CustomMachine.getNumber(region.start, 'memory.start');
+			const size=CustomMachine.getNumber(region.size, 'memory.size');
+			if (start%slotSize||size%slotSize||size==0||start+size>0x10000)
+				throw Error("Machine file: memory region at "+start+" needs to be aligned to "+slotSize+" bytes.");
+			const mirror=(region.mirror!=undefined)? CustomMachine.getNumber(region.mirror, 'memory.mirror'):undefined;
+			if (mirror!=undefined&&(mirror%slotSize||mirror+size>0x10000))
+				throw Error("Machine file: mirror of memory region at "+start+" needs to be aligned to "+slotSize+" bytes.");
+			const type=region.type??'ram';
+			if (type!='rom'&&type!='ram')
+				throw Error("Machine file: memory type '"+type+"' is not allowed. Use 'rom' or 'ram'.");
+			const file=(region.file)? path.resolve(dir, region.file):undefined;
+			this.memory.push({start, size, type, file, mirror});
+		}
+
+		// Banking
+		for (const bank of json.banking??[]) {
+			const size=CustomMachine.getNumber(bank.size??slotSize, 'banking.size');
+			const slot=CustomMachine.getNumber(bank.slot, 'banking.slot');
+			const slotCount=size/slotSize;
+			if (!Number.isInteger(slotCount)||slotCount<1||slot<0||slot+slotCount>8)
+				throw Error("Machine file: banking of slot "+slot+" exceeds the 8 slots.");
+			this.banking.push({
+				port: CustomMachine.getNumber(bank.port, 'banking.port'),
+				mask: CustomMachine.getNumber(bank.mask??0xFFFF, 'banking.mask'),
+				slot,
+				slotCount,
+				firstBank: CustomMachine.getNumber(bank.firstBank??8, 'banking.firstBank'),
+				valueMask: CustomMachine.getNumber(bank.valueMask??0xFF, 'banking.valueMask')
+			});
+		}
+
+		// I/O stubs
+		for (const port of json.ports??[]) {
+			this.ports.push({
+				port: CustomMachine.getNumber(port.port, 'ports.port'),
+				mask: CustomMachine.getNumber(port.mask??0xFFFF, 'ports.mask'),
+				value: CustomMachine.getNumber(port.value??0xFF, 'ports.value')
+			});
+		}
+
+		// Interrupt
+		const interrupt=json.interrupt;
+		if (interrupt) {
+			const source=interrupt.source??'int';
+			if (source!='int'&&source!='nmi'&&source!='none')
+				throw Error("Machine file: interrupt source '"+source+"' is not allowed. Use 'int', 'nmi' or 'none'.");
+			this.interrupt={
+				source,
+				tstates: CustomMachine.getNumber(interrupt.tstates??0.02*this.cpuFreq, 'interrupt.tstates'),
+				data: CustomMachine.getNumber(interrupt.data??0xFF, 'interrupt.data')
+			};
+		}
+
+		// Display
+		const display=json.display;
+		if (display) {
+			const type=display.type;
+			if (type!='zx81'&&type!='terminal')
+				throw Error("Machine file: display type '"+type+"' is not allowed. Use 'zx81' or 'terminal'.");
+			this.display={
+				type,
+				address: CustomMachine.getNumber(display.address??0, 'display.address'),
+				columns: CustomMachine.getNumber(display.columns??80, 'display.columns'),
+				lines: CustomMachine.getNumber(display.lines??24, 'display.lines'),
+				keyboardPort: (display.keyboardPort!=undefined)? CustomMachine.getNumber(display.keyboardPort, 'display.keyboardPort'):undefined
+			};
+		}
+	}
+
+
+	/**
+	 * Returns the number of a JSON value.
+	 * @param value A number or a string, e.g. "0x4000".
+	 * @param name The name of the property for the error message.
+	 */
+	protected static getNumber(value: any, name: string): number {
+		const result=Number(value);
+		if (value==undefined||value===''||isNaN(result))
+			throw Error("Machine file: '"+name+"' is not a number ("+value+").");
+		return result;
+	}
+}
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+
+
+
+/**
+ * One block of a tape.
+ * The block describes the pulses that are generated when the block is
+ * played. All pulse lengths are in T-states of a 3.5 MHz clock.
+ * The order of the signal is: pilot tone, pulse sequence, sync pulses,
+ * data and pause.
+ */
+export interface TapeBlock {
+	// A short description of the block for the block list,
+	// e.g. 'Program: "game"'.
+	description: string;
+
+	// The length of one pilot pulse and the number of pilot pulses (0 for none).
+	pilotPulse: number;
+	pilotCount: number;
+
+	// Additional pulses played after the pilot tone (e.g. TZX pulse sequence).
+	pulses: number[];
+
+	// The length of the 2 sync pulses (0 for none).
+	sync1Pulse: number;
+	sync2Pulse: number;
+
+	// The length of the pulses for a 0 and a 1 bit.
+	zeroPulse: number;
+	onePulse: number;
+
+	// The number of used bits in the last byte (1-8).
+	lastByteBits: number;
+
+	// The data bytes. For standard blocks incl. flag and checksum byte.
+	data: Uint8Array;
+
+	// The pause after the block in ms.
+	pause: number;
+
+	// If true the tape stops after this block.
+	stopTape: boolean;
+}
+
+
+/**
+ * A parser for the .tap file format.
+ * A .tap file is just a sequence of blocks, each block is preceded by
+ * its length (2 bytes, little endian).
+ * @see https://worldofspectrum.org/faq/reference/formats.htm#TAP
+ */
+export class TapFile {
+	// Standard ROM timings.
+	public static PILOT_PULSE=2168;
+	public static PILOT_COUNT_HEADER=8063;
+	public static PILOT_COUNT_DATA=3223;
+	public static SYNC1_PULSE=667;
+	public static SYNC2_PULSE=735;
+	public static ZERO_PULSE=855;
+	public static ONE_PULSE=1710;
+
+	// The pause after a block in ms.
+	public static PAUSE=1000;
+
+	// The names of the header types.
+	protected static HEADER_TYPES=['Program', 'Number array', 'Character array', 'Bytes'];
+
+	// All read blocks.
+	public blocks: Array<TapeBlock>;
+
+
+	/**
+	 * Constructor.
+	 */
+	constructor() {
+		this.blocks=new Array<TapeBlock>();
+	}
+
+
+	/**
+	 * Reads in the data from a .tap file.
+	 * @param path The file path.
+	 */
+	public readFile(path: string) {
+		const buffer=fs.readFileSync(path);
+		this.readBuffer(buffer);
+	}
+
+
+	/**
+	 * Reads in the blocks from the contents of a .tap file.
+	 * @param buffer The file contents.
+	 */
+	public readBuffer(buffer: Uint8Array) {
+		let index=0;
+		while (index<buffer.length) {
+			if (index+2>buffer.length)
+				throw Error("Tap file: Block length expected at offset "+index+".");
+			const length=buffer[index]+256*buffer[index+1];
+			index+=2;
+			if (index+length>buffer.length)
+				throw Error("Tap file: Block at offset "+(index-2)+" exceeds the file size.");
+			const data=buffer.slice(index, index+length);
+			index+=length;
+			this.blocks.push(TapFile.createStandardBlock(data, TapFile.PAUSE));
+		}
+	}
+
+
+	/**
+	 * Creates a block with the standard ROM timings.
+	 * @param data The data incl. flag and checksum byte.
+	 * @param pause The pause after the block in ms.
+	 */
+	public static createStandardBlock(data: Uint8Array, pause: number): TapeBlock {
+		const header=(data.length>0&&data[0]<0x80);
+		return {
+			description: TapFile.getDescription(data),
+			pilotPulse: TapFile.PILOT_PULSE,
+			pilotCount: (header)? TapFile.PILOT_COUNT_HEADER:TapFile.PILOT_COUNT_DATA,
+			pulses: [],
+			sync1Pulse: TapFile.SYNC1_PULSE,
+			sync2Pulse: TapFile.SYNC2_PULSE,
+			zeroPulse: TapFile.ZERO_PULSE,
+			onePulse: TapFile.ONE_PULSE,
+			lastByteBits: 8,
+			data,
+			pause,
+			stopTape: false
+		};
+	}
+
+
+	/**
+	 * Returns the description of a standard block.
+	 * For a header the type and the name, e.g. 'Program: "game"'.
+	 * For other blocks the size, e.g. 'Data: 6912 bytes'.
+	 * @param data The data incl. flag and checksum byte.
+	 */
+	public static getDescription(data: Uint8Array): string {
+		if (data.length==19&&data[0]==0) {
+			const type=TapFile.HEADER_TYPES[data[1]]||'Header';
+			const name=String.fromCharCode(...Array.from(data.slice(2, 12))).replace(/ +$/, '');
+			return type+': "'+name+'"';
+		}
+		return 'Data: '+Math.max(data.length-2, 0)+' bytes';
+	}
+}
@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import {TapeBlock, TapFile} from './tapfile';
+
+
+
+/**
+ * A parser for the .tzx file format.
+ * Supports the blocks that describe the signal (0x10-0x14), pauses
+ * and "stop the tape" (0x20, 0x2A) and loops (0x24, 0x25).
+ * Informational blocks (e.g. text, archive info) are skipped.
+ * Direct recordings (0x15) and the generalized data block (0x19) are
+ * not supported.
+ * @see https://worldofspectrum.net/TZXformat.html
+ */
+export class TzxFile {
+	// The signature at the start of the file.
+	protected static SIGNATURE='ZXTape!\x1A';
+
+	// All read blocks.
+	public blocks: Array<TapeBlock>;
+
+	// The file contents and the current read position.
+	protected buffer: Uint8Array;
+	protected index: number;
+
+
+	/**
+	 * Constructor.
+	 */
+	constructor() {
+		this.blocks=new Array<TapeBlock>();
+	}
+
+
+	/**
+	 * Reads in the data from a .tzx file.
+	 * @param path The file path.
+	 */
+	public readFile(path: string) {
+		const buffer=fs.readFileSync(path);
+		this.readBuffer(buffer);
+	}
+
+
+	/**
+	 * Reads in the blocks from the contents of a .tzx file.
+	 * @param buffer The file contents.
+	 */
+	public readBuffer(buffer: Uint8Array) {
+		this.buffer=buffer;
+		const signature=String.fromCharCode(...Array.from(buffer.slice(0, 8)));
+		if (signature!=TzxFile.SIGNATURE)
+			throw Error("Tzx file: Wrong signature.");
+		this.index=10;	// Skip signature and version
+
+		let loopStart=-1;
+		let loopCount=0;
+		while (this.index<buffer.length) {
+			const offset=this.index;
+			const id=this.read8();
+			switch (id) {
+				case 0x10:	// Standard speed data
+					{
+						const pause=this.read16();
+						const length=this.read16();
+						this.blocks.push(TapFile.createStandardBlock(this.readData(length), pause));
+					}
+					break;
+
+				case 0x11:	// Turbo speed data
+					{
+						const pilotPulse=this.read16();
+						const sync1Pulse=this.read16();
+						const sync2Pulse=this.read16();
+						const zeroPulse=this.read16();
+						const onePulse=this.read16();
+						const pilotCount=this.read16();
+						const lastByteBits=this.read8();
+						const pause=this.read16();
+						const data=this.readData(this.read24());
+						this.blocks.push({
+							description: 'Turbo '+TapFile.getDescription(data),
+							pilotPulse, pilotCount, pulses: [],
+							sync1Pulse, sync2Pulse,
+							zeroPulse, onePulse, lastByteBits,
+							data, pause, stopTape: false
+						});
+					}
+					break;
+
+				case 0x12:	// Pure tone
+					{
+						const pilotPulse=this.read16();
+						const pilotCount=this.read16();
+						this.blocks.push(this.createSignalBlock('Pure tone', pilotPulse, pilotCount, []));
+					}
+					break;
+
+				case 0x13:	// Pulse sequence
+					{
+						const count=this.read8();
+						const pulses=new Array<number>();
+						for (let i=0; i<count; i++)
+							pulses.push(this.read16());
+						this.blocks.push(this.createSignalBlock('Pulse sequence', 0, 0, pulses));
+					}
+					break;
+
+				case 0x14:	// Pure data
+					{
+						const zeroPulse=this.read16();
+						const onePulse=this.read16();
+						const lastByteBits=this.read8();
+						const pause=this.read16();
+						const data=this.readData(this.read24());
+						this.blocks.push({
+							description: 'Pure data: '+data.length+' bytes',
+							pilotPulse: 0, pilotCount: 0, pulses: [],
+							sync1Pulse: 0, sync2Pulse: 0,
+							zeroPulse, onePulse, lastByteBits,
+							data, pause, stopTape: false
+						});
+					}
+					break;
+
+				case 0x20:	// Pause or stop the tape
+					{
+						const pause=this.read16();
+						const block=this.createSignalBlock((pause==0)? 'Stop the tape':'Pause '+pause+' ms', 0, 0, []);
+						block.pause=pause;
+						block.stopTape=(pause==0);
+						this.blocks.push(block);
+					}
+					break;
+
+				case 0x2A:	// Stop the tape if in 48K mode
+					{
+						this.index+=4;
+						const block=this.createSignalBlock('Stop the tape (48K)', 0, 0, []);
+						block.stopTape=true;
+						this.blocks.push(block);
+					}
+					break;
+
+				case 0x24:	// Loop start
+					loopCount=this.read16();
+					loopStart=this.blocks.length;
+					break;
+
+				case 0x25:	// Loop end
+					if (loopStart>=0) {
+						const loopBlocks=this.blocks.slice(loopStart);
+						for (let i=1; i<loopCount; i++)
+							this.blocks.push(...loopBlocks);
+						loopStart=-1;
+					}
+					break;
+
+				// Skipped blocks
+				case 0x21:	// Group start
+				case 0x30:	// Text description
+					this.skip(this.read8());
+					break;
+				case 0x22:	// Group end
+				case 0x27:	// Return from sequence
+					break;
+				case 0x23:	// Jump to block
+					this.index+=2;
+					break;
+				case 0x26:	// Call sequence
+					this.skip(2*this.read16());
+					break;
+				case 0x28:	// Select block
+				case 0x32:	// Archive info
+					this.skip(this.read16());
+					break;
+				case 0x2B:	// Set signal level
+					this.index+=5;
+					break;
+				case 0x31:	// Message
+					this.index++;
+					this.skip(this.read8());
+					break;
+				case 0x33:	// Hardware type
+					this.skip(3*this.read8());
+					break;
+				case 0x35:	// Custom info
+					this.index+=16;
+					this.skip(this.read32());
+					break;
+				case 0x5A:	// Glue block
+					this.index+=9;
+					break;
+
+				default:
+					throw Error("Tzx file: Block ID 0x"+id.toString(16).toUpperCase()+" at offset "+offset+" is not supported.");
+			}
+			if (this.index>buffer.length)
+				throw Error("Tzx file: Block at offset "+offset+" exceeds the file size.");
+		}
+	}
+
+
+	/**
+	 * Creates a block without data.
+	 */
+	protected createSignalBlock(description: string, pilotPulse: number, pilotCount: number, pulses: number[]): TapeBlock {
+		return {
+			description,
+			pilotPulse, pilotCount, pulses,
+			sync1Pulse: 0, sync2Pulse: 0,
+			zeroPulse: 0, onePulse: 0, lastByteBits: 8,
+			data: new Uint8Array(0),
+			pause: 0,
+			stopTape: false
+		};
+	}
+
+
+	/// Reads a byte.
+	protected read8(): number {
+		return this.buffer[this.index++];
+	}
+
+	/// Reads a little endian word.
+	protected read16(): number {
+		const value=this.buffer[this.index]+256*this.buffer[this.index+1];
+		this.index+=2;
+		return value;
+	}
+
+	/// Reads a little endian 3 byte value.
+	protected read24(): number {
+		const value=this.read16();
+		return value+65536*this.read8();
+	}
+
+	/// Reads a little endian double word.
+	protected read32(): number {
+		const value=this.read16();
+		return value+65536*this.read16();
+	}
+
+	/// Skips bytes.
+	protected skip(length: number) {
+		this.index+=length;
+	}
+
+	/// Reads data bytes.
+	protected readData(length: number): Uint8Array {
+		const data=this.buffer.slice(this.index, this.index+length);
+		this.index+=length;
+		if (data.length<length)
+			throw Error("Tzx file: Data exceeds the file size.");
+		return data;
+	}
+}
@@ -1,5 +1,7 @@
 import {ZxMemory} from './zxmemory';
 import {Z80Ports} from './z80ports';
+import {ZxContention} from './zxcontention';
+import {Z80MCycles} from './z80mcycles';
 import {Z80RegistersClass} from '../z80registers';
 import {MemBuffer} from '../../misc/membuffer'
 import {Settings} from '../../settings';
@@ -33,9 +35,19 @@ export class Z80Cpu {
 	// Used to calculate thenumber of t-states for a step-over or similar.
 	public cpuTstatesCounter: number;
 
+	// All T-states since start. Includes the T-states skipped by a HALT.
+	// Used as time base for the audio.
+	public passedTstates: number;
+
 	// Set to true if a ZX Spectrum like interrupt should be generated.
 	protected vsyncInterrupt: boolean;
 
+	// true to generate a non maskable interrupt instead (custom machine).
+	protected nmiInterrupt: boolean;
+
+	// The value on the data bus during the interrupt (used by IM 2).
+	protected interruptData: number;
+
 	// At the moment just a constant. CPU frequency.
 	public cpuFreq: number;
 
@@ -45,6 +57,24 @@ export class Z80Cpu {
 	// Ports
 	public ports: Z80Ports;
 
+	// The memory/IO contention model. Undefined if there is no contention.
+	public contention: ZxContention|undefined;
+
+	// The memory and I/O accesses of the current instruction in the order
+	// of the M-cycles: the address (resp. port), the value and true for I/O.
+	// Used for contention only.
+	protected accessAddresses: number[];
+	protected accessValues: number[];
+	protected accessIo: boolean[];
+	protected accessCount: number;
+
+	// The T-states of an interrupt accepted after the last instruction.
+	// Z80.js adds them to the T-states of the next instruction.
+	protected interruptTstates: number;
+
+	// The additional T-states (contention, DMA) of the current instruction.
+	protected contentionTstates: number;
+
 
 	/// Constructor.
 	constructor(memory: ZxMemory, ports: Z80Ports) {
@@ -59,22 +89,260 @@ export class Z80Cpu {
 		IM 2: Uses an interrupt vector table, indexed by value on data bus.
 		*/
 		this.cpuTstatesCounter=0
+		this.passedTstates=0;
 		this.cpuLoadTstates=0;
 		this.cpuTotalTstates=0;
 		this.cpuLoad=1.0;	// Start with full load
 		this.cpuLoadRangeCounter=0;
 		this.cpuLoadRange=Settings.launch.zsim.cpuLoadInterruptRange;
 		this.vsyncInterrupt=Settings.launch.zsim.vsyncInterrupt;
+		this.nmiInterrupt=false;
+		this.interruptData=0;
+
+		// Contention (and frame timing) depends on the machine
+		this.contention=ZxContention.create(Settings.launch.zsim.machine??Settings.launch.zsim.visualMemory, memory);
+		this.accessAddresses=new Array<number>();
+		this.accessValues=new Array<number>();
+		this.accessIo=new Array<boolean>();
+		this.accessCount=0;
+		this.interruptTstates=0;
+		this.contentionTstates=0;
+		if (this.contention) {
+			this.cpuFreq=this.contention.cpuFreq;
+			this.INTERRUPT_TIME=this.contention.frameTstates;
+			this.remaingInterruptTstates=this.INTERRUPT_TIME;
+		}
 
 		// Initialize Z80, call constructor
 		const z80n_enabled=Settings.launch.zsim.Z80N;
-		this.z80=new (Z80.Z80 as any)({
-			mem_read: (address) => {return memory.read8(address);},
-			mem_write: (address, val) => {memory.write8(address, val);},
-			io_read: (address) => {return ports.read(address);},
-			io_write: (address, val) => {ports.write(address, val);},
-			z80n_enabled: z80n_enabled
+		if (this.contention) {
+			this.z80=new (Z80.Z80 as any)({
+				mem_read: (address) => {const val=memory.read8(address); this.addAccess(address, val, false); return val;},
+				mem_write: (address, val) => {this.addAccess(address, val, false); memory.write8(address, val);},
+				io_read: (address) => {this.addAccess(address, 0, true); return ports.read(address);},
+				io_write: (address, val) => {this.addAccess(address, val, true); ports.write(address, val);},
+				z80n_enabled: z80n_enabled
+			});
+		}
+		else {
+			this.z80=new (Z80.Z80 as any)({
+				mem_read: (address) => {return memory.read8(address);},
+				mem_write: (address, val) => {memory.write8(address, val);},
+				io_read: (address) => {return ports.read(address);},
+				io_write: (address, val) => {ports.write(address, val);},
+				z80n_enabled: z80n_enabled
 			});
+		}
+	}
+
+
+	/**
+	 * Configures the periodic interrupt, e.g. for a custom machine.
+	 * Overrides 'zsim.vsyncInterrupt'.
+	 * @param source "int" (maskable), "nmi" (non maskable) or "none".
+	 * @param tstates The T-states between 2 interrupts.
+	 * @param data The value on the data bus (used by IM 2).
+	 */
+	public configureInterrupt(source: string, tstates: number, data: number) {
+		this.vsyncInterrupt=(source!='none');
+		this.nmiInterrupt=(source=='nmi');
+		this.interruptData=data;
+		this.INTERRUPT_TIME=tstates;
+		this.remaingInterruptTstates=tstates;
+	}
+
+
+	/**
+	 * Returns the current T-state within the frame, i.e. the T-states
+	 * since the last (vertical) interrupt.
+	 */
+	public getFrameTstate(): number {
+		return this.INTERRUPT_TIME-this.remaingInterruptTstates;
+	}
+
+
+	/**
+	 * Returns the T-states of a frame, i.e. between 2 (vertical) interrupts.
+	 */
+	public getFrameTstates(): number {
+		return this.INTERRUPT_TIME;
+	}
+
+
+	/**
+	 * Records a memory or I/O access of the current instruction.
+	 * @param address The address resp. port.
+	 * @param value The read or written value.
+	 * @param io true for an I/O access.
+	 */
+	protected addAccess(address: number, value: number, io: boolean) {
+		const index=this.accessCount++;
+		this.accessAddresses[index]=address;
+		this.accessValues[index]=value;
+		this.accessIo[index]=io;
+	}
+
+
+	/**
+	 * Calculates the contention of the executed instruction.
+	 * The recorded accesses are placed in time M-cycle by M-cycle:
+	 * Z80MCycles tells which of them are opcode fetches (4 T-states) and
+	 * the internal cycles in between. The remaining T-states of the
+	 * instruction are internal cycles after the last access.
+	 * During an internal cycle the address bus holds IR if it follows an
+	 * opcode fetch, otherwise the address of the previous access. The
+	 * internal cycle is contended as a memory access to this address,
+	 * one T-state after the other.
+	 * @param tstate The T-state within the frame at which the instruction starts.
+	 * @param tstates The T-states of the instruction without contention.
+	 * @returns The additional T-states.
+	 */
+	protected contendInstruction(tstate: number, tstates: number): number {
+		const count=this.accessCount;
+		if (count==0)
+			return 0;	// HALT
+		const contention=this.contention!;
+		const values=this.accessValues;
+		const cycles=Z80MCycles.get(values[0], values[1], values[3]);
+		let used=0;
+		let delay=0;
+		let address=-1;	// IR
+		// Z80.js reads the byte after a DD/FD prefix also if it is no IX/IY
+		// instruction. Such an access exceeds the T-states and is skipped.
+		for (let i=0; i<count && used<tstates; i++) {
+			// Internal cycles before the access
+			const internal=cycles.internal[i];
+			if (internal) {
+				delay+=this.contendInternal(tstate+used+delay, internal, address);
+				used+=internal;
+			}
+			// The access
+			address=this.accessAddresses[i];
+			if (this.accessIo[i]) {
+				delay+=contention.getIoDelay(tstate+used+delay, address);
+				used+=4;
+			}
+			else {
+				delay+=contention.getMemoryDelay(tstate+used+delay, address);
+				if (i<cycles.fetches) {
+					used+=4;
+					address=-1;
+				}
+				else {
+					used+=3;
+				}
+			}
+		}
+		// Internal cycles after the last access
+		if (used<tstates)
+			delay+=this.contendInternal(tstate+used+delay, tstates-used, address);
+		return delay;
+	}
+
+
+	/**
+	 * Calculates the contention of internal cycles.
+	 * @param tstate The T-state within the frame of the first internal cycle.
+	 * @param tstates The number of internal T-states.
+	 * @param address The address on the address bus. -1 for IR.
+	 * @returns The additional T-states.
+	 */
+	protected contendInternal(tstate: number, tstates: number, address: number): number {
+		const contention=this.contention!;
+		let delay=0;
+		for (let i=0; i<tstates; i++) {
+			const t=tstate+delay+i;
+			if (contention.getDelay(t)==0)
+				continue;
+			if (address<0) {
+				// The I register is only required if there would be a delay
+				const state=this.z80.getState();
+				address=(state.i<<8)|state.r;
+			}
+			delay+=contention.getInternalDelay(t, address);
+		}
+		return delay;
+	}
+
+
+	/**
+	 * Adds T-states to the current instruction.
+	 * E.g. for a DMA transfer during which the CPU is halted.
+	 * @param tstates The T-states to add.
+	 */
+	public addTstates(tstates: number) {
+		this.contentionTstates+=tstates;
+	}
+
+
+	/**
+	 * Passes an interrupt to Z80.js.
+	 * The T-states of an accepted interrupt are remembered. They are
+	 * returned together with the next instruction but are not part of it.
+	 * @param nonMaskable true for a non maskable interrupt.
+	 * @param data The value on the data bus.
+	 */
+	protected interrupt(nonMaskable: boolean, data: number) {
+		this.z80.interrupt(nonMaskable, data);
+		if (this.contention)
+			this.interruptTstates=this.z80.getState().cycle_counter;
+	}
+
+
+	/**
+	 * Generates a non maskable interrupt.
+	 * The CPU leaves a HALT, IFF1 is copied to IFF2 and cleared
+	 * and the CPU continues at 0x0066.
+	 */
+	public generateNmi() {
+		this.interrupt(true, 0);
+	}
+
+
+	/**
+	 * Generates a (one-shot) maskable interrupt.
+	 * Independent of the periodic (vertical) interrupt.
+	 * @param data The value on the data bus. Used by IM 2 (low byte of the
+	 * vector address) and IM 0 (the executed instruction, e.g. 0xFF for RST 38h).
+	 * @returns false if the interrupt was not accepted because interrupts are
+	 * disabled (IFF1=0).
+	 */
+	public generateInterrupt(data: number): boolean {
+		if (!this.z80.interruptsEnabled)
+			return false;
+		this.interrupt(false, data&0xFF);
+		return true;
+	}
+
+
+	/**
+	 * Resets the CPU as the RESET line does:
+	 * PC=0, I=R=0, interrupts disabled, IM 0 and HALT left.
+	 * AF and SP are set to 0xFFFF. The other registers are not changed.
+	 */
+	public reset() {
+		const r=this.z80.getState();
+		r.pc=0;
+		r.sp=0xFFFF;
+		r.a=0xFF;
+		r.flags=this.revConvertFlags(0xFF);
+		r.i=0;
+		r.r=0;
+		r.imode=0;
+		r.iff1=0;
+		r.iff2=0;
+		r.halted=false;
+		r.do_delayed_di=false;
+		r.do_delayed_ei=false;
+		this.z80.setState(r);
+	}
+
+
+	/**
+	 * Returns true if the CPU is halted (HALT instruction).
+	 */
+	get halted(): boolean {
+		return this.z80.halted;
 	}
 
 
@@ -91,19 +359,31 @@ export class Z80Cpu {
 		const z80=this.z80;
 
 		// Handle instruction
+		const frameTstate=this.getFrameTstate();
+		this.accessCount=0;
+		this.contentionTstates=0;
 		let tStates=z80.run_instruction();
+		if (this.contention) {
+			// The instruction starts after an accepted interrupt
+			const interruptTstates=this.interruptTstates;
+			tStates+=this.contendInstruction(frameTstate+interruptTstates, tStates-interruptTstates);
+		}
+		this.interruptTstates=0;
+		tStates+=this.contentionTstates;
 
 		// Statistics
 		if (z80.halted) {
 			// HALT instruction
-			if (z80.interruptsEnabled) {
+			if (z80.interruptsEnabled && this.remaingInterruptTstates>tStates) {
 				// HALT instructions are treated specially:
 				// If a HALT is found the t-states to the next interrupt are calculated.
 				// The t-states are added and the interrupt is executed immediately.
 				// So only one HALT is ever executed, skipping execution of the others
 				// saves processing time.
 				this.cpuTotalTstates+=this.remaingInterruptTstates-tStates;
-				this.remaingInterruptTstates=0;
+				this.passedTstates+=this.remaingInterruptTstates-tStates;
+				// The interrupt happens exactly after the HALT
+				this.remaingInterruptTstates=tStates;
 			}
 		}
 		else {
@@ -111,17 +391,67 @@ export class Z80Cpu {
 			this.cpuLoadTstates+=tStates;
 		}
 
+		return this.countTstates(tStates);
+	}
+
+
+	/**
+	 * Returns from a subroutine like a RET, without executing an opcode.
+	 * Used for mocked subroutines.
+	 * The return address is read from the stack like the CPU does it,
+	 * the 10 T-states (plus contention) are counted like those of an
+	 * executed instruction.
+	 * @returns true if a (vertical) interrupt happened. See execute().
+	 */
+	public ret(): boolean {
+		const z80=this.z80;
+		const frameTstate=this.getFrameTstate();
+		const r=z80.getState();
+		// T-states of an interrupt accepted before
+		const interruptTstates=r.cycle_counter;
+		// Pop the return address
+		this.accessCount=0;
+		this.addAccess(r.pc, 0xC9, false);
+		const low=this.memory.read8(r.sp);
+		this.addAccess(r.sp, low, false);
+		const sp1=(r.sp+1)&0xFFFF;
+		const high=this.memory.read8(sp1);
+		this.addAccess(sp1, high, false);
+		r.pc=low+256*high;
+		r.sp=(r.sp+2)&0xFFFF;
+		r.r=(r.r&0x80)|((r.r+1)&0x7F);
+		r.cycle_counter=0;
+		z80.setState(r);
+		// T-states
+		let tStates=interruptTstates+10;
+		if (this.contention)
+			tStates+=this.contendInstruction(frameTstate+interruptTstates, 10);
+		this.interruptTstates=0;
+		this.cpuLoadTstates+=tStates;
+		return this.countTstates(tStates);
+	}
+
+
+	/**
+	 * Adds the T-states of an instruction to the counters and
+	 * generates the (vertical) interrupt at the end of the frame.
+	 * @param tStates The T-states of the instruction.
+	 * @returns true if a (vertical) interrupt happened. See execute().
+	 */
+	protected countTstates(tStates: number): boolean {
 		// Add t-states
 		this.cpuTstatesCounter+=tStates;
 		this.cpuTotalTstates+=tStates;
+		this.passedTstates+=tStates;
 		// Interrupt
-			this.remaingInterruptTstates-=tStates;
+		this.remaingInterruptTstates-=tStates;
 		if (this.remaingInterruptTstates<=0) {
-			// Interrupt
-			this.remaingInterruptTstates=this.INTERRUPT_TIME;
+			// Interrupt. The T-states that ran past the end of the frame
+			// belong to the next frame.
+			this.remaingInterruptTstates+=this.INTERRUPT_TIME;
 			// Really generate interrupt?
 			if (this.vsyncInterrupt) {
-				z80.interrupt(false, 0);
+				this.interrupt(this.nmiInterrupt, this.interruptData);
 				// Measure CPU load
 				this.cpuLoadRangeCounter++;
 				if (this.cpuLoadRangeCounter>=this.cpuLoadRange) {
@@ -322,7 +652,7 @@ export class Z80Cpu {
 	/**
 	 * Returns all registers.
 	 */
-	protected getAllRegisters(): {
+	public getAllRegisters(): {
 		pc: number,
 		sp: number,
 		af: number,
@@ -0,0 +1,145 @@
+/// The M-cycles of an instruction as required for the contention.
+export interface Z80InstructionCycles {
+	// The number of opcode fetches (4 T-states each, prefixes included).
+	// All other memory accesses take 3 T-states, I/O accesses 4 T-states.
+	fetches: number;
+
+	// The internal T-states before each memory or I/O access.
+	// Index 0 is the first opcode fetch. Missing entries are 0.
+	internal: number[];
+}
+
+
+/**
+ * The M-cycles of the Z80 instructions.
+ * See https://worldofspectrum.org/faq/reference/48kreference.htm#Contention
+ *
+ * Z80.js executes an instruction as a whole. It only reports the memory
+ * and I/O accesses (in the order of the M-cycles) and the total T-states.
+ * The table adds what is required to place each access in time: the
+ * number of opcode fetches and the internal cycles between the accesses.
+ * The internal cycles after the last access are not listed. They are the
+ * remaining T-states of the instruction. This includes e.g. the 5 T-states
+ * of a repeated LDIR or of a taken JR.
+ *
+ * The patterns are written as
+ * - "M": opcode fetch
+ * - "R": memory or I/O access
+ * - a number: internal T-states
+ * E.g. INC (HL) is "M R 1 R": opcode fetch, read (HL), 1 internal T-state, write (HL).
+ */
+export class Z80MCycles {
+	// Unprefixed instructions.
+	protected static MAIN=Z80MCycles.createTable("M", [
+		["M 1 R", [0x10]],	// DJNZ
+		["M R 1 R", [0x34, 0x35]],	// INC/DEC (HL)
+		// PUSH, RST, RET cc
+		["M 1 R R", [0xC5, 0xD5, 0xE5, 0xF5, 0xC7, 0xCF, 0xD7, 0xDF, 0xE7, 0xEF, 0xF7, 0xFF, 0xC0, 0xC8, 0xD0, 0xD8, 0xE0, 0xE8, 0xF0, 0xF8]],
+		// CALL, CALL cc, EX (SP),HL
+		["M R R 1 R R", [0xCD, 0xC4, 0xCC, 0xD4, 0xDC, 0xE4, 0xEC, 0xF4, 0xFC, 0xE3]]
+	]);
+
+	// CB prefixed instructions.
+	protected static CB=Z80MCycles.createTable("M M", [
+		// Rotate, shift, RES and SET (HL). BIT b,(HL) has only one access.
+		["M M R 1 R", Z80MCycles.getOpcodes(opcode => (opcode&0x07)==6 && (opcode<0x40 || opcode>=0x80))]
+	]);
+
+	// ED prefixed instructions.
+	protected static ED=Z80MCycles.createTable("M M", [
+		["M M R 4 R", [0x67, 0x6F]],	// RRD, RLD
+		// INI, IND, INIR, INDR, OUTI, OUTD, OTIR, OTDR
+		["M M 1 R R", [0xA2, 0xAA, 0xB2, 0xBA, 0xA3, 0xAB, 0xB3, 0xBB]]
+	]);
+
+	// DD and FD prefixed instructions.
+	protected static DD=Z80MCycles.createTable("M M", [
+		// LD r,(IX+d), LD (IX+d),r, ALU (IX+d)
+		["M M R 5 R", [0x46, 0x4E, 0x56, 0x5E, 0x66, 0x6E, 0x7E, 0x70, 0x71, 0x72, 0x73, 0x74, 0x75, 0x77, 0x86, 0x8E, 0x96, 0x9E, 0xA6, 0xAE, 0xB6, 0xBE]],
+		["M M R 5 R 1 R", [0x34, 0x35]],	// INC/DEC (IX+d)
+		["M M R R 2 R", [0x36]],	// LD (IX+d),n
+		["M M 1 R R", [0xE5]],	// PUSH IX
+		["M M R R 1 R R", [0xE3]]	// EX (SP),IX
+	]);
+
+	// DD CB and FD CB prefixed instructions (DD CB d opcode).
+	// The offset and the opcode are read like data (3 T-states).
+	protected static DDCB=Z80MCycles.createTable("M M R R 2 R 1 R", [
+		// BIT b,(IX+d) has only one access to (IX+d)
+		["M M R R 2 R", Z80MCycles.getOpcodes(opcode => opcode>=0x40 && opcode<0x80)]
+	]);
+
+
+	/**
+	 * Returns the M-cycles of an instruction.
+	 * @param opcode0 The first byte of the instruction.
+	 * @param opcode1 The second byte (the opcode after a prefix).
+	 * @param opcode3 The fourth byte (the opcode of a DD CB/FD CB instruction).
+	 */
+	public static get(opcode0: number, opcode1: number, opcode3: number): Z80InstructionCycles {
+		switch (opcode0) {
+			case 0xCB:
+				return Z80MCycles.CB[opcode1];
+			case 0xED:
+				return Z80MCycles.ED[opcode1];
+			case 0xDD:
+			case 0xFD:
+				if (opcode1==0xCB)
+					return Z80MCycles.DDCB[opcode3];
+				return Z80MCycles.DD[opcode1];
+			default:
+				return Z80MCycles.MAIN[opcode0];
+		}
+	}
+
+
+	/**
+	 * Converts a pattern, e.g. "M R 1 R", into the M-cycles.
+	 */
+	public static parse(pattern: string): Z80InstructionCycles {
+		const cycles: Z80InstructionCycles={fetches: 0, internal: []};
+		let internal=0;
+		for (const token of pattern.split(' ')) {
+			if (token=='M' || token=='R') {
+				if (token=='M')
+					cycles.fetches++;
+				cycles.internal.push(internal);
+				internal=0;
+			}
+			else {
+				internal+=parseInt(token);
+			}
+		}
+		return cycles;
+	}
+
+
+	/**
+	 * Creates the table for 256 opcodes.
+	 * @param defaultPattern The pattern of all opcodes not listed.
+	 * @param patterns The patterns and the opcodes they are used for.
+	 */
+	protected static createTable(defaultPattern: string, patterns: Array<[string, number[]]>): Z80InstructionCycles[] {
+		const table=new Array<Z80InstructionCycles>(256);
+		table.fill(Z80MCycles.parse(defaultPattern));
+		for (const [pattern, opcodes] of patterns) {
+			const cycles=Z80MCycles.parse(pattern);
+			for (const opcode of opcodes)
+				table[opcode]=cycles;
+		}
+		return table;
+	}
+
+
+	/**
+	 * Returns all opcodes (0-255) that match the condition.
+	 */
+	protected static getOpcodes(condition: (opcode: number) => boolean): number[] {
+		const opcodes=new Array<number>();
+		for (let opcode=0; opcode<256; opcode++) {
+			if (condition(opcode))
+				opcodes.push(opcode);
+		}
+		return opcodes;
+	}
+}
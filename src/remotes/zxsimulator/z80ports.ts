@@ -16,12 +16,21 @@ export class Z80Ports {
 	// This map maps port addresses to functions that are executed on a port read.
 	protected inPortMap: Map<number, (port: number) => number>;
 
+	// Functions that are executed on a write to all ports that match a mask.
+	// E.g. the ULA port 0xFE which is decoded only by bit 0.
+	protected maskedOutPorts: Array<{mask: number, match: number, func: (port: number, value: number) => void}>;
+
+	// The same for reading. E.g. the Kempston joystick port 0x1F.
+	protected maskedInPorts: Array<{mask: number, match: number, func: (port: number) => number}>;
+
 
 	/// Constructor.
 	constructor() {
 		this.ports=new Uint8Array(0x10000);
 		this.outPortMap=new Map<number, (port: number, value: number) => void>();
 		this.inPortMap=new Map<number, (port: number) => number>();
+		this.maskedOutPorts=new Array<{mask: number, match: number, func: (port: number, value: number) => void}>();
+		this.maskedInPorts=new Array<{mask: number, match: number, func: (port: number) => number}>();
 	}
 
 
@@ -38,6 +47,20 @@ export class Z80Ports {
 	}
 
 
+	/**
+	 * Registers a function for a write to all ports with
+	 * (port & mask) == match.
+	 * The function is executed in addition to a function registered for
+	 * the specific port address.
+	 * @param mask The bits of the port address to decode.
+	 * @param match The value the decoded bits need to have.
+	 * @param func The function to execute if a matching port is written.
+	 */
+	public registerMaskedOutPortFunction(mask: number, match: number, func: ((port: number, value: number) => void)) {
+		this.maskedOutPorts.push({mask, match, func});
+	}
+
+
 	/**
 	 * Registers a function for a read to a specific port address.
 	 * @param port The port address
@@ -51,6 +74,19 @@ export class Z80Ports {
 	}
 
 
+	/**
+	 * Registers a function for a read from all ports with
+	 * (port & mask) == match.
+	 * A function registered for the specific port address takes precedence.
+	 * @param mask The bits of the port address to decode.
+	 * @param match The value the decoded bits need to have.
+	 * @param func The function to execute if a matching port is read.
+	 */
+	public registerMaskedInPortFunction(mask: number, match: number, func: ((port: number) => number)) {
+		this.maskedInPorts.push({mask, match, func});
+	}
+
+
 	/**
 	 * Returns the size the serialized object would consume.
 	 */
@@ -93,6 +129,10 @@ export class Z80Ports {
 		const func=this.inPortMap.get(port);
 		if (func)
 			return func(port);
+		for (const masked of this.maskedInPorts) {
+			if ((port&masked.mask)==masked.match)
+				return masked.func(port);
+		}
 		// If no handling function is registered
 		const value=this.ports[port];
 		return value;
@@ -107,6 +147,10 @@ export class Z80Ports {
 		const writefunc=this.outPortMap.get(port);
 		if (writefunc)
 			writefunc(port, data);
+		for (const masked of this.maskedOutPorts) {
+			if ((port&masked.mask)==masked.match)
+				masked.func(port, data);
+		}
 		// Check if there is a handler for the read function implemented.
 		const readFunc=this.inPortMap.get(port);
 		if (!readFunc) {
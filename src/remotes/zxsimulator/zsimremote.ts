@@ -5,16 +5,31 @@ import {Z80Ports} from './z80ports';
 import {Z80Cpu} from './z80cpu';
 import {Settings} from '../../settings';
 //import {GenericBreakpoint} from '../../genericwatchpoint';
+import {ZxAudio} from './zxaudio';
+import {ZxJoystick} from './zxjoystick';
+import {ZxUlaFrame} from './zxulaframe';
+import {ZxTape} from './zxtape';
+import {TapFile} from './tapfile';
+import {TzxFile} from './tzxfile';
+import {SnapshotFile} from '../dzrp/snapshotfile';
+import {CustomMachine} from './custommachine';
+import {Zx81Display} from './zx81display';
+import {CharTerminal} from './charterminal';
+import {ZxNextLayers} from './zxnextlayers';
+import {ZxNextSprites} from './zxnextsprites';
+import {ZxNextDma} from './zxnextdma';
+import {ZxNextCopper} from './zxnextcopper';
 import {Utility} from '../../misc/utility';
 import * as fs from 'fs';
+import * as path from 'path';
 import {BREAK_REASON_NUMBER} from '../remotebase';
 import {Labels} from '../../labels/labels';
 import {MemBuffer} from '../../misc/membuffer';
 import {CodeCoverageArray} from './codecovarray';
-import {CpuHistoryClass, CpuHistory, DecodeStandardHistoryInfo} from '../cpuhistory';
+import {CpuHistoryClass, CpuHistory, DecodeStandardHistoryInfo, StepHistory} from '../cpuhistory';
 import {ZxSimCpuHistory} from './zxsimcpuhistory';
 import {ZxMemory} from './zxmemory';
-import {GenericBreakpoint} from '../../genericwatchpoint';
+import {GenericBreakpoint, GenericMock} from '../../genericwatchpoint';
 //import {Watchpoint64kRamMemory} from './wp64krammemory';
 
 
@@ -30,16 +45,67 @@ export class ZSimRemote extends DzrpRemote {
 	public memory: WatchpointZxMemory;
 	public ports: Z80Ports;
 
+	// The audio (beeper, AY). Undefined if disabled.
+	public audio: ZxAudio|undefined;
 
-	// The ZX128 stores its ROM here as it has 2.
+	// The joystick. Undefined if 'zsim.joystick' is "none".
+	public joystick: ZxJoystick|undefined;
+
+	// The full ULA frame incl. border. Undefined if 'zsim.ulaBorder' is disabled.
+	public ulaFrame: ZxUlaFrame|undefined;
+
+	// The tape deck. Undefined if no .tap or .tzx file has been loaded.
+	public tape: ZxTape|undefined;
+
+	// The ZX81 display of a custom machine. Undefined if not used.
+	public zx81Display: Zx81Display|undefined;
+
+	// The character terminal of a custom machine. Undefined if not used.
+	public terminal: CharTerminal|undefined;
+
+	// The ZX Next layers (Layer 2, tilemap). Undefined if 'zsim.nextLayers' is disabled.
+	public nextLayers: ZxNextLayers|undefined;
+
+	// The ZX Next sprites. Undefined if 'zsim.nextLayers' is disabled.
+	public nextSprites: ZxNextSprites|undefined;
+
+	// The ZX Next zxnDMA. Undefined if 'zsim.tbblueMemoryManagementSlots' is disabled.
+	public dma: ZxNextDma|undefined;
+
+	// The ZX Next copper. Undefined if 'zsim.tbblueMemoryManagementSlots' is disabled.
+	public copper: ZxNextCopper|undefined;
+
+
+	// The ZX128 stores its ROM here as it has 2 (the ZX +2A/+3 has 4).
 	protected romBuffer: Uint8Array;
 
+	// The banks of the special paging modes (all RAM) of the ZX +2A/+3
+	// for the 4 16k slots. Index is bits 1-2 of port 0x1FFD.
+	protected static PLUS3_SPECIAL_BANKS=[
+		[0, 1, 2, 3],
+		[4, 5, 6, 7],
+		[4, 5, 6, 3],
+		[4, 7, 6, 3]
+	];
+
 	// Stores the code coverage.
 	protected codeCoverage: CodeCoverageArray;
 
 	// The last used breakpoint ID.
 	protected lastBpId: number;
 
+	// The breakpoints set with CMD_SET_BREAKPOINTS.
+	// The memory is not modified, the simulator checks the addresses itself.
+	protected setBreakpointAddresses: Set<number>;
+
+	// The mocked subroutines (UNITTEST_MOCK) set with 'setMocks'.
+	// Maps the subroutine address to the index of the mock.
+	protected mockAddresses=new Map<number, number>();
+	protected activeMocks=new Array<GenericMock>();
+
+	// The number of calls of each mock (same index).
+	protected mockCalls=new Array<number>();
+
 	// Set to true as long as the CPU is running.
 	protected cpuRunning: boolean;
 
@@ -73,6 +139,7 @@ export class ZSimRemote extends DzrpRemote {
 		Z80Registers.decoder=new Z80RegistersStandardDecoder();
 		this.cpuRunning=false;
 		this.lastBpId=0;
+		this.setBreakpointAddresses=new Set<number>();
 		// Reverse debugging / CPU history
 		if (Settings.launch.history.reverseDebugInstructionCount>0) {
 			CpuHistoryClass.setCpuHistory(new ZxSimCpuHistory());
@@ -136,6 +203,64 @@ export class ZSimRemote extends DzrpRemote {
 	}
 
 
+	/**
+	 * Switches the memory banks of the ZX +2A/+3.
+	 * Port 0x7FFD is used as for the ZX 128K. Additionally port 0x1FFD
+	 * selects the ROM (high bit) or an all RAM configuration.
+	 * See https://worldofspectrum.org/faq/reference/128kreference.htm#Plus3
+	 * @param port The written port (0x7FFD or 0x1FFD).
+	 * @param value The value. The value of the other port is the last written one.
+	 *   Port 0x1FFD:
+	 *   bit 0: Paging mode. 0=normal, 1=special (all RAM).
+	 *   bit 1-2: In normal mode bit 2 is the high bit of the ROM selection.
+	 *            In special mode the RAM configuration (see PLUS3_SPECIAL_BANKS).
+	 *   bit 3: Disk motor, bit 4: printer strobe (not simulated).
+	 */
+	protected plus3BankSwitch(port: number, value: number) {
+		const port7ffd=(port==0x7FFD)? value:this.ports.getPortValue(0x7FFD);
+		const port1ffd=(port==0x1FFD)? value:this.ports.getPortValue(0x1FFD);
+		const mem=this.memory;
+
+		if (port1ffd&0b0001) {
+			// Special paging mode: RAM only
+			const banks=ZSimRemote.PLUS3_SPECIAL_BANKS[(port1ffd>>>1)&0x03];
+			for (let i=0; i<4; i++) {
+				mem.setSlot(2*i, 2*banks[i]);
+				mem.setSlot(2*i+1, 2*banks[i]+1);
+			}
+		}
+		else {
+			// Normal paging mode
+			mem.setSlot(0, 254);
+			mem.setSlot(1, 255);
+			mem.setSlot(2, 10);
+			mem.setSlot(3, 11);
+			mem.setSlot(4, 4);
+			mem.setSlot(5, 5);
+			const ramBank=port7ffd&0x07;
+			mem.setSlot(6, 2*ramBank);
+			mem.setSlot(7, 2*ramBank+1);
+			// ROM select: bit 2 of 0x1FFD and bit 4 of 0x7FFD
+			const romIndex=((port1ffd&0b0100)>>>1)|((port7ffd&0b010000)>>>4);
+			const size=ZxMemory.MEMORY_BANK_SIZE;
+			const rom0=new Uint8Array(this.romBuffer.buffer, romIndex*2*size, size);
+			const rom1=new Uint8Array(this.romBuffer.buffer, romIndex*2*size+size, size);
+			mem.writeBank(254, rom0);
+			mem.writeBank(255, rom1);
+		}
+
+		// bit 3 of 0x7FFD: Select normal(0) or shadow(1) screen to be displayed.
+		const screenBank=(port7ffd&0b01000)? 7:5;
+		mem.setUlaScreenBank(2*screenBank);
+
+		// bit 5 of 0x7FFD: If set, memory paging will be disabled
+		if (port7ffd&0b0100000) {
+			this.ports.registerOutPortFunction(0x7FFD, undefined);
+			this.ports.registerOutPortFunction(0x1FFD, undefined);
+		}
+	}
+
+
 	/**
 	 * Selects active port for TBBlue/Next feature configuration.
 	 * See https://wiki.specnext.dev/TBBlue_Register_Select
@@ -182,6 +307,20 @@ export class ZSimRemote extends DzrpRemote {
 	}
 
 
+	/**
+	 * Writes a TBBlue register directly, e.g. by the copper.
+	 * The selected register (port 0x243B) is not changed.
+	 * @param reg The register.
+	 * @param value The value.
+	 */
+	protected tbblueRegisterWrite(reg: number, value: number) {
+		const selectValue=this.tbblueRegisterSelectValue;
+		this.tbblueRegisterSelectValue=reg;	// Used by some handlers
+		this.tbblueRegisterWriteAccess(0x253B, value);
+		this.tbblueRegisterSelectValue=selectValue;
+	}
+
+
 	/**
 	 * Changes the tbblue slot/bank association for slots 0-7.
 	 * See https://wiki.specnext.dev/Memory_management_slot_0_bank
@@ -227,17 +366,32 @@ export class ZSimRemote extends DzrpRemote {
 	/**
 	 * Configures the machine.
 	 * Loads the roms and sets up bank switching.
+	 * @param machine The 'zsim.machine' setting. "plus2a" and "plus3"
+	 * use the ZX +2A/+3 ROMs and paging (together with 'memoryPagingControl').
 	 */
-	protected configureMachine(loadZxRom: boolean, memoryPagingControl: boolean, tbblueMemoryManagementSlots: boolean) {
+	protected configureMachine(loadZxRom: boolean, memoryPagingControl: boolean, tbblueMemoryManagementSlots: boolean, machine?: string) {
 		try {
+			const plus3=memoryPagingControl&&(machine=='plus2a'||machine=='plus3');
 
 			// "loadZxRom"
 			if (loadZxRom) {
 				// Load the rom
-				if (memoryPagingControl) {
+				if (plus3) {
+					// ZX +2A/+3
+					this.romBuffer=this.readPlus3Rom();
+					// ROM 3 (48K BASIC)
+					const size=ZxMemory.MEMORY_BANK_SIZE;
+					const rom0=new Uint8Array(this.romBuffer.buffer, 6*size, size);
+					const rom1=new Uint8Array(this.romBuffer.buffer, 7*size, size);
+					this.memory.writeBank(254, rom0);
+					this.memory.writeBank(255, rom1);
+					this.memory.setRomBank(254, true);
+					this.memory.setRomBank(255, true);
+				}
+				else if (memoryPagingControl) {
 					// ZX 128K
 					const size=ZxMemory.MEMORY_BANK_SIZE;
-					const romFilePath=Utility.getExtensionPath()+'/data/128.rom';
+					const romFilePath=Settings.launch.zsim.romFile||Utility.getExtensionPath()+'/data/128.rom';
 					this.romBuffer=fs.readFileSync(romFilePath);
 					const rom0=new Uint8Array(this.romBuffer.buffer, 2*size, size);
 					const rom1=new Uint8Array(this.romBuffer.buffer, 3*size, size);
@@ -249,7 +403,7 @@ export class ZSimRemote extends DzrpRemote {
 				else {
 					// ZX 48K
 					const size=ZxMemory.MEMORY_BANK_SIZE;
-					const romFilePath=Utility.getExtensionPath()+'/data/48.rom';
+					const romFilePath=Settings.launch.zsim.romFile||Utility.getExtensionPath()+'/data/48.rom';
 					const romBuffer=fs.readFileSync(romFilePath);
 					// use USR 0 mode, i.e. preload the 48K ROM
 					const rom0=new Uint8Array(romBuffer.buffer, 0, size);
@@ -262,10 +416,7 @@ export class ZSimRemote extends DzrpRemote {
 			}
 
 			// "memoryPagingControl"
-			if (memoryPagingControl) {
-				// Bank switching.
-				this.ports.registerOutPortFunction(0x7FFD, this.zx128BankSwitch.bind(this));
-			}
+			this.configurePaging(memoryPagingControl, plus3);
 
 			// TBBlue
 
@@ -291,6 +442,259 @@ export class ZSimRemote extends DzrpRemote {
 	}
 
 
+	/**
+	 * Sets up the bank switching ports of the ZX 128K or ZX +2A/+3.
+	 * Also used for a reset: the ports are enabled again (in case paging
+	 * was locked by bit 5 of port 0x7FFD) and the start banks are paged in.
+	 * @param memoryPagingControl true for ZX 128K paging.
+	 * @param plus3 true for ZX +2A/+3 paging.
+	 */
+	protected configurePaging(memoryPagingControl: boolean, plus3: boolean) {
+		if (plus3) {
+			// Bank switching with 2 ports.
+			this.ports.registerOutPortFunction(0x7FFD, this.plus3BankSwitch.bind(this));
+			this.ports.registerOutPortFunction(0x1FFD, this.plus3BankSwitch.bind(this));
+			// At start ROM 3 (48K BASIC) and bank 0 are paged in
+			this.ports.setPortValue(0x1FFD, 0b0100);
+			this.ports.setPortValue(0x7FFD, 0b010000);
+			if (this.romBuffer)
+				this.plus3BankSwitch(0x7FFD, 0b010000);
+		}
+		else if (memoryPagingControl) {
+			// Bank switching.
+			this.ports.registerOutPortFunction(0x7FFD, this.zx128BankSwitch.bind(this));
+			// At start ROM 1 (48K BASIC) and bank 0 are paged in
+			this.ports.setPortValue(0x7FFD, 0b010000);
+			if (this.romBuffer)
+				this.zx128BankSwitch(0x7FFD, 0b010000);
+		}
+	}
+
+
+	/**
+	 * Configures a custom machine from its description ('zsim.machineFile').
+	 * Sets up the memory map, the banking ports, the I/O stubs, the
+	 * interrupt and the display.
+	 * The fixed memory map uses the banks 0-7 (bank=slot).
+	 * @param machine The machine description.
+	 */
+	protected configureCustomMachine(machine: CustomMachine) {
+		const mem=this.memory;
+		const slotSize=ZxMemory.MEMORY_BANK_SIZE;
+		this.z80Cpu.cpuFreq=machine.cpuFreq;
+
+		// Memory map, RAM by default
+		for (let slot=0; slot<8; slot++)
+			mem.setSlot(slot, slot);
+		for (const region of machine.memory) {
+			const firstSlot=region.start/slotSize;
+			const slotCount=region.size/slotSize;
+			const data=(region.file)? fs.readFileSync(region.file):undefined;
+			for (let i=0; i<slotCount; i++) {
+				const slot=firstSlot+i;
+				if (region.mirror!=undefined) {
+					mem.setSlot(slot, mem.getSlots()[region.mirror/slotSize+i]);
+					continue;
+				}
+				if (data)
+					mem.writeBank(slot, data.slice(i*slotSize, (i+1)*slotSize));
+				mem.setRomBank(slot, region.type=='rom');
+			}
+		}
+
+		// Banking
+		for (const banking of machine.banking) {
+			this.ports.registerMaskedOutPortFunction(banking.mask, banking.port&banking.mask, (port, value) => {
+				const firstBank=banking.firstBank+(value&banking.valueMask)*banking.slotCount;
+				if (firstBank+banking.slotCount>ZxMemory.NUMBER_OF_BANKS-2)
+					return;	// Not existing bank (254, 255 are reserved)
+				for (let i=0; i<banking.slotCount; i++)
+					mem.setSlot(banking.slot+i, firstBank+i);
+			});
+		}
+
+		// I/O device stubs
+		for (const stub of machine.ports)
+			this.ports.registerMaskedInPortFunction(stub.mask, stub.port&stub.mask, port => stub.value);
+
+		// Interrupt
+		const interrupt=machine.interrupt;
+		this.z80Cpu.configureInterrupt(interrupt.source, interrupt.tstates, interrupt.data);
+
+		// Display
+		const display=machine.display;
+		if (display?.type=='zx81') {
+			this.zx81Display=new Zx81Display(mem);
+		}
+		else if (display?.type=='terminal') {
+			const terminal=new CharTerminal(mem, display.address, display.columns, display.lines, display.keyboardPort);
+			this.terminal=terminal;
+			if (display.keyboardPort!=undefined)
+				this.ports.registerInPortFunction(display.keyboardPort, port => terminal.readKey());
+		}
+	}
+
+
+	/**
+	 * Reads the 4 ROMs of the ZX +2A/+3 (64k) from 'zsim.romFile'.
+	 * The ROMs are not part of DeZog.
+	 * Throws an exception if the file is not set or has the wrong size.
+	 */
+	protected readPlus3Rom(): Uint8Array {
+		const romFilePath=Settings.launch.zsim.romFile;
+		if (!romFilePath)
+			throw Error("The ZX +2A/+3 requires the ROMs (64K) in 'zsim.romFile'.");
+		const romBuffer=fs.readFileSync(romFilePath);
+		if (romBuffer.length!=4*2*ZxMemory.MEMORY_BANK_SIZE)
+			throw Error("'"+romFilePath+"' has to contain the 4 ROMs of the ZX +2A/+3 (64K).");
+		return romBuffer;
+	}
+
+
+	/**
+	 * Configures the audio.
+	 * The beeper is connected to bit 4 of the ULA port (0xFE).
+	 * The AY-3-8912 is accessed through ports 0xFFFD (register select/read)
+	 * and 0xBFFD (register write).
+	 * @param audio true to enable the audio.
+	 * @param ay true to simulate also the AY-3-8912.
+	 */
+	protected configureAudio(audio: boolean, ay: boolean) {
+		if (!audio)
+			return;
+		const zxAudio=new ZxAudio(this.z80Cpu.cpuFreq, ay);
+		this.audio=zxAudio;
+		this.serializeObjects.push(zxAudio);
+
+		// Beeper: all even ports
+		this.ports.registerMaskedOutPortFunction(0x0001, 0x0000, (port, value) => {
+			zxAudio.setBeeper((value&0b010000)!=0, this.z80Cpu.passedTstates);
+		});
+
+		// AY
+		if (zxAudio.ay) {
+			this.ports.registerOutPortFunction(0xFFFD, (port, value) => zxAudio.ay!.selectRegister(value));
+			this.ports.registerInPortFunction(0xFFFD, port => zxAudio.ay!.readRegister());
+			this.ports.registerOutPortFunction(0xBFFD, (port, value) => zxAudio.writeAyRegister(value, this.z80Cpu.passedTstates));
+		}
+	}
+
+
+	/**
+	 * Configures the joystick.
+	 * @param type The joystick type, e.g. "kempston". "none" for no joystick.
+	 */
+	protected configureJoystick(type: string) {
+		if (type=='none')
+			return;
+		this.joystick=new ZxJoystick(type, this.ports);
+	}
+
+
+	/**
+	 * Configures the ZX Next layers and sprites.
+	 * The next registers for Layer 2, the tilemap, the palettes, the
+	 * layer priority and the clip windows are handled. Layer 2 is
+	 * additionally enabled through port 0x123B.
+	 * The sprites are written through the ports 0x303B, 0x57 and 0x5B
+	 * and the sprite next registers.
+	 * Needs to be called before 'configureMachine' to enable the
+	 * TBBlue ports.
+	 * @param enabled true to enable the ZX Next layers.
+	 */
+	protected configureNextLayers(enabled: boolean) {
+		if (!enabled)
+			return;
+		const nextLayers=new ZxNextLayers(this.memory);
+		this.nextLayers=nextLayers;
+		this.serializeObjects.push(nextLayers);
+
+		// Next registers
+		for (const reg of ZxNextLayers.REGISTERS) {
+			this.tbblueRegisterWriteHandler.set(reg, value => nextLayers.writeRegister(reg, value));
+			this.tbblueRegisterReadHandler.set(reg, () => nextLayers.readRegister(reg));
+		}
+
+		// Layer 2 access port
+		this.ports.registerOutPortFunction(0x123B, (port, value) => {
+			nextLayers.layer2Port=value;
+		});
+		this.ports.registerInPortFunction(0x123B, port => nextLayers.layer2Port);
+
+		// Sprites
+		const nextSprites=new ZxNextSprites(nextLayers);
+		this.nextSprites=nextSprites;
+		this.serializeObjects.push(nextSprites);
+		for (const reg of ZxNextSprites.REGISTERS) {
+			this.tbblueRegisterWriteHandler.set(reg, value => nextSprites.writeRegister(reg, value));
+			this.tbblueRegisterReadHandler.set(reg, () => nextSprites.readRegister(reg));
+		}
+		this.ports.registerOutPortFunction(0x303B, (port, value) => nextSprites.selectSprite(value));
+		this.ports.registerInPortFunction(0x303B, port => 0);	// Status: no collision
+		// Attributes and patterns: only the lower byte of the port is decoded
+		this.ports.registerMaskedOutPortFunction(0x00FF, 0x0057, (port, value) => nextSprites.writeAttribute(value));
+		this.ports.registerMaskedOutPortFunction(0x00FF, 0x005B, (port, value) => nextSprites.writePattern(value));
+	}
+
+
+	/**
+	 * Configures the ZX Next zxnDMA and copper.
+	 * The DMA is accessed through port 0x6B (zxnDMA) and 0x0B (Z80 DMA
+	 * compatible). The T-states of a transfer are added to the OUT
+	 * instruction that started it.
+	 * The copper list is written through the next registers 0x60-0x63.
+	 * Needs to be called before 'configureMachine' to enable the
+	 * TBBlue ports.
+	 * @param enabled true to enable the DMA and the copper.
+	 */
+	protected configureNextDmaCopper(enabled: boolean) {
+		if (!enabled)
+			return;
+		// DMA: only the lower byte of the port is decoded
+		const dma=new ZxNextDma(this.memory, this.ports);
+		this.dma=dma;
+		this.serializeObjects.push(dma);
+		this.ports.registerMaskedOutPortFunction(0x00FF, 0x006B, (port, value) => this.z80Cpu.addTstates(dma.write(value, true)));
+		this.ports.registerMaskedInPortFunction(0x00FF, 0x006B, port => dma.read());
+		this.ports.registerMaskedOutPortFunction(0x00FF, 0x000B, (port, value) => this.z80Cpu.addTstates(dma.write(value, false)));
+		this.ports.registerMaskedInPortFunction(0x00FF, 0x000B, port => dma.read());
+
+		// Copper
+		const copper=new ZxNextCopper((reg, value) => this.tbblueRegisterWrite(reg, value));
+		this.copper=copper;
+		this.serializeObjects.push(copper);
+		for (const reg of ZxNextCopper.REGISTERS) {
+			this.tbblueRegisterWriteHandler.set(reg, value => copper.writeRegister(reg, value));
+			this.tbblueRegisterReadHandler.set(reg, () => copper.readRegister(reg));
+		}
+	}
+
+
+	/**
+	 * Configures the full frame rendering.
+	 * Records the border changes (port 0xFE) and the writes to the
+	 * screen memory together with their T-state in the frame.
+	 * @param ulaBorder true to enable the full frame.
+	 * @param machine The 'zsim.machine' (or 'zsim.visualMemory') setting to select the timing.
+	 */
+	protected configureUlaFrame(ulaBorder: boolean, machine: string) {
+		if (!ulaBorder)
+			return;
+		const ulaFrame=ZxUlaFrame.create(machine, this.memory);
+		this.ulaFrame=ulaFrame;
+
+		// Border: all even ports
+		this.ports.registerMaskedOutPortFunction(0x0001, 0x0000, (port, value) => {
+			ulaFrame.borderChanged(value&0x07, this.z80Cpu.getFrameTstate());
+		});
+
+		// Screen memory
+		this.memory.screenWriteListener=(offset, value) => {
+			ulaFrame.screenWritten(offset, value, this.z80Cpu.getFrameTstate());
+		};
+	}
+
+
 	/// Override.
 	/// Initializes the machine.
 	/// When ready it emits this.emit('initialized') or this.emit('error', Error(...));
@@ -298,7 +702,20 @@ export class ZSimRemote extends DzrpRemote {
 	/// by 'doInitialization' after a successful connect.
 	public async doInitialization(): Promise<void> {
 		// Decide what machine
-		this.configureMachine(Settings.launch.zsim.loadZxRom, Settings.launch.zsim.memoryPagingControl, Settings.launch.zsim.tbblueMemoryManagementSlots);
+		const machineFile=Settings.launch.zsim.machineFile;
+		if (machineFile) {
+			const machine=new CustomMachine();
+			machine.readFile(machineFile);
+			this.configureCustomMachine(machine);
+		}
+		else {
+			this.configureNextLayers(Settings.launch.zsim.nextLayers);
+			this.configureNextDmaCopper(Settings.launch.zsim.tbblueMemoryManagementSlots);
+			this.configureMachine(Settings.launch.zsim.loadZxRom, Settings.launch.zsim.memoryPagingControl, Settings.launch.zsim.tbblueMemoryManagementSlots, Settings.launch.zsim.machine);
+		}
+		this.configureAudio(Settings.launch.zsim.audio, Settings.launch.zsim.memoryPagingControl||Settings.launch.zsim.tbblueMemoryManagementSlots);
+		this.configureJoystick(Settings.launch.zsim.joystick);
+		this.configureUlaFrame(Settings.launch.zsim.ulaScreen&&Settings.launch.zsim.ulaBorder, Settings.launch.zsim.machine??Settings.launch.zsim.visualMemory);
 
 		// Load sna or nex file
 		const loadPath=Settings.launch.load;
@@ -345,9 +762,41 @@ export class ZSimRemote extends DzrpRemote {
 	/**
 	 * Loads .nex or .sna files.
 	 * Assures that the memory banks are copied to the Z80 memory.
+	 * .tap and .tzx files are inserted into the tape deck.
 	 */
 	protected async loadBin(filePath: string): Promise<void> {
-		await super.loadBin(filePath);
+		const ext=path.extname(filePath).toLowerCase();
+		if (ext=='.tap'||ext=='.tzx')
+			this.loadTape(filePath);
+		else
+			await super.loadBin(filePath);
+	}
+
+
+	/**
+	 * Inserts a .tap or .tzx file into the tape deck.
+	 * The tape signal is fed into the EAR bit (bit 6) of the ULA port (0xFE).
+	 * @param filePath The path to the .tap or .tzx file.
+	 */
+	protected loadTape(filePath: string) {
+		const tapeFile=(path.extname(filePath).toLowerCase()=='.tzx')? new TzxFile():new TapFile();
+		tapeFile.readFile(filePath);
+		if (!this.tape) {
+			const tape=new ZxTape(this.z80Cpu.cpuFreq);
+			this.tape=tape;
+			// EAR: all even ports
+			this.ports.registerMaskedInPortFunction(0x0001, 0x0000, port => {
+				let value=this.ports.getPortValue(port);
+				if (tape.playing) {
+					if (tape.getEarLevel(this.z80Cpu.passedTstates))
+						value|=0b0100_0000;
+					else
+						value&=~0b0100_0000;
+				}
+				return value;
+			});
+		}
+		this.tape.insert(tapeFile.blocks);
 	}
 
 
@@ -502,31 +951,48 @@ export class ZSimRemote extends DzrpRemote {
 		//let bp;
 		let breakAddress;
 		let updateCounter=0;
+		const fastLoadTape=(Settings.launch.zsim.tapeFastLoad)? this.tape:undefined;
+		const mockAddresses=(this.mockAddresses.size>0)? this.mockAddresses:undefined;
 		try {
 			// Run the Z80-CPU in a loop
 			for (; counter>0; counter--) {
+				// Tape fast load: trap the ROM's LD-BYTES
+				if (fastLoadTape&&this.z80Cpu.pc==ZxTape.LD_BYTES)
+					fastLoadTape.fastLoad(this.z80Cpu);
+
 				// Store current registers and opcode
 				const prevPc=this.z80Cpu.pc;
 				if (CpuHistory)
 					this.storeHistoryInfo(prevPc);
 
-				// Execute one instruction
-				const vertInterrupt=this.z80Cpu.execute();
+				// Execute one instruction (or return from a mocked subroutine)
+				let mockIndex=mockAddresses?.get(prevPc);
+				if (mockIndex!=undefined && !this.isCalled(prevPc))
+					mockIndex=undefined;
+				const vertInterrupt=(mockIndex!=undefined)? this.returnFromMock(mockIndex):this.z80Cpu.execute();
+
+				// The copper runs in parallel (synchronized to the interrupt)
+				this.copper?.update(this.z80Cpu.getFrameTstate(), this.z80Cpu.getFrameTstates());
 
 				// Update visual memory
 				this.memory.setVisualProg(prevPc); // Fully correct would be to update all opcodes. But as it is compressed anyway this only gives a more accurate view at a border but on the other hand reduces the performance.
 
-				// Store the pc for coverage
-				this.codeCoverage?.storeAddress(prevPc);
+				// Store the pc for coverage (a mocked subroutine is not executed)
+				if (mockIndex==undefined)
+					this.codeCoverage?.storeAddress(prevPc);
 
 				// Do visual update
 				if (vertInterrupt) {
+					// Generate the audio of the frame
+					this.audio?.generate(this.z80Cpu.passedTstates);
 					updateCounter--;
 					if (updateCounter<=0) {
 						// Update the screen etc.
 						this.emit('update')
 						updateCounter=1;
 					}
+					// Start recording the next frame
+					this.ulaFrame?.startFrame();
 				}
 
 				// Check if given breakpoints are hit
@@ -536,6 +1002,13 @@ export class ZSimRemote extends DzrpRemote {
 					break;
 				}
 
+				// Check if a breakpoint set by CMD_SET_BREAKPOINTS is hit
+				if (this.setBreakpointAddresses.has(pc)) {
+					breakNumber=BREAK_REASON_NUMBER.BREAKPOINT_HIT;
+					breakAddress=pc;
+					break;
+				}
+
 				// Check if any real breakpoint is hit
 				// Note: Because of step-out this needs to be done before the other check.
 				const bpInner=this.tmpBreakpoints.get(pc);
@@ -657,7 +1130,7 @@ export class ZSimRemote extends DzrpRemote {
 	public startProcessing() {
 		super.startProcessing();
 		// Clear code coverage
-		this.codeCoverage.clearAll();
+		this.codeCoverage?.clearAll();
 	}
 
 
@@ -671,6 +1144,7 @@ export class ZSimRemote extends DzrpRemote {
 		super.stopProcessing();
 
 		// Update the screen etc.
+		this.audio?.generate(this.z80Cpu.passedTstates);
 		this.emit('update');
 
 		// Emit code coverage event
@@ -681,6 +1155,19 @@ export class ZSimRemote extends DzrpRemote {
 	}
 
 
+	/**
+	 * Emits the code coverage that has not been emitted
+	 * by 'stopProcessing' yet.
+	 */
+	public async flushCodeCoverage(): Promise<void> {
+		const addresses=this.codeCoverage?.getAddresses();
+		if (addresses && addresses.size>0) {
+			this.emit('coverage', addresses);
+			this.codeCoverage.clearAll();
+		}
+	}
+
+
 	/**
 	 * This is an 'intelligent' remote that does evaluate the breakpoint
 	 * conditions on it's own.
@@ -764,6 +1251,154 @@ export class ZSimRemote extends DzrpRemote {
 	}
 
 
+	/**
+	 * Generates a non maskable interrupt.
+	 * If the simulation is running the NMI is executed before the next instruction.
+	 */
+	public async generateNmi(): Promise<void> {
+		this.z80Cpu.generateNmi();
+		this.cpuStateChanged('NMI');
+	}
+
+
+	/**
+	 * Generates a one-shot maskable interrupt.
+	 * @param data The value on the data bus (used by IM 0 and IM 2).
+	 * @returns false if interrupts are disabled. The interrupt is not kept pending.
+	 */
+	public async generateInterrupt(data: number): Promise<boolean> {
+		const accepted=this.z80Cpu.generateInterrupt(data);
+		if (accepted)
+			this.cpuStateChanged('Interrupt');
+		return accepted;
+	}
+
+
+	/**
+	 * Resets the machine.
+	 * The soft reset resets the CPU, the memory paging (the start banks
+	 * are paged in and a paging lock is released) and the devices:
+	 * beeper and AY, ZX Next layers, sprites, zxnDMA and copper.
+	 * The tape is stopped and rewound.
+	 * The hard reset additionally clears the RAM. The ROM is kept.
+	 * Not reset are the port values (e.g. the border color), the
+	 * joystick and the frame timing (the T-states to the next interrupt).
+	 * For a custom machine ('zsim.machineFile') the memory paging is not changed.
+	 * @param hard true for a hard reset (power cycle).
+	 */
+	public async resetMachine(hard: boolean): Promise<void> {
+		this.z80Cpu.reset();
+		this.audio?.reset(this.z80Cpu.passedTstates);
+		this.nextLayers?.reset();
+		this.nextSprites?.reset();
+		this.dma?.reset();
+		this.copper?.reset();
+		this.tbblueRegisterSelectValue=0;
+		this.tape?.rewind();
+		const zsim=Settings.launch.zsim;
+		if (!zsim.machineFile) {
+			// Start banks
+			const mem=this.memory;
+			[254, 255, 10, 11, 4, 5, 0, 1].forEach((bank, slot) => mem.setSlot(slot, bank));
+			mem.setUlaScreenBank(2*5);
+			const plus3=zsim.memoryPagingControl&&(zsim.machine=='plus2a'||zsim.machine=='plus3');
+			this.configurePaging(zsim.memoryPagingControl, plus3);
+		}
+		if (hard) {
+			this.memory.clearRam();
+			this.ulaFrame?.startFrame();
+		}
+		this.cpuStateChanged('Reset');
+	}
+
+
+	/**
+	 * Returns the interrupt flip-flops and the HALT state of the CPU.
+	 */
+	public async getInterruptState(): Promise<{iff1: number, iff2: number, halted: boolean}|undefined> {
+		const regs=this.z80Cpu.getAllRegisters();
+		return {iff1: regs.iff1, iff2: regs.iff2, halted: this.z80Cpu.halted};
+	}
+
+
+	/**
+	 * Activates the mocked subroutines for the next test case.
+	 * @param mocks The mocks. An empty array removes all mocks.
+	 */
+	public async setMocks(mocks: Array<GenericMock>): Promise<void> {
+		this.activeMocks=mocks;
+		this.mockCalls=mocks.map(() => 0);
+		this.mockAddresses.clear();
+		mocks.forEach((mock, index) => this.mockAddresses.set(mock.address, index));
+	}
+
+
+	/**
+	 * Returns how often the mocked subroutines have been called.
+	 */
+	public async getMockCalls(): Promise<Array<number>> {
+		return [...this.mockCalls];
+	}
+
+
+	/**
+	 * Checks if the subroutine at 'address' has been called, i.e. if
+	 * the return address on the stack follows a CALL, CALL cc or RST
+	 * to 'address'.
+	 * Used to distinguish a call of a mocked subroutine from reaching its
+	 * address by a jump or by falling through.
+	 * @param address The address of the subroutine (the current PC).
+	 * @returns true if called.
+	 */
+	protected isCalled(address: number): boolean {
+		const sp=this.z80Cpu.getAllRegisters().sp;
+		const returnAddress=this.memory.getMemory16(sp);
+		// RST
+		const rst=this.memory.getMemory8((returnAddress-1)&0xFFFF);
+		if ((rst&0xC7)==0xC7 && (rst&0x38)==address)
+			return true;
+		// CALL nn, CALL cc,nn
+		const call=this.memory.getMemory8((returnAddress-3)&0xFFFF);
+		if (call!=0xCD && (call&0xC7)!=0xC4)
+			return false;
+		return this.memory.getMemory16((returnAddress-2)&0xFFFF)==address;
+	}
+
+
+	/**
+	 * Executed instead of the mocked subroutine:
+	 * Sets the registers and returns like a RET.
+	 * The mocked subroutine itself is not executed, only the T-states
+	 * of the RET are counted.
+	 * @param index The index of the mock.
+	 * @returns true if a (vertical) interrupt happened. See Z80Cpu.execute().
+	 */
+	protected returnFromMock(index: number): boolean {
+		for (const reg of this.activeMocks[index].registers)
+			this.setRegValue(Z80_REG[reg.name as keyof typeof Z80_REG], reg.value);
+		this.mockCalls[index]++;
+		return this.z80Cpu.ret();
+	}
+
+
+	/**
+	 * Called after the CPU state has been changed from outside of the
+	 * simulation (NMI, interrupt, reset).
+	 * If the simulation is not running, the caches are cleared and the
+	 * registers, call stack and the simulator view are updated.
+	 * @param reason The reason shown for the 'stoppedEvent'.
+	 */
+	protected cpuStateChanged(reason: string) {
+		if (this.cpuRunning)
+			return;
+		StepHistory.clear();
+		Z80Registers.clearCache();
+		this.clearCallStack();
+		this.emit('update');
+		this.emit('stoppedEvent', reason);
+	}
+
+
 	//------- Send Commands -------
 
 	/**
@@ -832,6 +1467,36 @@ export class ZSimRemote extends DzrpRemote {
 	}
 
 
+	/**
+	 * Sets all breakpoints at once.
+	 * The simulator does not modify the memory, it just remembers the
+	 * addresses and checks them while running.
+	 * @param bpAddresses The breakpoint addresses. Each 0x0000-0xFFFF.
+	 * @returns A Promise with the memory contents from each breakpoint address.
+	 */
+	protected async sendDzrpCmdSetBreakpoints(bpAddresses: Array<number>): Promise<Array<number>> {
+		const opcodes=new Array<number>();
+		for (const address of bpAddresses) {
+			this.setBreakpointAddresses.add(address);
+			opcodes.push(this.memory.getMemory8(address));
+		}
+		return opcodes;
+	}
+
+
+	/**
+	 * Restores the memory at the breakpoint addresses.
+	 * The breakpoints at these addresses are removed.
+	 * @param elems The addresses + memory content.
+	 */
+	protected async sendDzrpCmdRestoreMem(elems: Array<{address: number, value: number}>): Promise<void> {
+		for (const elem of elems) {
+			this.memory.setMemory8(elem.address, elem.value);
+			this.setBreakpointAddresses.delete(elem.address);
+		}
+	}
+
+
 	/**
 	 * Sends the command to add a watchpoint.
 	 * @param address The watchpoint address. 0x0000-0xFFFF.
@@ -929,11 +1594,133 @@ export class ZSimRemote extends DzrpRemote {
  	*/
 	public async sendDzrpCmdWriteState(stateData: Uint8Array): Promise<void> {
 		this.deserializeState(stateData);
+		// Restart the frame with the new screen memory
+		this.ulaFrame?.startFrame();
 		// Update the screen etc.
 		this.emit('update')
 	}
 
 
+	/**
+	 * Returns true if a 128K snapshot should be saved.
+	 */
+	protected isSnapshot128k(): boolean {
+		return Settings.launch.zsim.memoryPagingControl||Settings.launch.zsim.tbblueMemoryManagementSlots;
+	}
+
+
+	/**
+	 * Returns true if the ZX +2A/+3 paging (port 0x1FFD) is simulated.
+	 */
+	protected isPlus3(): boolean {
+		const machine=Settings.launch.zsim.machine;
+		return Settings.launch.zsim.memoryPagingControl&&(machine=='plus2a'||machine=='plus3');
+	}
+
+
+	/**
+	 * Sets the interrupt flip-flops, ports 0x7FFD/0x1FFD and the AY registers
+	 * from a snapshot.
+	 * @param snapshot The parsed snapshot file.
+	 */
+	protected async loadSnapshotHwState(snapshot: SnapshotFile): Promise<void> {
+		this.z80Cpu.iff1=snapshot.iff1;
+		this.z80Cpu.iff2=snapshot.iff2;
+		if (snapshot.port1ffd!=undefined&&this.isPlus3()&&this.romBuffer)
+			this.ports.write(0x1FFD, snapshot.port1ffd);
+		if (snapshot.port7ffd!=undefined&&Settings.launch.zsim.memoryPagingControl&&this.romBuffer)
+			this.ports.write(0x7FFD, snapshot.port7ffd);
+		const ay=this.audio?.ay;
+		if (ay&&snapshot.ayRegisters) {
+			snapshot.ayRegisters.forEach((value, reg) => {
+				ay.selectRegister(reg);
+				ay.writeRegister(value);
+			});
+			ay.selectRegister(snapshot.aySelectedRegister);
+		}
+	}
+
+
+	/**
+	 * Returns the interrupt flip-flops of the simulated CPU.
+	 */
+	protected async getInterruptFlipFlops(): Promise<{iff1: number, iff2: number}|undefined> {
+		const regs=this.z80Cpu.getAllRegisters();
+		return {iff1: regs.iff1, iff2: regs.iff2};
+	}
+
+
+	/**
+	 * Adds the border, ports 0x7FFD/0x1FFD and the AY registers to a snapshot.
+	 * @param snapshot The snapshot to fill.
+	 */
+	protected async saveSnapshotHwState(snapshot: SnapshotFile): Promise<void> {
+		snapshot.borderColor=this.ports.getPortValue(0xFE)&0x07;
+		if (snapshot.port7ffd!=undefined&&Settings.launch.zsim.memoryPagingControl)
+			snapshot.port7ffd=this.ports.getPortValue(0x7FFD);
+		if (snapshot.port7ffd!=undefined&&this.isPlus3())
+			snapshot.port1ffd=this.ports.getPortValue(0x1FFD);
+		const ay=this.audio?.ay;
+		if (ay) {
+			const registers=new Uint8Array(16);
+			for (let reg=0; reg<16; reg++)
+				registers[reg]=ay.getRegister(reg);
+			snapshot.ayRegisters=registers;
+			snapshot.aySelectedRegister=ay.getSelectedRegister();
+		}
+	}
+
+
+	/**
+	 * Returns a sprites palette.
+	 * @param index 0/1. The first or the second palette.
+	 * @returns An array with 256 entries with the 9 bit color.
+ 	*/
+	public async sendDzrpCmdGetSpritesPalette(index: number): Promise<Array<number>> {
+		if (!this.nextLayers)
+			return super.sendDzrpCmdGetSpritesPalette(index);
+		return this.nextLayers.getPalette9Bit(ZxNextLayers.PALETTE_SPRITES+4*(index&0x01));
+	}
+
+
+	/**
+	 * Returns the attributes of a number of sprites.
+	 * @param index The index of the sprite.
+	 * @param count The number of sprites to return.
+	 * @returns An array with 5 byte attributes for each sprite.
+ 	*/
+	public async sendDzrpCmdGetSprites(index: number, count: number): Promise<Array<Uint8Array>> {
+		if (!this.nextSprites)
+			return super.sendDzrpCmdGetSprites(index, count);
+		return this.nextSprites.getAttributes(index, count);
+	}
+
+
+	/**
+	 * Returns sprite patterns.
+	 * @param index The index of the pattern [0-63]
+	 * @param count The number of patterns [0-64]
+	 * @returns An Array with the 256 byte sprite pattern for each index.
+	 */
+	protected async sendDzrpCmdGetSpritePatterns(index: number, count: number): Promise<Array<Array<number>>> {
+		if (!this.nextSprites)
+			return super.sendDzrpCmdGetSpritePatterns(index, count);
+		return this.nextSprites.getPatterns(index, count);
+	}
+
+
+	/**
+	 * Returns the sprites clipping window.
+	 * @returns The clipping dimensions and the control byte (register 0x15).
+ 	*/
+	public async sendDzrpCmdGetSpritesClipWindow(): Promise<{xl: number, xr: number, yt: number, yb: number, control: number}> {
+		if (!this.nextLayers)
+			return super.sendDzrpCmdGetSpritesClipWindow();
+		const clip=this.nextLayers.clipWindows[ZxNextLayers.CLIP_SPRITES];
+		return {xl: clip[0], xr: clip[1], yt: clip[2], yb: clip[3], control: this.nextLayers.registers[0x15]};
+	}
+
+
 	/**
 	 * Sends the command to set the border.
  	*/
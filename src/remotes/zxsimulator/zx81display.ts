@@ -0,0 +1,95 @@
+import {ZxMemory} from './zxmemory';
+import {ImageConvert} from '../../misc/imageconvert';
+
+
+
+/**
+ * Renders the display file of a ZX81.
+ *
+ * The ZX81 has no video memory. The ROM's display routine executes the
+ * display file (system variable D_FILE) and the ULA generates the picture
+ * from the character codes. This is not simulated (no execution of the
+ * display file above 0x8000 with forced NOPs, no interrupt from bit 6
+ * of R), so a ZX81 ROM can't be run. Instead the display file is
+ * directly converted into an image:
+ * A newline (0x76) followed by 24 lines of up to 32 characters, each
+ * line terminated by a newline. A collapsed display file (short lines) is
+ * supported. Bit 7 of a character code inverts the character.
+ * The character patterns are taken from the ROM (0x1E00).
+ */
+export class Zx81Display {
+	// The address of the system variable D_FILE.
+	public static D_FILE=0x400C;
+
+	// The address of the character set in the ROM.
+	public static CHARSET=0x1E00;
+
+	// The newline character.
+	protected static NEWLINE=0x76;
+
+	// The size of the display in characters.
+	public static COLUMNS=32;
+	public static LINES=24;
+
+	// The memory, used to get the display file and the character set.
+	protected memory: ZxMemory;
+
+
+	/**
+	 * Constructor.
+	 * @param memory The memory, used to get the display file.
+	 */
+	constructor(memory: ZxMemory) {
+		this.memory=memory;
+	}
+
+
+	/**
+	 * Returns the pixels of the display (0=white, 1=black).
+	 * 256x192 pixels.
+	 */
+	public createPixels(): Array<number> {
+		const width=8*Zx81Display.COLUMNS;
+		const pixels=new Array<number>(width*8*Zx81Display.LINES);
+		pixels.fill(0);
+		const memory=this.memory;
+		let addr=memory.getMemory16(Zx81Display.D_FILE);
+		// Skip first newline
+		if (memory.getMemory8(addr)!=Zx81Display.NEWLINE)
+			return pixels;	// No valid display file
+		addr++;
+		for (let line=0; line<Zx81Display.LINES; line++) {
+			for (let column=0; column<=Zx81Display.COLUMNS; column++) {
+				const code=memory.getMemory8(addr);
+				addr=(addr+1)&0xFFFF;
+				if (code==Zx81Display.NEWLINE)
+					break;
+				if (column==Zx81Display.COLUMNS)
+					return pixels;	// Line too long: not a display file
+				// Draw character
+				const invert=(code&0x80)? 1:0;
+				const charAddr=Zx81Display.CHARSET+8*(code&0x3F);
+				for (let y=0; y<8; y++) {
+					const pattern=memory.getMemory8(charAddr+y);
+					let index=(8*line+y)*width+8*column;
+					for (let mask=0x80; mask; mask>>>=1)
+						pixels[index++]=((pattern&mask)? 1:0)^invert;
+				}
+			}
+		}
+		return pixels;
+	}
+
+
+	/**
+	 * Returns the display as gif image.
+	 */
+	public getImage(): number[] {
+		const pixels=this.createPixels();
+		const palette=[
+			0xFF, 0xFF, 0xFF,	// White
+			0x00, 0x00, 0x00	// Black
+		];
+		return ImageConvert.createGifFromArray(8*Zx81Display.COLUMNS, 8*Zx81Display.LINES, pixels, palette);
+	}
+}
@@ -0,0 +1,287 @@
+import {Ay38912} from './ay38912';
+import {MemBuffer} from '../../misc/membuffer';
+
+
+
+/**
+ * Creates the audio samples from the beeper (port 0xFE, bit 4) and
+ * the AY-3-8912 (if available).
+ *
+ * The sound is generated in simulated time, i.e. the T-states of the
+ * CPU. Before the beeper or an AY register is changed the samples
+ * up to that T-state are generated.
+ * The samples are kept in a ring buffer. The view fetches the new samples
+ * to play them, '-wav' fetches the last seconds.
+ * The sample values are in the range 0 to 1.
+ */
+export class ZxAudio {
+	// The default sample rate in Hz.
+	public static SAMPLE_RATE=22050;
+
+	// The default number of seconds kept in the ring buffer.
+	public static BUFFER_SECONDS=60;
+
+	// The AY is ticked every 16 T-states (AY clock is half the CPU clock, 1 tick = 8 AY cycles).
+	protected static AY_TSTATES_PER_TICK=16;
+
+	// Mixing of beeper and AY.
+	protected static BEEPER_VOLUME=0.5;
+	protected static AY_VOLUME=0.5;
+
+	// The sample rate in Hz.
+	public sampleRate: number;
+
+	// The AY sound chip. Undefined if not available.
+	public ay: Ay38912|undefined;
+
+	// The T-states of one sample.
+	protected tstatesPerSample: number;
+
+	// The T-state at which the next sample is completed.
+	protected nextSampleTstate: number;
+
+	// The beeper state.
+	protected beeperOn: boolean;
+
+	// The T-state up to which the beeper has been accumulated.
+	protected beeperTstate: number;
+
+	// The number of T-states the beeper was on during the current sample.
+	protected beeperAccu: number;
+
+	// The T-state of the next AY tick.
+	protected nextAyTstate: number;
+
+	// Sum and number of the AY outputs during the current sample.
+	protected ayAccu: number;
+	protected ayCount: number;
+	protected lastAyOutput: number;
+
+	// The ring buffer with the samples.
+	protected samples: Float32Array;
+
+	// The number of all samples generated so far.
+	protected totalSamples: number;
+
+	// The value of 'totalSamples' at the last 'getNewSamples'.
+	protected fetchedSamples: number;
+
+
+	/**
+	 * Constructor.
+	 * @param cpuFreq The CPU frequency in Hz.
+	 * @param withAy true to simulate the AY-3-8912 as well.
+	 * @param sampleRate The sample rate in Hz.
+	 * @param bufferSeconds The number of seconds kept in the ring buffer.
+	 */
+	constructor(cpuFreq: number, withAy: boolean, sampleRate=ZxAudio.SAMPLE_RATE, bufferSeconds=ZxAudio.BUFFER_SECONDS) {
+		this.sampleRate=sampleRate;
+		if (withAy)
+			this.ay=new Ay38912();
+		this.tstatesPerSample=cpuFreq/sampleRate;
+		this.nextSampleTstate=this.tstatesPerSample;
+		this.beeperOn=false;
+		this.beeperTstate=0;
+		this.beeperAccu=0;
+		this.nextAyTstate=ZxAudio.AY_TSTATES_PER_TICK;
+		this.ayAccu=0;
+		this.ayCount=0;
+		this.lastAyOutput=0;
+		this.samples=new Float32Array(sampleRate*bufferSeconds);
+		this.totalSamples=0;
+		this.fetchedSamples=0;
+	}
+
+
+	/**
+	 * Sets the beeper.
+	 * @param on The new beeper state.
+	 * @param tstate The (total) T-state of the change.
+	 */
+	public setBeeper(on: boolean, tstate: number) {
+		if (on==this.beeperOn)
+			return;
+		this.generate(tstate);
+		this.beeperOn=on;
+	}
+
+
+	/**
+	 * Switches the beeper off and resets the AY.
+	 * The samples generated so far are kept.
+	 * @param tstate The (total) T-state of the reset.
+	 */
+	public reset(tstate: number) {
+		this.generate(tstate);
+		this.beeperOn=false;
+		this.ay?.reset();
+	}
+
+
+	/**
+	 * Writes the selected AY register.
+	 * @param value The value to write.
+	 * @param tstate The (total) T-state of the write.
+	 */
+	public writeAyRegister(value: number, tstate: number) {
+		this.generate(tstate);
+		this.ay!.writeRegister(value);
+	}
+
+
+	/**
+	 * Generates the samples up to the given T-state.
+	 * @param tstate The (total) T-state.
+	 */
+	public generate(tstate: number) {
+		while (this.nextSampleTstate<=tstate) {
+			const sampleTstate=this.nextSampleTstate;
+			this.accumulate(sampleTstate);
+			this.pushSample();
+			this.nextSampleTstate+=this.tstatesPerSample;
+		}
+		this.accumulate(tstate);
+	}
+
+
+	/**
+	 * Accumulates beeper and AY output up to the given T-state.
+	 */
+	protected accumulate(tstate: number) {
+		// Beeper
+		if (this.beeperOn)
+			this.beeperAccu+=tstate-this.beeperTstate;
+		this.beeperTstate=tstate;
+		// AY
+		const ay=this.ay;
+		if (ay) {
+			while (this.nextAyTstate<=tstate) {
+				ay.tick();
+				this.ayAccu+=ay.getOutput();
+				this.ayCount++;
+				this.nextAyTstate+=ZxAudio.AY_TSTATES_PER_TICK;
+			}
+		}
+	}
+
+
+	/**
+	 * Mixes the accumulated beeper and AY output into one sample
+	 * and stores it in the ring buffer.
+	 */
+	protected pushSample() {
+		const beeper=this.beeperAccu/this.tstatesPerSample;
+		if (this.ayCount>0)
+			this.lastAyOutput=this.ayAccu/this.ayCount;
+		const value=ZxAudio.BEEPER_VOLUME*beeper+ZxAudio.AY_VOLUME*this.lastAyOutput;
+		this.samples[this.totalSamples%this.samples.length]=value;
+		this.totalSamples++;
+		this.beeperAccu=0;
+		this.ayAccu=0;
+		this.ayCount=0;
+	}
+
+
+	/**
+	 * Returns the samples of the ring buffer.
+	 * @param count The number of samples. Limited to the available samples.
+	 * @returns The last 'count' samples.
+	 */
+	protected getSamples(count: number): Float32Array {
+		const length=this.samples.length;
+		count=Math.min(count, this.totalSamples, length);
+		const result=new Float32Array(count);
+		const start=this.totalSamples-count;
+		for (let i=0; i<count; i++)
+			result[i]=this.samples[(start+i)%length];
+		return result;
+	}
+
+
+	/**
+	 * Returns the samples generated since the last call.
+	 * Used by the ZxSimulationView to play the sound.
+	 */
+	public getNewSamples(): Float32Array {
+		const result=this.getSamples(this.totalSamples-this.fetchedSamples);
+		this.fetchedSamples=this.totalSamples;
+		return result;
+	}
+
+
+	/**
+	 * Returns the samples of the last seconds.
+	 * @param seconds The number of seconds.
+	 */
+	public getLastSamples(seconds: number): Float32Array {
+		return this.getSamples(Math.round(seconds*this.sampleRate));
+	}
+
+
+	/**
+	 * Converts the samples into a WAV file (mono, 16 bit PCM).
+	 * @param samples The samples (0 to 1).
+	 * @param sampleRate The sample rate in Hz.
+	 * @returns The contents of the WAV file.
+	 */
+	public static createWav(samples: Float32Array, sampleRate: number): Buffer {
+		const dataSize=2*samples.length;
+		const buffer=Buffer.alloc(44+dataSize);
+		// RIFF header
+		buffer.write('RIFF', 0, 'ascii');
+		buffer.writeUInt32LE(36+dataSize, 4);
+		buffer.write('WAVE', 8, 'ascii');
+		// Format chunk
+		buffer.write('fmt ', 12, 'ascii');
+		buffer.writeUInt32LE(16, 16);	// Chunk size
+		buffer.writeUInt16LE(1, 20);	// PCM
+		buffer.writeUInt16LE(1, 22);	// Mono
+		buffer.writeUInt32LE(sampleRate, 24);
+		buffer.writeUInt32LE(2*sampleRate, 28);	// Byte rate
+		buffer.writeUInt16LE(2, 32);	// Block align
+		buffer.writeUInt16LE(16, 34);	// Bits per sample
+		// Data chunk
+		buffer.write('data', 36, 'ascii');
+		buffer.writeUInt32LE(dataSize, 40);
+		let offset=44;
+		for (const sample of samples) {
+			const value=Math.round(Math.min(Math.max(sample, 0), 1)*32767);
+			buffer.writeInt16LE(value, offset);
+			offset+=2;
+		}
+		return buffer;
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer=new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size=memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object.
+	 * The samples are not stored, only the beeper and the AY state.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.write8(Number(this.beeperOn));
+		this.ay?.serialize(memBuffer);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.beeperOn=(memBuffer.read8()!=0);
+		this.ay?.deserialize(memBuffer);
+	}
+}
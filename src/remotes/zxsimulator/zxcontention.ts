@@ -0,0 +1,205 @@
+import {ZxMemory} from './zxmemory';
+
+
+
+/**
+ * The timing of the ULA memory and I/O contention of a ZX Spectrum.
+ * See https://worldofspectrum.org/faq/reference/48kreference.htm#Contention
+ * and https://worldofspectrum.org/faq/reference/128kreference.htm#Contention
+ * and https://worldofspectrum.org/faq/reference/128kreference.htm#Plus3
+ *
+ * While the ULA reads the screen memory the CPU is stopped if it accesses
+ * contended memory (or I/O). The delay depends on the T-state within the
+ * frame at which the access takes place.
+ * For performance reasons the delays for all T-states of a frame are
+ * pre-calculated.
+ */
+export class ZxContention {
+	// The delay pattern, repeated every 8 T-states.
+	protected static DELAY_PATTERN=[6, 5, 4, 3, 2, 1, 0, 0];
+
+	// The delay pattern of the ZX +2A/+3.
+	protected static DELAY_PATTERN_PLUS3=[1, 0, 7, 6, 5, 4, 3, 2];
+
+	// The number of screen lines with contention.
+	protected static CONTENDED_LINES=192;
+
+	// The number of T-states of a line with contention.
+	protected static CONTENDED_LINE_TSTATES=128;
+
+	// The number of T-states of one frame (the time between 2 interrupts).
+	public frameTstates: number;
+
+	// The CPU frequency in Hz.
+	public cpuFreq: number;
+
+	// The T-state of the first contended access after the interrupt.
+	public firstContendedTstate: number;
+
+	// The number of T-states of one line.
+	public lineTstates: number;
+
+	// The delay for each T-state of the frame.
+	protected delays: Uint8Array;
+
+	// For each 8k bank: true if the bank is contended.
+	protected contendedBanks: boolean[];
+
+	// true if only memory accesses (MREQ) are contended, i.e. no I/O
+	// accesses and no internal cycles (ZX +2A/+3).
+	protected mreqOnly: boolean;
+
+	// Used to convert an address into a bank.
+	protected memory: ZxMemory;
+
+
+	/**
+	 * Returns the contention model for a machine.
+	 * @param machine The 'zsim.machine' setting, e.g. "48k" or "plus3".
+	 * If no machine is set the 'zsim.visualMemory' setting, i.e. "ZX48" or "ZX128".
+	 * @param memory The memory. Used to determine the paged in banks.
+	 * @returns The contention model or undefined if the machine has no contention.
+	 */
+	public static create(machine: string, memory: ZxMemory): ZxContention|undefined {
+		switch (machine) {
+			case "48k":
+			case "ZX48":
+				// Bank 5 at 0x4000
+				return new ZxContention(memory, 3500000, 69888, 14335, 224, [5]);
+			case "128k":
+			case "ZX128":
+				// All odd banks
+				return new ZxContention(memory, 3546900, 70908, 14361, 228, [1, 3, 5, 7]);
+			case "plus2a":
+			case "plus3":
+				// Banks 4-7, no I/O contention
+				return new ZxContention(memory, 3546900, 70908, 14365, 228, [4, 5, 6, 7], ZxContention.DELAY_PATTERN_PLUS3, true);
+			default:
+				return undefined;
+		}
+	}
+
+
+	/**
+	 * Constructor.
+	 * @param memory The memory. Used to determine the paged in banks.
+	 * @param cpuFreq The CPU frequency in Hz.
+	 * @param frameTstates The T-states between 2 interrupts.
+	 * @param firstContendedTstate The T-state with the first (and maximum) delay.
+	 * @param lineTstates The T-states of one line.
+	 * @param contendedBanks16k The contended 16k banks.
+	 * @param delayPattern The delays, repeated every 8 T-states.
+	 * @param mreqOnly true if only memory accesses are contended (no I/O, no internal cycles).
+	 */
+	constructor(memory: ZxMemory, cpuFreq: number, frameTstates: number, firstContendedTstate: number, lineTstates: number, contendedBanks16k: number[], delayPattern=ZxContention.DELAY_PATTERN, mreqOnly=false) {
+		this.memory=memory;
+		this.mreqOnly=mreqOnly;
+		this.cpuFreq=cpuFreq;
+		this.frameTstates=frameTstates;
+		this.firstContendedTstate=firstContendedTstate;
+		this.lineTstates=lineTstates;
+
+		// Contended banks (16k banks to 8k banks)
+		this.contendedBanks=new Array<boolean>(ZxMemory.NUMBER_OF_BANKS);
+		this.contendedBanks.fill(false);
+		for (const bank of contendedBanks16k) {
+			this.contendedBanks[2*bank]=true;
+			this.contendedBanks[2*bank+1]=true;
+		}
+
+		// Pre-calculate the delays
+		this.delays=new Uint8Array(frameTstates);
+		for (let line=0; line<ZxContention.CONTENDED_LINES; line++) {
+			const lineStart=firstContendedTstate+line*lineTstates;
+			for (let i=0; i<ZxContention.CONTENDED_LINE_TSTATES; i++)
+				this.delays[lineStart+i]=delayPattern[i&0x07];
+		}
+	}
+
+
+	/**
+	 * Returns the delay for a contended access at the given T-state.
+	 * @param tstate The T-state within the frame. Values outside the frame are wrapped.
+	 */
+	public getDelay(tstate: number): number {
+		return this.delays[tstate%this.frameTstates];
+	}
+
+
+	/**
+	 * Returns true if the address is in contended memory.
+	 * The currently paged in banks are taken into account.
+	 */
+	public isContended(address: number): boolean {
+		const bank=this.memory.getSlots()[(address>>>13)&0x07];
+		return this.contendedBanks[bank];
+	}
+
+
+	/**
+	 * Returns the delay for a memory access.
+	 * @param tstate The T-state within the frame at which the access starts.
+	 * @param address The accessed address.
+	 * @returns The additional T-states.
+	 */
+	public getMemoryDelay(tstate: number, address: number): number {
+		if (!this.isContended(address))
+			return 0;
+		return this.getDelay(tstate);
+	}
+
+
+	/**
+	 * Returns the delay for one internal T-state of an instruction.
+	 * During internal cycles the address bus still holds an address (e.g.
+	 * IR after an opcode fetch). The ULA contends the cycle if this address
+	 * is in contended memory. The +2A/+3 does not contend internal cycles.
+	 * @param tstate The T-state within the frame.
+	 * @param address The address on the address bus.
+	 * @returns The additional T-states.
+	 */
+	public getInternalDelay(tstate: number, address: number): number {
+		if (this.mreqOnly)
+			return 0;
+		return this.getMemoryDelay(tstate, address);
+	}
+
+
+	/**
+	 * Returns the delay for an I/O access.
+	 * The I/O cycle (4 T-states) is contended depending on the high
+	 * byte of the port (if it would address contended memory) and
+	 * on bit 0 (ULA port):
+	 * - high byte contended, ULA port: C:1, C:3
+	 * - high byte contended, no ULA port: C:1, C:1, C:1, C:1
+	 * - high byte not contended, ULA port: N:1, C:3
+	 * - high byte not contended, no ULA port: N:4
+	 * The ZX +2A/+3 has no I/O contention.
+	 * @param tstate The T-state within the frame at which the I/O cycle starts.
+	 * @param port The port address.
+	 * @returns The additional T-states.
+	 */
+	public getIoDelay(tstate: number, port: number): number {
+		if (this.mreqOnly)
+			return 0;
+		const ulaPort=((port&0x01)==0);
+		let delay=0;
+		if (this.isContended(port)) {
+			if (ulaPort) {
+				// C:1, C:3
+				delay=this.getDelay(tstate);
+				delay+=this.getDelay(tstate+delay+1);
+			}
+			else {
+				// C:1, C:1, C:1, C:1
+				for (let i=0; i<4; i++)
+					delay+=this.getDelay(tstate+delay+i);
+			}
+		}
+		else if (ulaPort) {
+			// N:1, C:3
+			delay=this.getDelay(tstate+1);
+		}
+		return delay;
+	}
+}
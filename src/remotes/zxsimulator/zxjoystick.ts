@@ -0,0 +1,108 @@
+import {Z80Ports} from './z80ports';
+
+
+
+/// The joystick buttons.
+export type JoystickButton='left'|'right'|'down'|'up'|'fire';
+
+
+/**
+ * Simulates a joystick.
+ * - "kempston": Port 0x1F, active high. Bits: 0=right, 1=left, 2=down, 3=up, 4=fire.
+ * - "sinclair1": Keys 6 (left), 7 (right), 8 (down), 9 (up), 0 (fire).
+ * - "sinclair2": Keys 1 (left), 2 (right), 3 (down), 4 (up), 5 (fire).
+ * - "cursor": Keys 5 (left), 6 (down), 7 (up), 8 (right), 0 (fire).
+ * The Sinclair and Cursor joysticks are mapped onto the keyboard matrix,
+ * i.e. they change the same port bits as the keys (active low).
+ */
+export class ZxJoystick {
+	// The Kempston port (low byte).
+	public static KEMPSTON_PORT=0x1F;
+
+	// The keyboard port and bit for each button.
+	protected static KEY_MAPPINGS={
+		sinclair1: {
+			left: {port: 0xEFFE, bit: 0b10000},	// 6
+			right: {port: 0xEFFE, bit: 0b01000},	// 7
+			down: {port: 0xEFFE, bit: 0b00100},	// 8
+			up: {port: 0xEFFE, bit: 0b00010},	// 9
+			fire: {port: 0xEFFE, bit: 0b00001}	// 0
+		},
+		sinclair2: {
+			left: {port: 0xF7FE, bit: 0b00001},	// 1
+			right: {port: 0xF7FE, bit: 0b00010},	// 2
+			down: {port: 0xF7FE, bit: 0b00100},	// 3
+			up: {port: 0xF7FE, bit: 0b01000},	// 4
+			fire: {port: 0xF7FE, bit: 0b10000}	// 5
+		},
+		cursor: {
+			left: {port: 0xF7FE, bit: 0b10000},	// 5
+			down: {port: 0xEFFE, bit: 0b10000},	// 6
+			up: {port: 0xEFFE, bit: 0b01000},	// 7
+			right: {port: 0xEFFE, bit: 0b00100},	// 8
+			fire: {port: 0xEFFE, bit: 0b00001}	// 0
+		}
+	};
+
+	// The Kempston bit for each button.
+	protected static KEMPSTON_BITS={
+		right: 0b00001,
+		left: 0b00010,
+		down: 0b00100,
+		up: 0b01000,
+		fire: 0b10000
+	};
+
+	// The joystick type, e.g. "kempston".
+	public type: string;
+
+	// The ports to change.
+	protected ports: Z80Ports;
+
+	// The state of the Kempston port.
+	protected kempstonValue: number;
+
+
+	/**
+	 * Constructor.
+	 * For the Kempston joystick the port 0x1F is registered.
+	 * @param type The joystick type, e.g. "kempston".
+	 * @param ports The ports to change.
+	 */
+	constructor(type: string, ports: Z80Ports) {
+		this.type=type;
+		this.ports=ports;
+		this.kempstonValue=0;
+		if (type=='kempston')
+			ports.registerMaskedInPortFunction(0x00FF, ZxJoystick.KEMPSTON_PORT, () => this.kempstonValue);
+	}
+
+
+	/**
+	 * Called if a joystick button is pressed or released.
+	 * @param button E.g. 'left' or 'fire'.
+	 * @param on true=pressed, false=released
+	 */
+	public buttonChanged(button: JoystickButton, on: boolean) {
+		if (this.type=='kempston') {
+			const bit=ZxJoystick.KEMPSTON_BITS[button];
+			if (on)
+				this.kempstonValue|=bit;
+			else
+				this.kempstonValue&=~bit;
+			return;
+		}
+
+		// Keyboard matrix
+		const mapping=ZxJoystick.KEY_MAPPINGS[this.type];
+		if (!mapping)
+			return;
+		const {port, bit}=mapping[button];
+		let value=this.ports.getPortValue(port);
+		if (on)
+			value&=~bit;
+		else
+			value|=bit;
+		this.ports.setPortValue(port, value);
+	}
+}
@@ -40,6 +40,10 @@ export class ZxMemory {
 	// This is normally bank 5 but could be changed to bank7 in ZX128.
 	protected ulaScreenBank: number;
 
+	// Called on every write to the ULA screen bank (offset in bank, value).
+	// Used to record the writes for the full frame rendering.
+	public screenWriteListener: ((offset: number, value: number) => void)|undefined;
+
 	// Visual memory: shows the access as an image.
 	// The image is just 1 pixel high.
 	protected visualMemory: Array<number>;
@@ -98,6 +102,19 @@ export class ZxMemory {
 	}
 
 
+	/**
+	 * Clears all RAM banks with 0s. The ROM banks are not changed.
+	 * Used for a hard reset (power cycle).
+	 */
+	public clearRam() {
+		const size=ZxMemory.MEMORY_BANK_SIZE;
+		for (let bank=0; bank<ZxMemory.NUMBER_OF_BANKS; bank++) {
+			if (!this.romBanks[bank])
+				this.AllBanksRam.fill(0, bank*size, (bank+1)*size);
+		}
+	}
+
+
 	/**
 	 * Returns the size the serialized object would consume.
 	 */
@@ -177,6 +194,10 @@ export class ZxMemory {
 		const ramAddr=bankNr*0x2000+(addr&0x1FFF);
 		// Write
 		this.AllBanksRam[ramAddr]=val;
+
+		// Inform about screen change
+		if (bankNr==this.ulaScreenBank&&this.screenWriteListener)
+			this.screenWriteListener(addr&0x1FFF, val);
 	}
 
 
@@ -412,6 +433,18 @@ export class ZxMemory {
 	}
 
 
+	/**
+	 * Returns the memory of one or more consecutive banks.
+	 * Note: not a copy. Used for rendering the ZX Next layers.
+	 * @param bank The (first) bank number.
+	 * @param size The number of bytes. Defaults to one bank.
+	 */
+	public getBankMemory(bank: number, size=ZxMemory.MEMORY_BANK_SIZE): Uint8Array {
+		const start=bank*ZxMemory.MEMORY_BANK_SIZE;
+		return this.AllBanksRam.subarray(start, start+size);
+	}
+
+
 	/**
 	 * Clears the visual buffer.
 	 */
@@ -440,6 +473,16 @@ export class ZxMemory {
 	}
 
 
+	/**
+	 * Returns a copy of the ULA screen memory.
+	 * @param size The number of bytes, e.g. 6912 for pixels and attributes.
+	 */
+	public getUlaScreenMemory(size: number): Uint8Array {
+		const start=this.ulaScreenBank*ZxMemory.MEMORY_BANK_SIZE;
+		return this.AllBanksRam.slice(start, start+size);
+	}
+
+
 	/**
 	 * Converts a ZX Spectrum ULA screen into a gif image.
 	 * @returns The screen as a gif buffer.
@@ -513,7 +556,7 @@ export class ZxMemory {
 
 
 	/// @returns the ZX Spectrum palette.
-	protected static getZxPalette(): number[] {
+	public static getZxPalette(): number[] {
 		const palette=[
 			// Bright 0
 			0x00, 0x00, 0x00,
@@ -0,0 +1,305 @@
+import {Utility} from '../../misc/utility';
+import {MemBuffer} from '../../misc/membuffer';
+
+
+
+/**
+ * The Copper of the ZX Next.
+ * A co-processor that writes next registers at given raster positions.
+ * The copper list (1024 instructions of 2 bytes) is written through
+ * the next registers 0x60-0x63.
+ * See https://wiki.specnext.dev/Copper
+ *
+ * Instructions:
+ * - WAIT (bit 15 set): bits 14-9 horizontal position (in 8 pixels),
+ *   bits 8-0 the line. Waits until the line is reached and the
+ *   horizontal position is reached or passed.
+ * - MOVE (bit 15 clear): bits 14-8 register, bits 7-0 value.
+ *   0x0000 is a NOP, 0xFFFF is a HALT (wait for a not existing line).
+ *
+ * The raster is derived from the T-state within the frame of the CPU,
+ * i.e. the T-states since the vertical interrupt (Z80Cpu.getFrameTstate()).
+ * So it stays in sync with the interrupt. The lines use the 48K timing
+ * (224 T-states per line). Line 0 is the first line of the ULA screen.
+ * Each instruction takes 1/4 T-state (2 cycles at 28 MHz).
+ */
+export class ZxNextCopper {
+	// The number of instructions.
+	public static INSTRUCTION_COUNT=1024;
+
+	// The next registers used for the copper.
+	public static REGISTERS=[0x60, 0x61, 0x62, 0x63];
+
+	// The raster timing.
+	public static LINE_TSTATES=224;
+	public static LINES=312;
+	// The T-states from the vertical interrupt to line 0.
+	public static LINE0_TSTATES=64*224;
+
+	// The T-states of a frame, i.e. between 2 vertical interrupts.
+	// Taken from the CPU with each update.
+	public frameTstates: number;
+
+	// The T-states of an instruction.
+	protected static INSTRUCTION_TSTATES=0.25;
+
+	// The copper list.
+	public memory: Uint8Array;
+
+	// The byte address for writing (registers 0x61, 0x62).
+	public writeAddress: number;
+
+	// The control mode (register 0x62, bits 7-6):
+	// 0 = stopped, 1 = start at 0, 2 = continue, 3 = start at 0 and restart each frame.
+	public control: number;
+
+	// The index of the next instruction to execute.
+	public pc: number;
+
+	// The raster position (in T-states from line 0, horizontal 0).
+	public rasterPosition: number;
+
+	// The time (T-states from line 0) at which the copper executes the next instruction.
+	protected copperTime: number;
+
+	// The buffered even byte of register 0x63.
+	protected evenByte: number;
+
+	// Called to write a next register.
+	protected moveHandler: (reg: number, value: number) => void;
+
+
+	/**
+	 * Constructor.
+	 * @param moveHandler Called for each MOVE to write the next register.
+	 */
+	constructor(moveHandler: (reg: number, value: number) => void) {
+		this.moveHandler=moveHandler;
+		this.memory=new Uint8Array(2*ZxNextCopper.INSTRUCTION_COUNT);
+		// The simulation starts at the vertical interrupt
+		this.frameTstates=ZxNextCopper.LINES*ZxNextCopper.LINE_TSTATES;
+		this.rasterPosition=this.frameTstates-ZxNextCopper.LINE0_TSTATES;
+		this.reset();
+	}
+
+
+	/**
+	 * Stops the copper and clears the copper list.
+	 * The raster position is kept as it follows the CPU.
+	 */
+	public reset() {
+		this.memory.fill(0);
+		this.writeAddress=0;
+		this.control=0;
+		this.pc=0;
+		this.copperTime=this.rasterPosition;
+		this.evenByte=0;
+	}
+
+
+	/**
+	 * Writes a next register.
+	 * @param reg The register, one of REGISTERS.
+	 * @param value The value.
+	 */
+	public writeRegister(reg: number, value: number) {
+		switch (reg) {
+			case 0x60:	// Data 8 bit
+				this.memory[this.writeAddress]=value;
+				this.writeAddress=(this.writeAddress+1)&0x7FF;
+				break;
+			case 0x61:	// Address LSB
+				this.writeAddress=(this.writeAddress&0x700)|value;
+				break;
+			case 0x62:	// Control and address MSB
+				{
+					this.writeAddress=((value&0x07)<<8)|(this.writeAddress&0xFF);
+					const control=value>>>6;
+					if (control!=this.control) {
+						this.control=control;
+						if (control==1||control==3)
+							this.pc=0;
+						this.copperTime=this.rasterPosition;
+					}
+				}
+				break;
+			case 0x63:	// Data 16 bit: the instruction is written with the odd byte
+				if (this.writeAddress&0x01) {
+					this.memory[this.writeAddress-1]=this.evenByte;
+					this.memory[this.writeAddress]=value;
+				}
+				else
+					this.evenByte=value;
+				this.writeAddress=(this.writeAddress+1)&0x7FF;
+				break;
+		}
+	}
+
+
+	/**
+	 * Reads a next register.
+	 * @param reg The register, one of REGISTERS.
+	 */
+	public readRegister(reg: number): number {
+		switch (reg) {
+			case 0x61:
+				return this.writeAddress&0xFF;
+			case 0x62:
+				return (this.control<<6)|(this.writeAddress>>>8);
+		}
+		return 0;	// 0x60, 0x63 are write only
+	}
+
+
+	/**
+	 * Returns an instruction.
+	 * @param index The index (0-1023).
+	 */
+	public getInstruction(index: number): number {
+		return (this.memory[2*index]<<8)|this.memory[2*index+1];
+	}
+
+
+	/**
+	 * Sets the raster position from the frame of the CPU and executes
+	 * the copper instructions up to the new raster position.
+	 * Has to be called at least once per frame (e.g. after each instruction).
+	 * @param frameTstate The T-states since the last vertical interrupt (Z80Cpu.getFrameTstate()).
+	 * @param frameTstates The T-states between 2 vertical interrupts.
+	 */
+	public update(frameTstate: number, frameTstates: number) {
+		let position=frameTstate-ZxNextCopper.LINE0_TSTATES;
+		if (position<0)
+			position+=frameTstates;
+		if (position<this.rasterPosition) {
+			// Line 0 passed: finish the frame, then next frame
+			this.execute(this.frameTstates);
+			this.copperTime=Math.max(0, this.copperTime-this.frameTstates);
+			if (this.control==3)
+				this.pc=0;
+		}
+		this.frameTstates=frameTstates;
+		this.rasterPosition=position;
+		this.execute(position);
+	}
+
+
+	/**
+	 * Executes the instructions up to a raster position.
+	 * @param end The raster position (within the frame).
+	 */
+	protected execute(end: number) {
+		while (this.control!=0&&this.copperTime<end) {
+			const instruction=this.getInstruction(this.pc);
+			if (instruction&0x8000) {
+				// WAIT
+				const line=instruction&0x1FF;
+				const target=line*ZxNextCopper.LINE_TSTATES+4*((instruction>>>9)&0x3F);
+				const currentLine=Math.floor(this.copperTime/ZxNextCopper.LINE_TSTATES);
+				if (line>=ZxNextCopper.LINES||(target<this.copperTime&&currentLine!=line)) {
+					// Wait for a following frame
+					this.copperTime=end;
+					return;
+				}
+				if (target>=end) {
+					// Not yet reached
+					this.copperTime=end;
+					return;
+				}
+				this.copperTime=Math.max(this.copperTime, target);
+			}
+			else if (instruction!=0) {
+				// MOVE
+				this.moveHandler((instruction>>>8)&0x7F, instruction&0xFF);
+			}
+			this.copperTime+=ZxNextCopper.INSTRUCTION_TSTATES;
+			// Next instruction, wraps around at the end of the list
+			this.pc=(this.pc+1)%ZxNextCopper.INSTRUCTION_COUNT;
+		}
+	}
+
+
+	/**
+	 * Returns the disassembly of an instruction.
+	 * E.g. "WAIT 100,12" (line, horizontal position), "MOVE 4Ah,E3h", "NOP" or "HALT".
+	 * @param instruction The 16 bit instruction.
+	 */
+	public static disassemble(instruction: number): string {
+		if (instruction==0xFFFF)
+			return "HALT";
+		if (instruction==0)
+			return "NOP";
+		if (instruction&0x8000)
+			return "WAIT "+(instruction&0x1FF)+","+((instruction>>>9)&0x3F);
+		return "MOVE "+Utility.getHexString((instruction>>>8)&0x7F, 2)+"h,"+Utility.getHexString(instruction&0xFF, 2)+"h";
+	}
+
+
+	/**
+	 * Returns the disassembly of the copper list.
+	 * Stops at the first HALT or after the last non NOP instruction.
+	 * @param start The first index.
+	 * @param count The max. number of instructions.
+	 */
+	public disassembleList(start=0, count=ZxNextCopper.INSTRUCTION_COUNT): string[] {
+		const end=Math.min(start+count, ZxNextCopper.INSTRUCTION_COUNT);
+		// Find last used instruction
+		let last=start-1;
+		for (let i=start; i<end; i++) {
+			const instruction=this.getInstruction(i);
+			if (instruction!=0)
+				last=i;
+			if (instruction==0xFFFF)
+				break;
+		}
+		const lines=new Array<string>();
+		for (let i=start; i<=last; i++) {
+			const instruction=this.getInstruction(i);
+			const marker=(i==this.pc&&this.control!=0)? '>':' ';
+			lines.push(marker+Utility.getHexString(i, 3)+"h: "+Utility.getHexString(instruction, 4)+"h  "+ZxNextCopper.disassemble(instruction));
+		}
+		return lines;
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer=new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size=memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.writeArrayBuffer(this.memory);
+		memBuffer.write16(this.writeAddress);
+		memBuffer.write8(this.control);
+		memBuffer.write16(this.pc);
+		memBuffer.write32(Math.floor(this.rasterPosition));
+		memBuffer.write32(Math.floor(this.copperTime));
+		memBuffer.write8(this.evenByte);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.memory.set(memBuffer.readArrayBuffer());
+		this.writeAddress=memBuffer.read16();
+		this.control=memBuffer.read8();
+		this.pc=memBuffer.read16();
+		this.rasterPosition=memBuffer.read32();
+		this.copperTime=memBuffer.read32();
+		this.evenByte=memBuffer.read8();
+	}
+}
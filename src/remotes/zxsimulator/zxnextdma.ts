@@ -0,0 +1,446 @@
+import {ZxMemory} from './zxmemory';
+import {Z80Ports} from './z80ports';
+import {MemBuffer} from '../../misc/membuffer';
+
+
+
+/**
+ * The zxnDMA of the ZX Next.
+ * Accessed through port 0x6B (zxnDMA mode) or 0x0B (Z80 DMA compatible
+ * mode, i.e. the block length is one more).
+ * See https://wiki.specnext.dev/DMA
+ *
+ * The registers WR0-WR6 are written through the port. A transfer
+ * (memory/I/O to memory/I/O) is executed at once when the DMA is
+ * enabled. The CPU is halted meanwhile, i.e. the transfer's T-states
+ * are returned to be added to the current instruction.
+ * The memory is accessed byte by byte (read source, write destination)
+ * so that watchpoints are also hit by the DMA.
+ *
+ * Not simulated: search, interrupts, the prescaler (a transfer is
+ * not spread over time) and the auto restart loop.
+ */
+export class ZxNextDma {
+	// The port addressing modes.
+	protected static ADDRESS_DECREMENT=0;
+	protected static ADDRESS_INCREMENT=1;
+	protected static ADDRESS_FIXED=2;
+
+	// The cycle lengths (T-states) for the timing byte bits 1-0.
+	protected static CYCLE_LENGTHS=[4, 3, 2, 4];
+
+	// WR0: port A start address and block length.
+	public portAAddress: number;
+	public blockLength: number;
+	// true: A->B, false: B->A.
+	public directionAtoB: boolean;
+
+	// WR1, WR2: port configuration.
+	public portAIsIo: boolean;
+	public portBIsIo: boolean;
+	public portAMode: number;
+	public portBMode: number;
+	public portACycleLength: number;
+	public portBCycleLength: number;
+	public prescaler: number;
+
+	// WR4: port B start address and mode (0=byte, 1=continuous, 2=burst).
+	public portBAddress: number;
+	public mode: number;
+
+	// WR5: auto restart.
+	public autoRestart: boolean;
+
+	// The current (counting) addresses and the number of transferred bytes.
+	public counterA: number;
+	public counterB: number;
+	public byteCounter: number;
+
+	// true if the block has been transferred completely since the last LOAD.
+	protected endOfBlock: boolean;
+
+	// The read mask (bit 0: status, 1-2: byte counter, 3-4: port A, 5-6: port B).
+	protected readMask: number;
+
+	// The remaining values of the read sequence.
+	protected readSequence: number[];
+
+	// The handlers for the parameter bytes that follow a register byte.
+	protected followBytes: Array<(value: number) => void>;
+
+	// Used to access the memory and the ports.
+	protected memory: ZxMemory;
+	protected ports: Z80Ports;
+
+
+	/**
+	 * Constructor.
+	 * @param memory The memory. Writes go through it (watchpoints).
+	 * @param ports The ports.
+	 */
+	constructor(memory: ZxMemory, ports: Z80Ports) {
+		this.memory=memory;
+		this.ports=ports;
+		this.reset();
+	}
+
+
+	/**
+	 * Resets all registers to their power-on values.
+	 * A started register write sequence is aborted.
+	 */
+	public reset() {
+		this.portAAddress=0;
+		this.blockLength=0;
+		this.directionAtoB=true;
+		this.portAIsIo=false;
+		this.portBIsIo=false;
+		this.portAMode=ZxNextDma.ADDRESS_INCREMENT;
+		this.portBMode=ZxNextDma.ADDRESS_INCREMENT;
+		this.portACycleLength=3;
+		this.portBCycleLength=3;
+		this.prescaler=0;
+		this.portBAddress=0;
+		this.mode=1;
+		this.autoRestart=false;
+		this.counterA=0;
+		this.counterB=0;
+		this.byteCounter=0;
+		this.endOfBlock=false;
+		this.readMask=0x7F;
+		this.readSequence=[];
+		this.followBytes=[];
+	}
+
+
+	/**
+	 * A write to the DMA port.
+	 * Either a register byte or a parameter byte that follows it.
+	 * @param value The written value.
+	 * @param zxnMode true for zxnDMA mode (port 0x6B), false for the
+	 * Z80 DMA compatible mode (port 0x0B).
+	 * @returns The T-states used by a transfer, 0 if no transfer.
+	 */
+	public write(value: number, zxnMode: boolean): number {
+		// Parameter byte?
+		const follow=this.followBytes.shift();
+		if (follow) {
+			follow(value);
+			return 0;
+		}
+
+		// Register byte
+		if ((value&0x80)==0) {
+			if (value&0x03)
+				this.writeWr0(value);
+			else if ((value&0x07)==0x04)
+				this.writeWr1Wr2(value, true);
+			else
+				this.writeWr1Wr2(value, false);
+		}
+		else {
+			switch (value&0x03) {
+				case 0x00:	// WR3
+					if (value&0x08)
+						this.followBytes.push(() => {});	// Mask byte (search, ignored)
+					if (value&0x10)
+						this.followBytes.push(() => {});	// Match byte (search, ignored)
+					if (value&0x40)
+						return this.enable(zxnMode);
+					break;
+				case 0x01:	// WR4
+					this.mode=(value>>>5)&0x03;
+					if (value&0x04)
+						this.followBytes.push(v => this.portBAddress=(this.portBAddress&0xFF00)|v);
+					if (value&0x08)
+						this.followBytes.push(v => this.portBAddress=(this.portBAddress&0x00FF)|(v<<8));
+					break;
+				case 0x02:	// WR5
+					if ((value&0x07)==0x02)
+						this.autoRestart=(value&0x20)!=0;
+					break;
+				case 0x03:	// WR6
+					return this.command(value, zxnMode);
+			}
+		}
+		return 0;
+	}
+
+
+	/**
+	 * WR0: direction, port A start address and block length.
+	 */
+	protected writeWr0(value: number) {
+		this.directionAtoB=(value&0x04)!=0;
+		if (value&0x08)
+			this.followBytes.push(v => this.portAAddress=(this.portAAddress&0xFF00)|v);
+		if (value&0x10)
+			this.followBytes.push(v => this.portAAddress=(this.portAAddress&0x00FF)|(v<<8));
+		if (value&0x20)
+			this.followBytes.push(v => this.blockLength=(this.blockLength&0xFF00)|v);
+		if (value&0x40)
+			this.followBytes.push(v => this.blockLength=(this.blockLength&0x00FF)|(v<<8));
+	}
+
+
+	/**
+	 * WR1 (port A) and WR2 (port B): memory/I/O, address mode and timing.
+	 */
+	protected writeWr1Wr2(value: number, portA: boolean) {
+		const isIo=(value&0x08)!=0;
+		const mode=(value>>>4)&0x03;
+		const addressMode=(mode==0)? ZxNextDma.ADDRESS_DECREMENT:(mode==1)? ZxNextDma.ADDRESS_INCREMENT:ZxNextDma.ADDRESS_FIXED;
+		if (portA) {
+			this.portAIsIo=isIo;
+			this.portAMode=addressMode;
+		}
+		else {
+			this.portBIsIo=isIo;
+			this.portBMode=addressMode;
+		}
+		if (value&0x40) {
+			// Timing byte
+			this.followBytes.push(timing => {
+				const cycleLength=ZxNextDma.CYCLE_LENGTHS[timing&0x03];
+				if (portA)
+					this.portACycleLength=cycleLength;
+				else {
+					this.portBCycleLength=cycleLength;
+					if (timing&0x20)
+						this.followBytes.unshift(v => this.prescaler=v);	// zxnDMA prescaler
+				}
+			});
+		}
+	}
+
+
+	/**
+	 * WR6: commands.
+	 * @returns The T-states used by a transfer, 0 if no transfer.
+	 */
+	protected command(value: number, zxnMode: boolean): number {
+		switch (value) {
+			case 0xC3:	// Reset
+				this.autoRestart=false;
+				this.portACycleLength=3;
+				this.portBCycleLength=3;
+				this.prescaler=0;
+				this.followBytes=[];
+				break;
+			case 0xC7:	// Reset port A timing
+				this.portACycleLength=3;
+				break;
+			case 0xCB:	// Reset port B timing
+				this.portBCycleLength=3;
+				break;
+			case 0xCF:	// Load
+				this.counterA=this.portAAddress;
+				this.counterB=this.portBAddress;
+				this.byteCounter=0;
+				this.endOfBlock=false;
+				break;
+			case 0xD3:	// Continue
+				this.byteCounter=0;
+				break;
+			case 0x83:	// Disable DMA
+				break;
+			case 0x87:	// Enable DMA
+				return this.enable(zxnMode);
+			case 0x8B:	// Reinitialize status byte
+				this.endOfBlock=false;
+				break;
+			case 0xA7:	// Initialize read sequence
+				this.initReadSequence();
+				break;
+			case 0xBB:	// Read mask follows
+				this.followBytes.push(v => this.readMask=v&0x7F);
+				break;
+			case 0xBF:	// Read status byte
+				this.readSequence=[this.getStatus()];
+				break;
+		}
+		return 0;
+	}
+
+
+	/**
+	 * Enables the DMA and executes the transfer.
+	 * The DMA is disabled afterwards.
+	 * @returns The T-states used by the transfer.
+	 */
+	protected enable(zxnMode: boolean): number {
+		const tstates=this.transfer(zxnMode);
+		if (this.autoRestart) {
+			// Reload for the next transfer
+			this.counterA=this.portAAddress;
+			this.counterB=this.portBAddress;
+			this.byteCounter=0;
+		}
+		return tstates;
+	}
+
+
+	/**
+	 * Transfers the (remaining) block.
+	 * @returns The used T-states.
+	 */
+	protected transfer(zxnMode: boolean): number {
+		let length=this.blockLength;
+		if (!zxnMode)
+			length++;	// Z80 DMA transfers one byte more
+		const cycles=this.portACycleLength+this.portBCycleLength;
+		let tstates=0;
+		while (this.byteCounter<length) {
+			let value;
+			if (this.directionAtoB) {
+				value=this.readPort(this.counterA, this.portAIsIo);
+				this.writePort(this.counterB, this.portBIsIo, value);
+			}
+			else {
+				value=this.readPort(this.counterB, this.portBIsIo);
+				this.writePort(this.counterA, this.portAIsIo, value);
+			}
+			this.counterA=ZxNextDma.nextAddress(this.counterA, this.portAMode);
+			this.counterB=ZxNextDma.nextAddress(this.counterB, this.portBMode);
+			this.byteCounter++;
+			tstates+=cycles;
+		}
+		this.endOfBlock=true;
+		return tstates;
+	}
+
+
+	/**
+	 * Reads from memory or I/O.
+	 */
+	protected readPort(address: number, isIo: boolean): number {
+		if (isIo)
+			return this.ports.read(address);
+		return this.memory.read8(address);
+	}
+
+
+	/**
+	 * Writes to memory or I/O.
+	 */
+	protected writePort(address: number, isIo: boolean, value: number) {
+		if (isIo)
+			this.ports.write(address, value);
+		else
+			this.memory.write8(address, value);
+	}
+
+
+	/**
+	 * Returns the next address according the address mode.
+	 */
+	protected static nextAddress(address: number, mode: number): number {
+		if (mode==ZxNextDma.ADDRESS_INCREMENT)
+			return (address+1)&0xFFFF;
+		if (mode==ZxNextDma.ADDRESS_DECREMENT)
+			return (address-1)&0xFFFF;
+		return address;
+	}
+
+
+	/**
+	 * Returns the status byte.
+	 * Bit 5: 0 if the end of block has been reached, bit 0: 1 if at
+	 * least one byte has been transferred.
+	 */
+	protected getStatus(): number {
+		return 0x1A|((this.endOfBlock)? 0x00:0x20)|((this.byteCounter>0)? 0x01:0x00);
+	}
+
+
+	/**
+	 * Initializes the read sequence according the read mask.
+	 */
+	protected initReadSequence() {
+		const values=[
+			this.getStatus(),
+			this.byteCounter&0xFF, this.byteCounter>>>8,
+			this.counterA&0xFF, this.counterA>>>8,
+			this.counterB&0xFF, this.counterB>>>8
+		];
+		this.readSequence=values.filter((_, i) => (this.readMask&(1<<i))!=0);
+	}
+
+
+	/**
+	 * A read from the DMA port.
+	 * Returns the next value of the read sequence.
+	 */
+	public read(): number {
+		if (this.readSequence.length==0)
+			this.initReadSequence();
+		return this.readSequence.shift()??0;
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer=new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size=memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object.
+	 * Note: an incomplete register write sequence is not serialized.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.write16(this.portAAddress);
+		memBuffer.write16(this.blockLength);
+		memBuffer.write8(Number(this.directionAtoB));
+		memBuffer.write8(Number(this.portAIsIo));
+		memBuffer.write8(Number(this.portBIsIo));
+		memBuffer.write8(this.portAMode);
+		memBuffer.write8(this.portBMode);
+		memBuffer.write8(this.portACycleLength);
+		memBuffer.write8(this.portBCycleLength);
+		memBuffer.write8(this.prescaler);
+		memBuffer.write16(this.portBAddress);
+		memBuffer.write8(this.mode);
+		memBuffer.write8(Number(this.autoRestart));
+		memBuffer.write16(this.counterA);
+		memBuffer.write16(this.counterB);
+		memBuffer.write32(this.byteCounter);
+		memBuffer.write8(Number(this.endOfBlock));
+		memBuffer.write8(this.readMask);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.portAAddress=memBuffer.read16();
+		this.blockLength=memBuffer.read16();
+		this.directionAtoB=(memBuffer.read8()!=0);
+		this.portAIsIo=(memBuffer.read8()!=0);
+		this.portBIsIo=(memBuffer.read8()!=0);
+		this.portAMode=memBuffer.read8();
+		this.portBMode=memBuffer.read8();
+		this.portACycleLength=memBuffer.read8();
+		this.portBCycleLength=memBuffer.read8();
+		this.prescaler=memBuffer.read8();
+		this.portBAddress=memBuffer.read16();
+		this.mode=memBuffer.read8();
+		this.autoRestart=(memBuffer.read8()!=0);
+		this.counterA=memBuffer.read16();
+		this.counterB=memBuffer.read16();
+		this.byteCounter=memBuffer.read32();
+		this.endOfBlock=(memBuffer.read8()!=0);
+		this.readMask=memBuffer.read8();
+		this.readSequence=[];
+		this.followBytes=[];
+	}
+}
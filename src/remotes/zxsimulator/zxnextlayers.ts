@@ -0,0 +1,613 @@
+import {ZxMemory} from './zxmemory';
+import {ImageConvert} from '../../misc/imageconvert';
+import {MemBuffer} from '../../misc/membuffer';
+
+
+
+/**
+ * Renders the display of the ZX Next: the ULA screen (incl. border),
+ * the tilemap and Layer 2 together with their palettes, the layer
+ * priority and the clip windows.
+ * The state is collected from the writes to the next (TBBlue) registers
+ * and to the Layer 2 access port (0x123B).
+ * See https://wiki.specnext.dev/Video_Modes
+ *
+ * The display is 320x256 pixels, i.e. the ULA screen with 32 pixels of
+ * border on each side. The colors are rendered as 8 bit RRRGGGBB (the
+ * 9th blue bit is ignored).
+ * The image is rendered at once from the current state. I.e. changes
+ * during the frame are not shown.
+ */
+export class ZxNextLayers {
+	// The size of the display.
+	public static WIDTH=320;
+	public static HEIGHT=256;
+
+	// The border around the ULA screen (and the 256x192 Layer 2).
+	public static BORDER=32;
+
+	// The next registers used for the layers.
+	public static REGISTERS=[
+		0x12,	// Layer 2 RAM bank
+		0x14,	// Global transparency color
+		0x15,	// Sprite and layers system (priority)
+		0x16, 0x17,	// Layer 2 scroll X, Y
+		0x18, 0x19, 0x1A, 0x1B,	// Clip windows Layer 2, sprites, ULA, tilemap
+		0x1C,	// Clip window control
+		0x2F, 0x30, 0x31,	// Tilemap scroll X (MSB, LSB), Y
+		0x40, 0x41, 0x43, 0x44,	// Palette index, value (8 bit), control, value (9 bit)
+		0x4A,	// Fallback color
+		0x4C,	// Tilemap transparency index
+		0x68,	// ULA control
+		0x69,	// Display control 1
+		0x6B, 0x6C, 0x6E, 0x6F,	// Tilemap control, default attribute, base address, definitions
+		0x70, 0x71	// Layer 2 control, scroll X MSB
+	];
+
+	// The palettes (bits 6-4 of register 0x43). +4 for the second palette.
+	public static PALETTE_ULA=0;
+	public static PALETTE_LAYER2=1;
+	public static PALETTE_SPRITES=2;
+	public static PALETTE_TILEMAP=3;
+
+	// The clip windows (registers 0x18-0x1B).
+	public static CLIP_LAYER2=0;
+	public static CLIP_SPRITES=1;
+	public static CLIP_ULA=2;
+	public static CLIP_TILEMAP=3;
+
+	// The ZX colors (RRRGGGBB), normal and bright.
+	// Bright magenta is 0xE7 to not collide with the transparency color.
+	protected static ZX_COLORS=[0x00, 0x02, 0xA0, 0xA2, 0x14, 0x16, 0xB4, 0xB6, 0x00, 0x03, 0xE0, 0xE7, 0x1C, 0x1F, 0xFC, 0xFF];
+
+	// The layer priority (bits 4-2 of register 0x15), top layer first.
+	// S=sprites, L=Layer 2, U=ULA and tilemap.
+	// The blend modes (6, 7) are not supported.
+	protected static PRIORITIES=['SLU', 'LSU', 'SUL', 'LUS', 'USL', 'ULS', 'SLU', 'SLU'];
+
+	// The value of each next register.
+	public registers: Uint8Array;
+
+	// The 8 palettes with 256 colors (RRRGGGBB).
+	public palettes: Array<Uint8Array>;
+
+	// The 9th bit (lowest blue bit) of the colors of the 8 palettes.
+	// Not used for rendering.
+	public palettesBlueLsb: Array<Uint8Array>;
+
+	// The 4 clip windows: x1, x2, y1, y2.
+	public clipWindows: Array<number[]>;
+
+	// The next value of the clip window to write.
+	protected clipIndex: number[];
+
+	// The palette index for writing (register 0x40).
+	protected paletteIndex: number;
+
+	// true if the next write to register 0x44 is the second byte.
+	protected palette9BitSecond: boolean;
+
+	// The value of the Layer 2 access port 0x123B. Bit 1 enables Layer 2.
+	public layer2Port: number;
+
+	// The memory, used to get the screen, Layer 2 and the tilemap.
+	protected memory: ZxMemory;
+
+
+	/**
+	 * Constructor.
+	 * @param memory The memory.
+	 */
+	constructor(memory: ZxMemory) {
+		this.memory=memory;
+		this.registers=new Uint8Array(256);
+		this.reset();
+	}
+
+
+	/**
+	 * Resets the registers, the palettes and the clip windows to their
+	 * power-on values. Layer 2 is disabled.
+	 */
+	public reset() {
+		this.registers.fill(0);
+		this.registers[0x12]=8;
+		this.registers[0x14]=0xE3;
+		this.registers[0x4C]=0x0F;
+		this.registers[0x6E]=0x6C;
+		this.registers[0x6F]=0x0C;
+		this.palettes=new Array<Uint8Array>();
+		this.palettesBlueLsb=new Array<Uint8Array>();
+		for (let i=0; i<8; i++) {
+			const palette=new Uint8Array(256);
+			for (let k=0; k<256; k++)
+				palette[k]=k;
+			if ((i&0x03)==ZxNextLayers.PALETTE_ULA) {
+				// Ink 0-15, paper (and border) 16-31
+				palette.set(ZxNextLayers.ZX_COLORS, 0);
+				palette.set(ZxNextLayers.ZX_COLORS, 16);
+			}
+			this.palettes.push(palette);
+			this.palettesBlueLsb.push(palette.map(color => ZxNextLayers.getBlueLsb(color)));
+		}
+		this.clipWindows=[
+			[0, 255, 0, 191],
+			[0, 255, 0, 191],
+			[0, 255, 0, 191],
+			[0, 159, 0, 255]
+		];
+		this.clipIndex=[0, 0, 0, 0];
+		this.paletteIndex=0;
+		this.palette9BitSecond=false;
+		this.layer2Port=0;
+	}
+
+
+	/**
+	 * Writes a next register.
+	 * @param reg The register, one of REGISTERS.
+	 * @param value The value.
+	 */
+	public writeRegister(reg: number, value: number) {
+		switch (reg) {
+			case 0x18:
+			case 0x19:
+			case 0x1A:
+			case 0x1B:
+				{
+					const window=reg-0x18;
+					this.clipWindows[window][this.clipIndex[window]]=value;
+					this.clipIndex[window]=(this.clipIndex[window]+1)&0x03;
+				}
+				break;
+			case 0x1C:
+				// Reset the clip indices
+				for (let window=0; window<4; window++) {
+					if (value&(1<<window))
+						this.clipIndex[window]=0;
+				}
+				break;
+			case 0x40:
+				this.paletteIndex=value;
+				this.palette9BitSecond=false;
+				break;
+			case 0x41:
+				this.writePalette(value, ZxNextLayers.getBlueLsb(value));
+				this.incrementPaletteIndex();
+				break;
+			case 0x44:
+				if (this.palette9BitSecond) {
+					this.palettesBlueLsb[this.getWritePaletteNumber()][this.paletteIndex]=value&0x01;
+					this.palette9BitSecond=false;
+					this.incrementPaletteIndex();
+				}
+				else {
+					this.writePalette(value, 0);
+					this.palette9BitSecond=true;
+				}
+				break;
+			case 0x69:
+				// Bit 7 enables Layer 2 (mirrored in port 0x123B)
+				this.layer2Port=(this.layer2Port&~0x02)|((value>>>6)&0x02);
+				break;
+		}
+		this.registers[reg]=value;
+	}
+
+
+	/**
+	 * Reads a next register.
+	 * @param reg The register, one of REGISTERS.
+	 */
+	public readRegister(reg: number): number {
+		switch (reg) {
+			case 0x18:
+			case 0x19:
+			case 0x1A:
+			case 0x1B:
+				{
+					const window=reg-0x18;
+					return this.clipWindows[window][this.clipIndex[window]];
+				}
+			case 0x1C:
+				return this.clipIndex[0]|(this.clipIndex[1]<<2)|(this.clipIndex[2]<<4)|(this.clipIndex[3]<<6);
+			case 0x41:
+				return this.palettes[this.getWritePaletteNumber()][this.paletteIndex];
+			case 0x44:
+				return this.palettesBlueLsb[this.getWritePaletteNumber()][this.paletteIndex];
+			case 0x69:
+				return (this.registers[0x69]&0x7F)|((this.layer2Port&0x02)<<6);
+		}
+		return this.registers[reg];
+	}
+
+
+	/**
+	 * Returns the number of the palette selected for writing (register 0x43, bits 6-4).
+	 */
+	protected getWritePaletteNumber(): number {
+		return (this.registers[0x43]>>>4)&0x07;
+	}
+
+
+	/**
+	 * Writes a color to the palette selected for writing.
+	 * @param color The color RRRGGGBB.
+	 * @param blueLsb The 9th bit.
+	 */
+	protected writePalette(color: number, blueLsb: number) {
+		const paletteNumber=this.getWritePaletteNumber();
+		this.palettes[paletteNumber][this.paletteIndex]=color;
+		this.palettesBlueLsb[paletteNumber][this.paletteIndex]=blueLsb;
+	}
+
+
+	/**
+	 * Returns the 9th bit for an 8 bit color.
+	 * It is the OR of the 2 blue bits.
+	 * @param color The color RRRGGGBB.
+	 */
+	protected static getBlueLsb(color: number): number {
+		return ((color&0x03)!=0)? 1:0;
+	}
+
+
+	/**
+	 * Returns a palette with 9 bit colors.
+	 * @param paletteNumber The palette, 0-7.
+	 * @returns 256 colors. Bits 7-0: RRRGGGBB, bit 8: lowest blue bit.
+	 */
+	public getPalette9Bit(paletteNumber: number): Array<number> {
+		const palette=this.palettes[paletteNumber];
+		const blueLsb=this.palettesBlueLsb[paletteNumber];
+		const colors=new Array<number>(256);
+		for (let i=0; i<256; i++)
+			colors[i]=palette[i]|(blueLsb[i]<<8);
+		return colors;
+	}
+
+
+	/**
+	 * Increments the palette index (if not disabled by register 0x43, bit 7).
+	 */
+	protected incrementPaletteIndex() {
+		if ((this.registers[0x43]&0x80)==0)
+			this.paletteIndex=(this.paletteIndex+1)&0xFF;
+	}
+
+
+	/**
+	 * Returns the active palette of a layer.
+	 * @param layer PALETTE_ULA, PALETTE_LAYER2, PALETTE_SPRITES or PALETTE_TILEMAP.
+	 */
+	public getPalette(layer: number): Uint8Array {
+		let second;
+		if (layer==ZxNextLayers.PALETTE_TILEMAP)
+			second=this.registers[0x6B]&0x10;
+		else
+			second=this.registers[0x43]&(0x02<<layer);	// ULA: bit 1, Layer 2: bit 2, sprites: bit 3
+		return this.palettes[(second)? layer+4:layer];
+	}
+
+
+	/**
+	 * Returns true if the pixel (x, y) is inside the clip window.
+	 * @param window The clip window.
+	 * @param x The x coordinate.
+	 * @param y The y coordinate.
+	 * @param xFactor The x coordinates of the clip window are multiplied by this.
+	 */
+	protected isInClipWindow(window: number, x: number, y: number, xFactor=1): boolean {
+		const clip=this.clipWindows[window];
+		return x>=clip[0]*xFactor&&x<(clip[1]+1)*xFactor&&y>=clip[2]&&y<=clip[3];
+	}
+
+
+	/**
+	 * Renders the ULA screen incl. border.
+	 * @param border The border color (0-7).
+	 * @returns The colors (RRRGGGBB) of the 320x256 display, -1 for transparent.
+	 */
+	public renderUla(border: number): Int16Array {
+		const pixels=new Int16Array(ZxNextLayers.WIDTH*ZxNextLayers.HEIGHT);
+		if (this.registers[0x68]&0x80) {
+			// ULA disabled
+			pixels.fill(-1);
+			return pixels;
+		}
+		const transparent=this.registers[0x14];
+		const palette=this.getPalette(ZxNextLayers.PALETTE_ULA);
+		const borderColor=palette[16+(border&0x07)];
+		pixels.fill((borderColor==transparent)? -1:borderColor);
+
+		// Screen
+		const screen=this.memory.getUlaScreenMemory(6912);
+		const offset=ZxNextLayers.BORDER;
+		for (let y=0; y<ZxMemory.SCREEN_HEIGHT; y++) {
+			const lineAddr=((y&0x07)<<8)|((y&0xC0)<<5)|((y&0x38)<<2);
+			const attrAddr=6144+((y>>>3)<<5);
+			let index=(y+offset)*ZxNextLayers.WIDTH+offset;
+			for (let x=0; x<ZxMemory.SCREEN_WIDTH; x++, index++) {
+				if (!this.isInClipWindow(ZxNextLayers.CLIP_ULA, x, y)) {
+					pixels[index]=-1;
+					continue;
+				}
+				const byteValue=screen[lineAddr|(x>>>3)];
+				const attr=screen[attrAddr+(x>>>3)];
+				const bright=(attr&0x40)>>>3;
+				const color=(byteValue&(0x80>>>(x&0x07)))? palette[(attr&0x07)+bright]:palette[16+((attr>>>3)&0x07)+bright];
+				pixels[index]=(color==transparent)? -1:color;
+			}
+		}
+		return pixels;
+	}
+
+
+	/**
+	 * Renders Layer 2 (256x192, 320x256 or 640x256).
+	 * @returns The colors (RRRGGGBB) of the 320x256 display, -1 for transparent.
+	 * undefined if Layer 2 is not enabled.
+	 */
+	public renderLayer2(): Int16Array|undefined {
+		if ((this.layer2Port&0x02)==0)
+			return undefined;
+		const pixels=new Int16Array(ZxNextLayers.WIDTH*ZxNextLayers.HEIGHT);
+		pixels.fill(-1);
+		const regs=this.registers;
+		const transparent=regs[0x14];
+		const palette=this.getPalette(ZxNextLayers.PALETTE_LAYER2);
+		const resolution=(regs[0x70]>>>4)&0x03;
+		const paletteOffset=(regs[0x70]&0x0F)<<4;
+		const scrollX=regs[0x16]|((regs[0x71]&0x01)<<8);
+		const scrollY=regs[0x17];
+		const bank=2*regs[0x12];
+
+		if (resolution==0) {
+			// 256x192, 1 byte per pixel, row by row
+			const mem=this.memory.getBankMemory(bank, 256*192);
+			const offset=ZxNextLayers.BORDER;
+			for (let y=0; y<192; y++) {
+				const sy=(y+scrollY)%192;
+				let index=(y+offset)*ZxNextLayers.WIDTH+offset;
+				for (let x=0; x<256; x++, index++) {
+					if (!this.isInClipWindow(ZxNextLayers.CLIP_LAYER2, x, y))
+						continue;
+					const sx=(x+scrollX)&0xFF;
+					const color=palette[(mem[sy*256+sx]+paletteOffset)&0xFF];
+					if (color!=transparent)
+						pixels[index]=color;
+				}
+			}
+		}
+		else {
+			// 320x256 (1 byte per pixel) or 640x256 (4 bit per pixel),
+			// column by column. For 640x256 only the left pixel of 2 is shown.
+			const mem=this.memory.getBankMemory(bank, 320*256);
+			for (let y=0; y<256; y++) {
+				const sy=(y+scrollY)&0xFF;
+				let index=y*ZxNextLayers.WIDTH;
+				for (let x=0; x<320; x++, index++) {
+					if (!this.isInClipWindow(ZxNextLayers.CLIP_LAYER2, x, y, 2))
+						continue;
+					const sx=(x+scrollX)%320;
+					let value=mem[sx*256+sy]|0;
+					if (resolution!=1)
+						value>>>=4;
+					const color=palette[(value+paletteOffset)&0xFF];
+					if (color!=transparent)
+						pixels[index]=color;
+				}
+			}
+		}
+		return pixels;
+	}
+
+
+	/**
+	 * Renders the tilemap (40x32 or 80x32 tiles).
+	 * For 80x32 tiles only the left pixel of 2 is shown.
+	 * @param ulaOver Set to 1 for each pixel where the ULA is shown on top of the tile.
+	 * @returns The colors (RRRGGGBB) of the 320x256 display, -1 for transparent.
+	 * undefined if the tilemap is not enabled.
+	 */
+	public renderTilemap(ulaOver: Uint8Array): Int16Array|undefined {
+		const regs=this.registers;
+		const control=regs[0x6B];
+		if ((control&0x80)==0)
+			return undefined;
+		const pixels=new Int16Array(ZxNextLayers.WIDTH*ZxNextLayers.HEIGHT);
+		pixels.fill(-1);
+		const columns=(control&0x40)? 80:40;
+		const noAttributes=(control&0x20)!=0;
+		const textMode=(control&0x08)!=0;
+		const mode512=(control&0x02)!=0;
+		const tilemapOverUla=(control&0x01)!=0;
+		const palette=this.getPalette(ZxNextLayers.PALETTE_TILEMAP);
+		const transparent=regs[0x14];
+		const transparentIndex=regs[0x4C]&0x0F;
+		const scrollX=((regs[0x2F]&0x03)<<8)|regs[0x30];
+		const scrollY=regs[0x31];
+		const width=8*columns;
+		const xStep=columns/40;
+		// Tilemap and tile definitions are in bank 5
+		const bank5=this.memory.getBankMemory(10, 0x4000);
+		const mapBase=(regs[0x6E]&0x3F)<<8;
+		const defBase=(regs[0x6F]&0x3F)<<8;
+
+		for (let y=0; y<256; y++) {
+			const ty=(y+scrollY)&0xFF;
+			let index=y*ZxNextLayers.WIDTH;
+			for (let x=0; x<320; x++, index++) {
+				if (!this.isInClipWindow(ZxNextLayers.CLIP_TILEMAP, x, y, 2))
+					continue;
+				const tx=(xStep*x+scrollX)%width;
+				// Tile and attribute
+				const entry=(ty>>>3)*columns+(tx>>>3);
+				let tile;
+				let attr;
+				if (noAttributes) {
+					tile=bank5[(mapBase+entry)&0x3FFF];
+					attr=regs[0x6C];
+				}
+				else {
+					tile=bank5[(mapBase+2*entry)&0x3FFF];
+					attr=bank5[(mapBase+2*entry+1)&0x3FFF];
+				}
+				if (mode512)
+					tile|=(attr&0x01)<<8;
+				// Mirror and rotate
+				let px=tx&0x07;
+				let py=ty&0x07;
+				if (attr&0x08)
+					px=7-px;
+				if (attr&0x04)
+					py=7-py;
+				if (attr&0x02)
+					[px, py]=[py, 7-px];
+				// Pixel
+				let color;
+				if (textMode) {
+					// 1 bit per pixel, bits 7-1 of the attribute are the palette offset
+					const value=bank5[(defBase+8*tile+py)&0x3FFF];
+					color=palette[(attr&0xFE)|((value>>>(7-px))&0x01)];
+					if (color==transparent)
+						continue;
+				}
+				else {
+					// 4 bit per pixel, bits 7-4 of the attribute are the palette offset
+					const value=bank5[(defBase+32*tile+4*py+(px>>>1))&0x3FFF];
+					const nibble=(px&0x01)? value&0x0F:value>>>4;
+					if (nibble==transparentIndex)
+						continue;
+					color=palette[(attr&0xF0)|nibble];
+				}
+				pixels[index]=color;
+				if (!tilemapOverUla&&!mode512&&(attr&0x01))
+					ulaOver[index]=1;
+			}
+		}
+		return pixels;
+	}
+
+
+	/**
+	 * Combines the layers according the priority (register 0x15).
+	 * @param border The border color (0-7).
+	 * @param sprites The colors of the sprites layer, -1 for transparent.
+	 * undefined if there are no sprites.
+	 * @returns The colors (RRRGGGBB) of the 320x256 display.
+	 */
+	public createPixels(border: number, sprites?: Int16Array): Array<number> {
+		const size=ZxNextLayers.WIDTH*ZxNextLayers.HEIGHT;
+		const ula=this.renderUla(border);
+		const ulaOver=new Uint8Array(size);
+		const tilemap=this.renderTilemap(ulaOver);
+		const layer2=this.renderLayer2();
+		const priority=ZxNextLayers.PRIORITIES[(this.registers[0x15]>>>2)&0x07];
+		const fallback=this.registers[0x4A];
+
+		const pixels=new Array<number>(size);
+		for (let i=0; i<size; i++) {
+			// ULA and tilemap
+			let u=ula[i];
+			if (tilemap) {
+				const t=tilemap[i];
+				if (t>=0&&(u<0||!ulaOver[i]))
+					u=t;
+			}
+			const l=(layer2)? layer2[i]:-1;
+			const s=(sprites)? sprites[i]:-1;
+			let color=-1;
+			for (let k=0; k<3&&color<0; k++) {
+				switch (priority[k]) {
+					case 'S': color=s; break;
+					case 'L': color=l; break;
+					case 'U': color=u; break;
+				}
+			}
+			pixels[i]=(color<0)? fallback:color;
+		}
+		return pixels;
+	}
+
+
+	/**
+	 * Returns the display as gif image.
+	 * @param border The border color (0-7).
+	 * @param sprites The colors of the sprites layer or undefined.
+	 */
+	public getImage(border: number, sprites?: Int16Array): number[] {
+		const pixels=this.createPixels(border, sprites);
+		return ImageConvert.createGifFromArray(ZxNextLayers.WIDTH, ZxNextLayers.HEIGHT, pixels, ZxNextLayers.getRgb332Palette());
+	}
+
+
+	/**
+	 * Returns the palette for the 256 colors RRRGGGBB.
+	 */
+	public static getRgb332Palette(): number[] {
+		const palette=new Array<number>();
+		for (let color=0; color<256; color++) {
+			palette.push(
+				Math.round(((color>>>5)&0x07)*255/7),
+				Math.round(((color>>>2)&0x07)*255/7),
+				(color&0x03)*85
+			);
+		}
+		return palette;
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer=new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size=memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.writeArrayBuffer(this.registers);
+		for (const palette of this.palettes)
+			memBuffer.writeArrayBuffer(palette);
+		for (const blueLsb of this.palettesBlueLsb)
+			memBuffer.writeArrayBuffer(blueLsb);
+		for (let window=0; window<4; window++) {
+			for (const value of this.clipWindows[window])
+				memBuffer.write8(value);
+			memBuffer.write8(this.clipIndex[window]);
+		}
+		memBuffer.write8(this.paletteIndex);
+		memBuffer.write8(Number(this.palette9BitSecond));
+		memBuffer.write8(this.layer2Port);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.registers.set(memBuffer.readArrayBuffer());
+		for (const palette of this.palettes)
+			palette.set(memBuffer.readArrayBuffer());
+		for (const blueLsb of this.palettesBlueLsb)
+			blueLsb.set(memBuffer.readArrayBuffer());
+		for (let window=0; window<4; window++) {
+			for (let i=0; i<4; i++)
+				this.clipWindows[window][i]=memBuffer.read8();
+			this.clipIndex[window]=memBuffer.read8();
+		}
+		this.paletteIndex=memBuffer.read8();
+		this.palette9BitSecond=(memBuffer.read8()!=0);
+		this.layer2Port=memBuffer.read8();
+	}
+}
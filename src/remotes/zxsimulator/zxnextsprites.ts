@@ -0,0 +1,436 @@
+import {ZxNextLayers} from './zxnextlayers';
+import {MemBuffer} from '../../misc/membuffer';
+
+
+
+/**
+ * The ZX Next hardware sprites.
+ * Stores the attributes of the 128 sprites and the 16k pattern memory
+ * written through the ports 0x303B (select), 0x57 (attributes), 0x5B
+ * (patterns) and the next registers 0x34-0x39 and 0x75-0x79.
+ * Renders the sprites layer (incl. anchor and relative sprites, 4 bit
+ * patterns and scaling) for the ZxNextLayers.
+ * See https://wiki.specnext.dev/Sprites
+ *
+ * Not simulated: collision and max. sprites per line (status port 0x303B),
+ * the sprites are rendered at once from the current state.
+ */
+export class ZxNextSprites {
+	// The number of sprites.
+	public static SPRITE_COUNT=128;
+
+	// The number of attribute bytes per sprite.
+	public static ATTRIBUTE_SIZE=5;
+
+	// The number of 256 byte patterns.
+	public static PATTERN_COUNT=64;
+
+	// The next registers used for the sprites.
+	public static REGISTERS=[
+		0x34,	// Sprite number
+		0x35, 0x36, 0x37, 0x38, 0x39,	// Sprite attributes 0-4
+		0x4B,	// Sprite transparency index
+		0x75, 0x76, 0x77, 0x78, 0x79	// Sprite attributes 0-4 with increment of the sprite number
+	];
+
+	// The attributes of all sprites, 5 bytes each.
+	public attributes: Uint8Array;
+
+	// The pattern memory.
+	public patterns: Uint8Array;
+
+	// The sprite selected for writing the attributes.
+	protected spriteIndex: number;
+
+	// The index of the next attribute byte written through port 0x57.
+	protected attributeIndex: number;
+
+	// The address in the pattern memory for the next write to port 0x5B.
+	protected patternAddress: number;
+
+	// The transparency index (register 0x4B).
+	public transparencyIndex: number;
+
+	// The layers. Used for the sprite palette, clip window and
+	// sprite control (register 0x15).
+	protected layers: ZxNextLayers;
+
+
+	/**
+	 * Constructor.
+	 * @param layers The layers with the sprite palette and clip window.
+	 */
+	constructor(layers: ZxNextLayers) {
+		this.layers=layers;
+		this.attributes=new Uint8Array(ZxNextSprites.SPRITE_COUNT*ZxNextSprites.ATTRIBUTE_SIZE);
+		this.patterns=new Uint8Array(ZxNextSprites.PATTERN_COUNT*256);
+		this.reset();
+	}
+
+
+	/**
+	 * Clears the attributes (i.e. all sprites are invisible) and the
+	 * patterns and resets the registers.
+	 */
+	public reset() {
+		this.attributes.fill(0);
+		this.patterns.fill(0);
+		this.spriteIndex=0;
+		this.attributeIndex=0;
+		this.patternAddress=0;
+		this.transparencyIndex=0xE3;
+	}
+
+
+	/**
+	 * Write to port 0x303B.
+	 * Selects the sprite for the attribute writes (bits 6-0) and the
+	 * pattern for the pattern writes (bits 5-0, bit 7 selects the
+	 * second half of a 256 byte pattern for 4 bit patterns).
+	 * @param value The written value.
+	 */
+	public selectSprite(value: number) {
+		this.spriteIndex=value&0x7F;
+		this.attributeIndex=0;
+		this.patternAddress=((value&0x3F)<<8)|(value&0x80);
+	}
+
+
+	/**
+	 * Write to port 0x57.
+	 * Writes the next attribute byte. After the 5th byte (or the 4th if
+	 * the 5th byte is not enabled) the next sprite is selected.
+	 * @param value The attribute byte.
+	 */
+	public writeAttribute(value: number) {
+		const start=this.spriteIndex*ZxNextSprites.ATTRIBUTE_SIZE;
+		this.attributes[start+this.attributeIndex]=value;
+		this.attributeIndex++;
+		if (this.attributeIndex==4&&(value&0x40)==0) {
+			// No 5th attribute byte
+			this.attributes[start+4]=0;
+			this.attributeIndex++;
+		}
+		if (this.attributeIndex>=ZxNextSprites.ATTRIBUTE_SIZE) {
+			this.attributeIndex=0;
+			this.spriteIndex=(this.spriteIndex+1)&0x7F;
+		}
+	}
+
+
+	/**
+	 * Write to port 0x5B.
+	 * Writes the next byte of the pattern memory.
+	 * @param value The pattern byte.
+	 */
+	public writePattern(value: number) {
+		this.patterns[this.patternAddress]=value;
+		this.patternAddress=(this.patternAddress+1)&0x3FFF;
+	}
+
+
+	/**
+	 * Writes a next register.
+	 * @param reg The register, one of REGISTERS.
+	 * @param value The value.
+	 */
+	public writeRegister(reg: number, value: number) {
+		if (reg==0x34) {
+			this.spriteIndex=value&0x7F;
+		}
+		else if (reg==0x4B) {
+			this.transparencyIndex=value;
+		}
+		else {
+			// Attributes
+			const offset=(reg&0x0F)-5;
+			const start=this.spriteIndex*ZxNextSprites.ATTRIBUTE_SIZE;
+			this.attributes[start+offset]=value;
+			if (offset==3&&(value&0x40)==0)
+				this.attributes[start+4]=0;	// No 5th attribute byte
+			if (reg>=0x75)
+				this.spriteIndex=(this.spriteIndex+1)&0x7F;
+		}
+	}
+
+
+	/**
+	 * Reads a next register.
+	 * @param reg The register, one of REGISTERS.
+	 */
+	public readRegister(reg: number): number {
+		if (reg==0x34)
+			return this.spriteIndex;
+		if (reg==0x4B)
+			return this.transparencyIndex;
+		// Attributes
+		const offset=(reg&0x0F)-5;
+		return this.attributes[this.spriteIndex*ZxNextSprites.ATTRIBUTE_SIZE+offset];
+	}
+
+
+	/**
+	 * Returns the attributes of sprites.
+	 * @param index The first sprite.
+	 * @param count The number of sprites.
+	 * @returns An array with the 5 attribute bytes for each sprite.
+	 */
+	public getAttributes(index: number, count: number): Array<Uint8Array> {
+		const sprites=new Array<Uint8Array>();
+		for (let i=0; i<count; i++) {
+			const start=((index+i)&0x7F)*ZxNextSprites.ATTRIBUTE_SIZE;
+			sprites.push(this.attributes.slice(start, start+ZxNextSprites.ATTRIBUTE_SIZE));
+		}
+		return sprites;
+	}
+
+
+	/**
+	 * Returns 256 byte patterns.
+	 * @param index The first pattern (0-63).
+	 * @param count The number of patterns.
+	 * @returns An array with the 256 bytes for each pattern.
+	 */
+	public getPatterns(index: number, count: number): Array<Array<number>> {
+		const patterns=new Array<Array<number>>();
+		for (let i=0; i<count; i++) {
+			const start=((index+i)&0x3F)*256;
+			patterns.push([...this.patterns.subarray(start, start+256)]);
+		}
+		return patterns;
+	}
+
+
+	/**
+	 * Renders the sprites layer.
+	 * The sprites are drawn in the order of their number, i.e. higher
+	 * numbers are on top (unless register 0x15, bit 6, is set).
+	 * @returns The colors (RRRGGGBB) of the 320x256 display, -1 for
+	 * transparent. undefined if the sprites are not visible (register 0x15, bit 0).
+	 */
+	public render(): Int16Array|undefined {
+		const control=this.layers.registers[0x15];
+		if ((control&0x01)==0)
+			return undefined;
+		const pixels=new Int16Array(ZxNextLayers.WIDTH*ZxNextLayers.HEIGHT);
+		pixels.fill(-1);
+
+		// Clip window
+		const clip=this.layers.clipWindows[ZxNextLayers.CLIP_SPRITES];
+		let clipX1, clipX2, clipY1, clipY2;
+		if (control&0x02) {
+			// Over border
+			clipX1=2*clip[0];
+			clipX2=2*clip[1]+1;
+			clipY1=clip[2];
+			clipY2=clip[3];
+		}
+		else {
+			const border=ZxNextLayers.BORDER;
+			clipX1=clip[0]+border;
+			clipX2=clip[1]+border;
+			clipY1=clip[2]+border;
+			clipY2=clip[3]+border;
+		}
+		const zeroOnTop=(control&0x40)!=0;
+		const palette=this.layers.getPalette(ZxNextLayers.PALETTE_SPRITES);
+
+		// Anchor of the relative sprites
+		let anchor: SpriteState={
+			visible: false, x: 0, y: 0, paletteOffset: 0, pattern: 0, fourBit: false, n6: 0,
+			xMirror: false, yMirror: false, rotate: false, xScale: 1, yScale: 1, unified: false
+		};
+		for (let i=0; i<ZxNextSprites.SPRITE_COUNT; i++) {
+			const attrs=this.attributes.subarray(i*ZxNextSprites.ATTRIBUTE_SIZE);
+			const sprite=this.getSpriteState(attrs, anchor);
+			if ((attrs[4]&0xC0)!=0x40)
+				anchor=sprite;	// Anchor sprite
+			if (!sprite.visible)
+				continue;
+			this.drawSprite(sprite, pixels, palette, clipX1, clipX2, clipY1, clipY2, zeroOnTop);
+		}
+		return pixels;
+	}
+
+
+	/**
+	 * Decodes the attributes of a sprite.
+	 * @param attrs The 5 attribute bytes.
+	 * @param anchor The last anchor sprite (used for relative sprites).
+	 */
+	protected getSpriteState(attrs: Uint8Array, anchor: SpriteState): SpriteState {
+		const attr2=attrs[2];
+		const attr3=attrs[3];
+		const attr4=attrs[4];
+		const visible=(attr3&0x80)!=0;
+		let xMirror=(attr2&0x08)!=0;
+		let yMirror=(attr2&0x04)!=0;
+		let rotate=(attr2&0x02)!=0;
+		let xScale=1<<((attr4>>>3)&0x03);
+		let yScale=1<<((attr4>>>1)&0x03);
+		let paletteOffset=attr2>>>4;
+		let pattern=attr3&0x3F;
+
+		if ((attr4&0xC0)!=0x40) {
+			// Anchor sprite
+			return {
+				visible, x: attrs[0]|((attr2&0x01)<<8), y: attrs[1]|((attr4&0x01)<<8),
+				paletteOffset, pattern, fourBit: (attr4&0x80)!=0, n6: (attr4>>>6)&0x01,
+				xMirror, yMirror, rotate, xScale, yScale, unified: (attr4&0x20)!=0
+			};
+		}
+
+		// Relative sprite
+		let dx=(attrs[0]<<24)>>24;
+		let dy=(attrs[1]<<24)>>24;
+		if (attr2&0x01)
+			paletteOffset=(paletteOffset+anchor.paletteOffset)&0x0F;
+		if (attr4&0x01)
+			pattern=(pattern+anchor.pattern)&0x3F;
+		if (anchor.unified) {
+			// Transform the offset and the sprite like the anchor
+			if (anchor.rotate)
+				[dx, dy]=[-dy, dx];
+			if (anchor.xMirror)
+				dx=-dx;
+			if (anchor.yMirror)
+				dy=-dy;
+			dx*=anchor.xScale;
+			dy*=anchor.yScale;
+			if (anchor.rotate) {
+				[xMirror, yMirror]=[yMirror, xMirror];
+				rotate=!rotate;
+			}
+			xMirror=(xMirror!=anchor.xMirror);
+			yMirror=(yMirror!=anchor.yMirror);
+			xScale=anchor.xScale;
+			yScale=anchor.yScale;
+		}
+		return {
+			visible: visible&&anchor.visible,
+			x: (anchor.x+dx)&0x1FF, y: (anchor.y+dy)&0x1FF,
+			paletteOffset, pattern, fourBit: anchor.fourBit, n6: (attr4>>>5)&0x01,
+			xMirror, yMirror, rotate, xScale, yScale, unified: false
+		};
+	}
+
+
+	/**
+	 * Draws one sprite.
+	 * @param sprite The decoded sprite.
+	 * @param pixels The sprites layer.
+	 * @param palette The sprite palette.
+	 * @param clipX1 The clip window in display coordinates.
+	 * @param zeroOnTop true if lower sprites are drawn on top.
+	 */
+	protected drawSprite(sprite: SpriteState, pixels: Int16Array, palette: Uint8Array, clipX1: number, clipX2: number, clipY1: number, clipY2: number, zeroOnTop: boolean) {
+		const transparent=this.layers.registers[0x14];
+		const base=(sprite.fourBit)? sprite.pattern*256+sprite.n6*128:sprite.pattern*256;
+		const paletteOffset=sprite.paletteOffset<<4;
+		for (let sy=0; sy<16*sprite.yScale; sy++) {
+			const y=(sprite.y+sy)&0x1FF;
+			if (y<clipY1||y>clipY2||y>=ZxNextLayers.HEIGHT)
+				continue;
+			for (let sx=0; sx<16*sprite.xScale; sx++) {
+				const x=(sprite.x+sx)&0x1FF;
+				if (x<clipX1||x>clipX2||x>=ZxNextLayers.WIDTH)
+					continue;
+				// Pattern pixel
+				let px=Math.floor(sx/sprite.xScale);
+				let py=Math.floor(sy/sprite.yScale);
+				if (sprite.xMirror)
+					px=15-px;
+				if (sprite.yMirror)
+					py=15-py;
+				if (sprite.rotate)
+					[px, py]=[py, 15-px];
+				let colorIndex;
+				if (sprite.fourBit) {
+					const value=this.patterns[base+8*py+(px>>>1)];
+					const nibble=(px&0x01)? value&0x0F:value>>>4;
+					if (nibble==(this.transparencyIndex&0x0F))
+						continue;
+					colorIndex=paletteOffset|nibble;
+				}
+				else {
+					const value=this.patterns[base+16*py+px];
+					if (value==this.transparencyIndex)
+						continue;
+					colorIndex=(value+paletteOffset)&0xFF;
+				}
+				const color=palette[colorIndex];
+				if (color==transparent)
+					continue;
+				const index=y*ZxNextLayers.WIDTH+x;
+				if (zeroOnTop&&pixels[index]>=0)
+					continue;
+				pixels[index]=color;
+			}
+		}
+	}
+
+
+	/**
+	 * Returns the size the serialized object would consume.
+	 */
+	public getSerializedSize(): number {
+		// Create a MemBuffer to calculate the size.
+		const memBuffer=new MemBuffer();
+		// Serialize object to obtain size
+		this.serialize(memBuffer);
+		// Get size
+		const size=memBuffer.getSize();
+		return size;
+	}
+
+
+	/**
+	 * Serializes the object.
+	 */
+	public serialize(memBuffer: MemBuffer) {
+		memBuffer.writeArrayBuffer(this.attributes);
+		memBuffer.writeArrayBuffer(this.patterns);
+		memBuffer.write8(this.spriteIndex);
+		memBuffer.write8(this.attributeIndex);
+		memBuffer.write16(this.patternAddress);
+		memBuffer.write8(this.transparencyIndex);
+	}
+
+
+	/**
+	 * Deserializes the object.
+	 */
+	public deserialize(memBuffer: MemBuffer) {
+		this.attributes.set(memBuffer.readArrayBuffer());
+		this.patterns.set(memBuffer.readArrayBuffer());
+		this.spriteIndex=memBuffer.read8();
+		this.attributeIndex=memBuffer.read8();
+		this.patternAddress=memBuffer.read16();
+		this.transparencyIndex=memBuffer.read8();
+	}
+}
+
+
+/// The decoded attributes of a sprite.
+/// For relative sprites the values of the anchor are already applied.
+interface SpriteState {
+	visible: boolean;
+	// The position in display coordinates (0-511).
+	x: number;
+	y: number;
+	// The palette offset (0-15).
+	paletteOffset: number;
+	// The pattern (0-63).
+	pattern: number;
+	// true for 4 bit patterns. n6 selects the 128 byte half of the pattern.
+	fourBit: boolean;
+	n6: number;
+	xMirror: boolean;
+	yMirror: boolean;
+	rotate: boolean;
+	// The scaling: 1, 2, 4 or 8.
+	xScale: number;
+	yScale: number;
+	// Anchor only: true if the relative sprites are unified.
+	unified: boolean;
+}
@@ -108,6 +108,33 @@ export class ZxSimulationView extends BaseView {
 			case 'keyChanged':
 				this.keyChanged(message.key, message.value);
 				break;
+			case 'joystickChanged':
+				this.simulator.joystick?.buttonChanged(message.button, message.value);
+				break;
+			case 'tapePlay':
+				this.simulator.tape?.play(this.simulator.z80Cpu.passedTstates);
+				this.update();
+				break;
+			case 'tapeStop':
+				this.simulator.tape?.stop();
+				this.update();
+				break;
+			case 'tapeRewind':
+				this.simulator.tape?.rewind();
+				this.update();
+				break;
+			case 'terminalKey':
+				this.simulator.terminal?.keyPressed(message.value);
+				break;
+			case 'nmi':
+				this.simulator.generateNmi();	// No need to call 'await'
+				break;
+			case 'interrupt':
+				this.simulator.generateInterrupt(message.value);	// No need to call 'await'
+				break;
+			case 'reset':
+				this.simulator.resetMachine(message.value);	// No need to call 'await'
+				break;
 			default:
 				Utility.assert(false);
 		}
@@ -318,16 +345,54 @@ export class ZxSimulationView extends BaseView {
 				visualMemImg=this.createBase64String(this.simulator.memory.getVisualMemoryImage());
 			}
 
-			if (Settings.launch.zsim.ulaScreen)
-				screenImg=this.createBase64String(this.simulator.memory.getUlaScreen());
+			const zx81Display=this.simulator.zx81Display;
+			if (zx81Display) {
+				screenImg=this.createBase64String(zx81Display.getImage());
+			}
+			else if (Settings.launch.zsim.ulaScreen) {
+				const ulaFrame=this.simulator.ulaFrame;
+				const nextLayers=this.simulator.nextLayers;
+				if (nextLayers)
+					screenImg=this.createBase64String(nextLayers.getImage(this.simulator.ports.getPortValue(0xFE)&0x07, this.simulator.nextSprites?.render()));
+				else if (ulaFrame)
+					screenImg=this.createBase64String(ulaFrame.getImage());
+				else
+					screenImg=this.createBase64String(this.simulator.memory.getUlaScreen());
+			}
+
+			// The audio samples since last update
+			let audioSamples;
+			let audioSampleRate;
+			const audio=this.simulator.audio;
+			if (audio) {
+				audioSamples=Array.from(audio.getNewSamples());
+				audioSampleRate=audio.sampleRate;
+			}
+
+			// The tape state
+			let tapeBlockIndex;
+			let tapePlaying;
+			const tape=this.simulator.tape;
+			if (tape) {
+				tapeBlockIndex=tape.blockIndex;
+				tapePlaying=tape.playing;
+			}
+
+			// The terminal contents
+			const terminalText=this.simulator.terminal?.getText();
+
 			// Create message to update the webview
 			let message={
 				command: 'update',
 				cpuLoad,
 				slotNames,
 				visualMemImg,
-				screenImg
-
+				screenImg,
+				audioSamples,
+				audioSampleRate,
+				tapeBlockIndex,
+				tapePlaying,
+				terminalText
 			};
 			this.sendMessageToWebView(message);
 			// Clear
@@ -412,12 +477,46 @@ color:black;
 
 				if(message.screenImg)
 					screenImg.src = message.screenImg;
+
+				if(message.audioSamples && message.audioSamples.length > 0)
+					playAudio(message.audioSamples, message.audioSampleRate);
+
+				if(message.tapeBlockIndex != undefined)
+					tapeUpdate(message.tapeBlockIndex, message.tapePlaying);
+
+				if(message.terminalText != undefined)
+					terminal.textContent = message.terminalText;
 			}
 			break;
 		}
 	});
 
 
+	//---- Audio --------
+	// The samples are queued one after the other. If the simulation
+	// runs faster than real time the samples are dropped.
+	let audioCtx;
+	let audioTime = 0;
+	function playAudio(samples, sampleRate) {
+		if(!audioCtx)
+			audioCtx = new AudioContext();
+		if(audioCtx.state == 'suspended')
+			audioCtx.resume();	// Might require a user interaction first
+		const now = audioCtx.currentTime;
+		if(audioTime < now)
+			audioTime = now + 0.05;	// Underrun: start with a small delay
+		if(audioTime > now + 0.5)
+			return;	// Too far ahead
+		const buffer = audioCtx.createBuffer(1, samples.length, sampleRate);
+		buffer.getChannelData(0).set(samples);
+		const source = audioCtx.createBufferSource();
+		source.buffer = buffer;
+		source.connect(audioCtx.destination);
+		source.start(audioTime);
+		audioTime += buffer.duration;
+	}
+
+
 	// Set cell to selected or unselected.
     function cellSelect(cell, on) {
 		cell.tag=on;
@@ -465,9 +564,107 @@ color:black;
 	}
 	*/
 
+	//---- Tape --------
+	// Sends a tape command ('tapePlay', 'tapeStop', 'tapeRewind') to vscode.
+	function tapeCommand(command) {
+		vscode.postMessage({
+			command: command
+		});
+	}
+
+	// Highlights the current block and shows the state.
+	function tapeUpdate(blockIndex, playing) {
+		const state = document.getElementById("tape_state_id");
+		if(!state)
+			return;
+		state.textContent = (playing) ? "Playing" : "Stopped";
+		const blocks = document.getElementsByClassName("tape_block");
+		for(let i=0; i<blocks.length; i++)
+			blocks[i].style.fontWeight = (i == blockIndex) ? "bold" : "normal";
+	}
+
+
+	//---- Interrupts and reset --------
+	// Sends 'nmi', 'interrupt' (with the data bus value) or 'reset' (hard=true/false) to vscode.
+	function cpuCommand(command, value) {
+		vscode.postMessage({
+			command: command,
+			value: value
+		});
+	}
+
+	// Sends an interrupt with the data bus value from the input field.
+	function interruptClicked() {
+		const input = document.getElementById("interrupt_data_id");
+		const data = parseInt(input.value, 16);
+		if(isNaN(data) || data < 0 || data > 255) {
+			input.style.color = "red";
+			return;
+		}
+		input.style.color = "";
+		cpuCommand('interrupt', data);
+	}
+
+
+	//---- Joystick --------
+	// Maps key codes to joystick buttons. Filled if a joystick is enabled.
+	var joystickKeys = {};
+
+	// Sends the joystick button state to vscode.
+	function joystickChanged(button, on) {
+		vscode.postMessage({
+			command: 'joystickChanged',
+			value: on,
+			button: button
+		});
+	}
+
+	// Returns true if the key is used for the joystick.
+	function joystickKey(e, on) {
+		const button = joystickKeys[e.code];
+		if(!button)
+			return false;
+		if(!e.repeat)
+			joystickChanged(button, on);
+		e.preventDefault();
+		return true;
+	}
+
+
+	//---- Terminal --------
+	// Set to true if the terminal has a keyboard.
+	var terminalInput = false;
+
+	// Sends the ASCII code of the key to vscode.
+	// Returns true if the key is used for the terminal.
+	function terminalKey(e) {
+		if(!terminalInput)
+			return false;
+		const codes = {Enter: 13, Backspace: 8, Tab: 9, Escape: 27};
+		let code = codes[e.key];
+		if(code == undefined) {
+			if(e.key.length != 1)
+				return false;
+			code = e.key.charCodeAt(0);
+		}
+		vscode.postMessage({
+			command: 'terminalKey',
+			value: code
+		});
+		e.preventDefault();
+		return true;
+	}
+
+
 	// Handle key down presses.
 	document.addEventListener('keydown', keydown);
 	function keydown(e) {
+		if(e.target.tagName == 'INPUT')
+			return;	// E.g. the data bus value
+		if(joystickKey(e, true))
+			return;
+		if(terminalKey(e))
+			return;
        	// Find correspondent cell
         cell=findCell(e.code);
         cellSelect(cell, true);
@@ -478,6 +675,12 @@ color:black;
 	// Handle key up presses.
 	document.addEventListener('keyup', keyup);
 	function keyup(e) {
+		if(e.target.tagName == 'INPUT')
+			return;
+		if(joystickKey(e, false))
+			return;
+		if(terminalInput)
+			return;
     	// Find correspondent cell
         cell=findCell(e.code);
         cellSelect(cell, false);
@@ -831,7 +1034,7 @@ color:black;
 `;
 		}
 
-		if (Settings.launch.zsim.ulaScreen) {
+		if (Settings.launch.zsim.ulaScreen||this.simulator.zx81Display) {
 			html+=
 				`<!-- Display the screen gif -->
 <img id="screen_img_id" style="image-rendering:pixelated; width:100%;">
@@ -844,6 +1047,102 @@ color:black;
 		}
 
 
+		if (Settings.launch.zsim.joystick!='none') {
+			html+=
+				`<!-- Joystick: cursor keys, left Alt/right Ctrl for fire, or a gamepad -->
+<p>
+	<label>Joystick (`+Settings.launch.zsim.joystick+`): cursor keys + left Alt or right Ctrl (fire), or a gamepad.</label>
+</p>
+<script>
+	joystickKeys = {
+		ArrowLeft: 'left',
+		ArrowRight: 'right',
+		ArrowUp: 'up',
+		ArrowDown: 'down',
+		AltLeft: 'fire',
+		ControlRight: 'fire'
+	};
+
+	// Polls the gamepads (analog stick, d-pad and the 4 main buttons)
+	const gamepadState = {left: false, right: false, up: false, down: false, fire: false};
+	function pollGamepads() {
+		const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+		const state = {left: false, right: false, up: false, down: false, fire: false};
+		for (const pad of pads) {
+			if(!pad)
+				continue;
+			const x = pad.axes[0] || 0;
+			const y = pad.axes[1] || 0;
+			const pressed = i => (pad.buttons[i] != undefined) && pad.buttons[i].pressed;
+			state.left = state.left || x < -0.5 || pressed(14);
+			state.right = state.right || x > 0.5 || pressed(15);
+			state.up = state.up || y < -0.5 || pressed(12);
+			state.down = state.down || y > 0.5 || pressed(13);
+			state.fire = state.fire || pressed(0) || pressed(1) || pressed(2) || pressed(3);
+		}
+		for (const button in state) {
+			if(state[button] != gamepadState[button]) {
+				gamepadState[button] = state[button];
+				joystickChanged(button, state[button]);
+			}
+		}
+	}
+	setInterval(pollGamepads, 20);
+</script>
+
+`;
+		}
+
+
+		const terminal=this.simulator.terminal;
+		if (terminal) {
+			html+=
+				`<!-- Terminal -->
+<pre id="terminal_id" style="font-family:monospace; border:1px solid var(--vscode-foreground); padding:0.5em; display:inline-block;"></pre>
+<script>
+	var terminal=document.getElementById("terminal_id");
+	terminalInput=`+(terminal.keyboardPort!=undefined)+`;
+</script>
+
+`;
+		}
+
+
+		html+=
+			`<!-- Interrupts and reset -->
+<p>
+	<button onclick="cpuCommand('nmi')">NMI</button>
+	<button onclick="interruptClicked()">INT</button>
+	<label>Data bus: <input id="interrupt_data_id" type="text" value="FF" size="2" maxlength="2"></label>
+	<button onclick="cpuCommand('reset', false)">Reset</button>
+	<button onclick="cpuCommand('reset', true)">Hard Reset</button>
+</p>
+
+`;
+
+
+		const tape=this.simulator.tape;
+		if (tape) {
+			let blockList='';
+			for (const block of tape.blocks) {
+				const description=block.description.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+				blockList+='\t\t<li class="tape_block">'+description+'</li>\n';
+			}
+			html+=
+				`<!-- Tape -->
+<details open>
+	<summary>Tape: <label id="tape_state_id">Stopped</label></summary>
+	<button onclick="tapeCommand('tapePlay')">Play</button>
+	<button onclick="tapeCommand('tapeStop')">Stop</button>
+	<button onclick="tapeCommand('tapeRewind')">Rewind</button>
+	<ol start="0">
+`+blockList+`	</ol>
+</details>
+
+`;
+		}
+
+
 		if (Settings.launch.zsim.zxKeyboard) {
 			html+=
 				`<!-- Keyboard -->
@@ -0,0 +1,245 @@
+import {TapeBlock} from './tapfile';
+import {Z80Cpu} from './z80cpu';
+
+
+
+/**
+ * The tape deck.
+ * Plays the blocks of a .tap or .tzx file as a signal on the EAR bit
+ * (bit 6 of port 0xFE). The pulses are generated in simulated time,
+ * i.e. the T-states of the CPU. So the ROM loader as well as custom
+ * (turbo) loaders can load from the tape.
+ *
+ * Additionally a fast load is possible: if the ROM's LD-BYTES routine
+ * is called the next data block is directly copied into memory.
+ */
+export class ZxTape {
+	// The address of the LD-BYTES routine in the 48K ROM.
+	public static LD_BYTES=0x0556;
+
+	// The first opcodes of LD-BYTES: INC D, EX AF,AF', DEC D, DI.
+	// Used to check that the ROM is paged in.
+	protected static LD_BYTES_OPCODES=[0x14, 0x08, 0x15, 0xF3];
+
+	// The clock the pulse lengths refer to.
+	protected static TAPE_CLOCK=3500000;
+
+	// The blocks of the tape.
+	public blocks: Array<TapeBlock>;
+
+	// The current block.
+	public blockIndex: number;
+
+	// true if the tape is playing.
+	public playing: boolean;
+
+	// The factor to convert the pulse lengths into CPU T-states.
+	protected tstatesFactor: number;
+
+	// The current level of the EAR signal.
+	protected earLevel: boolean;
+
+	// The (total) T-state of the next edge.
+	protected nextEdgeTstate: number;
+
+	// Generates the pulses from the current block on.
+	protected pulses: Iterator<number>|undefined;
+
+
+	/**
+	 * Constructor.
+	 * @param cpuFreq The CPU frequency in Hz.
+	 */
+	constructor(cpuFreq: number) {
+		this.tstatesFactor=cpuFreq/ZxTape.TAPE_CLOCK;
+		this.blocks=new Array<TapeBlock>();
+		this.blockIndex=0;
+		this.playing=false;
+		this.earLevel=false;
+		this.nextEdgeTstate=0;
+	}
+
+
+	/**
+	 * Inserts a tape. The tape is rewound.
+	 * @param blocks The blocks of the .tap or .tzx file.
+	 */
+	public insert(blocks: Array<TapeBlock>) {
+		this.blocks=blocks;
+		this.rewind();
+	}
+
+
+	/**
+	 * Starts playing at the current block.
+	 * @param tstate The (total) T-state at which the tape starts.
+	 */
+	public play(tstate: number) {
+		if (this.playing||this.blockIndex>=this.blocks.length)
+			return;
+		this.playing=true;
+		this.nextEdgeTstate=tstate;
+		this.pulses=this.generatePulses();
+	}
+
+
+	/**
+	 * Stops the tape. A started block will be played from the start again.
+	 */
+	public stop() {
+		this.playing=false;
+		this.pulses=undefined;
+	}
+
+
+	/**
+	 * Stops the tape and rewinds to the first block.
+	 */
+	public rewind() {
+		this.stop();
+		this.blockIndex=0;
+		this.earLevel=false;
+	}
+
+
+	/**
+	 * Returns the level of the EAR signal.
+	 * Advances the tape up to the given T-state.
+	 * @param tstate The (total) T-state.
+	 */
+	public getEarLevel(tstate: number): boolean {
+		while (this.playing&&tstate>=this.nextEdgeTstate) {
+			const next=this.pulses!.next();
+			if (next.done) {
+				this.stop();
+				break;
+			}
+			this.nextEdgeTstate+=next.value*this.tstatesFactor;
+		}
+		return this.earLevel;
+	}
+
+
+	/**
+	 * Generates the pulses of all blocks from the current block on.
+	 * The level is changed at the start of each pulse and the length of
+	 * the pulse is returned.
+	 * The block index is advanced after a block has been played.
+	 */
+	protected *generatePulses(): Generator<number> {
+		while (this.blockIndex<this.blocks.length) {
+			const block=this.blocks[this.blockIndex];
+			// Pilot tone
+			for (let i=0; i<block.pilotCount; i++) {
+				this.earLevel=!this.earLevel;
+				yield block.pilotPulse;
+			}
+			// Pulse sequence
+			for (const pulse of block.pulses) {
+				this.earLevel=!this.earLevel;
+				yield pulse;
+			}
+			// Sync
+			for (const pulse of [block.sync1Pulse, block.sync2Pulse]) {
+				if (pulse) {
+					this.earLevel=!this.earLevel;
+					yield pulse;
+				}
+			}
+			// Data, 2 pulses per bit, MSB first
+			const data=block.data;
+			for (let i=0; i<data.length; i++) {
+				const bits=(i==data.length-1)? block.lastByteBits:8;
+				const value=data[i];
+				for (let bit=0; bit<bits; bit++) {
+					const pulse=(value&(0x80>>>bit))? block.onePulse:block.zeroPulse;
+					this.earLevel=!this.earLevel;
+					yield pulse;
+					this.earLevel=!this.earLevel;
+					yield pulse;
+				}
+			}
+			// Pause: the level goes low
+			if (block.pause>0) {
+				this.earLevel=false;
+				yield block.pause*ZxTape.TAPE_CLOCK/1000;
+			}
+			// Next block
+			this.blockIndex++;
+			if (block.stopTape) {
+				this.playing=false;
+				return;
+			}
+		}
+	}
+
+
+	/**
+	 * Fast load. Called if the PC is at LD-BYTES.
+	 * The next data block is copied directly into memory (or compared for
+	 * VERIFY) and the CPU returns from LD-BYTES with the result in the
+	 * carry flag.
+	 * LD-BYTES parameters: A=flag byte, carry set=LOAD, reset=VERIFY,
+	 * IX=start address, DE=length.
+	 * @param cpu The Z80 CPU.
+	 * @returns false if no fast load was done (ROM not paged in or no
+	 * data block left). The ROM routine then loads from the tape signal.
+	 */
+	public fastLoad(cpu: Z80Cpu): boolean {
+		// Check that LD-BYTES is paged in
+		const memory=cpu.memory;
+		for (let i=0; i<ZxTape.LD_BYTES_OPCODES.length; i++) {
+			if (memory.getMemory8(ZxTape.LD_BYTES+i)!=ZxTape.LD_BYTES_OPCODES[i])
+				return false;
+		}
+
+		// Find next data block
+		let index=this.blockIndex;
+		while (index<this.blocks.length&&this.blocks[index].data.length==0)
+			index++;
+		if (index>=this.blocks.length)
+			return false;
+		const data=this.blocks[index].data;
+		this.stop();
+		this.blockIndex=index+1;
+
+		// Load
+		const regs=cpu.getAllRegisters();
+		const load=(regs.af&0x01)!=0;
+		let addr=regs.ix;
+		let length=regs.de;
+		let parity=data[0];
+		let success=(parity==(regs.af>>>8));
+		let k=1;
+		if (success) {
+			while (length>0) {
+				if (k>=data.length) {
+					success=false;
+					break;
+				}
+				const value=data[k++];
+				parity^=value;
+				if (load)
+					memory.write8(addr, value);
+				else if (memory.getMemory8(addr)!=value) {
+					success=false;
+					break;
+				}
+				addr=(addr+1)&0xFFFF;
+				length--;
+			}
+			// Checksum
+			if (success)
+				success=(k<data.length)&&((parity^data[k])==0);
+		}
+
+		// Return from LD-BYTES
+		cpu.ix=addr;
+		cpu.de=length;
+		cpu.af=(regs.af&0xFFFE)|Number(success);
+		const sp=regs.sp;
+		cpu.pc=memory.getMemory8(sp)+256*memory.getMemory8((sp+1)&0xFFFF);
+		cpu.sp=(sp+2)&0xFFFF;
+		return true;
+	}
+}
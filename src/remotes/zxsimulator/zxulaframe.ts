@@ -0,0 +1,211 @@
+import {ZxMemory} from './zxmemory';
+import {ImageConvert} from '../../misc/imageconvert';
+
+
+
+/**
+ * Renders the full ULA frame (screen and border) of a ZX Spectrum.
+ *
+ * The border changes (port 0xFE) and the writes to the screen memory are
+ * recorded together with their T-state in the frame.
+ * At rendering the frame is built from the screen memory at the start of
+ * the frame. While going through the frame (in the order of the T-states)
+ * the recorded changes are applied as soon as the ULA would have reached
+ * their position. So border effects and multicolour (rainbow) effects
+ * become visible.
+ * The granularity is 8 pixels (4 T-states), as for the real ULA.
+ */
+export class ZxUlaFrame {
+	// The size of the frame incl. border.
+	public static FRAME_WIDTH=352;
+	public static FRAME_HEIGHT=296;
+
+	// The size of the border.
+	public static BORDER_LEFT=48;
+	public static BORDER_TOP=52;
+
+	// The size of the screen memory (pixels and attributes).
+	protected static SCREEN_MEM_SIZE=6912;
+
+	// The start of the attributes in the screen memory.
+	protected static ATTR_START=6144;
+
+	// The T-states of one line.
+	public lineTstates: number;
+
+	// The T-state at which the first pixel of the screen (not the border) is displayed.
+	public firstPixelTstate: number;
+
+	// The memory, used to get the screen memory.
+	protected memory: ZxMemory;
+
+	// The screen memory at the start of the frame.
+	protected startScreen: Uint8Array;
+
+	// The border color at the start of the frame.
+	protected startBorder: number;
+
+	// The current border color.
+	protected border: number;
+
+	// The border changes during the frame (T-state and color).
+	protected borderTstates: number[];
+	protected borderColors: number[];
+
+	// The screen memory writes during the frame (T-state, offset and value).
+	protected writeTstates: number[];
+	protected writeOffsets: number[];
+	protected writeValues: number[];
+
+
+	/**
+	 * Returns the frame for a machine.
+	 * @param machine The 'zsim.machine' setting or, if no machine is set,
+	 * the 'zsim.visualMemory' setting. "128k", "plus2a", "plus3" and "ZX128"
+	 * use the 128K timing, all other the 48K timing.
+	 * @param memory The memory. Used to get the screen memory.
+	 */
+	public static create(machine: string, memory: ZxMemory): ZxUlaFrame {
+		switch (machine) {
+			case "128k":
+			case "ZX128":
+				return new ZxUlaFrame(memory, 228, 14364);
+			case "plus2a":
+			case "plus3":
+				return new ZxUlaFrame(memory, 228, 14365);
+		}
+		return new ZxUlaFrame(memory, 224, 14336);
+	}
+
+
+	/**
+	 * Constructor.
+	 * @param memory The memory. Used to get the screen memory.
+	 * @param lineTstates The T-states of one line.
+	 * @param firstPixelTstate The T-state of the first screen pixel.
+	 */
+	constructor(memory: ZxMemory, lineTstates: number, firstPixelTstate: number) {
+		this.memory=memory;
+		this.lineTstates=lineTstates;
+		this.firstPixelTstate=firstPixelTstate;
+		this.border=7;
+		this.startFrame();
+	}
+
+
+	/**
+	 * Starts a new frame. Called at the vertical interrupt.
+	 * Takes a copy of the current screen memory.
+	 */
+	public startFrame() {
+		this.startScreen=this.memory.getUlaScreenMemory(ZxUlaFrame.SCREEN_MEM_SIZE);
+		this.startBorder=this.border;
+		this.borderTstates=[];
+		this.borderColors=[];
+		this.writeTstates=[];
+		this.writeOffsets=[];
+		this.writeValues=[];
+	}
+
+
+	/**
+	 * Records a border change.
+	 * @param color The border color (0-7).
+	 * @param tstate The T-state within the frame.
+	 */
+	public borderChanged(color: number, tstate: number) {
+		this.border=color;
+		this.borderTstates.push(tstate);
+		this.borderColors.push(color);
+	}
+
+
+	/**
+	 * Records a write to the screen bank.
+	 * @param offset The offset in the screen bank. Writes outside the
+	 * screen memory are ignored.
+	 * @param value The written value.
+	 * @param tstate The T-state within the frame.
+	 */
+	public screenWritten(offset: number, value: number, tstate: number) {
+		if (offset>=ZxUlaFrame.SCREEN_MEM_SIZE)
+			return;
+		this.writeTstates.push(tstate);
+		this.writeOffsets.push(offset);
+		this.writeValues.push(value);
+	}
+
+
+	/**
+	 * Returns the current border color.
+	 */
+	public getBorder(): number {
+		return this.border;
+	}
+
+
+	/**
+	 * Renders the frame into pixels with a color index (0-15).
+	 * Changes that have not yet been recorded (i.e. the rest of the
+	 * current frame) are shown with the current state.
+	 * @returns An array of FRAME_WIDTH*FRAME_HEIGHT color indices.
+	 */
+	public createPixels(): Array<number> {
+		const width=ZxUlaFrame.FRAME_WIDTH;
+		const pixels=new Array<number>(width*ZxUlaFrame.FRAME_HEIGHT);
+		const screen=new Uint8Array(this.startScreen);
+		let border=this.startBorder;
+		let borderIndex=0;
+		const borderCount=this.borderTstates.length;
+		let writeIndex=0;
+		const writeCount=this.writeTstates.length;
+		let pixelIndex=0;
+
+		for (let line=0; line<ZxUlaFrame.FRAME_HEIGHT; line++) {
+			const y=line-ZxUlaFrame.BORDER_TOP;
+			const lineTstate=this.firstPixelTstate+y*this.lineTstates-ZxUlaFrame.BORDER_LEFT/2;
+			const inScreen=(y>=0&&y<ZxMemory.SCREEN_HEIGHT);
+			const pixelAddr=((y&0b111)<<8)|((y&0b1100_0000)<<5)|((y&0b11_1000)<<2);
+			const attrAddr=ZxUlaFrame.ATTR_START+((y&0b1111_1000)<<2);
+			for (let chunk=0; chunk<width/8; chunk++) {
+				// Apply all changes up to this position
+				const tstate=lineTstate+4*chunk;
+				while (borderIndex<borderCount&&this.borderTstates[borderIndex]<=tstate) {
+					border=this.borderColors[borderIndex];
+					borderIndex++;
+				}
+				while (writeIndex<writeCount&&this.writeTstates[writeIndex]<=tstate) {
+					screen[this.writeOffsets[writeIndex]]=this.writeValues[writeIndex];
+					writeIndex++;
+				}
+
+				// Screen or border
+				const x=chunk-ZxUlaFrame.BORDER_LEFT/8;
+				if (inScreen&&x>=0&&x<ZxMemory.SCREEN_WIDTH/8) {
+					const byteValue=screen[pixelAddr+x];
+					const color=screen[attrAddr+x];
+					const bright=(color&0x40)>>>3;
+					const ink=bright|(color&0x07);
+					const paper=bright|((color>>>3)&0x07);
+					for (let mask=0x80; mask; mask>>>=1)
+						pixels[pixelIndex++]=(byteValue&mask)? ink:paper;
+				}
+				else {
+					for (let i=0; i<8; i++)
+						pixels[pixelIndex++]=border;
+				}
+			}
+		}
+		return pixels;
+	}
+
+
+	/**
+	 * Converts the frame into a gif image.
+	 * @returns The frame as a gif buffer.
+	 */
+	public getImage(): number[] {
+		const pixels=this.createPixels();
+		return ImageConvert.createGifFromArray(ZxUlaFrame.FRAME_WIDTH, ZxUlaFrame.FRAME_HEIGHT, pixels, ZxMemory.getZxPalette());
+	}
+}
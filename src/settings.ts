@@ -106,6 +106,85 @@ export interface CSpectType {
 }
 
 
+// Definitions for MAME remote type.
+export interface MameType {
+	// The hostname/IP address of the MAME gdbstub socket.
+	hostname: string;
+
+	// The port of the MAME gdbstub socket.
+	port: number;
+
+	/// The socket timeout in seconds.
+	socketTimeout: number;
+}
+
+
+// Definitions for the generic gdb RSP remote type.
+export interface GdbRspType {
+	// The hostname/IP address of the gdb stub socket.
+	hostname: string;
+
+	// The port of the gdb stub socket.
+	port: number;
+
+	/// The socket timeout in seconds.
+	socketTimeout: number;
+
+	/// The register mapping table: the names of the 16 bit registers in
+	/// the order of the 'g' packet, e.g. ["AF", "BC", "DE", "HL", "SP", "PC", ...].
+	registers: Array<string>;
+}
+
+
+// Definitions for the replay of a recorded DZRP session.
+export interface ReplayType {
+	// The path of the recording, see 'dzrpRecordFile'.
+	path: string;
+}
+
+
+// Definitions for the unit test result files.
+export interface UnitTestReportType {
+	// The path of the JUnit XML file. Not written if undefined.
+	junit: string;
+	// The path of the TAP file. Not written if undefined.
+	tap: string;
+	// The path of the JSON file with the covered lines per test case. Not written if undefined.
+	coverage: string;
+}
+
+
+// Definitions for the code coverage files.
+export interface CodeCoverageReportType {
+	// The path of the LCOV file. Not written if undefined.
+	lcov: string;
+	// The path of the Cobertura XML file. Not written if undefined.
+	cobertura: string;
+}
+
+
+// Definitions for the comparison of the unit test T-states with the previous run.
+export interface UnitTestTstatesType {
+	// The path of the JSON file with the T-states of the previous run. Not used if undefined.
+	file: string;
+	// The allowed increase in percent. If undefined the T-states are only reported.
+	maxIncrease: number;
+}
+
+
+// Definitions for the direct serial connection to the ZX Next.
+export interface ZxNextSerialType {
+	// The serial device, e.g. "/dev/tty.usbserial".
+	path: string;
+
+	// The baud rate.
+	baudRate: number;
+
+	// The flow control: "none", "rtscts" or "xonxoff".
+	flowControl: string;
+}
+
+
 // Definitions for ZX Next remote type.
 export interface ZxNextSocketType {
 	// The hostname/IP address of the socket that connects the serial port.
@@ -114,15 +193,31 @@ export interface ZxNextSocketType {
 	// The port of the socket that connects the serial port.
 	port: number;
 
-	/// The socket timeout in seconds.
+	/// The socket timeout in seconds. Also used for the serial connection.
 	socketTimeout: number;
+
+	/// If set the serial device is used directly instead of the socket.
+	serial: ZxNextSerialType;
 }
 
 
 /// Definitions for the 'zsim' remote type.
 export interface ZxSimType {
+	// The simulated machine: "48k", "128k", "plus2a", "plus3" or "next".
+	// Selects the ROM set, the paging ports, the contention and the interrupt timing.
+	// The defaults of 'memoryPagingControl', 'tbblueMemoryManagementSlots',
+	// 'visualMemory' and 'Z80N' are derived from it.
+	// If undefined the machine is defined by these settings only.
+	machine: string|undefined,
+	// The path to a JSON file with the description of a custom (non-Spectrum)
+	// machine: memory map, banking ports, I/O stubs, interrupt and display.
+	// The ZX Spectrum specific options default to off.
+	machineFile: string|undefined,
 	// Loads the 48K Spectrum ROM (or the 128K Spectrum ROM) at start. Otherwise the memory 0-0x3FFF is empty RAM.
 	loadZxRom: boolean,
+	// The path of the ROM file to load instead of the included one: 16K (48K), 32K (128K) or 64K (+2A/+3).
+	// Required for "plus2a" and "plus3" as their ROMs are not included.
+	romFile: string|undefined,
 	// If enabled the simulator shows a keyboard to simulate keypresses.
 	zxKeyboard: boolean,
 	// If enabled the simulator shows the access to the memory (0-0xFFFF) visually while the program is running.
@@ -132,19 +227,33 @@ export interface ZxSimType {
 	// - "ZX48": ROM and RAM as of the ZX Spectrum 48K.
 	// - "ZX128": Banked memory as of the ZX Spectrum 48K (16k slots/banks).
 	// - "ZXNEXT": Banked memory as of the ZX Next (8k slots/banks).
+	// "ZX48" and "ZX128" also select the contention model and the frame timing.
 	visualMemory: string,
 	// If enabled it shows the contents of the ZX Spectrum screen.
 	ulaScreen: boolean,
+	// If enabled (together with 'ulaScreen') the full frame incl. border is shown.
+	// Border and attribute changes during the frame are displayed at their scanline.
+	ulaBorder: boolean,
 	// If enabled the ZX 128K memory banks can be paged in. Use this to simulate a ZX 128K.
 	memoryPagingControl: boolean,
 	// If enabled the ZX Next memory banking is enabled through registers 0x50-0x57.
 	tbblueMemoryManagementSlots: boolean,
+	// If enabled (together with 'ulaScreen') the ZX Next Layer 2 and tilemap are shown
+	// together with the ULA screen. Palettes, layer priority and clip windows are taken into account.
+	// Also the hardware sprites are simulated.
+	nextLayers: boolean,
 	// The number of interrupts to calculate the average from. 0 to disable.
 	cpuLoadInterruptRange: number,
 	// If enabled the Z80N extended instructions are supported.
 	Z80N: boolean,
 	// If enabled an interrupt is generated after ca. 20ms (this assumes a CPU clock of 3.5MHz).
 	vsyncInterrupt: boolean,
+	// If enabled the beeper (and the AY-3-8912 for ZX 128K/ZX Next) is simulated and played.
+	audio: boolean,
+	// The simulated joystick: "none", "kempston", "sinclair1", "sinclair2" or "cursor".
+	joystick: string,
+	// If enabled the ROM's LD-BYTES routine is trapped and the data of the tape is loaded directly.
+	tapeFastLoad: boolean,
 }
 
 
@@ -162,12 +271,25 @@ export interface SettingsParameters extends DebugProtocol.LaunchRequestArguments
 	// The special settings for CSpect.
 	cspect: CSpectType;
 
+	// The special settings for MAME.
+	mame: MameType;
+
+	// The special settings for a generic gdb stub.
+	gdbrsp: GdbRspType;
+
 	// The special settings for the internal Z80 simulator.
 	zsim: ZxSimType;
 
 	// The special settings for the serial connection.
 	zxnext: ZxNextSocketType;
 
+	// The special settings for the replay of a recorded session.
+	replay: ReplayType;
+
+	/// If set all DZRP messages (cspect, zxnext) are recorded to this file.
+	/// The file can be replayed with remoteType 'replay'.
+	dzrpRecordFile: string;
+
 	/// true if the configuration is for unit tests.
 	unitTests: false;
 
@@ -239,6 +361,15 @@ export interface SettingsParameters extends DebugProtocol.LaunchRequestArguments
 
 	/// The timeout for any unit test in seconds.
 	unitTestTimeout: number;
+
+	/// The files to write the unit test results to.
+	unitTestReport: UnitTestReportType;
+
+	/// The file to store the unit test T-states for the comparison with the next run.
+	unitTestTstates: UnitTestTstatesType;
+
+	/// The files to write the code coverage to.
+	codeCoverageReport: CodeCoverageReportType;
 }
 
 
@@ -271,8 +402,12 @@ export class Settings {
 				remoteType: <any>undefined,
 				zrcp: <any>undefined,
 				cspect: <any>undefined,
+				mame: <any>undefined,
+				gdbrsp: <any>undefined,
 				zsim: <any>undefined,
 				zxnext: <any>undefined,
+				replay: <any>undefined,
+				dzrpRecordFile: <any>undefined,
 				unitTests: <any>undefined,
 				rootFolder: <any>undefined,
 				listFiles: <any>undefined,
@@ -292,6 +427,9 @@ export class Settings {
 				memoryViewer: <any>undefined,
 				tabSize: <any>undefined,
 				unitTestTimeout: <any>undefined,
+				unitTestReport: <any>undefined,
+				unitTestTstates: <any>undefined,
+				codeCoverageReport: <any>undefined,
 			}
 		}
 
@@ -327,19 +465,70 @@ export class Settings {
 		if (!Settings.launch.cspect.socketTimeout)
 			Settings.launch.cspect.socketTimeout=5;	// 5 secs
 
+		// mame
+		if (!Settings.launch.mame)
+			Settings.launch.mame={} as MameType;
+		if (Settings.launch.mame.hostname==undefined)
+			Settings.launch.mame.hostname='localhost';
+		if (Settings.launch.mame.port==undefined)
+			Settings.launch.mame.port=23946;
+		if (!Settings.launch.mame.socketTimeout)
+			Settings.launch.mame.socketTimeout=5;	// 5 secs
+
+		// gdbrsp
+		if (!Settings.launch.gdbrsp)
+			Settings.launch.gdbrsp={} as GdbRspType;
+		if (Settings.launch.gdbrsp.hostname==undefined)
+			Settings.launch.gdbrsp.hostname='localhost';
+		if (Settings.launch.gdbrsp.port==undefined)
+			Settings.launch.gdbrsp.port=1234;
+		if (!Settings.launch.gdbrsp.socketTimeout)
+			Settings.launch.gdbrsp.socketTimeout=5;	// 5 secs
+		if (!Settings.launch.gdbrsp.registers)
+			Settings.launch.gdbrsp.registers=["AF", "BC", "DE", "HL", "SP", "PC", "IX", "IY", "AF'", "BC'", "DE'", "HL'", "IR"];	// gdb's z80 order
+
 		// zsim
 		if (!Settings.launch.zsim)
 			Settings.launch.zsim={} as ZxSimType;
+		if (Settings.launch.zsim.machine!=undefined) {
+			// The machine selects paging, memory view and Z80N
+			const machine=Settings.launch.zsim.machine;
+			const zx128=(machine=='128k'||machine=='plus2a'||machine=='plus3');
+			if (Settings.launch.zsim.memoryPagingControl==undefined)
+				Settings.launch.zsim.memoryPagingControl=zx128;
+			if (Settings.launch.zsim.tbblueMemoryManagementSlots==undefined)
+				Settings.launch.zsim.tbblueMemoryManagementSlots=(machine=='next');
+			if (Settings.launch.zsim.visualMemory==undefined)
+				Settings.launch.zsim.visualMemory=(machine=='next')? 'ZXNEXT':(zx128)? 'ZX128':'ZX48';
+			if (Settings.launch.zsim.Z80N==undefined)
+				Settings.launch.zsim.Z80N=(machine=='next');
+		}
+		if (Settings.launch.zsim.romFile)
+			Settings.launch.zsim.romFile=Utility.getAbsFilePath(Settings.launch.zsim.romFile);
+		if (Settings.launch.zsim.machineFile) {
+			// A custom machine has no ZX Spectrum HW
+			Settings.launch.zsim.machineFile=Utility.getAbsFilePath(Settings.launch.zsim.machineFile);
+			if (Settings.launch.zsim.loadZxRom==undefined)
+				Settings.launch.zsim.loadZxRom=false;
+			if (Settings.launch.zsim.zxKeyboard==undefined)
+				Settings.launch.zsim.zxKeyboard=false;
+			if (Settings.launch.zsim.ulaScreen==undefined)
+				Settings.launch.zsim.ulaScreen=false;
+		}
 		if (Settings.launch.zsim.loadZxRom==undefined)
 			Settings.launch.zsim.loadZxRom=true;
 		if (Settings.launch.zsim.zxKeyboard==undefined)
 			Settings.launch.zsim.zxKeyboard=true;
 		if (Settings.launch.zsim.ulaScreen==undefined)
 			Settings.launch.zsim.ulaScreen=true;
+		if (Settings.launch.zsim.ulaBorder==undefined)
+			Settings.launch.zsim.ulaBorder=Settings.launch.zsim.ulaScreen;
 		if (Settings.launch.zsim.memoryPagingControl==undefined)
 			Settings.launch.zsim.memoryPagingControl=false;
 		if (Settings.launch.zsim.tbblueMemoryManagementSlots==undefined)
 			Settings.launch.zsim.tbblueMemoryManagementSlots=false;
+		if (Settings.launch.zsim.nextLayers==undefined)
+			Settings.launch.zsim.nextLayers=Settings.launch.zsim.tbblueMemoryManagementSlots&&Settings.launch.zsim.ulaScreen;
 		if (Settings.launch.zsim.cpuLoadInterruptRange==undefined)
 			Settings.launch.zsim.cpuLoadInterruptRange=1;
 		if (Settings.launch.zsim.visualMemory==undefined) {
@@ -371,6 +560,12 @@ export class Settings {
 			else
 				Settings.launch.zsim.vsyncInterrupt=false;
 		}
+		if (Settings.launch.zsim.audio==undefined)
+			Settings.launch.zsim.audio=Settings.launch.zsim.ulaScreen;
+		if (Settings.launch.zsim.joystick==undefined)
+			Settings.launch.zsim.joystick='none';
+		if (Settings.launch.zsim.tapeFastLoad==undefined)
+			Settings.launch.zsim.tapeFastLoad=true;
 
 		// zxnext
 		if (!Settings.launch.zxnext)
@@ -381,6 +576,12 @@ export class Settings {
 			Settings.launch.zxnext.port=12000;
 		if (!Settings.launch.zxnext.socketTimeout)
 			Settings.launch.zxnext.socketTimeout=0.5;	// 0.5 secs, needs to be short to show a warning fast if debugged program is running.
+		if (Settings.launch.zxnext.serial) {
+			if (Settings.launch.zxnext.serial.baudRate==undefined)
+				Settings.launch.zxnext.serial.baudRate=230400;
+			if (!Settings.launch.zxnext.serial.flowControl)
+				Settings.launch.zxnext.serial.flowControl='none';
+		}
 
 
 
@@ -426,6 +627,16 @@ export class Settings {
 		else
 			Settings.launch.load = '';
 
+		// replay
+		if (!Settings.launch.replay)
+			Settings.launch.replay={} as ReplayType;
+		if (Settings.launch.replay.path)
+			Settings.launch.replay.path=Utility.getAbsFilePath(Settings.launch.replay.path);
+
+		// DZRP recording
+		if (Settings.launch.dzrpRecordFile)
+			Settings.launch.dzrpRecordFile=Utility.getAbsFilePath(Settings.launch.dzrpRecordFile);
+
 		if(!Settings.launch.loadObjs)
 			Settings.launch.loadObjs = [];
 		for(let loadObj of Settings.launch.loadObjs) {
@@ -472,8 +683,8 @@ export class Settings {
 
 		// Code coverage
 		if (Settings.launch.history.codeCoverageEnabled==undefined) {
-			if (Settings.launch.remoteType=='cspect') {
-				// not supported by cspect
+			if (Settings.launch.remoteType=='cspect'||Settings.launch.remoteType=='mame'||Settings.launch.remoteType=='gdbrsp'||Settings.launch.remoteType=='replay') {
+				// not supported by cspect, mame, gdbrsp and replay
 				Settings.launch.history.codeCoverageEnabled=false;
 			}
 			else {
@@ -555,6 +766,30 @@ export class Settings {
 
 		if(!Settings.launch.unitTestTimeout)
 			Settings.launch.unitTestTimeout=1;	///< 1000 ms
+
+		// Unit test report files
+		if (!Settings.launch.unitTestReport)
+			Settings.launch.unitTestReport={} as UnitTestReportType;
+		if (Settings.launch.unitTestReport.junit)
+			Settings.launch.unitTestReport.junit=Utility.getAbsFilePath(Settings.launch.unitTestReport.junit);
+		if (Settings.launch.unitTestReport.tap)
+			Settings.launch.unitTestReport.tap=Utility.getAbsFilePath(Settings.launch.unitTestReport.tap);
+		if (Settings.launch.unitTestReport.coverage)
+			Settings.launch.unitTestReport.coverage=Utility.getAbsFilePath(Settings.launch.unitTestReport.coverage);
+
+		// Unit test T-states of the previous run
+		if (!Settings.launch.unitTestTstates)
+			Settings.launch.unitTestTstates={} as UnitTestTstatesType;
+		if (Settings.launch.unitTestTstates.file)
+			Settings.launch.unitTestTstates.file=Utility.getAbsFilePath(Settings.launch.unitTestTstates.file);
+
+		// Code coverage files
+		if (!Settings.launch.codeCoverageReport)
+			Settings.launch.codeCoverageReport={} as CodeCoverageReportType;
+		if (Settings.launch.codeCoverageReport.lcov)
+			Settings.launch.codeCoverageReport.lcov=Utility.getAbsFilePath(Settings.launch.codeCoverageReport.lcov);
+		if (Settings.launch.codeCoverageReport.cobertura)
+			Settings.launch.codeCoverageReport.cobertura=Utility.getAbsFilePath(Settings.launch.codeCoverageReport.cobertura);
 	}
 
 
@@ -566,12 +801,70 @@ export class Settings {
 	public static CheckSettings() {
 		// Check remote type
 		const rType=Settings.launch.remoteType;
-		const allowedTypes=['zrcp', 'cspect', 'zxnext', 'zsim'];
+		const allowedTypes=['zrcp', 'cspect', 'zxnext', 'zsim', 'mame', 'gdbrsp', 'replay'];
 		const found = (allowedTypes.indexOf(rType) >= 0);
 		if (!found) {
 			throw Error("Remote type '" + rType + "' does not exist. Allowed are " + allowedTypes.join(', ') + ".");
 		}
 
+		// Serial connection
+		const serial=Settings.launch.zxnext.serial;
+		if (rType=='zxnext'&&serial) {
+			if (!serial.path)
+				throw Error("'zxnext.serial.path' is not set.");
+			const allowedFlowControls=['none', 'rtscts', 'xonxoff'];
+			if (allowedFlowControls.indexOf(serial.flowControl)<0)
+				throw Error("'zxnext.serial.flowControl' is '"+serial.flowControl+"'. Allowed are "+allowedFlowControls.join(', ')+".");
+		}
+
+		// Machine and joystick
+		if (rType=='zsim') {
+			const machine=Settings.launch.zsim.machine;
+			const allowedMachines=['48k', '128k', 'plus2a', 'plus3', 'next'];
+			if (machine!=undefined&&allowedMachines.indexOf(machine)<0)
+				throw Error("'zsim.machine' is '"+machine+"'. Allowed are "+allowedMachines.join(', ')+".");
+			const machineFile=Settings.launch.zsim.machineFile;
+			if (machineFile) {
+				if (machine!=undefined)
+					throw Error("Use either 'zsim.machine' or 'zsim.machineFile'.");
+				if (!fs.existsSync(machineFile))
+					throw Error("File '"+machineFile+"' does not exist.");
+			}
+			if (machine!=undefined) {
+				// The explicit paging settings must not contradict the machine
+				const zx128=(machine=='128k'||machine=='plus2a'||machine=='plus3');
+				if (Settings.launch.zsim.memoryPagingControl!=zx128&&machine!='next')
+					throw Error("'zsim.memoryPagingControl' is "+Settings.launch.zsim.memoryPagingControl+" but 'zsim.machine' is '"+machine+"'.");
+				if (Settings.launch.zsim.tbblueMemoryManagementSlots!=(machine=='next'))
+					throw Error("'zsim.tbblueMemoryManagementSlots' is "+Settings.launch.zsim.tbblueMemoryManagementSlots+" but 'zsim.machine' is '"+machine+"'.");
+			}
+			const romFile=Settings.launch.zsim.romFile;
+			if (romFile&&!fs.existsSync(romFile))
+				throw Error("File '"+romFile+"' does not exist.");
+			if ((machine=='plus2a'||machine=='plus3')&&Settings.launch.zsim.loadZxRom) {
+				// The +2A/+3 ROMs are not included
+				if (!romFile)
+					throw Error("'zsim.machine' '"+machine+"' requires the ROMs of the ZX +2A/+3 (64K) in 'zsim.romFile'. They are not included in DeZog.");
+				if (fs.statSync(romFile).size!=0x10000)
+					throw Error("'zsim.romFile' ('"+romFile+"') has to contain the 4 ROMs of the ZX +2A/+3 (64K).");
+			}
+			const joystick=Settings.launch.zsim.joystick;
+			const allowedJoysticks=['none', 'kempston', 'sinclair1', 'sinclair2', 'cursor'];
+			if (allowedJoysticks.indexOf(joystick)<0)
+				throw Error("'zsim.joystick' is '"+joystick+"'. Allowed are "+allowedJoysticks.join(', ')+".");
+		}
+
+		// Replay
+		if (rType=='replay') {
+			const replayPath=Settings.launch.replay.path;
+			if (!replayPath)
+				throw Error("'replay.path' is not set.");
+			if (!fs.existsSync(replayPath))
+				throw Error("File '"+replayPath+"' does not exist.");
+			if (Settings.launch.dzrpRecordFile)
+				throw Error("'dzrpRecordFile' cannot be used together with remoteType 'replay'.");
+		}
+
 		// List files
 		for(let listFile of Settings.launch.listFiles) {
 			// Check that file exists
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {CodeCoverageReport} from '../codecoveragereport';
+import {Labels} from '../labels/labels';
+import {Utility} from '../misc/utility';
+
+
+
+suite('CodeCoverageReport', () => {
+	// ld a,5 and jp UNITTEST_TEST_READY_SUCCESS of UT_pass
+	const covered=new Set<number>([0x8031, 0x8033]);
+	let file: string;
+	let lineNr: number;
+
+	setup(() => {
+		Labels.init();
+		Labels.loadAsmListFile('src/tests/data/unittest/ut.list', undefined, [""], undefined, "sjasmplus", 0);
+		Labels.finish();
+		const entry=Labels.getFileAndLineForAddress(0x8031);
+		file=entry.fileName;
+		lineNr=entry.lineNr;
+	});
+
+	test('addAddresses/clear', () => {
+		CodeCoverageReport.clear();
+		CodeCoverageReport.addAddresses(new Set([1, 2]));
+		CodeCoverageReport.addAddresses([2, 3]);
+		assert.equal(CodeCoverageReport.getAddresses().size, 3);
+		CodeCoverageReport.clear();
+		assert.equal(CodeCoverageReport.getAddresses().size, 0);
+	});
+
+	test('getLcov', () => {
+		const lines=CodeCoverageReport.getLcov(covered).split('\n');
+		assert.equal(lines[0], 'TN:');
+		assert.equal(lines[1], 'SF:'+file);
+		assert.ok(lines.includes('DA:'+(lineNr+1)+',1'));
+		assert.ok(lines.includes('LH:2'));
+		const countDA=lines.filter(line => line.startsWith('DA:')).length;
+		assert.ok(lines.includes('LF:'+countDA));
+		assert.equal(lines.filter(line => line.endsWith(',0')).length, countDA-2);
+		assert.equal(lines[lines.length-2], 'end_of_record');
+	});
+
+	test('getCobertura', () => {
+		const xml=CodeCoverageReport.getCobertura(covered, new Date(1000));
+		assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>'));
+		assert.ok(xml.includes('lines-covered="2"'));
+		assert.ok(xml.includes('timestamp="1000"'));
+		const relFile=Utility.getRelFilePath(file);
+		assert.ok(xml.includes('<package name="'+path.dirname(relFile)+'"'));
+		assert.ok(xml.includes('<class name="ut.list" filename="'+relFile+'"'));
+		assert.ok(xml.includes('<line number="'+(lineNr+1)+'" hits="1" branch="false"/>'));
+		assert.ok(xml.endsWith('</coverage>\n'));
+	});
+});
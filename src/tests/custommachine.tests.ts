@@ -0,0 +1,184 @@
+
+import * as assert from 'assert';
+import {CustomMachine} from '../remotes/zxsimulator/custommachine';
+import {Zx81Display} from '../remotes/zxsimulator/zx81display';
+import {CharTerminal} from '../remotes/zxsimulator/charterminal';
+import {ZxMemory} from '../remotes/zxsimulator/zxmemory';
+import {ZSimRemote} from '../remotes/zxsimulator/zsimremote';
+import {Settings} from '../settings';
+import {Utility} from '../misc/utility';
+import {Z80RegistersClass} from '../remotes/z80registers';
+
+suite('CustomMachine', () => {
+
+	suite('parse', () => {
+
+		test('defaults', () => {
+			const machine=new CustomMachine();
+			machine.parse({}, '.');
+			assert.equal(machine.cpuFreq, 3500000);
+			assert.equal(machine.memory.length, 0);
+			assert.equal(machine.interrupt.source, 'none');
+			assert.equal(machine.display, undefined);
+		});
+
+		test('values', () => {
+			const machine=new CustomMachine();
+			machine.parse({
+				name: 'Board',
+				cpuFrequency: 4000000,
+				memory: [
+					{start: '0x0000', size: '0x2000', type: 'rom', file: 'boot.rom'},
+					{start: '0xE000', size: 0x2000, mirror: '0x2000'}
+				],
+				banking: [{port: '0x78', slot: 4, size: '0x4000'}],
+				ports: [{port: 0x10, mask: '0xF0', value: '0x5A'}],
+				interrupt: {source: 'nmi'},
+				display: {type: 'terminal', address: '0xF000', columns: 40, lines: 10, keyboardPort: 1}
+			}, '/rom');
+			assert.equal(machine.name, 'Board');
+			assert.equal(machine.memory[0].type, 'rom');
+			assert.equal(machine.memory[0].file, '/rom/boot.rom');
+			assert.equal(machine.memory[1].type, 'ram');
+			assert.equal(machine.memory[1].mirror, 0x2000);
+			assert.equal(machine.banking[0].slotCount, 2);
+			assert.equal(machine.banking[0].mask, 0xFFFF);
+			assert.equal(machine.ports[0].value, 0x5A);
+			assert.equal(machine.interrupt.source, 'nmi');
+			assert.equal(machine.interrupt.tstates, 80000);
+			assert.equal(machine.display!.address, 0xF000);
+			assert.equal(machine.display!.keyboardPort, 1);
+		});
+
+		test('errors', () => {
+			const machine=new CustomMachine();
+			assert.throws(() => machine.parse({memory: [{start: '0x1000', size: '0x2000'}]}, '.'), /aligned/);
+			assert.throws(() => machine.parse({memory: [{start: 'abc', size: '0x2000'}]}, '.'), /'memory.start' is not a number/);
+			assert.throws(() => machine.parse({memory: [{start: 0, size: '0x2000', type: 'flash'}]}, '.'), /memory type 'flash'/);
+			assert.throws(() => machine.parse({banking: [{port: 0, slot: 7, size: '0x4000'}]}, '.'), /exceeds/);
+			assert.throws(() => machine.parse({interrupt: {source: 'irq'}}, '.'), /interrupt source 'irq'/);
+			assert.throws(() => machine.parse({display: {type: 'vga'}}, '.'), /display type 'vga'/);
+		});
+	});
+
+
+	suite('zsim', () => {
+		let zsim: ZSimRemote;
+
+		setup(() => {
+			Utility.setExtensionPath('.');
+			const cfg: any={
+				zsim: {
+					machineFile: 'machine.json'
+				},
+				history: {
+					reverseDebugInstructionCount: 0,
+					spotCount: 0,
+					codeCoverageEnabled: false
+				}
+			};
+			Settings.Init(cfg, '');
+			Z80RegistersClass.createRegisters();
+			zsim=new ZSimRemote();
+		});
+
+		test('Settings', () => {
+			assert.ok(!Settings.launch.zsim.loadZxRom);
+			assert.ok(!Settings.launch.zsim.ulaScreen);
+			assert.equal(Settings.launch.zsim.visualMemory, '64K');
+		});
+
+		test('memory map', () => {
+			const machine=new CustomMachine();
+			machine.parse({
+				memory: [
+					{start: 0, size: '0x4000', type: 'rom', file: 'data/48.rom'},
+					{start: '0xC000', size: '0x4000', mirror: '0x4000'}
+				]
+			}, '.');
+			// @ts-ignore: protected
+			zsim.configureCustomMachine(machine);
+			assert.deepEqual(zsim.memory.getSlots(), [0, 1, 2, 3, 4, 5, 2, 3]);
+			// ROM
+			assert.equal(zsim.memory.read8(0x0001), 0xAF);
+			zsim.memory.write8(0x0001, 0x12);
+			assert.equal(zsim.memory.read8(0x0001), 0xAF);
+			// Mirror
+			zsim.memory.write8(0x4000, 0x34);
+			assert.equal(zsim.memory.read8(0xC000), 0x34);
+			// RAM
+			zsim.memory.write8(0x8000, 0x56);
+			assert.equal(zsim.memory.read8(0x8000), 0x56);
+		});
+
+		test('banking and ports', () => {
+			const machine=new CustomMachine();
+			machine.parse({
+				banking: [{port: '0x78', mask: '0xFF', slot: 6, size: '0x4000', firstBank: 16, valueMask: '0x03'}],
+				ports: [{port: '0x10', mask: '0xF0', value: '0x5A'}]
+			}, '.');
+			// @ts-ignore: protected
+			zsim.configureCustomMachine(machine);
+			zsim.ports.write(0x1278, 0x05);
+			assert.deepEqual(zsim.memory.getSlots(), [0, 1, 2, 3, 4, 5, 18, 19]);
+			assert.equal(zsim.ports.read(0x0013), 0x5A);
+			assert.equal(zsim.ports.read(0x0023), 0);
+		});
+
+		test('interrupt', () => {
+			const machine=new CustomMachine();
+			machine.parse({interrupt: {source: 'int', tstates: 1000}}, '.');
+			// @ts-ignore: protected
+			zsim.configureCustomMachine(machine);
+			const cpu=zsim.z80Cpu as any;
+			assert.ok(cpu.vsyncInterrupt);
+			assert.ok(!cpu.nmiInterrupt);
+			assert.equal(cpu.INTERRUPT_TIME, 1000);
+		});
+
+		test('terminal keyboard', () => {
+			const machine=new CustomMachine();
+			machine.parse({display: {type: 'terminal', address: '0xF000', columns: 4, lines: 2, keyboardPort: '0x01'}}, '.');
+			// @ts-ignore: protected
+			zsim.configureCustomMachine(machine);
+			zsim.terminal!.keyPressed(0x41);
+			zsim.terminal!.keyPressed(0x0D);
+			assert.equal(zsim.ports.read(0x01), 0x41);
+			assert.equal(zsim.ports.read(0x01), 0x0D);
+			assert.equal(zsim.ports.read(0x01), 0);
+		});
+	});
+
+
+	test('CharTerminal', () => {
+		const memory=new ZxMemory();
+		memory.writeBlock(0x8000, new Uint8Array([0x48, 0x69, 0x00, 0x21, 0x0D, 0x7F, 0x41, 0x42]));
+		const terminal=new CharTerminal(memory, 0x8000, 4, 2);
+		assert.equal(terminal.getText(), 'Hi !\n  AB');
+	});
+
+
+	test('Zx81Display', () => {
+		const memory=new ZxMemory();
+		// Character 1: top line set
+		memory.writeBlock(Zx81Display.CHARSET+8, new Uint8Array([0xFF, 0, 0, 0, 0, 0, 0, 0]));
+		// Collapsed display file: line 0 = char 0, char 1, line 1 = inverse char 0
+		const dfile=0x8000;
+		memory.writeBlock(Zx81Display.D_FILE, new Uint8Array([dfile&0xFF, dfile>>>8]));
+		memory.writeBlock(dfile, new Uint8Array([0x76, 0x00, 0x01, 0x76, 0x80, 0x76]));
+		const display=new Zx81Display(memory);
+		const pixels=display.createPixels();
+		const width=256;
+		// Char 0 (space) at 0,0
+		assert.equal(pixels[0], 0);
+		// Char 1 at 1,0
+		assert.equal(pixels[8], 1);
+		assert.equal(pixels[15], 1);
+		assert.equal(pixels[width+8], 0);
+		// Inverse space at 0,1
+		assert.equal(pixels[8*width], 1);
+		assert.equal(pixels[8*width+7], 1);
+		// Empty rest
+		assert.equal(pixels[16*width], 0);
+	});
+});
@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {RemoteFactory, Remote} from '../remotes/remotefactory';
+import {DzrpBufferRemote} from '../remotes/dzrpbuffer/dzrpbufferremote';
+import {DzrpRecording} from '../remotes/dzrpbuffer/dzrprecording';
+import {ZxNextReplayRemote} from '../remotes/dzrpbuffer/replayremote';
+import {DZRP} from '../remotes/dzrp/dzrpremote';
+import {Settings} from '../settings';
+import {Z80RegistersClass, Z80Registers} from '../remotes/z80registers';
+
+
+/**
+ * A remote that answers each command with its data.
+ */
+class EchoRemote extends DzrpBufferRemote {
+	protected async sendBuffer(buffer: Buffer): Promise<void> {
+		const seqno=buffer.subarray(4, 5);
+		setImmediate(() => this.receivedMsg(Buffer.concat([seqno, buffer.subarray(6)])));
+	}
+}
+
+
+/**
+ * Creates a DZRP message as it would be sent.
+ */
+function createMessage(seqno: number, cmd: DZRP, data: Array<number>): Buffer {
+	const buffer=Buffer.alloc(6+data.length);
+	buffer.writeUInt32LE(2+data.length, 0);
+	buffer[4]=seqno;
+	buffer[5]=cmd;
+	buffer.set(data, 6);
+	return buffer;
+}
+
+
+suite('DzrpRecording', () => {
+	let dir: string;
+	let filePath: string;
+
+	setup(() => {
+		dir=fs.mkdtempSync(path.join(os.tmpdir(), 'dzrprec-'));
+		filePath=path.join(dir, 'session.dzrp');
+	});
+
+	teardown(() => {
+		for (const file of fs.readdirSync(dir))
+			fs.unlinkSync(path.join(dir, file));
+		fs.rmdirSync(dir);
+	});
+
+
+	/// Writes a recording file.
+	function writeRecording(remoteType: string, entries: Array<any>) {
+		const lines=[{format: 1, remoteType}, ...entries].map(entry => JSON.stringify(entry));
+		fs.writeFileSync(filePath, lines.join('\n')+'\n');
+	}
+
+
+	test('record', async () => {
+		const cfg: any={
+			remoteType: 'zxnext',
+			dzrpRecordFile: filePath
+		};
+		Settings.Init(cfg, '');
+		Z80RegistersClass.createRegisters();
+		const remote=new EchoRemote();
+		await remote.sendDzrpCmdLoopback(Buffer.from([1, 2, 3]));
+		// Notification
+		// @ts-ignore: protected
+		remote.receivedMsg(Buffer.from([0, 1, 2, 0x34, 0x12]));
+
+		// Read back
+		const recording=new DzrpRecording(filePath);
+		assert.equal('zxnext', recording.remoteType);
+		const msgs=new Array<Buffer>();
+		await new Promise<void>(resolve => {
+			recording.replay(createMessage(7, DZRP.CMD_LOOPBACK, [1, 2, 3]), data => {
+				msgs.push(data);
+				if (msgs.length==2)
+					resolve();
+			});
+		});
+		assert.deepEqual([7, 1, 2, 3], [...msgs[0]]);
+		assert.deepEqual([0, 1, 2, 0x34, 0x12], [...msgs[1]]);
+		assert.ok(recording.isAtEnd());
+	});
+
+
+	test('wrong format', () => {
+		fs.writeFileSync(filePath, 'abc\n');
+		assert.throws(() => new DzrpRecording(filePath), /is not a DZRP recording/);
+	});
+
+
+	test('different command', () => {
+		writeRecording('zxnext', [{cmd: DZRP.CMD_GET_SLOTS, name: 'CMD_GET_SLOTS', data: '', resp: '0001020304050607'}]);
+		const recording=new DzrpRecording(filePath);
+		assert.throws(() => recording.replay(createMessage(1, DZRP.CMD_READ_MEM, [0, 0, 0x80, 1, 0]), () => {}), /Recorded CMD_GET_SLOTS \(entry 1\) but sent CMD_READ_MEM/);
+	});
+
+
+	test('replay ZX Next session', async () => {
+		const regs=Buffer.alloc(27);
+		regs.writeUInt16LE(0x1234, 0);	// PC
+		writeRecording('zxnext', [
+			{cmd: DZRP.CMD_INIT, data: '', resp: Buffer.concat([Buffer.from([0, 1, 7, 0]), Buffer.from('Recorded\0')]).toString('hex')},
+			{cmd: DZRP.CMD_GET_REGISTERS, data: '', resp: regs.toString('hex')},
+			{cmd: DZRP.CMD_READ_MEM, data: '', resp: '0a0b0c'}
+		]);
+		const cfg: any={
+			remoteType: 'replay',
+			replay: {
+				path: filePath
+			}
+		};
+		Settings.Init(cfg, '');
+		Z80RegistersClass.createRegisters();
+		RemoteFactory.createRemote('replay');
+		assert.ok(Remote instanceof ZxNextReplayRemote);
+
+		const text=await new Promise<string>((resolve, reject) => {
+			Remote.once('initialized', text => resolve(text));
+			Remote.once('error', err => reject(err));
+			Remote.init();
+		});
+		assert.equal("'Recorded' initialized.", text);
+		assert.equal(0x1234, Z80Registers.getPC());
+
+		const data=await Remote.readMemoryDump(0x8000, 3);
+		assert.deepEqual([0x0A, 0x0B, 0x0C], [...data]);
+
+		// End of recording: the request is rejected immediately (not by the timeout)
+		let emitted: Error|undefined;
+		Remote.once('error', err => emitted=err);
+		const start=Date.now();
+		await assert.rejects(Remote.readMemoryDump(0x8000, 3), /End of recording/);
+		assert.ok(Date.now()-start<500);
+		assert.ok(emitted!.message.includes('End of recording'));
+
+		await Remote.disconnect();
+		RemoteFactory.removeRemote();
+	});
+
+});
@@ -0,0 +1,149 @@
+import {Server, Socket, createServer, AddressInfo} from 'net';
+import {GdbRspRemote} from '../remotes/gdbrsp/gdbrspremote';
+
+
+/**
+ * A minimal fake of a gdb stub, e.g. the MAME gdbstub.
+ * Holds 64k memory and the 16 bit registers of the 'g' packet.
+ * 'c' runs to the next breakpoint, if there is none it runs until
+ * a break (0x03) is received.
+ */
+export class FakeGdbStub {
+	public server: Server;
+	public socket: Socket|undefined;
+	public memory=new Uint8Array(0x10000);
+	public regs: Array<number>;
+	public breakpoints=new Set<number>();
+	public receivedPackets=new Array<string>();
+	protected running=false;
+	protected data='';
+	protected pcIndex: number;
+
+	/**
+	 * @param regCount The number of registers in the 'g' packet.
+	 * @param pcIndex The index of the PC in the 'g' packet.
+	 */
+	constructor(regCount: number, pcIndex: number) {
+		this.regs=new Array<number>(regCount).fill(0);
+		this.pcIndex=pcIndex;
+	}
+
+	public async listen(): Promise<number> {
+		return new Promise<number>(resolve => {
+			this.server=createServer(socket => {
+				this.socket=socket;
+				socket.on('data', data => this.received(data.toString('latin1')));
+			});
+			this.server.listen(0, 'localhost', () => {
+				resolve((this.server.address() as AddressInfo).port);
+			});
+		});
+	}
+
+	public close() {
+		this.socket?.end();
+		this.server.close();
+	}
+
+	protected send(data: string) {
+		this.socket!.write('$'+data+'#'+GdbRspRemote.checksum(data));
+	}
+
+	protected hex16(value: number): string {
+		const hex=(value&0xFF).toString(16).padStart(2, '0')+(value>>>8).toString(16).padStart(2, '0');
+		return hex;
+	}
+
+	protected received(data: string) {
+		this.data+=data;
+		while (this.data.length>0) {
+			const c=this.data[0];
+			if (c=='\x03') {
+				this.data=this.data.substr(1);
+				if (this.running) {
+					this.running=false;
+					this.send('S02');
+				}
+				continue;
+			}
+			if (c!='$') {
+				this.data=this.data.substr(1);
+				continue;
+			}
+			const end=this.data.indexOf('#');
+			if (end<0||this.data.length<end+3)
+				return;
+			const packet=this.data.substring(1, end);
+			this.data=this.data.substr(end+3);
+			this.socket!.write('+');
+			this.receivedPackets.push(packet);
+			this.handlePacket(packet);
+		}
+	}
+
+	protected handlePacket(packet: string) {
+		const cmd=packet[0];
+		switch (cmd) {
+			case '?':
+				this.send('S05');
+				break;
+			case 'g':
+				this.send(this.regs.map(v => this.hex16(v)).join(''));
+				break;
+			case 'P': {
+				const [idx, hex]=packet.substr(1).split('=');
+				this.regs[parseInt(idx, 16)]=parseInt(hex.substr(0, 2), 16)+(parseInt(hex.substr(2, 2), 16)<<8);
+				this.send('OK');
+				break;
+			}
+			case 'm': {
+				const [addr, len]=packet.substr(1).split(',').map(v => parseInt(v, 16));
+				let hex='';
+				for (let i=0; i<len; i++)
+					hex+=this.memory[addr+i].toString(16).padStart(2, '0');
+				this.send(hex);
+				break;
+			}
+			case 'M': {
+				const [range, hex]=packet.substr(1).split(':');
+				const [addr, len]=range.split(',').map(v => parseInt(v, 16));
+				for (let i=0; i<len; i++)
+					this.memory[addr+i]=parseInt(hex.substr(2*i, 2), 16);
+				this.send('OK');
+				break;
+			}
+			case 'Z':
+			case 'z': {
+				const [type, addr]=packet.substr(1).split(',');
+				if (type!='0') {
+					this.send('');
+					break;
+				}
+				if (cmd=='Z')
+					this.breakpoints.add(parseInt(addr, 16));
+				else
+					this.breakpoints.delete(parseInt(addr, 16));
+				this.send('OK');
+				break;
+			}
+			case 'c': {
+				// Run to the next breakpoint
+				const bps=[...this.breakpoints].sort((a, b) => a-b);
+				const next=bps.find(a => a>this.regs[this.pcIndex])??bps[0];
+				if (next==undefined) {
+					this.running=true;	// Wait for break
+					break;
+				}
+				this.regs[this.pcIndex]=next;
+				this.send('S05');
+				break;
+			}
+			case 'D':
+				this.send('OK');
+				break;
+			default:
+				this.send('');	// Not supported
+				break;
+		}
+	}
+}
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import {RemoteFactory, Remote} from '../remotes/remotefactory';
+import {GdbRspRemote} from '../remotes/gdbrsp/gdbrspremote';
+import {Settings} from '../settings';
+import {Z80RegistersClass, Z80Registers, Z80_REG} from '../remotes/z80registers';
+import {FakeGdbStub} from './fakegdbstub';
+
+
+suite('GdbRspRemote', () => {
+
+	test('checksum and decoding', () => {
+		assert.equal('67', GdbRspRemote.checksum('g'));
+		assert.equal('00', GdbRspRemote.checksum(''));
+		// Run length encoding
+		assert.equal('0000', GdbRspRemote.decodePacketData('0* '));
+		// Escape
+		assert.equal('#', GdbRspRemote.decodePacketData('}\x03'));
+	});
+
+
+	test('getRegisterOrder', () => {
+		const order=GdbRspRemote.getRegisterOrder(["af", "PC", "HL'", "IR"]);
+		assert.deepEqual([Z80_REG.AF, Z80_REG.PC, Z80_REG.HL2, Z80_REG.IR], order);
+
+		// Unknown register
+		assert.throws(() => GdbRspRemote.getRegisterOrder(["AF", "A"]));
+	});
+
+
+	suite('connected', () => {
+		let stub: FakeGdbStub;
+		let gdb: GdbRspRemote;
+
+		/**
+		 * Creates the fake stub and connects.
+		 * @param regCount The number of registers in the 'g' packet.
+		 * @param pcIndex The index of the PC in the 'g' packet.
+		 * @param registers The register mapping table or undefined for the default.
+		 */
+		async function connect(regCount: number, pcIndex: number, registers?: Array<string>) {
+			stub=new FakeGdbStub(regCount, pcIndex);
+			const port=await stub.listen();
+			const cfg: any={
+				remoteType: 'gdbrsp',
+				gdbrsp: {
+					port,
+					registers
+				}
+			};
+			Settings.Init(cfg, '');
+			Z80RegistersClass.createRegisters();
+			RemoteFactory.createRemote('gdbrsp');
+			gdb=Remote as GdbRspRemote;
+			await new Promise<void>((resolve, reject) => {
+				gdb.once('initialized', () => resolve());
+				gdb.once('error', err => reject(err));
+				gdb.init();
+			});
+		}
+
+		teardown(async () => {
+			await gdb.disconnect();
+			RemoteFactory.removeRemote();
+			stub.close();
+		});
+
+
+		test('default register order', async () => {
+			// AF, BC, DE, HL, SP, PC, IX, IY, AF', BC', DE', HL', IR
+			await connect(13, 5);
+			stub.regs=[0x1122, 0x3344, 0x5566, 0x7788, 0x9ABC, 0xDEF0, 0x1234, 0x5678, 0x99AA, 0xBBCC, 0xDDEE, 0xFF01, 0x3F7E];
+			Z80Registers.clearCache();
+			await gdb.getRegisters();
+			assert.equal(0x1122, Z80Registers.getRegValueByName('AF'));
+			assert.equal(0x7788, Z80Registers.getRegValueByName('HL'));
+			assert.equal(0x9ABC, Z80Registers.getRegValueByName('SP'));
+			assert.equal(0xDEF0, Z80Registers.getRegValueByName('PC'));
+			assert.equal(0x5678, Z80Registers.getRegValueByName('IY'));
+			assert.equal(0xFF01, Z80Registers.getRegValueByName("HL'"));
+			assert.equal(0x3F, Z80Registers.getRegValueByName('I'));
+			assert.equal(0x7E, Z80Registers.getRegValueByName('R'));
+
+			// Set I
+			const value=await gdb.setRegisterValue('I', 0x80);
+			assert.equal(0x80, value);
+			assert.equal(0x807E, stub.regs[12]);
+		});
+
+
+		test('custom register order', async () => {
+			await connect(3, 0, ["PC", "SP", "HL"]);
+			stub.regs=[0x8000, 0xFF00, 0x1234];
+			Z80Registers.clearCache();
+			await gdb.getRegisters();
+			assert.equal(0x8000, Z80Registers.getRegValueByName('PC'));
+			assert.equal(0xFF00, Z80Registers.getRegValueByName('SP'));
+			assert.equal(0x1234, Z80Registers.getRegValueByName('HL'));
+			// Not transmitted
+			assert.equal(0, Z80Registers.getRegValueByName('BC'));
+			await assert.rejects(gdb.setRegisterValue('B', 1));
+		});
+
+
+		test('step over', async () => {
+			await connect(13, 5);
+			// NOP at 0x8000
+			stub.regs[5]=0x8000;
+			Z80Registers.clearCache();
+			await gdb.getRegisters();
+			gdb.startProcessing();
+			const result=await gdb.stepOver();
+			assert.equal('8000 NOP', result.instruction);
+			assert.equal(0x8001, stub.regs[5]);
+			// Temporary breakpoint removed
+			assert.equal(0, stub.breakpoints.size);
+		});
+	});
+});
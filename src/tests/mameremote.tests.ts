@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import {RemoteFactory, Remote} from '../remotes/remotefactory';
+import {MameRemote} from '../remotes/mame/mameremote';
+import {Settings} from '../settings';
+import {Z80RegistersClass, Z80Registers} from '../remotes/z80registers';
+import {FakeGdbStub} from './fakegdbstub';
+
+
+suite('MameRemote', () => {
+	let stub: FakeGdbStub;
+	let mame: MameRemote;
+
+	setup(async () => {
+		stub=new FakeGdbStub(12, 11);	// AF, BC, DE, HL, AF', BC', DE', HL', IX, IY, SP, PC
+		const port=await stub.listen();
+		const cfg: any={
+			remoteType: 'mame',
+			mame: {
+				port
+			}
+		};
+		Settings.Init(cfg, '');
+		Z80RegistersClass.createRegisters();
+		RemoteFactory.createRemote('mame');
+		mame=Remote as MameRemote;
+		// Connect
+		await new Promise<void>((resolve, reject) => {
+			mame.once('initialized', () => resolve());
+			mame.once('error', err => reject(err));
+			mame.init();
+		});
+	});
+
+	teardown(async () => {
+		await mame.disconnect();
+		RemoteFactory.removeRemote();
+		stub.close();
+	});
+
+
+	test('getRegisters', async () => {
+		stub.regs=[0x1122, 0x3344, 0x5566, 0x7788, 0x99AA, 0xBBCC, 0xDDEE, 0xFF01, 0x1234, 0x5678, 0x9ABC, 0xDEF0];
+		Z80Registers.clearCache();
+		await mame.getRegisters();
+		assert.equal(0x1122, Z80Registers.getRegValueByName('AF'));
+		assert.equal(0x3344, Z80Registers.getRegValueByName('BC'));
+		assert.equal(0x5566, Z80Registers.getRegValueByName('DE'));
+		assert.equal(0x7788, Z80Registers.getRegValueByName('HL'));
+		assert.equal(0x99AA, Z80Registers.getRegValueByName("AF'"));
+		assert.equal(0xBBCC, Z80Registers.getRegValueByName("BC'"));
+		assert.equal(0xDDEE, Z80Registers.getRegValueByName("DE'"));
+		assert.equal(0xFF01, Z80Registers.getRegValueByName("HL'"));
+		assert.equal(0x1234, Z80Registers.getRegValueByName('IX'));
+		assert.equal(0x5678, Z80Registers.getRegValueByName('IY'));
+		assert.equal(0x9ABC, Z80Registers.getRegValueByName('SP'));
+		assert.equal(0xDEF0, Z80Registers.getRegValueByName('PC'));
+	});
+
+
+	test('setRegisterValue', async () => {
+		stub.regs[3]=0x1234;	// HL
+		let value=await mame.setRegisterValue('H', 0xAB);
+		assert.equal(0xAB, value);
+		assert.equal(0xAB34, stub.regs[3]);
+
+		value=await mame.setRegisterValue('PC', 0x8000);
+		assert.equal(0x8000, value);
+		assert.equal(0x8000, stub.regs[11]);
+
+		// Not available
+		await assert.rejects(mame.setRegisterValue('IM', 1));
+	});
+
+
+	test('read/write memory', async () => {
+		stub.memory[0x8000]=0x12;
+		stub.memory[0x8001]=0xFE;
+		let data=await mame.readMemoryDump(0x8000, 2);
+		assert.deepEqual([0x12, 0xFE], [...data]);
+
+		// Bigger than one chunk and wrapping around
+		const size=0x500;
+		const wData=new Uint8Array(size);
+		for (let i=0; i<size; i++)
+			wData[i]=i&0xFF;
+		await mame.writeMemoryDump(0xFF00, wData);
+		assert.equal(0x00, stub.memory[0xFF00]);
+		assert.equal(0xFF, stub.memory[0xFFFF]);
+		assert.equal(0x00, stub.memory[0x0000]);
+		assert.equal(0xFF, stub.memory[0x03FF]);
+		data=await mame.readMemoryDump(0xFF00, size);
+		assert.deepEqual(wData, data);
+	});
+
+
+	test('breakpoint and continue', async () => {
+		stub.regs[11]=0x8000;
+		const bp: any={address: 0x8010, condition: '', log: undefined};
+		const bpId=await mame.setBreakpoint(bp);
+		assert.notEqual(0, bpId);
+		assert.ok(stub.breakpoints.has(0x8010));
+
+		mame.startProcessing();
+		const reason=await mame.continue();
+		assert.equal('Breakpoint hit @8010h.', reason);
+		await mame.getRegisters();
+		assert.equal(0x8010, Z80Registers.getPC());
+
+		// Remove
+		// @ts-ignore: protected
+		await mame.removeBreakpoint(bp);
+		assert.ok(!stub.breakpoints.has(0x8010));
+	});
+
+
+	test('pause', async () => {
+		stub.regs[11]=0x8000;
+		mame.startProcessing();
+		const promise=mame.continue();
+		await mame.pause();
+		const reason=await promise;
+		assert.equal('Manual break.', reason);
+	});
+
+});
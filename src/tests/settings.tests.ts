@@ -60,6 +60,106 @@ suite('Settings', () => {
 		});
 
 
+		test('CheckSettings - zsim.joystick', () => {
+			const cfg: any={
+				remoteType: 'zsim',
+				zsim: {
+					joystick: 'kempston'
+				}
+			};
+			Settings.Init(cfg, '');
+			assert.doesNotThrow(() => {
+				Settings.CheckSettings();
+			});
+
+			cfg.zsim.joystick='fuller';
+			Settings.Init(cfg, '');
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /'zsim.joystick' is 'fuller'/);
+		});
+
+
+		test('CheckSettings - zsim.machine', () => {
+			const cfg: any={
+				remoteType: 'zsim',
+				zsim: {
+					machine: 'next'
+				}
+			};
+			Settings.Init(cfg, '');
+			assert.ok(Settings.launch.zsim.tbblueMemoryManagementSlots);
+			assert.ok(Settings.launch.zsim.Z80N);
+			assert.equal(Settings.launch.zsim.visualMemory, 'ZXNEXT');
+			assert.doesNotThrow(() => {
+				Settings.CheckSettings();
+			});
+
+			cfg.zsim.machine='zx81';
+			Settings.Init(cfg, '');
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /'zsim.machine' is 'zx81'/);
+		});
+
+
+		test('CheckSettings - zsim.machine contradictions', () => {
+			const cfg: any={
+				remoteType: 'zsim',
+				zsim: {
+					machine: '48k',
+					memoryPagingControl: true
+				}
+			};
+			Settings.Init(cfg, '');
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /'zsim.memoryPagingControl' is true but 'zsim.machine' is '48k'/);
+
+			cfg.zsim={machine: '128k', tbblueMemoryManagementSlots: true};
+			Settings.Init(cfg, '');
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /'zsim.tbblueMemoryManagementSlots' is true but 'zsim.machine' is '128k'/);
+
+			cfg.zsim={machine: '128k'};
+			Settings.Init(cfg, '');
+			assert.equal(Settings.launch.zsim.visualMemory, 'ZX128');
+			assert.ok(!Settings.launch.zsim.Z80N);
+			assert.doesNotThrow(() => {
+				Settings.CheckSettings();
+			});
+		});
+
+
+		test('CheckSettings - zsim.machine plus3 ROM', () => {
+			const cfg: any={
+				remoteType: 'zsim',
+				zsim: {
+					machine: 'plus3'
+				}
+			};
+			Settings.Init(cfg, '');
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /requires the ROMs of the ZX \+2A\/\+3/);
+
+			// Wrong size
+			cfg.zsim.romFile='./data/128.rom';
+			Settings.Init(cfg, '');
+			assert.throws(() => {
+				Settings.CheckSettings();
+			}, /has to contain the 4 ROMs/);
+
+			// Without ROM no ROM file is required
+			cfg.zsim={machine: 'plus2a', loadZxRom: false};
+			Settings.Init(cfg, '');
+			assert.doesNotThrow(() => {
+				Settings.CheckSettings();
+			});
+		});
+
+
 		test('CheckSettings - Default', () => {
 			const cfg: any = {
 				remoteType: 'zrcp'
@@ -0,0 +1,185 @@
+
+import * as assert from 'assert';
+import {SnapshotFile} from '../remotes/dzrp/snapshotfile';
+import {Z80File} from '../remotes/dzrp/z80file';
+import {SzxFile} from '../remotes/dzrp/szxfile';
+
+suite('SnapshotFile', () => {
+
+	/// Fills a snapshot with registers and memory banks.
+	function fillSnapshot(snapshot: SnapshotFile, is128k: boolean) {
+		snapshot.af=0x1234;
+		snapshot.bc=0x2345;
+		snapshot.de=0x3456;
+		snapshot.hl=0x4567;
+		snapshot.af2=0x5678;
+		snapshot.bc2=0x6789;
+		snapshot.de2=0x789A;
+		snapshot.hl2=0x89AB;
+		snapshot.ix=0x9ABC;
+		snapshot.iy=0xABCD;
+		snapshot.sp=0xBCDE;
+		snapshot.pc=0xCDEF;
+		snapshot.i=0x3F;
+		snapshot.r=0x85;
+		snapshot.iff1=1;
+		snapshot.iff2=1;
+		snapshot.im=2;
+		snapshot.borderColor=5;
+		if (is128k) {
+			snapshot.port7ffd=0x13;
+			snapshot.aySelectedRegister=7;
+			snapshot.ayRegisters=new Uint8Array(16).map((_, i) => 16*i+1);
+		}
+		for (const bank of snapshot.getSnapshotBanks()) {
+			const data=new Uint8Array(0x4000);
+			for (let i=0; i<data.length; i++)
+				data[i]=(i<0x1000)? bank:(i*7+bank)&0xFF;
+			data[0x2000]=0xED;	// Single 0xED
+			data[0x2001]=0xED;
+			snapshot.addMemBank(bank, data);
+		}
+	}
+
+	/// Compares 2 snapshots.
+	function assertSnapshot(expected: SnapshotFile, actual: SnapshotFile) {
+		for (const name of ['af', 'bc', 'de', 'hl', 'af2', 'bc2', 'de2', 'hl2', 'ix', 'iy', 'sp', 'pc', 'i', 'r', 'iff1', 'iff2', 'im', 'borderColor', 'port7ffd', 'port1ffd'])
+			assert.equal((actual as any)[name], (expected as any)[name], name);
+		assert.deepEqual(actual.ayRegisters, expected.ayRegisters);
+		if (expected.ayRegisters)
+			assert.equal(actual.aySelectedRegister, expected.aySelectedRegister);
+		const banks=expected.getSnapshotBanks();
+		assert.equal(actual.memBanks.length, banks.length);
+		for (const bank of banks)
+			assert.deepEqual(actual.getMemBank(bank)!.data, expected.getMemBank(bank)!.data, 'bank '+bank);
+	}
+
+
+	suite('Z80File', () => {
+
+		test('compress/decompress', () => {
+			const data=new Uint8Array([1, 2, 2, 2, 2, 2, 3, 0xED, 4, 0xED, 0xED, 5, 0xED, 0, 0, 0, 0, 0, 0]);
+			const compressed=Z80File.compress(data);
+			assert.deepEqual([...compressed], [1, 0xED, 0xED, 5, 2, 3, 0xED, 4, 0xED, 0xED, 2, 0xED, 5, 0xED, 0, 0xED, 0xED, 5, 0]);
+			assert.deepEqual(Z80File.decompress(compressed, data.length), data);
+		});
+
+		test('read version 1', () => {
+			const buffer=Buffer.alloc(30+3*0x4000);
+			buffer[0]=0x12;	// A
+			buffer[1]=0x34;	// F
+			buffer.writeUInt16LE(0x8000, 6);	// PC
+			buffer.writeUInt16LE(0xFF00, 8);	// SP
+			buffer[11]=0x05;	// R
+			buffer[12]=0x01|(3<<1);	// R bit 7, border
+			buffer[27]=1;
+			buffer[29]=1;
+			buffer[30]=0xAA;	// 0x4000
+			buffer[30+0x4000]=0xBB;	// 0x8000
+			buffer[30+0x8000]=0xCC;	// 0xC000
+			const z80=new Z80File();
+			z80.readBuffer(buffer);
+			assert.equal(z80.version, 1);
+			assert.equal(z80.af, 0x1234);
+			assert.equal(z80.pc, 0x8000);
+			assert.equal(z80.sp, 0xFF00);
+			assert.equal(z80.r, 0x85);
+			assert.equal(z80.borderColor, 3);
+			assert.equal(z80.iff1, 1);
+			assert.equal(z80.im, 1);
+			assert.ok(!z80.is128k());
+			assert.equal(z80.getMemBank(5)!.data[0], 0xAA);
+			assert.equal(z80.getMemBank(2)!.data[0], 0xBB);
+			assert.equal(z80.getMemBank(0)!.data[0], 0xCC);
+		});
+
+		test('48K write and read', () => {
+			const z80=new Z80File();
+			fillSnapshot(z80, false);
+			const buffer=z80.createBuffer();
+			const z80Read=new Z80File();
+			z80Read.readBuffer(buffer);
+			assert.equal(z80Read.version, 3);
+			assertSnapshot(z80, z80Read);
+		});
+
+		test('128K write and read', () => {
+			const z80=new Z80File();
+			fillSnapshot(z80, true);
+			const buffer=z80.createBuffer();
+			const z80Read=new Z80File();
+			z80Read.readBuffer(buffer);
+			assert.ok(z80Read.is128k());
+			assertSnapshot(z80, z80Read);
+		});
+
+		test('+3 write and read', () => {
+			const z80=new Z80File();
+			fillSnapshot(z80, true);
+			z80.port1ffd=0x04;
+			const buffer=z80.createBuffer();
+			assert.equal(buffer[34], 7);	// +3
+			const z80Read=new Z80File();
+			z80Read.readBuffer(buffer);
+			assert.ok(z80Read.is128k());
+			assertSnapshot(z80, z80Read);
+		});
+
+		test('getMachine', () => {
+			assert.equal(Z80File.getMachine(2, 0), '48k');
+			assert.equal(Z80File.getMachine(2, 3), '128k');
+			assert.equal(Z80File.getMachine(3, 3), '48k');	// 48K+MGT
+			assert.equal(Z80File.getMachine(3, 4), '128k');
+			assert.equal(Z80File.getMachine(3, 9), '128k');	// Pentagon
+			assert.equal(Z80File.getMachine(3, 13), 'plus3');	// +2A
+			assert.equal(Z80File.getMachine(3, 14), '48k');	// TC2048
+			assert.throws(() => Z80File.getMachine(3, 10), /Hardware mode 10/);	// Scorpion
+			assert.throws(() => Z80File.getMachine(3, 128), /not supported/);	// TS2068
+		});
+	});
+
+
+	suite('SzxFile', () => {
+
+		test('wrong signature', () => {
+			const szx=new SzxFile();
+			assert.throws(() => szx.readBuffer(Buffer.from('ZXSX\x01\x04\x01\x00')));
+		});
+
+		test('48K write and read', () => {
+			const szx=new SzxFile();
+			fillSnapshot(szx, false);
+			const buffer=szx.createBuffer();
+			const szxRead=new SzxFile();
+			szxRead.readBuffer(buffer);
+			assert.equal(szxRead.machineId, 1);
+			assertSnapshot(szx, szxRead);
+		});
+
+		test('128K write and read', () => {
+			const szx=new SzxFile();
+			fillSnapshot(szx, true);
+			const buffer=szx.createBuffer();
+			const szxRead=new SzxFile();
+			szxRead.readBuffer(buffer);
+			assert.equal(szxRead.machineId, 2);
+			assertSnapshot(szx, szxRead);
+		});
+
+		test('+3 write and read', () => {
+			const szx=new SzxFile();
+			fillSnapshot(szx, true);
+			szx.port1ffd=0x05;
+			const buffer=szx.createBuffer();
+			const szxRead=new SzxFile();
+			szxRead.readBuffer(buffer);
+			assert.equal(szxRead.machineId, 5);
+			assertSnapshot(szx, szxRead);
+		});
+
+		test('unsupported machine', () => {
+			const szx=new SzxFile();
+			assert.throws(() => szx.readBuffer(Buffer.from('ZXST\x01\x04\x0A\x00')), /Machine 10 not supported/);
+		});
+	});
+});
@@ -79,6 +79,89 @@ suite('Z80Cpu', () => {
 	});
 
 
+	suite('Interrupts and reset', () => {
+		let cpu;
+		let mem: ZxMemory;
+
+		setup(() => {
+			mem=new ZxMemory();
+			cpu=new Z80Cpu(mem, new Z80Ports()) as any;
+			cpu.pc=0x8000;
+			cpu.sp=0x9000;
+		});
+
+		test('NMI', () => {
+			mem.write8(0x8000, 0x76);	// HALT
+			cpu.execute();
+			assert.ok(cpu.halted);
+			cpu.iff1=1;
+			cpu.iff2=1;
+			cpu.generateNmi();
+			const r=cpu.getAllRegisters();
+			assert.equal(0x0066, r.pc);
+			assert.equal(0x8FFE, r.sp);
+			assert.equal(0x8001, mem.getMemory16(0x8FFE));
+			assert.equal(0, r.iff1);
+			assert.equal(1, r.iff2);
+			assert.ok(!cpu.halted);
+		});
+
+		test('interrupt IM 2', () => {
+			cpu.i=0xA0;
+			cpu.im=2;
+			mem.setMemory16(0xA0FE, 0x1234);
+			// Disabled
+			assert.ok(!cpu.generateInterrupt(0xFE));
+			assert.equal(0x8000, cpu.pc);
+			// Enabled
+			cpu.iff1=1;
+			cpu.iff2=1;
+			assert.ok(cpu.generateInterrupt(0xFE));
+			const r=cpu.getAllRegisters();
+			assert.equal(0x1234, r.pc);
+			assert.equal(0x8000, mem.getMemory16(0x8FFE));
+			assert.equal(0, r.iff1);
+			assert.equal(0, r.iff2);
+		});
+
+		test('reset', () => {
+			cpu.i=0xA0;
+			cpu.r=0x12;
+			cpu.im=2;
+			cpu.iff1=1;
+			cpu.iff2=1;
+			cpu.hl=0x1234;
+			cpu.reset();
+			const r=cpu.getAllRegisters();
+			assert.equal(0, r.pc);
+			assert.equal(0xFFFF, r.sp);
+			assert.equal(0xFFFF, r.af);
+			assert.equal(0, r.i);
+			assert.equal(0, r.r);
+			assert.equal(0, r.im);
+			assert.equal(0, r.iff1);
+			assert.equal(0, r.iff2);
+			assert.equal(0x1234, r.hl);	// Unchanged
+		});
+
+		test('ret', () => {
+			mem.setMemory16(0x9000, 0x8123);
+			cpu.configureInterrupt('int', 15, 0);
+			assert.ok(!cpu.ret());
+			let r=cpu.getAllRegisters();
+			assert.equal(0x8123, r.pc);
+			assert.equal(0x9002, r.sp);
+			assert.equal(10, cpu.cpuTstatesCounter);
+			assert.equal(10, cpu.getFrameTstate());
+			// The RET reaches the end of the frame
+			cpu.sp=0x9000;
+			assert.ok(cpu.ret());
+			assert.equal(20, cpu.cpuTstatesCounter);
+			assert.equal(5, cpu.getFrameTstate());
+		});
+	});
+
+
 
 	suite('instructions', () => {
 		let cpu;
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {parseArgs} from '../z80unittestcli';
+
+
+
+suite('z80unittestcli', () => {
+
+	test('parseArgs defaults', () => {
+		const args=parseArgs([], '/project');
+		assert.equal(args.root, '/project');
+		assert.equal(args.launch, path.join('/project', '.vscode', 'launch.json'));
+		assert.equal(args.config, undefined);
+		assert.equal(args.help, false);
+	});
+
+	test('parseArgs options', () => {
+		const args=parseArgs(['--root', 'sub', '--launch', 'ut.json', '--config', 'Unit Tests'], '/project');
+		assert.equal(args.root, path.resolve('/project', 'sub'));
+		assert.equal(args.launch, path.resolve('/project', 'ut.json'));
+		assert.equal(args.config, 'Unit Tests');
+	});
+
+	test('parseArgs errors', () => {
+		assert.throws(() => parseArgs(['--unknown'], '/project'));
+		assert.throws(() => parseArgs(['--config'], '/project'));
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {Z80UnitTestRunner, UnitTestCaseResult} from '../z80unittestrunner';
+import {UnitTestCoverage} from '../z80unittestcoverage';
+import {Labels} from '../labels/labels';
+import {Utility} from '../misc/utility';
+
+
+
+suite('UnitTestCoverage', () => {
+
+	test('getLineRanges', () => {
+		assert.equal(UnitTestCoverage.getLineRanges([]), '');
+		assert.equal(UnitTestCoverage.getLineRanges([4]), '5');
+		assert.equal(UnitTestCoverage.getLineRanges([2, 3, 4, 8]), '3-5, 9');
+		assert.equal(UnitTestCoverage.getLineRanges([0, 2, 3]), '1, 3-4');
+	});
+
+
+	suite('per test case', () => {
+		const rootFolder=path.resolve('./src/tests/data/unittest');
+		let results: UnitTestCaseResult[];
+
+		suiteSetup(async () => {
+			Utility.setExtensionPath('.');
+			const config=Z80UnitTestRunner.readLaunchConfig(path.join(rootFolder, 'launch.json'));
+			config.history={reverseDebugInstructionCount: 0, codeCoverageEnabled: true};
+			const runner=new Z80UnitTestRunner(() => {});
+			results=await runner.run(config, rootFolder);
+		});
+
+		test('coveredAddresses', () => {
+			const utPass=results.find(tc => tc.label=='UT_pass')!;
+			assert.ok(utPass.coveredAddresses!.has(0x8031));	// ld a,5
+			assert.ok(utPass.coveredAddresses!.has(0x8033));	// jp UNITTEST_TEST_READY_SUCCESS
+			assert.ok(!utPass.coveredAddresses!.has(0x8036));	// UT_fail
+			assert.ok(!utPass.coveredAddresses!.has(0x8030));	// UNITTEST_START
+		});
+
+		test('getTestCaseLines', () => {
+			const utPass=results.find(tc => tc.label=='UT_pass')!;
+			const fileLines=UnitTestCoverage.getTestCaseLines(utPass.coveredAddresses!);
+			const entry=Labels.getFileAndLineForAddress(0x8031);
+			assert.ok(fileLines.get(entry.fileName)!.has(entry.lineNr));
+			// Calculated only once
+			assert.equal(UnitTestCoverage.getTestCaseLines(utPass.coveredAddresses!), fileLines);
+		});
+
+		test('getTestCasesForLine', () => {
+			// ld a,5
+			let entry=Labels.getFileAndLineForAddress(0x8031);
+			assert.deepEqual(UnitTestCoverage.getTestCasesForLine(results, entry.fileName, entry.lineNr), ['UT_pass']);
+			// The unit test wrapper
+			entry=Labels.getFileAndLineForAddress(0x8000);
+			assert.equal(UnitTestCoverage.getTestCasesForLine(results, entry.fileName, entry.lineNr).length, results.length);
+		});
+
+		test('getUncoveredLines', () => {
+			const uncovered=UnitTestCoverage.getUncoveredLines(results);
+			assert.equal(uncovered.size, 1);
+			const [file, lines]=Array.from(uncovered)[0];
+			assert.ok(file.endsWith('ut.list'));
+			// The mocked subroutine
+			assert.ok(lines.includes(Labels.getFileAndLineForAddress(0x8047).lineNr));
+			assert.ok(!lines.includes(Labels.getFileAndLineForAddress(0x8031).lineNr));
+		});
+
+		test('getJson', () => {
+			const data=JSON.parse(UnitTestCoverage.getJson(results));
+			const entry=Labels.getFileAndLineForAddress(0x8031);
+			assert.ok(data.testCases['UT_pass'][entry.fileName].includes(entry.lineNr+1));
+			assert.equal(Object.keys(data.testCases).length, results.length);
+			assert.ok(data.uncovered[entry.fileName].length>0);
+		});
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import {UnitTestReport} from '../z80unittestreport';
+import {UnitTestCaseResult, TestCaseResult} from '../z80unittestrunner';
+
+
+
+suite('UnitTestReport', () => {
+	const results: UnitTestCaseResult[]=[
+		{label: 'ut_math.UT_add', address: 0x8000, file: '/src/ut_math.asm', line: 9, result: TestCaseResult.OK, tstates: 120, duration: 2},
+		{label: 'UT_cmp<>', address: 0x8010, file: '/src/ut.asm', line: 19, result: TestCaseResult.FAILED, message: 'Assertion failed: A < 5', assertion: 'A < 5', failureFile: '/src/math.asm', failureLine: 99, tstates: 30, duration: 1},
+		{label: 'UT_loop', address: 0x8020, file: '/src/ut.asm', line: 29, result: TestCaseResult.TIMEOUT, message: 'Timeout (1s).', tstates: 3500000, duration: 1000},
+	];
+
+	test('getJUnitXml', () => {
+		const xml=UnitTestReport.getJUnitXml(results, new Date(0));
+		assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>'));
+		assert.ok(xml.includes('<testsuite name="DeZog Unit Tests" tests="3" failures="2" errors="0" skipped="0" timestamp="1970-01-01T00:00:00.000Z" time="1.003">'));
+		// Passed
+		assert.ok(xml.includes('<testcase name="UT_add" classname="ut_math" time="0.002" file="/src/ut_math.asm" line="10">'));
+		assert.ok(xml.includes('<property name="tstates" value="120"/>'));
+		// Failed, escaped
+		assert.ok(xml.includes('<testcase name="UT_cmp&lt;&gt;" classname="UnitTests"'));
+		assert.ok(xml.includes('<property name="assertion" value="A &lt; 5"/>'));
+		assert.ok(xml.includes('<failure type="assertion" message="Assertion failed: A &lt; 5">Assertion failed: A &lt; 5\nat /src/math.asm:100</failure>'));
+		// Timeout
+		assert.ok(xml.includes('<failure type="timeout" message="Timeout (1s).">Timeout (1s).</failure>'));
+	});
+
+	test('getTap', () => {
+		const lines=UnitTestReport.getTap(results).split('\n');
+		assert.equal(lines[0], 'TAP version 13');
+		assert.equal(lines[1], '1..3');
+		assert.equal(lines[2], 'ok 1 - ut_math.UT_add');
+		assert.ok(lines.includes('not ok 2 - UT_cmp<>'));
+		assert.ok(lines.includes('  assertion: "A < 5"'));
+		assert.ok(lines.includes('    file: "/src/math.asm"'));
+		assert.ok(lines.includes('    line: 100'));
+		assert.ok(lines.includes('not ok 3 - UT_loop'));
+		assert.ok(lines.includes('  tstates: 3500000'));
+	});
+});
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import {Z80UnitTestRunner, TestCaseResult, UnitTestCaseResult} from '../z80unittestrunner';
+import {Utility} from '../misc/utility';
+import {GenericMock} from '../genericwatchpoint';
+
+
+
+suite('Z80UnitTestRunner', () => {
+	const rootFolder=path.resolve('./src/tests/data/unittest');
+	const launchPath=path.join(rootFolder, 'launch.json');
+
+
+	suite('readLaunchConfig', () => {
+
+		test('unitTests configuration', () => {
+			const config=Z80UnitTestRunner.readLaunchConfig(launchPath);
+			assert.equal(config.name, 'Unit Tests');
+			assert.ok(config.unitTests);
+		});
+
+		test('configuration by name', () => {
+			const config=Z80UnitTestRunner.readLaunchConfig(launchPath, 'Debug');
+			assert.equal(config.name, 'Debug');
+			assert.equal(config.listFiles.length, 1);
+		});
+
+		test('unknown configuration', () => {
+			assert.throws(() => {
+				Z80UnitTestRunner.readLaunchConfig(launchPath, 'Unknown');
+			});
+		});
+	});
+
+
+	suite('checkMockCalls', () => {
+
+		const createResult=(result: TestCaseResult): UnitTestCaseResult => {
+			return {label: 'UT_test', address: 0x8000, file: '', line: 0, result, tstates: 0, duration: 0};
+		};
+		const mocks: GenericMock[]=[
+			{lineAddress: 0x8000, label: 'sub1', address: 0x9000, registers: []},
+			{lineAddress: 0x8000, label: 'sub2', address: 0x9010, registers: [], expectedCalls: 1}
+		];
+
+		test('expected calls', () => {
+			const tcResult=createResult(TestCaseResult.OK);
+			Z80UnitTestRunner.checkMockCalls(tcResult, mocks, [5, 1]);
+			assert.equal(tcResult.result, TestCaseResult.OK);
+			assert.equal(tcResult.message, undefined);
+		});
+
+		test('wrong number of calls', () => {
+			const tcResult=createResult(TestCaseResult.OK);
+			Z80UnitTestRunner.checkMockCalls(tcResult, mocks, [0, 2]);
+			assert.equal(tcResult.result, TestCaseResult.FAILED);
+			assert.equal(tcResult.message, "UNITTEST_MOCK sub2: called 2 time(s), expected 1.");
+		});
+
+		test('failed test case unchanged', () => {
+			const tcResult=createResult(TestCaseResult.TIMEOUT);
+			tcResult.message='Timeout.';
+			Z80UnitTestRunner.checkMockCalls(tcResult, mocks, [0, 0]);
+			assert.equal(tcResult.result, TestCaseResult.TIMEOUT);
+			assert.equal(tcResult.message, 'Timeout.');
+		});
+	});
+
+
+	suite('T-states', () => {
+
+		const createResult=(result: TestCaseResult, tstates: number|undefined): UnitTestCaseResult => {
+			return {label: 'UT_test', address: 0x8000, file: '', line: 0, result, tstates, duration: 0};
+		};
+
+		test('checkTstates budget', () => {
+			let tcResult=createResult(TestCaseResult.OK, 1000);
+			Z80UnitTestRunner.checkTstates(tcResult, {lineAddress: 0x8000, maxTstates: 1000}, undefined, undefined);
+			assert.equal(tcResult.result, TestCaseResult.OK);
+			assert.equal(tcResult.maxTstates, 1000);
+
+			tcResult=createResult(TestCaseResult.OK, 1001);
+			Z80UnitTestRunner.checkTstates(tcResult, {lineAddress: 0x8000, maxTstates: 1000}, undefined, undefined);
+			assert.equal(tcResult.result, TestCaseResult.FAILED);
+			assert.equal(tcResult.message, "T-states: 1001, exceeds UNITTEST_TSTATES 1000.");
+		});
+
+		test('checkTstates previous run', () => {
+			// Only reported
+			let tcResult=createResult(TestCaseResult.OK, 2000);
+			Z80UnitTestRunner.checkTstates(tcResult, undefined, 1000, undefined);
+			assert.equal(tcResult.result, TestCaseResult.OK);
+			assert.equal(tcResult.previousTstates, 1000);
+			assert.equal(Z80UnitTestRunner.getTstatesText(tcResult), "2000 T-states (+1000)");
+
+			// Within maxIncrease
+			tcResult=createResult(TestCaseResult.OK, 1100);
+			Z80UnitTestRunner.checkTstates(tcResult, undefined, 1000, 10);
+			assert.equal(tcResult.result, TestCaseResult.OK);
+
+			// Exceeds maxIncrease
+			tcResult=createResult(TestCaseResult.OK, 1101);
+			Z80UnitTestRunner.checkTstates(tcResult, undefined, 1000, 10);
+			assert.equal(tcResult.result, TestCaseResult.FAILED);
+			assert.equal(tcResult.message, "T-states: 1101, increased by 10% (previous run: 1000, maxIncrease: 10%).");
+
+			// Faster
+			tcResult=createResult(TestCaseResult.OK, 900);
+			Z80UnitTestRunner.checkTstates(tcResult, undefined, 1000, 0);
+			assert.equal(tcResult.result, TestCaseResult.OK);
+			assert.equal(Z80UnitTestRunner.getTstatesText(tcResult), "900 T-states (-100)");
+		});
+
+		test('not measured (debug mode)', () => {
+			const tcResult=createResult(TestCaseResult.OK, undefined);
+			Z80UnitTestRunner.checkTstates(tcResult, {lineAddress: 0x8000, maxTstates: 1000}, 2000, 0);
+			assert.equal(tcResult.result, TestCaseResult.OK);
+			assert.equal(tcResult.maxTstates, undefined);
+			assert.equal(tcResult.previousTstates, undefined);
+			assert.equal(Z80UnitTestRunner.getTstatesText(tcResult), "T-states not measured");
+		});
+
+		test('read/writeTstatesFile', () => {
+			const filePath=path.join(os.tmpdir(), 'dezog_unittest_tstates_'+process.pid+'.json');
+			try {
+				assert.equal(Z80UnitTestRunner.readTstatesFile(filePath).size, 0);
+				Z80UnitTestRunner.writeTstatesFile(filePath, [
+					createResult(TestCaseResult.OK, 100),
+					{...createResult(TestCaseResult.FAILED, 200), label: 'UT_failed'}
+				]);
+				Z80UnitTestRunner.writeTstatesFile(filePath, [
+					{...createResult(TestCaseResult.OK, 300), label: 'UT_other'},
+					// Not measured: previous value is kept
+					createResult(TestCaseResult.OK, undefined)
+				]);
+				const tstatesMap=Z80UnitTestRunner.readTstatesFile(filePath);
+				assert.equal(tstatesMap.size, 2);
+				assert.equal(tstatesMap.get('UT_test'), 100);
+				assert.equal(tstatesMap.get('UT_other'), 300);
+			}
+			finally {
+				if (fs.existsSync(filePath))
+					fs.unlinkSync(filePath);
+			}
+		});
+	});
+
+
+	suite('run', () => {
+
+		test('results', async () => {
+			Utility.setExtensionPath('.');
+			const config=Z80UnitTestRunner.readLaunchConfig(launchPath);
+			const lines=new Array<string>();
+			const runner=new Z80UnitTestRunner(text => lines.push(text));
+			const results=await runner.run(config, rootFolder);
+
+			const get=(label: string) => results.find(tc => tc.label==label) as UnitTestCaseResult;
+			assert.equal(results.length, 8);
+			assert.equal(lines.length, 8);
+			assert.equal(get('UT_pass').result, TestCaseResult.OK);
+			assert.equal(get('UT_pass').address, 0x8031);
+			assert.equal(get('UT_pass').message, undefined);
+			assert.ok(get('UT_pass').file.endsWith('ut.list'));
+			assert.ok(get('UT_pass').tstates!>0);
+			assert.equal(get('UT_pass').failureFile, undefined);
+			assert.equal(get('UT_fail').result, TestCaseResult.FAILED);
+			assert.equal(get('UT_fail').message, "Test case failed.");
+			// ASSERT
+			assert.equal(get('UT_assert').result, TestCaseResult.FAILED);
+			assert.equal(get('UT_assert').message, "Assertion failed: A == 2");
+			assert.equal(get('UT_assert').assertion, "A == 2");
+			assert.ok(get('UT_assert').failureFile!.endsWith('ut.list'));
+			// unitTestTimeout
+			assert.equal(get('UT_timeout').result, TestCaseResult.TIMEOUT);
+			assert.ok(get('UT_timeout').duration>=200);
+			// WPMEM
+			assert.equal(get('UT_wpmem').result, TestCaseResult.FAILED);
+			assert.ok(get('UT_wpmem').message!.startsWith("Watchpoint write access at address 0x8046"));
+			// UNITTEST_MOCK
+			assert.equal(get('UT_mock').result, TestCaseResult.OK);
+			assert.equal(get('UT_mock_calls').result, TestCaseResult.FAILED);
+			assert.equal(get('UT_mock_calls').message, "UNITTEST_MOCK read_port: called 1 time(s), expected 2.");
+			assert.ok(get('UT_mock_calls').failureFile!.endsWith('ut.list'));
+			// UNITTEST_TSTATES
+			assert.equal(get('UT_tstates').result, TestCaseResult.FAILED);
+			assert.equal(get('UT_tstates').maxTstates, 100);
+			assert.equal(get('UT_tstates').message, "T-states: "+get('UT_tstates').tstates+", exceeds UNITTEST_TSTATES 100.");
+			assert.equal(get('UT_pass').maxTstates, undefined);
+			assert.ok(lines[0].endsWith('OK, '+get('UT_pass').tstates+' T-states'));
+
+			const summary=Z80UnitTestRunner.getSummary(results);
+			assert.ok(summary.includes('Passed test cases: 2'));
+			assert.ok(summary.includes('Failed test cases: 6'));
+		});
+	});
+});
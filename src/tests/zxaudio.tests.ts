@@ -0,0 +1,134 @@
+
+import * as assert from 'assert';
+import {ZxAudio} from '../remotes/zxsimulator/zxaudio';
+import {Ay38912} from '../remotes/zxsimulator/ay38912';
+
+suite('ZxAudio', () => {
+
+	suite('beeper', () => {
+
+		test('samples', () => {
+			// 100 T-states per sample
+			const audio=new ZxAudio(1000, false, 10, 1);
+			audio.setBeeper(true, 50);
+			audio.generate(300);
+			assert.deepEqual([0.25, 0.5, 0.5], [...audio.getNewSamples()]);
+			// Off
+			audio.setBeeper(false, 325);
+			audio.generate(400);
+			assert.deepEqual([0.125], [...audio.getNewSamples()]);
+			assert.equal(0, audio.getNewSamples().length);
+		});
+
+		test('ring buffer', () => {
+			const audio=new ZxAudio(1000, false, 10, 1);
+			for (let i=1; i<=15; i++)
+				audio.setBeeper((i%2)==0, i*100);
+			audio.generate(1500);
+			// Only 1 second, i.e. 10 samples
+			const samples=audio.getLastSamples(5);
+			assert.deepEqual([0, 0.5, 0, 0.5, 0, 0.5, 0, 0.5, 0, 0.5], [...samples]);
+			assert.equal(3, audio.getLastSamples(0.3).length);
+		});
+
+	});
+
+
+	suite('AY-3-8912', () => {
+
+		/// Writes an AY register.
+		function write(ay: Ay38912, reg: number, value: number) {
+			ay.selectRegister(reg);
+			ay.writeRegister(value);
+		}
+
+		test('registers', () => {
+			const ay=new Ay38912();
+			write(ay, 0, 0xAB);
+			write(ay, 15, 0xCD);
+			ay.selectRegister(0);
+			assert.equal(0xAB, ay.readRegister());
+			assert.equal(0xCD, ay.getRegister(15));
+		});
+
+		test('tone', () => {
+			const ay=new Ay38912();
+			write(ay, 0, 2);	// Period 2
+			write(ay, 7, 0b111110);	// Only tone A
+			write(ay, 8, 15);
+			const outputs=new Array<number>();
+			for (let i=0; i<8; i++) {
+				ay.tick();
+				outputs.push(ay.getOutput());
+			}
+			const h=1/3;
+			assert.deepEqual([0, h, h, 0, 0, h, h, 0], outputs);
+		});
+
+		test('envelope decay', () => {
+			const ay=new Ay38912();
+			write(ay, 7, 0b111111);	// Tone and noise off
+			write(ay, 8, 0x10);	// Envelope
+			write(ay, 11, 1);	// Period 1, i.e. 2 ticks per step
+			write(ay, 13, 0);	// Decay, then 0
+			const max=ay.getOutput();
+			assert.equal(1/3, max);
+			ay.tick();
+			ay.tick();
+			assert.ok(ay.getOutput()<max);
+			for (let i=0; i<30; i++)
+				ay.tick();
+			assert.equal(0, ay.getOutput());
+			// Stays 0
+			for (let i=0; i<100; i++)
+				ay.tick();
+			assert.equal(0, ay.getOutput());
+		});
+
+		test('envelope attack and hold', () => {
+			const ay=new Ay38912();
+			write(ay, 7, 0b111111);
+			write(ay, 9, 0x10);
+			write(ay, 11, 1);
+			write(ay, 13, 0b1101);	// Attack, hold
+			assert.equal(0, ay.getOutput());
+			for (let i=0; i<100; i++)
+				ay.tick();
+			assert.equal(1/3, ay.getOutput());
+		});
+
+		test('mixed into samples', () => {
+			// AY ticks every 16 T-states, 32 T-states per sample
+			const audio=new ZxAudio(32*10, true, 10, 1);
+			audio.ay!.selectRegister(7);
+			audio.writeAyRegister(0b111111, 0);
+			audio.ay!.selectRegister(10);
+			audio.writeAyRegister(15, 0);
+			audio.generate(64);
+			const samples=audio.getNewSamples();
+			assert.equal(2, samples.length);
+			// Channel C with max. volume, no beeper
+			for (const sample of samples)
+				assert.ok(Math.abs(sample-0.5/3)<1E-6);
+		});
+
+	});
+
+
+	test('createWav', () => {
+		const wav=ZxAudio.createWav(new Float32Array([0, 0.5, 1]), 22050);
+		assert.equal(44+6, wav.length);
+		assert.equal('RIFF', wav.toString('ascii', 0, 4));
+		assert.equal(44+6-8, wav.readUInt32LE(4));
+		assert.equal('WAVE', wav.toString('ascii', 8, 12));
+		assert.equal(1, wav.readUInt16LE(22));	// Mono
+		assert.equal(22050, wav.readUInt32LE(24));
+		assert.equal(16, wav.readUInt16LE(34));
+		assert.equal('data', wav.toString('ascii', 36, 40));
+		assert.equal(6, wav.readUInt32LE(40));
+		assert.equal(0, wav.readInt16LE(44));
+		assert.equal(16384, wav.readInt16LE(46));
+		assert.equal(32767, wav.readInt16LE(48));
+	});
+
+});
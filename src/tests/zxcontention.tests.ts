@@ -0,0 +1,291 @@
+
+import * as assert from 'assert';
+import {ZxContention} from '../remotes/zxsimulator/zxcontention';
+import {Z80Cpu} from '../remotes/zxsimulator/z80cpu';
+import {ZxMemory} from '../remotes/zxsimulator/zxmemory';
+import {Z80Ports} from '../remotes/zxsimulator/z80ports';
+import {Settings} from '../settings';
+
+suite('ZxContention', () => {
+
+	test('create', () => {
+		const memory=new ZxMemory();
+		const zx48=ZxContention.create("ZX48", memory)!;
+		assert.equal(69888, zx48.frameTstates);
+		assert.equal(3500000, zx48.cpuFreq);
+		const zx128=ZxContention.create("ZX128", memory)!;
+		assert.equal(70908, zx128.frameTstates);
+		assert.equal(228, zx128.lineTstates);
+		assert.equal(undefined, ZxContention.create("64K", memory));
+		assert.equal(undefined, ZxContention.create("ZXNEXT", memory));
+	});
+
+	test('create plus3', () => {
+		const memory=new ZxMemory();
+		const plus3=ZxContention.create("plus3", memory)!;
+		assert.equal(70908, plus3.frameTstates);
+		const delays=new Array<number>();
+		for (let t=14365; t<14365+8; t++)
+			delays.push(plus3.getDelay(t));
+		assert.deepEqual([1, 0, 7, 6, 5, 4, 3, 2], delays);
+		// Banks 4-7 contended, bank 1 not
+		memory.setSlot(6, 2*4);
+		assert.ok(plus3.isContended(0xC000));
+		memory.setSlot(6, 2*1);
+		assert.ok(!plus3.isContended(0xC000));
+		// No I/O contention
+		assert.equal(0, plus3.getIoDelay(14365, 0x40FE));
+		assert.equal(ZxContention.create("48k", memory)!.frameTstates, 69888);
+	});
+
+	test('delay pattern', () => {
+		const contention=ZxContention.create("ZX48", new ZxMemory())!;
+		assert.equal(0, contention.getDelay(14334));
+		const delays=new Array<number>();
+		for (let t=14335; t<14335+8; t++)
+			delays.push(contention.getDelay(t));
+		assert.deepEqual([6, 5, 4, 3, 2, 1, 0, 0], delays);
+		// Border area of the line
+		assert.equal(0, contention.getDelay(14335+128));
+		// Next line
+		assert.equal(6, contention.getDelay(14335+224));
+		// Last line
+		assert.equal(6, contention.getDelay(14335+191*224));
+		assert.equal(0, contention.getDelay(14335+192*224));
+		// Wrap around
+		assert.equal(6, contention.getDelay(14335+69888));
+	});
+
+	test('contended memory 48K', () => {
+		const memory=new ZxMemory();
+		const contention=ZxContention.create("ZX48", memory)!;
+		assert.ok(!contention.isContended(0x3FFF));
+		assert.ok(contention.isContended(0x4000));
+		assert.ok(contention.isContended(0x7FFF));
+		assert.ok(!contention.isContended(0x8000));
+		assert.ok(!contention.isContended(0xC000));
+		assert.equal(6, contention.getMemoryDelay(14335, 0x4000));
+		assert.equal(0, contention.getMemoryDelay(14335, 0x8000));
+	});
+
+	test('contended memory 128K', () => {
+		const memory=new ZxMemory();
+		const contention=ZxContention.create("ZX128", memory)!;
+		// Bank 0 at 0xC000
+		assert.ok(!contention.isContended(0xC000));
+		// Bank 7
+		memory.setSlot(6, 14);
+		memory.setSlot(7, 15);
+		assert.ok(contention.isContended(0xC000));
+		assert.ok(contention.isContended(0xFFFF));
+		// Bank 2 at 0x8000
+		assert.ok(!contention.isContended(0x8000));
+	});
+
+	test('I/O', () => {
+		const contention=ZxContention.create("ZX48", new ZxMemory())!;
+		// N:4
+		assert.equal(0, contention.getIoDelay(14335, 0x00FF));
+		// N:1, C:3
+		assert.equal(5, contention.getIoDelay(14335, 0x00FE));
+		// C:1, C:3: 6 + delay at 14342 (0)
+		assert.equal(6, contention.getIoDelay(14335, 0x40FE));
+		// C:1, C:1, C:1, C:1: 6 + delay at 14342 (0) + 14343 (6) + 14350 (0)
+		assert.equal(12, contention.getIoDelay(14335, 0x40FF));
+	});
+
+
+	suite('Z80Cpu', () => {
+
+		/// Creates the CPU and places the code at 0x8000.
+		/// 'visualMemory' can also be a 'machine'.
+		function createCpu(visualMemory: string, code: number[]): any {
+			const cfg: any={
+				zsim: (visualMemory=="plus3") ? {machine: visualMemory} : {visualMemory}
+			};
+			Settings.Init(cfg, '');
+			const cpu=new Z80Cpu(new ZxMemory(), new Z80Ports()) as any;
+			cpu.memory.writeBlock(0x8000, new Uint8Array(code));
+			cpu.pc=0x8000;
+			return cpu;
+		}
+
+		/// Sets the T-state within the frame.
+		function setFrameTstate(cpu: any, tstate: number) {
+			cpu.remaingInterruptTstates=cpu.INTERRUPT_TIME-tstate;
+		}
+
+		test('frame timing', () => {
+			const cpu=createCpu("ZX48", []);
+			assert.equal(69888, cpu.INTERRUPT_TIME);
+			assert.equal(3500000, cpu.cpuFreq);
+			const cpu128=createCpu("ZX128", []);
+			assert.equal(70908, cpu128.INTERRUPT_TIME);
+			assert.equal(3546900, cpu128.cpuFreq);
+			const cpu64k=createCpu("64K", []);
+			assert.equal(70000, cpu64k.INTERRUPT_TIME);
+			assert.equal(undefined, cpu64k.contention);
+		});
+
+		test('LD A,(0x4000)', () => {
+			// The read of 0x4000 starts at T-state 14335
+			const cpu=createCpu("ZX48", [0x3A, 0x00, 0x40]);
+			setFrameTstate(cpu, 14335-10);
+			cpu.execute();
+			assert.equal(13+6, cpu.cpuTstatesCounter);
+			assert.equal(14335+9, cpu.getFrameTstate());
+
+			// Outside the contended area
+			const cpu2=createCpu("ZX48", [0x3A, 0x00, 0x40]);
+			setFrameTstate(cpu2, 1000);
+			cpu2.execute();
+			assert.equal(13, cpu2.cpuTstatesCounter);
+
+			// No contention
+			const cpu64k=createCpu("64K", [0x3A, 0x00, 0x40]);
+			setFrameTstate(cpu64k, 14335-10);
+			cpu64k.execute();
+			assert.equal(13, cpu64k.cpuTstatesCounter);
+		});
+
+		test('frame position stays in phase', () => {
+			// LD A,(0x3A3A) everywhere: 13 T-states (plus contention), does not
+			// divide the frame.
+			const cpu=createCpu("ZX48", []);
+			cpu.memory.writeBlock(0, new Uint8Array(0x10000).fill(0x3A));
+			let frames=0;
+			while (frames<5) {
+				if (cpu.execute()) {
+					frames++;
+					// The T-states past the end of the frame are kept
+					assert.equal(cpu.cpuTstatesCounter%69888, cpu.getFrameTstate());
+				}
+			}
+			assert.equal(5, Math.floor(cpu.cpuTstatesCounter/69888));
+		});
+
+		test('INC (HL): internal cycle', () => {
+			// pc:4, hl:3, hl:1, hl(write):3
+			// Fetch at 14331, read at 14335 (+6), internal at 14344 (+5), write at 14350 (+0)
+			const cpu=createCpu("ZX48", [0x34]);
+			cpu.hl=0x4000;
+			setFrameTstate(cpu, 14331);
+			cpu.execute();
+			assert.equal(11+11, cpu.cpuTstatesCounter);
+			assert.equal(1, cpu.memory.read8(0x4000));
+		});
+
+		test('PUSH BC: IR contention', () => {
+			// pc:4, ir:1, sp-1:3, sp-2:3
+			// The stack is not contended
+			const cpu=createCpu("ZX48", [0xC5]);
+			cpu.sp=0xC000;
+			cpu.i=0x40;
+			setFrameTstate(cpu, 14331);
+			cpu.execute();
+			assert.equal(11+6, cpu.cpuTstatesCounter);
+
+			// I not contended
+			const cpu2=createCpu("ZX48", [0xC5]);
+			cpu2.sp=0xC000;
+			cpu2.i=0x3F;
+			setFrameTstate(cpu2, 14331);
+			cpu2.execute();
+			assert.equal(11, cpu2.cpuTstatesCounter);
+		});
+
+		test('LD A,(IX+0)', () => {
+			// pc:4, pc+1:4, pc+2:3, pc+2:1 x5, ix+d:3
+			// Read of (IX+d) at 14343 (+6)
+			const cpu=createCpu("ZX48", [0xDD, 0x7E, 0x00]);
+			cpu.ix=0x4000;
+			setFrameTstate(cpu, 14327);
+			cpu.execute();
+			assert.equal(19+6, cpu.cpuTstatesCounter);
+		});
+
+		test('LDIR', () => {
+			// pc:4, pc+1:4, hl:3, de:3, de:1 x2, [de:1 x5]
+			// Write at 14342 (+0), internal at 14345 (+4), 14350 (+0),
+			// 14351 (+6), 14358 (+0), 14359 (+6), 14366 (+0), 14367 (+6)
+			const cpu=createCpu("ZX48", [0xED, 0xB0]);
+			cpu.hl=0x9000;
+			cpu.de=0x4000;
+			cpu.bc=2;
+			setFrameTstate(cpu, 14331);
+			cpu.execute();
+			assert.equal(21+22, cpu.cpuTstatesCounter);
+			assert.equal(0x8000, cpu.pc);
+
+			// Last iteration
+			cpu.bc=1;
+			setFrameTstate(cpu, 14331);
+			cpu.cpuTstatesCounter=0;
+			cpu.execute();
+			assert.equal(16+4, cpu.cpuTstatesCounter);
+			assert.equal(0x8002, cpu.pc);
+		});
+
+		test('DD prefix without IX instruction', () => {
+			// Executed as NOP, the following byte is not accessed
+			const cpu=createCpu("ZX48", [0xDD, 0x00]);
+			cpu.hl=0x4000;
+			setFrameTstate(cpu, 14331);
+			cpu.execute();
+			assert.equal(4, cpu.cpuTstatesCounter);
+			assert.equal(0x8001, cpu.pc);
+		});
+
+		test('INC (HL) 128K', () => {
+			// First contended T-state 14361, same pattern as the 48K
+			const cpu=createCpu("ZX128", [0x34]);
+			cpu.hl=0x4000;
+			setFrameTstate(cpu, 14357);
+			cpu.execute();
+			assert.equal(11+11, cpu.cpuTstatesCounter);
+
+			// Bank 7 at 0xC000
+			const cpu2=createCpu("ZX128", [0x34]);
+			cpu2.memory.setSlot(6, 14);
+			cpu2.memory.setSlot(7, 15);
+			cpu2.hl=0xC000;
+			setFrameTstate(cpu2, 14357);
+			cpu2.execute();
+			assert.equal(11+11, cpu2.cpuTstatesCounter);
+
+			// Bank 0 at 0xC000
+			const cpu3=createCpu("ZX128", [0x34]);
+			cpu3.hl=0xC000;
+			setFrameTstate(cpu3, 14357);
+			cpu3.execute();
+			assert.equal(11, cpu3.cpuTstatesCounter);
+		});
+
+		test('INC (HL) +3: no contention of internal cycles', () => {
+			// Fetch at 14361, read at 14365 (+1), internal at 14369 (not
+			// contended), write at 14370 (+4)
+			const cpu=createCpu("plus3", [0x34]);
+			cpu.hl=0x4000;
+			setFrameTstate(cpu, 14361);
+			cpu.execute();
+			assert.equal(11+5, cpu.cpuTstatesCounter);
+
+			// No IR contention
+			const cpu2=createCpu("plus3", [0xC5]);
+			cpu2.sp=0xC000;
+			cpu2.i=0x40;
+			setFrameTstate(cpu2, 14361);
+			cpu2.execute();
+			assert.equal(11, cpu2.cpuTstatesCounter);
+		});
+
+		test('OUT (0xFE),A', () => {
+			// I/O cycle starts at 14334: N:1, C:3
+			const cpu=createCpu("ZX48", [0xD3, 0xFE]);
+			cpu.a=0;
+			setFrameTstate(cpu, 14334-7);
+			cpu.execute();
+			assert.equal(11+6, cpu.cpuTstatesCounter);
+		});
+	});
+});
@@ -0,0 +1,60 @@
+
+import * as assert from 'assert';
+import {ZxJoystick} from '../remotes/zxsimulator/zxjoystick';
+import {Z80Ports} from '../remotes/zxsimulator/z80ports';
+
+suite('ZxJoystick', () => {
+	let ports: Z80Ports;
+
+	setup(() => {
+		ports=new Z80Ports();
+		// Keys released
+		ports.setPortValue(0xF7FE, 0xFF);
+		ports.setPortValue(0xEFFE, 0xFF);
+	});
+
+	test('kempston', () => {
+		const joystick=new ZxJoystick('kempston', ports);
+		assert.equal(0, ports.read(0x001F));
+		joystick.buttonChanged('right', true);
+		joystick.buttonChanged('fire', true);
+		assert.equal(0b10001, ports.read(0x001F));
+		// Any high byte
+		assert.equal(0b10001, ports.read(0xAB1F));
+		joystick.buttonChanged('right', false);
+		joystick.buttonChanged('up', true);
+		assert.equal(0b11000, ports.read(0x001F));
+		// Other ports not affected
+		assert.equal(0xFF, ports.read(0xEFFE));
+	});
+
+	test('sinclair1', () => {
+		const joystick=new ZxJoystick('sinclair1', ports);
+		joystick.buttonChanged('left', true);	// 6
+		assert.equal(0b11101111, ports.read(0xEFFE));
+		joystick.buttonChanged('fire', true);	// 0
+		assert.equal(0b11101110, ports.read(0xEFFE));
+		joystick.buttonChanged('left', false);
+		joystick.buttonChanged('fire', false);
+		assert.equal(0xFF, ports.read(0xEFFE));
+		assert.equal(0xFF, ports.read(0xF7FE));
+	});
+
+	test('sinclair2', () => {
+		const joystick=new ZxJoystick('sinclair2', ports);
+		joystick.buttonChanged('up', true);	// 4
+		assert.equal(0b11110111, ports.read(0xF7FE));
+		assert.equal(0xFF, ports.read(0xEFFE));
+	});
+
+	test('cursor', () => {
+		const joystick=new ZxJoystick('cursor', ports);
+		joystick.buttonChanged('left', true);	// 5
+		assert.equal(0b11101111, ports.read(0xF7FE));
+		joystick.buttonChanged('right', true);	// 8
+		assert.equal(0b11111011, ports.read(0xEFFE));
+		// No kempston port
+		assert.equal(0, ports.read(0x001F));
+	});
+
+});
@@ -0,0 +1,99 @@
+
+import * as assert from 'assert';
+import {ZxNextCopper} from '../remotes/zxsimulator/zxnextcopper';
+
+suite('ZxNextCopper', () => {
+	let writes: Array<number[]>;
+	let copper: ZxNextCopper;
+	// The T-states of a frame of the CPU (ZX Next: 20ms at 3.5MHz).
+	const frameTstates=70000;
+	// The T-state of the CPU within the frame.
+	let frameTstate: number;
+
+	setup(() => {
+		writes=[];
+		copper=new ZxNextCopper((reg, value) => writes.push([reg, value, copper.rasterPosition]));
+		// Start at line 0
+		frameTstate=ZxNextCopper.LINE0_TSTATES;
+		copper.update(frameTstate, frameTstates);
+	});
+
+	/// Advances the CPU frame in steps (instructions) and updates the copper.
+	function advance(tstates: number, step=1000) {
+		while (tstates>0) {
+			const t=Math.min(tstates, step);
+			frameTstate=(frameTstate+t)%frameTstates;
+			copper.update(frameTstate, frameTstates);
+			tstates-=t;
+		}
+	}
+
+	/// Writes the instructions with register 0x63.
+	function writeList(instructions: number[]) {
+		copper.writeRegister(0x61, 0);
+		copper.writeRegister(0x62, 0);
+		for (const instruction of instructions) {
+			copper.writeRegister(0x63, instruction>>>8);
+			copper.writeRegister(0x63, instruction&0xFF);
+		}
+	}
+
+
+	test('write and disassemble', () => {
+		writeList([0x8000|(2<<9)|10, 0x4AE3, 0x0000, 0xFFFF]);
+		assert.equal(copper.readRegister(0x61), 8);
+		assert.equal(copper.getInstruction(1), 0x4AE3);
+		const lines=copper.disassembleList();
+		assert.equal(lines.length, 4);
+		assert.ok(lines[0].endsWith('WAIT 10,2'));
+		assert.ok(lines[1].endsWith('MOVE 4Ah,E3h'));
+		assert.ok(lines[2].endsWith('NOP'));
+		assert.ok(lines[3].endsWith('HALT'));
+	});
+
+
+	test('MOVE and WAIT', () => {
+		const line=ZxNextCopper.LINE_TSTATES;
+		writeList([0x1401, 0x8000|(4<<9)|10, 0x1402, 0xFFFF]);
+		copper.writeRegister(0x62, 0x40);	// Start at 0
+		advance(1);
+		assert.deepEqual(writes, [[0x14, 0x01, 1]]);
+		advance(10*line);
+		assert.deepEqual(writes, [[0x14, 0x01, 1]]);
+		advance(20);
+		assert.equal(writes.length, 2);
+		assert.deepEqual(writes[1].slice(0, 2), [0x14, 0x02]);
+		// Halted
+		assert.equal(copper.pc, 3);
+		advance(400*line);
+		assert.equal(writes.length, 2);
+	});
+
+
+	test('restart each frame', () => {
+		writeList([0x1401, 0xFFFF]);
+		copper.writeRegister(0x62, 0xC0);
+		advance(100);
+		assert.equal(writes.length, 1);
+		advance(frameTstates);
+		assert.equal(writes.length, 2);
+		// Stop
+		copper.writeRegister(0x62, 0x00);
+		advance(frameTstates);
+		assert.equal(writes.length, 2);
+	});
+
+
+	test('in sync with the interrupt', () => {
+		// WAIT line 10, MOVE, HALT; restart each frame
+		writeList([0x8000|10, 0x1401, 0xFFFF]);
+		copper.writeRegister(0x62, 0xC0);
+		advance(5*frameTstates, 4);
+		assert.equal(writes.length, 5);
+		// Always at the same raster position, no drift
+		const position=writes[0][2];
+		assert.ok(position>=10*ZxNextCopper.LINE_TSTATES && position<=10*ZxNextCopper.LINE_TSTATES+4);
+		for (const write of writes)
+			assert.equal(write[2], position);
+	});
+});
@@ -0,0 +1,106 @@
+
+import * as assert from 'assert';
+import {ZxNextDma} from '../remotes/zxsimulator/zxnextdma';
+import {WatchpointZxMemory} from '../remotes/zxsimulator/wpzxmemory';
+import {Z80Ports} from '../remotes/zxsimulator/z80ports';
+
+suite('ZxNextDma', () => {
+	let memory: WatchpointZxMemory;
+	let ports: Z80Ports;
+	let dma: ZxNextDma;
+
+	setup(() => {
+		memory=new WatchpointZxMemory();
+		ports=new Z80Ports();
+		dma=new ZxNextDma(memory, ports);
+		for (let i=0; i<8; i++)
+			memory.write8(0x8000+i, 0x10+i);
+	});
+
+
+	/// Writes the bytes to the DMA port.
+	/// @returns The sum of the returned T-states.
+	function write(values: number[], zxnMode=true): number {
+		let tstates=0;
+		for (const value of values)
+			tstates+=dma.write(value, zxnMode);
+		return tstates;
+	}
+
+	/// The program for a memory to memory transfer of 4 bytes
+	/// from 0x8000 to 0xC000.
+	const memToMem=[
+		0x83,	// Disable
+		0x7D, 0x00, 0x80, 0x04, 0x00,	// WR0: A->B, port A 0x8000, length 4
+		0x14,	// WR1: port A memory, increment
+		0x10,	// WR2: port B memory, increment
+		0xAD, 0x00, 0xC0,	// WR4: continuous, port B 0xC000
+		0xCF,	// Load
+		0x87	// Enable
+	];
+
+
+	test('memory to memory', () => {
+		const tstates=write(memToMem);
+		assert.equal(tstates, 4*(3+3));
+		assert.equal(memory.read8(0xC000), 0x10);
+		assert.equal(memory.read8(0xC003), 0x13);
+		assert.equal(memory.read8(0xC004), 0);
+		assert.equal(dma.counterA, 0x8004);
+		assert.equal(dma.counterB, 0xC004);
+	});
+
+
+	test('Z80 DMA mode', () => {
+		write(memToMem, false);
+		// One byte more
+		assert.equal(memory.read8(0xC004), 0x14);
+		assert.equal(memory.read8(0xC005), 0);
+	});
+
+
+	test('memory to I/O, timing', () => {
+		const written=new Array<number>();
+		ports.registerOutPortFunction(0x00FE, (port, value) => written.push(value));
+		const tstates=write([
+			0x7D, 0x00, 0x80, 0x03, 0x00,	// WR0: A->B, port A 0x8000, length 3
+			0x54, 0x02,	// WR1: port A memory, increment, timing 2
+			0x68, 0x21, 0x00,	// WR2: port B I/O, fixed, timing 3, prescaler 0
+			0xAD, 0xFE, 0x00,	// WR4: port B 0x00FE
+			0xCF, 0x87
+		]);
+		assert.deepEqual(written, [0x10, 0x11, 0x12]);
+		assert.equal(tstates, 3*(2+3));
+	});
+
+
+	test('B to A, decrement', () => {
+		write([
+			0x79, 0x03, 0xC0, 0x02, 0x00,	// WR0: B->A, port A 0xC003, length 2
+			0x04,	// WR1: port A memory, decrement
+			0x00,	// WR2: port B memory, decrement
+			0xAD, 0x07, 0x80,	// WR4: port B 0x8007
+			0xCF, 0x87
+		]);
+		assert.equal(memory.read8(0xC003), 0x17);
+		assert.equal(memory.read8(0xC002), 0x16);
+		assert.equal(memory.read8(0xC001), 0);
+	});
+
+
+	test('watchpoint', () => {
+		memory.setWatchpoint(0xC002, 1, 'w');
+		write(memToMem);
+		assert.equal(memory.hitAddress, 0xC002);
+		assert.equal(memory.hitAccess, 'w');
+	});
+
+
+	test('read sequence', () => {
+		write(memToMem);
+		write([0xBB, 0x19, 0xA7]);	// Mask: status, port A
+		assert.equal(dma.read()&0x20, 0);	// End of block
+		assert.equal(dma.read(), 0x04);
+		assert.equal(dma.read(), 0x80);
+	});
+});
@@ -0,0 +1,154 @@
+
+import * as assert from 'assert';
+import {ZxNextLayers} from '../remotes/zxsimulator/zxnextlayers';
+import {ZxMemory} from '../remotes/zxsimulator/zxmemory';
+import {MemBuffer} from '../misc/membuffer';
+
+suite('ZxNextLayers', () => {
+	let memory: ZxMemory;
+	let layers: ZxNextLayers;
+	const width=ZxNextLayers.WIDTH;
+	const border=ZxNextLayers.BORDER;
+
+	setup(() => {
+		memory=new ZxMemory();
+		// Screen in bank 10
+		memory.setSlot(2, 10);
+		memory.setSlot(3, 11);
+		layers=new ZxNextLayers(memory);
+	});
+
+
+	test('palette', () => {
+		// 8 bit
+		layers.writeRegister(0x43, 0x10);	// Layer 2 palette 1
+		layers.writeRegister(0x40, 5);
+		layers.writeRegister(0x41, 0x12);
+		layers.writeRegister(0x41, 0x34);
+		assert.equal(layers.palettes[1][5], 0x12);
+		assert.equal(layers.palettes[1][6], 0x34);
+		// 9 bit
+		layers.writeRegister(0x43, 0x60);	// Sprites palette 2
+		layers.writeRegister(0x40, 0);
+		layers.writeRegister(0x44, 0x56);
+		layers.writeRegister(0x44, 0x01);
+		layers.writeRegister(0x44, 0x78);
+		assert.equal(layers.palettes[6][0], 0x56);
+		assert.equal(layers.palettes[6][1], 0x78);
+		// No auto increment
+		layers.writeRegister(0x43, 0x80);
+		layers.writeRegister(0x40, 3);
+		layers.writeRegister(0x41, 0xAA);
+		layers.writeRegister(0x41, 0xBB);
+		assert.equal(layers.palettes[0][3], 0xBB);
+		assert.equal(layers.palettes[0][4], 0x14);
+		// Active palette
+		assert.equal(layers.getPalette(ZxNextLayers.PALETTE_LAYER2), layers.palettes[1]);
+		layers.writeRegister(0x43, 0x04);
+		assert.equal(layers.getPalette(ZxNextLayers.PALETTE_LAYER2), layers.palettes[5]);
+	});
+
+
+	test('clip window', () => {
+		layers.writeRegister(0x18, 10);
+		layers.writeRegister(0x18, 20);
+		assert.equal(layers.readRegister(0x1C), 2);
+		layers.writeRegister(0x1C, 0x01);
+		layers.writeRegister(0x18, 30);
+		layers.writeRegister(0x18, 40);
+		layers.writeRegister(0x18, 50);
+		layers.writeRegister(0x18, 60);
+		assert.deepEqual(layers.clipWindows[ZxNextLayers.CLIP_LAYER2], [30, 40, 50, 60]);
+		assert.deepEqual(layers.clipWindows[ZxNextLayers.CLIP_ULA], [0, 255, 0, 191]);
+	});
+
+
+	test('ULA and border', () => {
+		memory.write8(0x4000, 0x80);
+		memory.write8(0x5800, 0x0A);	// Paper 1, ink 2
+		const pixels=layers.createPixels(4);
+		assert.equal(pixels[0], 0x14);	// Green border
+		assert.equal(pixels[border*width+border], 0xA0);
+		assert.equal(pixels[border*width+border+1], 0x02);
+	});
+
+
+	test('Layer 2 256x192', () => {
+		memory.getBankMemory(16)[0x0101]=0x33;	// x=1, y=1
+		layers.writeRegister(0x69, 0x80);
+		assert.equal(layers.layer2Port&0x02, 0x02);
+		let pixels=layers.createPixels(0);
+		assert.equal(pixels[(border+1)*width+border+1], 0x33);
+		// Transparent: ULA is seen
+		assert.equal(pixels[(border+1)*width+border+2], 0x00);
+		// Scroll
+		layers.writeRegister(0x16, 1);
+		pixels=layers.createPixels(0);
+		assert.equal(pixels[(border+1)*width+border], 0x33);
+		// Clip
+		layers.writeRegister(0x18, 1);
+		pixels=layers.createPixels(0);
+		assert.equal(pixels[(border+1)*width+border], 0x00);
+	});
+
+
+	test('Layer 2 320x256', () => {
+		memory.getBankMemory(16, 320*256)[3*256+2]=0x44;	// x=3, y=2
+		layers.layer2Port=0x02;
+		layers.writeRegister(0x70, 0x10);
+		const pixels=layers.createPixels(0);
+		assert.equal(pixels[2*width+3], 0x44);
+	});
+
+
+	test('tilemap', () => {
+		const bank5=memory.getBankMemory(10, 0x4000);
+		// Tile 1: pixel (0,0)=index 3, (1,0)=transparent index 15
+		bank5[0x0C00+32]=0x3F;
+		// Map entry (0,0): tile 1, palette offset 1
+		bank5[0x2C00]=1;
+		bank5[0x2C01]=0x10;
+		layers.writeRegister(0x6B, 0x80);
+		const pixels=layers.createPixels(0);
+		assert.equal(pixels[0], 0x13);
+		// Transparent: ULA border is seen
+		assert.equal(pixels[1], 0x00);
+	});
+
+
+	test('priority', () => {
+		memory.getBankMemory(16)[0]=0x33;
+		layers.writeRegister(0x69, 0x80);
+		memory.write8(0x4000, 0x80);
+		memory.write8(0x5800, 0x07);	// White ink
+		const index=border*width+border;
+		// SLU
+		assert.equal(layers.createPixels(0)[index], 0x33);
+		// ULS
+		layers.writeRegister(0x15, 5<<2);
+		assert.equal(layers.createPixels(0)[index], 0xB6);
+		// Fallback
+		layers.writeRegister(0x68, 0x80);
+		layers.writeRegister(0x69, 0x00);
+		layers.writeRegister(0x4A, 0x55);
+		assert.equal(layers.createPixels(0)[index], 0x55);
+	});
+
+
+	test('serialize', () => {
+		layers.writeRegister(0x12, 9);
+		layers.writeRegister(0x40, 7);
+		layers.writeRegister(0x41, 0x99);
+		layers.writeRegister(0x1A, 8);
+		layers.layer2Port=0x03;
+		const memBuffer=new MemBuffer(layers.getSerializedSize());
+		layers.serialize(memBuffer);
+		const restored=new ZxNextLayers(memory);
+		restored.deserialize(memBuffer);
+		assert.equal(restored.readRegister(0x12), 9);
+		assert.equal(restored.palettes[0][7], 0x99);
+		assert.deepEqual(restored.clipWindows[ZxNextLayers.CLIP_ULA], [8, 255, 0, 191]);
+		assert.equal(restored.readRegister(0x1C), 1<<4);
+		assert.equal(restored.layer2Port, 0x03);
+	});
+});
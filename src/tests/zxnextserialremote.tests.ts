@@ -0,0 +1,252 @@
+import * as assert from 'assert';
+import {RemoteFactory, Remote} from '../remotes/remotefactory';
+import {ZxNextSerialRemote} from '../remotes/dzrpbuffer/zxnextserialremote';
+import {DZRP} from '../remotes/dzrp/dzrpremote';
+import {Settings} from '../settings';
+import {RemoteFeature} from '../remotes/remotebase';
+import {Z80RegistersClass} from '../remotes/z80registers';
+import {spawn, spawnSync, ChildProcess} from 'child_process';
+
+
+// A python script that creates a pty pair and relays between the
+// master side and stdin/stdout. The slave path is printed first.
+const PTY_RELAY=`
+import pty,os,sys,select,tty
+m,s=pty.openpty()
+tty.setraw(m)
+print(os.ttyname(s)); sys.stdout.flush()
+while True:
+    r,_,_=select.select([m,0],[],[])
+    if m in r:
+        d=os.read(m,1024)
+        if not d: break
+        os.write(1,d)
+    if 0 in r:
+        d=os.read(0,1024)
+        if not d: break
+        os.write(m,d)
+`;
+
+
+/**
+ * Simulates the ZX Next side of the serial connection.
+ * Parses the DZRP commands and sends the responses (with message start byte).
+ */
+class FakeNextBoard {
+	public py: ChildProcess;
+	public path: string;
+	public loopbackCorrupt=false;
+	public memory=new Uint8Array(0x10000);
+	public version=[1, 6, 0];
+	public capabilities=Buffer.alloc(0);
+	public writeMemLengths=new Array<number>();
+	protected received=Buffer.alloc(0);
+
+	/// Starts the pty relay and returns the path of the slave device.
+	public async start(): Promise<string> {
+		this.py=spawn('python3', ['-u', '-c', PTY_RELAY]);
+		return new Promise<string>(resolve => {
+			let text='';
+			const onPath=(data: Buffer) => {
+				text+=data.toString();
+				const k=text.indexOf('\n');
+				if (k<0)
+					return;
+				this.py.stdout!.off('data', onPath);
+				this.py.stdout!.on('data', data => this.dataReceived(data));
+				this.path=text.substring(0, k).trim();
+				resolve(this.path);
+			};
+			this.py.stdout!.on('data', onPath);
+		});
+	}
+
+	/// Stops the relay.
+	public stop() {
+		this.py.kill();
+	}
+
+	/// Collects the data and handles complete messages.
+	protected dataReceived(data: Buffer) {
+		this.received=Buffer.concat([this.received, data]);
+		while (this.received.length>=4) {
+			const length=this.received.readUInt32LE(0);
+			if (this.received.length<4+length)
+				return;
+			const seqno=this.received[4];
+			const cmd=this.received[5];
+			const payload=this.received.subarray(6, 4+length);
+			this.received=this.received.subarray(4+length);
+			this.sendResponse(seqno, this.handleCmd(cmd, payload));
+		}
+	}
+
+	/// Returns the response data for a command.
+	protected handleCmd(cmd: number, payload: Buffer): Buffer {
+		switch (cmd) {
+			case DZRP.CMD_LOOPBACK: {
+				const resp=Buffer.from(payload);
+				if (this.loopbackCorrupt&&resp.length>0)
+					resp[resp.length-1]^=0xFF;
+				return resp;
+			}
+			case DZRP.CMD_INIT:
+				return Buffer.concat([Buffer.from([0, ...this.version]), Buffer.from('FakeNext\0'), this.capabilities]);
+			case DZRP.CMD_WRITE_MEM:
+				this.writeMemLengths.push(payload.length-3);
+				this.memory.set(payload.subarray(3), payload.readUInt16LE(1));
+				return Buffer.alloc(0);
+			case DZRP.CMD_GET_REGISTERS:
+				return Buffer.alloc(27);
+			case DZRP.CMD_SET_BREAKPOINTS: {
+				const resp=Buffer.alloc(payload.length/2);
+				for (let i=0; i<resp.length; i++)
+					resp[i]=this.memory[payload.readUInt16LE(2*i)];
+				return resp;
+			}
+			case DZRP.CMD_RESTORE_MEM:
+				for (let i=0; i<payload.length; i+=3)
+					this.memory[payload.readUInt16LE(i)]=payload[i+2];
+				return Buffer.alloc(0);
+			default:
+				return Buffer.alloc(0);
+		}
+	}
+
+	/// Sends a response, preceded by the message start byte.
+	protected sendResponse(seqno: number, data: Buffer) {
+		const header=Buffer.alloc(6);
+		header[0]=0xA5;
+		header.writeUInt32LE(data.length+1, 1);
+		header[5]=seqno;
+		this.py.stdin!.write(Buffer.concat([header, data]));
+	}
+}
+
+
+suite('ZxNextSerialRemote', () => {
+	// The serial connection requires stty and a pty (python3 is used to create it)
+	const available=(process.platform!='win32')&&(spawnSync('python3', ['--version']).status==0);
+	let board: FakeNextBoard;
+	let remote: ZxNextSerialRemote;
+
+	setup(async function () {
+		if (!available)
+			this.skip();
+		board=new FakeNextBoard();
+		const path=await board.start();
+		const cfg: any={
+			remoteType: 'zxnext',
+			zxnext: {
+				serial: {
+					path
+				}
+			}
+		};
+		Settings.Init(cfg, '');
+		Z80RegistersClass.createRegisters();
+		RemoteFactory.createRemote('zxnext');
+		remote=Remote as ZxNextSerialRemote;
+	});
+
+	teardown(async () => {
+		if (!available)
+			return;
+		await remote.disconnect();
+		RemoteFactory.removeRemote();
+		board.stop();
+	});
+
+
+	/// Initializes the remote. Returns the text of 'initialized' or the error.
+	function init(): Promise<string|Error> {
+		return new Promise<string|Error>(resolve => {
+			remote.once('initialized', text => resolve(text));
+			remote.once('error', err => resolve(err));
+			remote.init();
+		});
+	}
+
+
+	test('initialized after loopback check', async () => {
+		const result=await init();
+		assert.equal("'FakeNext' initialized.", result);
+	});
+
+	test('loopback check fails', async () => {
+		board.loopbackCorrupt=true;
+		const result=await init();
+		assert.ok(result instanceof Error);
+		assert.ok((result as Error).message.includes('CMD_LOOPBACK'));
+	});
+
+	test('cmd_loopback', async () => {
+		await init();
+		const result=await remote.dbgExec('cmd_loopback 1 2 3');
+		assert.ok(result.endsWith('Response received: OK'));
+	});
+
+	test('cmd_set_breakpoints and cmd_restore_mem', async () => {
+		await init();
+		board.memory[0x8000]=0x3E;
+		board.memory[0xC001]=0xC9;
+		const result=await remote.dbgExec('cmd_set_breakpoints 0x8000 0xC001');
+		assert.ok(result.endsWith('\n8000h: 3Eh\nC001h: C9h'));
+
+		await remote.dbgExec('cmd_restore_mem 0x8000 0x12 0xC001 0x34');
+		assert.equal(0x12, board.memory[0x8000]);
+		assert.equal(0x34, board.memory[0xC001]);
+	});
+
+	test('DZRP version mismatch', async () => {
+		board.version=[1, 5, 0];
+		const result=await init();
+		assert.ok(result instanceof Error);
+		assert.ok((result as Error).message.includes('DZRP versions do not match'));
+	});
+
+	test('no capabilities: all features', async () => {
+		await init();
+		assert.ok(remote.supportsFeature(RemoteFeature.WATCHPOINTS));
+		assert.ok(remote.supportsFeature(RemoteFeature.STATE_SAVE));
+		assert.ok(remote.supportsFeature(RemoteFeature.SPRITES));
+	});
+
+	test('capabilities', async () => {
+		board.version=[1, 7, 0];
+		// Commands 1-16 and CMD_WRITE_MEM, only sprites, max. message size 10
+		board.capabilities=Buffer.from([0xFE, 0xFF, 0x01, 0, 0, 0, 0, 0, 0b100, 10, 0, 0, 0]);
+		const result=await init();
+		assert.equal("'FakeNext' initialized.\nNot supported by the remote: watchpoints (WPMEM), state save/restore.", result);
+		assert.ok(!remote.supportsFeature(RemoteFeature.WATCHPOINTS));
+		assert.ok(!remote.supportsFeature(RemoteFeature.STATE_SAVE));
+		assert.ok(remote.supportsFeature(RemoteFeature.SPRITES));
+
+		// Not supported command
+		await assert.rejects(remote.sendDzrpCmdGetSpritesPalette(0), /does not support CMD_GET_SPRITES_PALETTE/);
+
+		// Message is split
+		await remote.sendDzrpCmdWriteMem(0x8000, new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]));
+		assert.deepEqual([5, 5, 2], board.writeMemLengths);
+		assert.deepEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12], [...board.memory.subarray(0x8000, 0x800C)]);
+	});
+
+	test('small max. message size', async () => {
+		board.version=[1, 7, 0];
+		// All commands, all features, max. message size 6: 1 byte per CMD_WRITE_MEM
+		board.capabilities=Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 6, 0, 0, 0]);
+		await init();
+		await remote.sendDzrpCmdWriteMem(0x8000, new Uint8Array([1, 2, 3]));
+		assert.deepEqual([1, 1, 1], board.writeMemLengths);
+		assert.deepEqual([1, 2, 3], [...board.memory.subarray(0x8000, 0x8003)]);
+	});
+
+	test('max. message size too small', async () => {
+		board.version=[1, 7, 0];
+		board.capabilities=Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 5, 0, 0, 0]);
+		const result=await init();
+		assert.ok(result instanceof Error);
+		assert.ok((result as Error).message.includes('maximum message size of the remote (5) is too small'));
+	});
+
+});
@@ -0,0 +1,148 @@
+
+import * as assert from 'assert';
+import {ZxNextSprites} from '../remotes/zxsimulator/zxnextsprites';
+import {ZxNextLayers} from '../remotes/zxsimulator/zxnextlayers';
+import {ZxMemory} from '../remotes/zxsimulator/zxmemory';
+import {MemBuffer} from '../misc/membuffer';
+
+suite('ZxNextSprites', () => {
+	let layers: ZxNextLayers;
+	let sprites: ZxNextSprites;
+	const width=ZxNextLayers.WIDTH;
+
+	setup(() => {
+		layers=new ZxNextLayers(new ZxMemory());
+		sprites=new ZxNextSprites(layers);
+		// Sprites visible over border
+		layers.writeRegister(0x15, 0x03);
+		layers.writeRegister(0x19, 0);
+		layers.writeRegister(0x19, 159);
+		layers.writeRegister(0x19, 0);
+		layers.writeRegister(0x19, 255);
+	});
+
+
+	/// Writes the attributes of a sprite through port 0x57.
+	function writeAttributes(index: number, attrs: number[]) {
+		sprites.selectSprite(index);
+		for (const value of attrs)
+			sprites.writeAttribute(value);
+	}
+
+
+	test('attribute and pattern ports', () => {
+		// 4 byte sprite followed by a 5 byte sprite
+		sprites.selectSprite(2);
+		for (const value of [1, 2, 3, 0x84, 5, 6, 7, 0xC8, 9])
+			sprites.writeAttribute(value);
+		const attrs=sprites.getAttributes(2, 2);
+		assert.deepEqual([...attrs[0]], [1, 2, 3, 0x84, 0]);
+		assert.deepEqual([...attrs[1]], [5, 6, 7, 0xC8, 9]);
+		// Patterns
+		sprites.selectSprite(0x81);	// Pattern 1, second half
+		sprites.writePattern(0x11);
+		sprites.writePattern(0x22);
+		const patterns=sprites.getPatterns(1, 1);
+		assert.equal(patterns[0].length, 256);
+		assert.equal(patterns[0][128], 0x11);
+		assert.equal(patterns[0][129], 0x22);
+	});
+
+
+	test('next registers', () => {
+		sprites.writeRegister(0x34, 5);
+		sprites.writeRegister(0x35, 0x10);
+		sprites.writeRegister(0x38, 0x40);
+		sprites.writeRegister(0x39, 0x20);
+		assert.equal(sprites.readRegister(0x35), 0x10);
+		assert.equal(sprites.readRegister(0x39), 0x20);
+		// With increment
+		sprites.writeRegister(0x75, 0x30);
+		assert.equal(sprites.readRegister(0x34), 6);
+		assert.equal(sprites.getAttributes(5, 1)[0][0], 0x30);
+	});
+
+
+	test('render 8 bit', () => {
+		assert.equal(sprites.render()![0], -1);
+		// Pattern 0: pixel (1,0)=0x33, rest transparent
+		sprites.patterns.fill(0xE3, 0, 256);
+		sprites.patterns[1]=0x33;
+		writeAttributes(0, [10, 20, 0, 0x80]);
+		let pixels=sprites.render()!;
+		assert.equal(pixels[20*width+11], 0x33);
+		assert.equal(pixels[20*width+10], -1);
+		// X mirror
+		writeAttributes(0, [10, 20, 0x08, 0x80]);
+		pixels=sprites.render()!;
+		assert.equal(pixels[20*width+10+14], 0x33);
+		// Scale x2
+		writeAttributes(0, [10, 20, 0, 0xC0, 0x08]);
+		pixels=sprites.render()!;
+		assert.equal(pixels[20*width+12], 0x33);
+		assert.equal(pixels[20*width+13], 0x33);
+		// Invisible
+		layers.writeRegister(0x15, 0x00);
+		assert.equal(sprites.render(), undefined);
+	});
+
+
+	test('render 4 bit and relative', () => {
+		// Pattern 0, second half: pixel (0,0)=index 5
+		sprites.patterns.fill(0x33, 128, 256);
+		sprites.patterns[128]=0x53;
+		// Anchor: 4 bit, N6=1, palette offset 1
+		writeAttributes(0, [100, 50, 0x10, 0xC0, 0xC0]);
+		// Relative: +16, +8, palette relative, N6=1
+		writeAttributes(1, [16, 8, 0x01, 0xC0, 0x60]);
+		const pixels=sprites.render()!;
+		assert.equal(pixels[50*width+100], 0x15);
+		assert.equal(pixels[50*width+101], -1);
+		assert.equal(pixels[58*width+116], 0x15);
+		// Invisible anchor hides the relative sprite
+		writeAttributes(0, [100, 50, 0x10, 0x40, 0xC0]);
+		assert.equal(sprites.render()![58*width+116], -1);
+	});
+
+
+	test('clip window', () => {
+		sprites.patterns.fill(0x01, 0, 256);
+		writeAttributes(0, [32, 32, 0, 0x80]);
+		// Not over border: clip window is relative to the ULA screen
+		layers.writeRegister(0x15, 0x01);
+		layers.writeRegister(0x1C, 0x02);
+		layers.writeRegister(0x19, 4);
+		layers.writeRegister(0x19, 255);
+		layers.writeRegister(0x19, 0);
+		layers.writeRegister(0x19, 191);
+		const pixels=sprites.render()!;
+		assert.equal(pixels[32*width+35], -1);
+		assert.equal(pixels[32*width+36], 0x01);
+	});
+
+
+	test('palette', () => {
+		layers.writeRegister(0x43, 0x20);	// Sprites palette 1
+		layers.writeRegister(0x40, 1);
+		layers.writeRegister(0x44, 0xE0);
+		layers.writeRegister(0x44, 0x01);
+		const palette=layers.getPalette9Bit(ZxNextLayers.PALETTE_SPRITES);
+		assert.equal(palette[0], 0x000);
+		assert.equal(palette[1], 0x1E0);
+		assert.equal(palette[2], 0x102);
+	});
+
+
+	test('serialize', () => {
+		writeAttributes(3, [1, 2, 3, 0xC4, 5]);
+		sprites.writePattern(0x77);
+		sprites.writeRegister(0x4B, 0x12);
+		const memBuffer=new MemBuffer(sprites.getSerializedSize());
+		sprites.serialize(memBuffer);
+		const restored=new ZxNextSprites(layers);
+		restored.deserialize(memBuffer);
+		assert.deepEqual([...restored.getAttributes(3, 1)[0]], [1, 2, 3, 0xC4, 5]);
+		assert.equal(restored.readRegister(0x34), 4);
+		assert.equal(restored.transparencyIndex, 0x12);
+	});
+});
@@ -1,7 +1,14 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {ZSimRemote} from '../remotes/zxsimulator/zsimremote';
 import {Settings} from '../settings';
 import {Utility} from '../misc/utility';
+import {BREAK_REASON_NUMBER} from '../remotes/remotebase';
+import {Z80RegistersClass} from '../remotes/z80registers';
+import {CpuHistoryClass} from '../remotes/cpuhistory';
+import {StepHistoryClass} from '../remotes/stephistory';
 
 
 
@@ -210,6 +217,86 @@ suite('ZxSimulatorRemote', () => {
 	});
 
 
+	suite('plus3', () => {
+		let romFile: string;
+
+		suiteSetup(() => {
+			// The +2A/+3 ROMs are not included: use the 128K ROMs as ROM 0/1 and 2/3
+			const rom128=fs.readFileSync('./data/128.rom');
+			romFile=path.join(os.tmpdir(), 'dezog-plus3-test.rom');
+			fs.writeFileSync(romFile, Buffer.concat([rom128, rom128]));
+		});
+
+		suiteTeardown(() => {
+			fs.unlinkSync(romFile);
+		});
+
+		setup(() => {
+			Utility.setExtensionPath('.');
+			const cfg: any={
+				zsim: {
+					machine: 'plus3',
+					romFile,
+					cpuLoadInterruptRange: 1,
+				},
+				history: {
+					reverseDebugInstructionCount: 0,
+					spotCount: 0,
+					codeCoverageEnabled: false
+				}
+			};
+			Settings.Init(cfg, '');
+			zsim=new ZSimRemote();
+			// @ts-ignore
+			zsim.configureMachine(Settings.launch.zsim.loadZxRom, Settings.launch.zsim.memoryPagingControl, Settings.launch.zsim.tbblueMemoryManagementSlots, Settings.launch.zsim.machine);
+		});
+
+		test('Settings', () => {
+			assert.ok(Settings.launch.zsim.memoryPagingControl);
+			assert.ok(!Settings.launch.zsim.tbblueMemoryManagementSlots);
+			assert.equal(Settings.launch.zsim.visualMemory, 'ZX128');
+		});
+
+		test('ROM select', () => {
+			// ROM 3 (48K BASIC) at start
+			assert.equal(0xAF, zsim.memory.read8(0x0001));
+			// ROM 0
+			zsim.ports.write(0x1FFD, 0);
+			zsim.ports.write(0x7FFD, 0);
+			assert.equal(0x01, zsim.memory.read8(0x0001));
+			// ROM 3
+			zsim.ports.write(0x1FFD, 0b0100);
+			zsim.ports.write(0x7FFD, 0b010000);
+			assert.equal(0xAF, zsim.memory.read8(0x0001));
+		});
+
+		test('Special paging mode', () => {
+			// Banks 0, 1, 2, 3
+			zsim.ports.write(0x1FFD, 0b0001);
+			assert.deepEqual([0, 1, 2, 3, 4, 5, 6, 7], zsim.memory.getSlots());
+			zsim.memory.write8(0x0000, 0xA5);
+			assert.equal(0xA5, zsim.memory.read8(0x0000));
+
+			// Banks 4, 7, 6, 3
+			zsim.ports.write(0x1FFD, 0b0111);
+			assert.deepEqual([8, 9, 14, 15, 12, 13, 6, 7], zsim.memory.getSlots());
+
+			// Back to normal mode, RAM bank 1 at 0xC000
+			zsim.ports.write(0x7FFD, 0b010001);
+			zsim.ports.write(0x1FFD, 0b0100);
+			assert.deepEqual([254, 255, 10, 11, 4, 5, 2, 3], zsim.memory.getSlots());
+			assert.equal(0xAF, zsim.memory.read8(0x0001));
+		});
+
+		test('Paging disabled', () => {
+			zsim.ports.write(0x7FFD, 0b110000);
+			zsim.ports.write(0x1FFD, 0b0001);
+			zsim.ports.write(0x7FFD, 0b000001);
+			assert.deepEqual([254, 255, 10, 11, 4, 5, 0, 1], zsim.memory.getSlots());
+		});
+	});
+
+
 	suite('tbblueMemoryManagementSlots', () => {
 
 		setup(() => {
@@ -322,5 +409,251 @@ suite('ZxSimulatorRemote', () => {
 
 	});
 
+
+	suite('CMD_SET_BREAKPOINTS/CMD_RESTORE_MEM', () => {
+
+		setup(() => {
+			Utility.setExtensionPath('.');
+			const cfg: any={
+				remoteType: 'zsim',
+				zsim: {
+					loadZxRom: false,
+					memoryPagingControl: false
+				},
+				history: {
+					reverseDebugInstructionCount: 0,
+					spotCount: 0,
+					codeCoverageEnabled: false
+				}
+			};
+			Settings.Init(cfg, '');
+			Z80RegistersClass.createRegisters();
+			CpuHistoryClass.removeCpuHistory();
+			zsim=new ZSimRemote();
+			// @ts-ignore
+			zsim.configureMachine(Settings.launch.zsim.loadZxRom, Settings.launch.zsim.memoryPagingControl, Settings.launch.zsim.tbblueMemoryManagementSlots);
+			// NOPs and an INC A at 0x8005
+			zsim.memory.writeBlock(0x8000, new Uint8Array(0x10));
+			zsim.memory.writeBlock(0x8005, new Uint8Array([0x3C]));
+			zsim.z80Cpu.pc=0x8000;
+		});
+
+		// Runs the simulator until a break.
+		function continueZsim(bp1?: number): Promise<{breakNumber: number, breakAddress: number}> {
+			return new Promise<{breakNumber: number, breakAddress: number}>(resolve => {
+				// @ts-ignore: protected
+				zsim.continueResolve=resolve;
+				// @ts-ignore: protected
+				zsim.sendDzrpCmdContinue(bp1);
+			});
+		}
+
+		test('set breakpoints', async () => {
+			// @ts-ignore: protected
+			const opcodes=await zsim.sendDzrpCmdSetBreakpoints([0x8005, 0x8007]);
+			assert.deepEqual([0x3C, 0x00], opcodes);
+			// Memory is not changed
+			assert.equal(0x3C, zsim.memory.getMemory8(0x8005));
+
+			// Run
+			const {breakNumber, breakAddress}=await continueZsim();
+			assert.equal(BREAK_REASON_NUMBER.BREAKPOINT_HIT, breakNumber);
+			assert.equal(0x8005, breakAddress);
+		});
+
+		test('restore memory', async () => {
+			// @ts-ignore: protected
+			await zsim.sendDzrpCmdSetBreakpoints([0x8005]);
+			// @ts-ignore: protected
+			await zsim.sendDzrpCmdRestoreMem([{address: 0x8005, value: 0x3D}]);
+			assert.equal(0x3D, zsim.memory.getMemory8(0x8005));
+
+			// Breakpoint is removed
+			const {breakAddress}=await continueZsim(0x8008);
+			assert.equal(0x8008, breakAddress);
+		});
+
+		test('dbgExec', async () => {
+			let response=await zsim.dbgExec('cmd_set_breakpoints 0x8005 0x8006');
+			assert.equal('Sent CMD_SET_BREAKPOINTS.\nResponse received: \n8005h: 3Ch\n8006h: 00h', response);
+			response=await zsim.dbgExec('cmd_restore_mem 0x8005 0x3D');
+			assert.equal(0x3D, zsim.memory.getMemory8(0x8005));
+			// Wrong number of parameters
+			response=await zsim.dbgExec('cmd_restore_mem 0x8005');
+			assert.equal('Expecting pairs of parameters: address and value.', response);
+		});
+
+	});
+
+
+	suite('mocks', () => {
+
+		setup(() => {
+			Utility.setExtensionPath('.');
+			const cfg: any={
+				remoteType: 'zsim',
+				zsim: {
+					loadZxRom: false,
+					memoryPagingControl: false
+				},
+				history: {
+					reverseDebugInstructionCount: 0,
+					spotCount: 0,
+					codeCoverageEnabled: false
+				}
+			};
+			Settings.Init(cfg, '');
+			Z80RegistersClass.createRegisters();
+			CpuHistoryClass.removeCpuHistory();
+			zsim=new ZSimRemote();
+			// @ts-ignore
+			zsim.configureMachine(Settings.launch.zsim.loadZxRom, Settings.launch.zsim.memoryPagingControl, Settings.launch.zsim.tbblueMemoryManagementSlots);
+			zsim.memory.writeBlock(0x8000, new Uint8Array([
+				0xCD, 0x10, 0x80,	// CALL 0x8010
+				0xC3, 0x10, 0x80	// JP 0x8010
+			]));
+			zsim.memory.writeBlock(0x8010, new Uint8Array([0x3C, 0x3C]));	// INC A, INC A
+			zsim.z80Cpu.pc=0x8000;
+			zsim.z80Cpu.sp=0x9000;
+		});
+
+		test('only a CALL is mocked', async () => {
+			await zsim.setMocks([{lineAddress: 0x7000, label: 'sub', address: 0x8010, registers: [{name: 'A', value: 5}]}]);
+			await new Promise<void>(resolve => {
+				// @ts-ignore: protected
+				zsim.continueResolve=() => resolve();
+				// @ts-ignore: protected
+				zsim.sendDzrpCmdContinue(0x8011);
+			});
+			const r=zsim.z80Cpu.getAllRegisters();
+			// The JP executes the subroutine
+			assert.equal(0x8011, r.pc);
+			assert.equal(6, r.af>>>8);
+			assert.equal(0x9000, r.sp);
+			assert.deepEqual([1], await zsim.getMockCalls());
+			// CALL, RET (mocked), JP, INC A
+			assert.equal(17+10+10+4, zsim.z80Cpu.cpuTstatesCounter);
+		});
+	});
+
+
+	suite('resetMachine', () => {
+
+		setup(() => {
+			Utility.setExtensionPath('.');
+			const cfg: any={
+				remoteType: 'zsim',
+				zsim: {
+					loadZxRom: true,
+					memoryPagingControl: false,
+					tbblueMemoryManagementSlots: true,
+					nextLayers: true,
+					audio: true
+				},
+				history: {
+					reverseDebugInstructionCount: 0,
+					spotCount: 0,
+					codeCoverageEnabled: false
+				}
+			};
+			Settings.Init(cfg, '');
+			Z80RegistersClass.createRegisters();
+			// Required by the 'stoppedEvent' after the reset
+			const stepHistory=new StepHistoryClass();
+			stepHistory.init();
+			CpuHistoryClass.setCpuHistory(stepHistory);
+			zsim=new ZSimRemote();
+			// @ts-ignore: protected
+			zsim.configureNextLayers(Settings.launch.zsim.nextLayers);
+			// @ts-ignore: protected
+			zsim.configureNextDmaCopper(Settings.launch.zsim.tbblueMemoryManagementSlots);
+			// @ts-ignore: protected
+			zsim.configureMachine(Settings.launch.zsim.loadZxRom, Settings.launch.zsim.memoryPagingControl, Settings.launch.zsim.tbblueMemoryManagementSlots);
+			// @ts-ignore: protected
+			zsim.configureAudio(Settings.launch.zsim.audio, true);
+		});
+
+		teardown(() => {
+			CpuHistoryClass.removeCpuHistory();
+		});
+
+		test('devices', async () => {
+			// Change the state of the devices
+			zsim.ports.write(0xFFFD, 8);
+			zsim.ports.write(0xBFFD, 0x1F);
+			zsim.ports.write(0x00FE, 0b010000);	// Beeper on
+			zsim.nextLayers!.writeRegister(0x12, 20);
+			zsim.nextLayers!.layer2Port=0x02;
+			zsim.nextSprites!.writeAttribute(0x55);
+			zsim.dma!.portAAddress=0x1234;
+			zsim.copper!.writeRegister(0x62, 0xC0);
+
+			await zsim.resetMachine(false);
+
+			assert.equal(0, zsim.audio!.ay!.getRegister(8));
+			assert.equal(0, zsim.audio!.ay!.getSelectedRegister());
+			assert.ok(!(zsim.audio as any).beeperOn);
+			assert.equal(8, zsim.nextLayers!.readRegister(0x12));
+			assert.equal(0, zsim.nextLayers!.layer2Port);
+			assert.equal(0, zsim.nextSprites!.attributes[0]);
+			assert.equal(0, zsim.dma!.portAAddress);
+			assert.equal(0, zsim.copper!.control);
+		});
+	});
+
+
+	suite('audio', () => {
+
+		setup(() => {
+			Utility.setExtensionPath('.');
+			const cfg: any={
+				remoteType: 'zsim',
+				zsim: {
+					loadZxRom: false,
+					memoryPagingControl: true,
+					audio: true
+				},
+				history: {
+					reverseDebugInstructionCount: 0,
+					spotCount: 0,
+					codeCoverageEnabled: false
+				}
+			};
+			Settings.Init(cfg, '');
+			zsim=new ZSimRemote();
+			// @ts-ignore: protected
+			zsim.configureAudio(Settings.launch.zsim.audio, Settings.launch.zsim.memoryPagingControl);
+		});
+
+		test('beeper', () => {
+			const audio=zsim.audio as any;
+			assert.ok(audio);
+			assert.ok(!audio.beeperOn);
+			// Any even port
+			zsim.ports.write(0x12FE, 0b010000);
+			assert.ok(audio.beeperOn);
+			zsim.ports.write(0xFEFE, 0);
+			assert.ok(!audio.beeperOn);
+			// Odd port
+			zsim.ports.write(0x12FF, 0b010000);
+			assert.ok(!audio.beeperOn);
+		});
+
+		test('AY registers', () => {
+			zsim.ports.write(0xFFFD, 8);
+			zsim.ports.write(0xBFFD, 0x1F);
+			assert.equal(0x1F, zsim.ports.read(0xFFFD));
+			assert.equal(0x1F, zsim.audio!.ay!.getRegister(8));
+		});
+
+		test('no audio', () => {
+			zsim=new ZSimRemote();
+			// @ts-ignore: protected
+			zsim.configureAudio(false, false);
+			assert.equal(undefined, zsim.audio);
+		});
+
+	});
+
 });
 
@@ -0,0 +1,166 @@
+
+import * as assert from 'assert';
+import {TapFile} from '../remotes/zxsimulator/tapfile';
+import {TzxFile} from '../remotes/zxsimulator/tzxfile';
+import {ZxTape} from '../remotes/zxsimulator/zxtape';
+import {Z80Cpu} from '../remotes/zxsimulator/z80cpu';
+import {ZxMemory} from '../remotes/zxsimulator/zxmemory';
+import {Z80Ports} from '../remotes/zxsimulator/z80ports';
+import {Settings} from '../settings';
+
+suite('ZxTape', () => {
+
+	/// Returns a header block (incl. flag and checksum) for a program.
+	function createHeader(name: string): number[] {
+		const header=[0x00, 0x00];
+		for (let i=0; i<10; i++)
+			header.push((i<name.length)? name.charCodeAt(i):0x20);
+		header.push(0, 0, 0, 0, 0, 0, 0);	// length, param 1 and 2
+		return header;
+	}
+
+	/// Returns the TZX file header.
+	function tzxHeader(): number[] {
+		return [...Array.from('ZXTape!\x1A').map(c => c.charCodeAt(0)), 1, 20];
+	}
+
+
+	suite('TapFile', () => {
+
+		test('blocks', () => {
+			const header=createHeader('game');
+			const data=[0xFF, 1, 2, 3, 0xFF];
+			const tap=new TapFile();
+			tap.readBuffer(new Uint8Array([19, 0, ...header, 5, 0, ...data]));
+			assert.equal(2, tap.blocks.length);
+			assert.equal('Program: "game"', tap.blocks[0].description);
+			assert.equal(TapFile.PILOT_COUNT_HEADER, tap.blocks[0].pilotCount);
+			assert.equal('Data: 3 bytes', tap.blocks[1].description);
+			assert.equal(TapFile.PILOT_COUNT_DATA, tap.blocks[1].pilotCount);
+			assert.deepEqual(data, [...tap.blocks[1].data]);
+		});
+
+		test('wrong length', () => {
+			const tap=new TapFile();
+			assert.throws(() => tap.readBuffer(new Uint8Array([5, 0, 0xFF, 1])));
+		});
+	});
+
+
+	suite('TzxFile', () => {
+
+		test('blocks', () => {
+			const tzx=new TzxFile();
+			tzx.readBuffer(new Uint8Array([
+				...tzxHeader(),
+				0x30, 3, 0x41, 0x42, 0x43,	// Text, skipped
+				0x10, 0xE8, 0x03, 3, 0, 0xFF, 0xAA, 0x55,	// Standard
+				0x12, 100, 0, 4, 0,	// Pure tone
+				0x24, 3, 0,	// Loop 3x
+				0x13, 2, 10, 0, 20, 0,	// Pulse sequence
+				0x25,	// Loop end
+				0x14, 100, 0, 200, 0, 2, 0, 0, 1, 0, 0, 0x80,	// Pure data
+				0x20, 0, 0	// Stop the tape
+			]));
+			const blocks=tzx.blocks;
+			assert.equal(7, blocks.length);
+			assert.equal('Data: 1 bytes', blocks[0].description);
+			assert.equal(1000, blocks[0].pause);
+			assert.equal(100, blocks[1].pilotPulse);
+			assert.equal(4, blocks[1].pilotCount);
+			assert.deepEqual([10, 20], blocks[2].pulses);
+			assert.deepEqual([10, 20], blocks[4].pulses);
+			assert.equal(2, blocks[5].lastByteBits);
+			assert.equal(200, blocks[5].onePulse);
+			assert.ok(blocks[6].stopTape);
+		});
+
+		test('errors', () => {
+			const tzx=new TzxFile();
+			assert.throws(() => tzx.readBuffer(new Uint8Array([0x41, 0x42])));
+			assert.throws(() => tzx.readBuffer(new Uint8Array([...tzxHeader(), 0x15, 0, 0])));
+		});
+	});
+
+
+	test('EAR signal', () => {
+		const tzx=new TzxFile();
+		tzx.readBuffer(new Uint8Array([
+			...tzxHeader(),
+			0x14, 100, 0, 200, 0, 2, 0, 0, 1, 0, 0, 0b1000_0000,	// Pure data: bits 1, 0
+			0x20, 0, 0	// Stop the tape
+		]));
+		const tape=new ZxTape(3500000);
+		tape.insert(tzx.blocks);
+		assert.equal(false, tape.getEarLevel(0));
+		tape.play(1000);
+		assert.equal(true, tape.getEarLevel(1000));
+		assert.equal(true, tape.getEarLevel(1199));
+		assert.equal(false, tape.getEarLevel(1200));
+		assert.equal(true, tape.getEarLevel(1400));
+		assert.equal(false, tape.getEarLevel(1500));
+		assert.ok(tape.playing);
+		assert.equal(false, tape.getEarLevel(1600));
+		assert.ok(!tape.playing);
+		assert.equal(2, tape.blockIndex);
+
+		tape.rewind();
+		assert.equal(0, tape.blockIndex);
+	});
+
+
+	suite('fast load', () => {
+
+		let cpu: Z80Cpu;
+		let tape: ZxTape;
+
+		setup(() => {
+			Settings.Init({} as any, '');
+			cpu=new Z80Cpu(new ZxMemory(), new Z80Ports());
+			// LD-BYTES
+			cpu.memory.writeBlock(ZxTape.LD_BYTES, new Uint8Array([0x14, 0x08, 0x15, 0xF3]));
+			// Return address
+			cpu.memory.writeBlock(0x9000, new Uint8Array([0x34, 0x12]));
+			cpu.sp=0x9000;
+			cpu.pc=ZxTape.LD_BYTES;
+			cpu.ix=0x8000;
+			cpu.de=3;
+			const tap=new TapFile();
+			tap.readBuffer(new Uint8Array([19, 0, ...createHeader('game'), 5, 0, 0xFF, 1, 2, 3, 0xFF]));
+			tape=new ZxTape(cpu.cpuFreq);
+			tape.insert(tap.blocks);
+			tape.blockIndex=1;
+		});
+
+		test('load', () => {
+			cpu.af=0xFF01;	// Flag 0xFF, LOAD
+			assert.ok(tape.fastLoad(cpu));
+			assert.equal(1, cpu.memory.getMemory8(0x8000));
+			assert.equal(3, cpu.memory.getMemory8(0x8002));
+			const regs=cpu.getAllRegisters();
+			assert.equal(0x1234, regs.pc);
+			assert.equal(0x9002, regs.sp);
+			assert.equal(0x8003, regs.ix);
+			assert.equal(0, regs.de);
+			assert.equal(1, regs.af&0x01);	// Success
+			assert.equal(2, tape.blockIndex);
+		});
+
+		test('wrong flag', () => {
+			cpu.af=0x0001;	// Flag 0x00
+			assert.ok(tape.fastLoad(cpu));
+			assert.equal(0, cpu.memory.getMemory8(0x8000));
+			assert.equal(0, cpu.getAllRegisters().af&0x01);	// Error
+		});
+
+		test('no data left or no ROM', () => {
+			tape.blockIndex=2;
+			assert.ok(!tape.fastLoad(cpu));
+			tape.blockIndex=1;
+			cpu.memory.write8(ZxTape.LD_BYTES, 0);
+			assert.ok(!tape.fastLoad(cpu));
+		});
+	});
+
+});
+
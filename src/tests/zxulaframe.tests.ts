@@ -0,0 +1,91 @@
+
+import * as assert from 'assert';
+import {ZxUlaFrame} from '../remotes/zxsimulator/zxulaframe';
+import {ZxMemory} from '../remotes/zxsimulator/zxmemory';
+
+suite('ZxUlaFrame', () => {
+
+	const WIDTH=ZxUlaFrame.FRAME_WIDTH;
+	const TOP=ZxUlaFrame.BORDER_TOP;
+	const LEFT=ZxUlaFrame.BORDER_LEFT;
+
+	/// Returns the T-state at which the given pixel of the frame is displayed.
+	function getTstate(frame: ZxUlaFrame, x: number, y: number): number {
+		return frame.firstPixelTstate+(y-TOP)*frame.lineTstates+(x-LEFT)/2;
+	}
+
+	test('timing', () => {
+		const memory=new ZxMemory();
+		let frame=ZxUlaFrame.create("ZX48", memory);
+		assert.equal(224, frame.lineTstates);
+		assert.equal(14336, frame.firstPixelTstate);
+		frame=ZxUlaFrame.create("ZX128", memory);
+		assert.equal(228, frame.lineTstates);
+		assert.equal(14364, frame.firstPixelTstate);
+	});
+
+	test('screen and border', () => {
+		const memory=new ZxMemory();
+		memory.write8(0x4000, 0b1000_0001);
+		memory.write8(0x5800, 0b0101_0010);	// Bright, paper 2, ink 2
+		memory.write8(0x5801, 0b0000_1100);	// Paper 1, ink 4
+		const frame=ZxUlaFrame.create("ZX48", memory);
+		frame.borderChanged(3, 0);
+		frame.startFrame();
+		const pixels=frame.createPixels();
+		assert.equal(WIDTH*ZxUlaFrame.FRAME_HEIGHT, pixels.length);
+		// Border
+		assert.equal(3, pixels[0]);
+		assert.equal(3, pixels[TOP*WIDTH+LEFT-1]);
+		assert.equal(3, pixels[TOP*WIDTH+LEFT+256]);
+		// Screen
+		const index=TOP*WIDTH+LEFT;
+		assert.deepEqual([10, 10, 10, 10, 10, 10, 10, 10], pixels.slice(index, index+8));
+		assert.deepEqual([1, 1, 1, 1, 1, 1, 1, 1], pixels.slice(index+8, index+16));
+		assert.equal(1, pixels[index+WIDTH+8]);
+	});
+
+	test('border change during frame', () => {
+		const memory=new ZxMemory();
+		const frame=ZxUlaFrame.create("ZX48", memory);
+		frame.borderChanged(1, 0);
+		frame.startFrame();
+		// Change at line 30, x=200 (top border)
+		const tstate=getTstate(frame, 200, 30);
+		frame.borderChanged(2, tstate);
+		frame.borderChanged(6, tstate+frame.lineTstates);
+		const pixels=frame.createPixels();
+		assert.equal(1, pixels[0]);
+		assert.equal(1, pixels[30*WIDTH+199]);
+		assert.equal(2, pixels[30*WIDTH+200]);
+		assert.equal(2, pixels[31*WIDTH]);
+		assert.equal(6, pixels[31*WIDTH+WIDTH-1]);
+		assert.equal(6, pixels[295*WIDTH+WIDTH-1]);
+		assert.equal(6, frame.getBorder());
+	});
+
+	test('attribute change during frame (multicolour)', () => {
+		const memory=new ZxMemory();
+		memory.write8(0x5800, 0b0000_1000);	// Paper 1
+		const frame=ZxUlaFrame.create("ZX48", memory);
+		frame.startFrame();
+		// Record the screen writes
+		memory.screenWriteListener=(offset, value) => {
+			frame.screenWritten(offset, value, getTstate(frame, 0, TOP+4));
+		};
+		memory.write8(0x5800, 0b0001_0000);	// Paper 2 from line 4 on
+		memory.write8(0x7000, 0xFF);	// Outside screen memory: ignored
+		const pixels=frame.createPixels();
+		const index=TOP*WIDTH+LEFT;
+		assert.equal(1, pixels[index]);
+		assert.equal(1, pixels[index+3*WIDTH]);
+		assert.equal(2, pixels[index+4*WIDTH]);
+		assert.equal(2, pixels[index+7*WIDTH]);
+
+		// Next frame starts with the changed attribute
+		frame.startFrame();
+		assert.equal(2, frame.createPixels()[index]);
+	});
+
+});
+
@@ -212,6 +212,25 @@ export class RegistersSecondaryVar extends RegistersMainVar {
 	protected registerNames(): Array<string> {
 		return ["A'", "F'", "HL'", "DE'", "BC'", "I", "R", "IM"];
 	}
+
+
+	/**
+	 * Returns the registers and, if the Remote supports it,
+	 * the interrupt flip-flops and the HALT state (read only).
+	 */
+	public async getContent(): Promise<Array<DebugProtocol.Variable>> {
+		const registers=await super.getContent();
+		const state=await Remote.getInterruptState();
+		if (state) {
+			const readOnly: DebugProtocol.VariablePresentationHint={attributes: ['readOnly']};
+			registers.push(
+				{name: "IFF1", value: state.iff1.toString(), variablesReference: 0, presentationHint: readOnly},
+				{name: "IFF2", value: state.iff2.toString(), variablesReference: 0, presentationHint: readOnly},
+				{name: "HALT", value: (state.halted)? "true":"false", variablesReference: 0, presentationHint: readOnly}
+			);
+		}
+		return registers;
+	}
 }
 
 
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import {Utility} from './misc/utility';
+import {Z80UnitTestRunner, TestCaseResult} from './z80unittestrunner';
+import {UnitTestReport} from './z80unittestreport';
+import {CodeCoverageReport} from './codecoveragereport';
+import {Settings} from './settings';
+
+
+
+/// The usage text.
+const usage=`Usage: dezog-unittest [options]
+Runs all Z80 unit tests (UT_ labels) in the internal simulator (zsim).
+Options:
+  --root <dir>      The project folder. Default is the current directory.
+  --launch <file>   The launch.json file. Default is <root>/.vscode/launch.json.
+  --config <name>   The name of the launch configuration to use.
+                    Default is the configuration with "unitTests": true.
+  --help            Prints this help.
+Exit code: 0 if all test cases passed, 1 if a test case failed, 2 on error.`;
+
+
+/**
+ * The parsed command line arguments.
+ */
+export interface UnitTestCliArgs {
+	root: string;	// The project folder
+	launch: string;	// The absolute path of the launch.json file
+	config?: string;	// The name of the configuration, undefined = the one with 'unitTests'
+	help: boolean;	// true if only the usage should be printed
+}
+
+
+/**
+ * Parses the command line arguments.
+ * @param args The arguments without the node executable and script, e.g. ['--config', 'Unit Tests'].
+ * @param cwd The current working directory to resolve relative paths.
+ * @returns The parsed arguments.
+ * Throws an exception on unknown options or missing values.
+ */
+export function parseArgs(args: string[], cwd: string): UnitTestCliArgs {
+	let root=cwd;
+	let launch: string|undefined;
+	let config: string|undefined;
+	let help=false;
+	for (let i=0; i<args.length; i++) {
+		const arg=args[i];
+		if (arg=='--help' || arg=='-h') {
+			help=true;
+			continue;
+		}
+		if (arg!='--root' && arg!='--launch' && arg!='--config')
+			throw Error("Unknown option '"+arg+"'.");
+		const value=args[++i];
+		if (value==undefined)
+			throw Error("Missing value for '"+arg+"'.");
+		switch (arg) {
+			case '--root': root=path.resolve(cwd, value); break;
+			case '--launch': launch=path.resolve(cwd, value); break;
+			case '--config': config=value; break;
+		}
+	}
+	if (!launch)
+		launch=path.join(root, '.vscode', 'launch.json');
+	return {root, launch, config, help};
+}
+
+
+/**
+ * Runs the unit tests and prints the results to stdout.
+ * @returns The exit code: 0 = all test cases passed, 1 = at least one failed, 2 = error.
+ */
+async function main(): Promise<number> {
+	try {
+		const args=parseArgs(process.argv.slice(2), process.cwd());
+		if (args.help) {
+			console.log(usage);
+			return 0;
+		}
+
+		// The ROMs etc. are located relative to the 'out' folder
+		Utility.setExtensionPath(path.join(__dirname, '..'));
+
+		const configuration=Z80UnitTestRunner.readLaunchConfig(args.launch, args.config);
+		const runner=new Z80UnitTestRunner(text => console.log(text));
+		const results=await runner.run(configuration, args.root);
+
+		// Result files
+		UnitTestReport.writeReports(Settings.launch.unitTestReport, results);
+		if (Settings.launch.unitTestTstates.file)
+			Z80UnitTestRunner.writeTstatesFile(Settings.launch.unitTestTstates.file, results);
+		const coveredAddresses=new Set<number>();
+		for (const tc of results)
+			tc.coveredAddresses?.forEach(coveredAddresses.add, coveredAddresses);
+		CodeCoverageReport.writeReports(Settings.launch.codeCoverageReport, coveredAddresses);
+
+		// Summary
+		console.log('');
+		console.log(Z80UnitTestRunner.getSummary(results));
+		const failed=results.some(tc => tc.result!=TestCaseResult.OK);
+		return (failed) ? 1 : 0;
+	}
+	catch (e) {
+		console.error('Error: '+(e.message||e));
+		return 2;
+	}
+}
+
+
+// Start only if called from the command line (not if imported)
+if (require.main===module) {
+	main().then(exitCode => process.exit(exitCode));
+}
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import {Z80UnitTests} from './z80unittests';
+import {TestCaseResult, UnitTestCase} from './z80unittestrunner';
+
+
+
+/**
+ * Integrates the Z80 unit tests into the vscode Testing API (Test Explorer).
+ * The 'UT_' labels are grouped by their module prefix, e.g.
+ * "ut_audio.ut_sound.UT_free" is shown as test "UT_free" inside
+ * the groups "ut_audio" and "ut_sound".
+ * The test cases are executed by Z80UnitTests with the same mechanism as
+ * used by the commands for the test adapter extension ('dezog.execUnitTestCase'
+ * and 'dezog.runPartialUnitTests').
+ */
+export class Z80UnitTestController {
+	/// The vscode test controller.
+	protected static controller: vscode.TestController;
+
+
+	/**
+	 * Creates the test controller and the run and debug profiles.
+	 * @param context The extension context to register the disposables.
+	 */
+	public static init(context: vscode.ExtensionContext) {
+		const controller=vscode.tests.createTestController('dezogUnitTests', 'DeZog Z80 Unit Tests');
+		context.subscriptions.push(controller);
+		this.controller=controller;
+
+		// Discover the tests when the Test Explorer is opened
+		controller.resolveHandler=async item => {
+			if (!item)
+				await this.discoverTests();
+		};
+
+		// Run and debug
+		controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, (request, token) => this.runTests(request, token, false), true);
+		controller.createRunProfile('Debug', vscode.TestRunProfileKind.Debug, (request, token) => this.runTests(request, token, true), true);
+	}
+
+
+	/**
+	 * Reads the list files of the unit test configuration and
+	 * (re-)creates the test items.
+	 */
+	public static async discoverTests(): Promise<void> {
+		let utLabels: UnitTestCase[]=[];
+		try {
+			utLabels=await Z80UnitTests.getAllUnitTests();
+		}
+		catch {}	// No unit test configuration: no tests
+		const items=new Array<vscode.TestItem>();	// The top level items
+		const groups=new Map<string, vscode.TestItem>();
+		const addItem=(parent: vscode.TestItem|undefined, item: vscode.TestItem) => {
+			if (parent)
+				parent.children.add(item);
+			else
+				items.push(item);
+		};
+		for (const ut of utLabels) {
+			// Get or create the groups for the module prefix
+			const parts=ut.label.split('.');
+			const name=parts.pop() as string;
+			let parent: vscode.TestItem|undefined;
+			let prefix='';
+			for (const part of parts) {
+				prefix+=part+'.';
+				let group=groups.get(prefix);
+				if (!group) {
+					group=this.controller.createTestItem(prefix, part);
+					groups.set(prefix, group);
+					addItem(parent, group);
+				}
+				parent=group;
+			}
+			// The test case, shown at the line of its label
+			const item=this.controller.createTestItem(ut.label, name, vscode.Uri.file(ut.file));
+			item.range=new vscode.Range(ut.line, 0, ut.line, 0);
+			addItem(parent, item);
+		}
+		this.controller.items.replace(items);
+	}
+
+
+	/**
+	 * Runs or debugs the requested test cases.
+	 * @param request The test items to include and to exclude.
+	 * @param token To cancel the run.
+	 * @param debug true to run the tests in debug mode.
+	 */
+	protected static async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken, debug: boolean): Promise<void> {
+		// Labels might have changed since last discovery
+		if (!request.include)
+			await this.discoverTests();
+
+		// Collect the test cases
+		const tests=new Array<vscode.TestItem>();
+		const exclude=request.exclude||[];
+		const collect=(item: vscode.TestItem) => {
+			if (exclude.includes(item))
+				return;
+			if (item.children.size==0)
+				tests.push(item);
+			else
+				item.children.forEach(collect);
+		};
+		if (request.include)
+			request.include.forEach(collect);
+		else
+			this.controller.items.forEach(collect);
+
+		const run=this.controller.createTestRun(request);
+		if (tests.length==0) {
+			run.end();
+			return;
+		}
+
+		// Queue the test cases
+		Z80UnitTests.clearTestCaseList();
+		const promises=tests.map((item, index) => {
+			run.enqueued(item);
+			return Z80UnitTests.execUnitTestCase(item.id).then(result => {
+				this.setResult(run, item, result);
+				// The test cases are executed in order
+				if (index+1<tests.length && result!=TestCaseResult.CANCELLED)
+					run.started(tests[index+1]);
+			});
+		});
+
+		// Cancel
+		const cancelListener=token.onCancellationRequested(() => {
+			Z80UnitTests.cmdCancelAllUnitTests();
+		});
+
+		// Start
+		run.started(tests[0]);
+		if (debug)
+			Z80UnitTests.debugPartialUnitTests();
+		else
+			Z80UnitTests.runPartialUnitTests();
+
+		// Wait on all test cases
+		await Promise.all(promises);
+		cancelListener.dispose();
+		run.end();
+	}
+
+
+	/**
+	 * Sets the result of a test case in the test run.
+	 * The failure message is shown at the source line where the test case stopped.
+	 */
+	protected static setResult(run: vscode.TestRun, item: vscode.TestItem, result: TestCaseResult) {
+		const tcResult=Z80UnitTests.getTestCaseResult(item.id);
+		const duration=tcResult?.duration;
+		switch (result) {
+			case TestCaseResult.OK: {
+				run.passed(item, duration);
+				break;
+			}
+			case TestCaseResult.FAILED:
+			case TestCaseResult.TIMEOUT: {
+				const message=new vscode.TestMessage(tcResult?.message||'Failed.');
+				if (tcResult?.failureFile)
+					message.location=new vscode.Location(vscode.Uri.file(tcResult.failureFile), new vscode.Position(tcResult.failureLine!, 0));
+				else if (item.uri && item.range)
+					message.location=new vscode.Location(item.uri, item.range);
+				run.failed(item, message, duration);
+				break;
+			}
+			default: {
+				run.skipped(item);
+				break;
+			}
+		}
+	}
+}
@@ -0,0 +1,154 @@
+import {Labels} from './labels/labels';
+import {UnitTestCaseResult} from './z80unittestrunner';
+
+
+
+/**
+ * Evaluates the code coverage of the single unit test cases.
+ * The covered addresses of each test case (UnitTestCaseResult.coveredAddresses)
+ * are mapped to the source lines with the labels.
+ * Line numbers are 0-based. Only in the JSON export they are 1-based.
+ */
+export class UnitTestCoverage {
+	/// The source lines of the test cases, calculated once per covered address set.
+	protected static testCaseLines=new WeakMap<Set<number>, Map<string, Set<number>>>();
+
+
+	/**
+	 * Maps addresses to source lines.
+	 * @param addresses The covered addresses.
+	 * @returns A map with the absolute file path and the line numbers.
+	 * Addresses without a source line are skipped.
+	 */
+	public static getLines(addresses: Iterable<number>): Map<string, Set<number>> {
+		const fileLines=new Map<string, Set<number>>();
+		for (const address of addresses) {
+			const entry=Labels.getFileAndLineForAddress(address);
+			if (!entry.fileName)
+				continue;
+			let lines=fileLines.get(entry.fileName);
+			if (!lines) {
+				lines=new Set<number>();
+				fileLines.set(entry.fileName, lines);
+			}
+			lines.add(entry.lineNr);
+		}
+		return fileLines;
+	}
+
+
+	/**
+	 * Returns the source lines covered by a test case.
+	 * The lines are calculated only once and reused by later calls.
+	 * @param addresses The covered addresses of the test case (UnitTestCaseResult.coveredAddresses).
+	 * @returns A map with the absolute file path and the line numbers.
+	 */
+	public static getTestCaseLines(addresses: Set<number>): Map<string, Set<number>> {
+		let fileLines=UnitTestCoverage.testCaseLines.get(addresses);
+		if (!fileLines) {
+			fileLines=UnitTestCoverage.getLines(addresses);
+			UnitTestCoverage.testCaseLines.set(addresses, fileLines);
+		}
+		return fileLines;
+	}
+
+
+	/**
+	 * Returns the test cases that cover a source line.
+	 * @param results The results of the executed test cases.
+	 * @param file The absolute file path.
+	 * @param line The line number.
+	 * @returns The labels of the test cases.
+	 */
+	public static getTestCasesForLine(results: UnitTestCaseResult[], file: string, line: number): string[] {
+		const labels=new Array<string>();
+		for (const tc of results) {
+			if (!tc.coveredAddresses)
+				continue;
+			const lines=UnitTestCoverage.getTestCaseLines(tc.coveredAddresses).get(file);
+			if (lines?.has(line))
+				labels.push(tc.label);
+		}
+		return labels;
+	}
+
+
+	/**
+	 * Returns the source lines that are not covered by any test case.
+	 * All lines that are associated with an address are taken into
+	 * account, i.e. also lines with data (e.g. 'defb').
+	 * @param results The results of the executed test cases.
+	 * @returns A map with the absolute file path and the sorted line numbers.
+	 */
+	public static getUncoveredLines(results: UnitTestCaseResult[]): Map<string, number[]> {
+		// All covered addresses
+		const covered=new Set<number>();
+		for (const tc of results)
+			tc.coveredAddresses?.forEach(covered.add, covered);
+		const coveredLines=UnitTestCoverage.getLines(covered);
+
+		// All lines with an address
+		const allLines=UnitTestCoverage.getLines(Labels.getAllAddressesWithFileAndLine());
+		const uncovered=new Map<string, number[]>();
+		for (const [file, lines] of allLines) {
+			const fileCovered=coveredLines.get(file);
+			const fileUncovered=Array.from(lines).filter(line => !fileCovered?.has(line));
+			if (fileUncovered.length>0)
+				uncovered.set(file, fileUncovered.sort((a, b) => a-b));
+		}
+		return uncovered;
+	}
+
+
+	/**
+	 * Returns the line numbers as compact text with ranges.
+	 * E.g. [2, 3, 4, 8] results in "3-5, 9" (1-based).
+	 * @param lines The sorted line numbers (0-based).
+	 */
+	public static getLineRanges(lines: number[]): string {
+		const ranges=new Array<string>();
+		let i=0;
+		while (i<lines.length) {
+			const start=lines[i];
+			let end=start;
+			while (i+1<lines.length && lines[i+1]==end+1) {
+				i++;
+				end++;
+			}
+			ranges.push((start==end) ? (start+1).toString() : (start+1)+'-'+(end+1));
+			i++;
+		}
+		return ranges.join(', ');
+	}
+
+
+	/**
+	 * Returns the per test case coverage as JSON.
+	 * Format:
+	 * {
+	 *   "testCases": {"UT_test1": {"/path/file.asm": [12, 13, 14]}, ...},
+	 *   "uncovered": {"/path/file.asm": [20, 21]}
+	 * }
+	 * Line numbers are 1-based.
+	 * @param results The results of the executed test cases.
+	 * @returns The JSON text.
+	 */
+	public static getJson(results: UnitTestCaseResult[]): string {
+		const toObject=(fileLines: Map<string, Iterable<number>>) => {
+			const obj: {[file: string]: number[]}={};
+			for (const [file, lines] of fileLines)
+				obj[file]=Array.from(lines).sort((a, b) => a-b).map(line => line+1);
+			return obj;
+		};
+		const testCases: {[label: string]: {[file: string]: number[]}}={};
+		for (const tc of results) {
+			if (tc.coveredAddresses)
+				testCases[tc.label]=toObject(UnitTestCoverage.getTestCaseLines(tc.coveredAddresses));
+		}
+		const data={
+			testCases,
+			uncovered: toObject(UnitTestCoverage.getUncoveredLines(results))
+		};
+		return JSON.stringify(data, undefined, '\t')+'\n';
+	}
+}
@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {UnitTestCaseResult, TestCaseResult} from './z80unittestrunner';
+import {UnitTestReportType} from './settings';
+import {UnitTestCoverage} from './z80unittestcoverage';
+
+
+
+/**
+ * Creates the unit test reports in JUnit XML and TAP format.
+ * JUnit XML is the format most CI servers and build dashboards ingest.
+ * Additionally the coverage per test case can be written as JSON.
+ * Line numbers in the reports are 1-based.
+ */
+export class UnitTestReport {
+
+	/**
+	 * Writes the reports configured in 'unitTestReport'.
+	 * The directories are created if required.
+	 * @param report The settings, i.e. Settings.launch.unitTestReport.
+	 * @param results The results of all executed test cases.
+	 */
+	public static writeReports(report: UnitTestReportType, results: UnitTestCaseResult[]) {
+		const timestamp=new Date();
+		if (report.junit)
+			UnitTestReport.writeFile(report.junit, UnitTestReport.getJUnitXml(results, timestamp));
+		if (report.tap)
+			UnitTestReport.writeFile(report.tap, UnitTestReport.getTap(results));
+		if (report.coverage)
+			UnitTestReport.writeFile(report.coverage, UnitTestCoverage.getJson(results));
+	}
+
+
+	/**
+	 * Returns the JUnit XML report.
+	 * Each test case is put into a testcase element. The 'classname' is
+	 * the label prefix (e.g. the module), the 'name' the last part of the label.
+	 * @param results The results of all executed test cases.
+	 * @param timestamp The time the test run finished.
+	 * @returns The XML text.
+	 */
+	public static getJUnitXml(results: UnitTestCaseResult[], timestamp: Date): string {
+		const countFailures=results.filter(tc => tc.result==TestCaseResult.FAILED || tc.result==TestCaseResult.TIMEOUT).length;
+		const countSkipped=results.filter(tc => tc.result==TestCaseResult.CANCELLED).length;
+		const time=UnitTestReport.getSeconds(results.reduce((sum, tc) => sum+tc.duration, 0));
+		const lines=new Array<string>();
+		lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+		lines.push('<testsuites name="DeZog Unit Tests" tests="'+results.length+'" failures="'+countFailures+'" time="'+time+'">');
+		lines.push('\t<testsuite name="DeZog Unit Tests" tests="'+results.length+'" failures="'+countFailures+'" errors="0" skipped="'+countSkipped+'" timestamp="'+timestamp.toISOString()+'" time="'+time+'">');
+		for (const tc of results) {
+			// Split label in class and name
+			const k=tc.label.lastIndexOf('.');
+			const classname=(k>=0) ? tc.label.substr(0, k) : 'UnitTests';
+			const name=tc.label.substr(k+1);
+			let attribs='name="'+UnitTestReport.escapeXml(name)+'" classname="'+UnitTestReport.escapeXml(classname)+'" time="'+UnitTestReport.getSeconds(tc.duration)+'"';
+			if (tc.file)
+				attribs+=' file="'+UnitTestReport.escapeXml(tc.file)+'" line="'+(tc.line+1)+'"';
+			lines.push('\t\t<testcase '+attribs+'>');
+			const properties=new Array<string>();
+			if (tc.tstates!=undefined)
+				properties.push('<property name="tstates" value="'+tc.tstates+'"/>');
+			if (tc.maxTstates!=undefined)
+				properties.push('<property name="tstates_max" value="'+tc.maxTstates+'"/>');
+			if (tc.previousTstates!=undefined)
+				properties.push('<property name="tstates_previous" value="'+tc.previousTstates+'"/>');
+			if (tc.assertion!=undefined)
+				properties.push('<property name="assertion" value="'+UnitTestReport.escapeXml(tc.assertion)+'"/>');
+			if (properties.length>0) {
+				lines.push('\t\t\t<properties>');
+				for (const property of properties)
+					lines.push('\t\t\t\t'+property);
+				lines.push('\t\t\t</properties>');
+			}
+			switch (tc.result) {
+				case TestCaseResult.FAILED:
+				case TestCaseResult.TIMEOUT: {
+					const type=(tc.result==TestCaseResult.TIMEOUT) ? 'timeout' : (tc.assertion!=undefined) ? 'assertion' : 'failure';
+					const message=tc.message||'Failed.';
+					let text=message;
+					if (tc.failureFile)
+						text+='\nat '+tc.failureFile+':'+(tc.failureLine!+1);
+					lines.push('\t\t\t<failure type="'+type+'" message="'+UnitTestReport.escapeXml(message)+'">'+UnitTestReport.escapeXml(text)+'</failure>');
+					break;
+				}
+				case TestCaseResult.CANCELLED: {
+					lines.push('\t\t\t<skipped message="Cancelled."/>');
+					break;
+				}
+			}
+			lines.push('\t\t</testcase>');
+		}
+		lines.push('\t</testsuite>');
+		lines.push('</testsuites>');
+		return lines.join('\n')+'\n';
+	}
+
+
+	/**
+	 * Returns the TAP (Test Anything Protocol, version 13) report.
+	 * Details are added as YAML block.
+	 * @param results The results of all executed test cases.
+	 * @returns The TAP text.
+	 */
+	public static getTap(results: UnitTestCaseResult[]): string {
+		const lines=new Array<string>();
+		lines.push('TAP version 13');
+		lines.push('1..'+results.length);
+		let index=0;
+		for (const tc of results) {
+			index++;
+			let line=((tc.result==TestCaseResult.OK) ? 'ok ' : 'not ok ')+index+' - '+tc.label;
+			if (tc.result==TestCaseResult.CANCELLED)
+				line+=' # SKIP Cancelled.';
+			lines.push(line);
+			// YAML block
+			lines.push('  ---');
+			if (tc.message)
+				lines.push('  message: '+JSON.stringify(tc.message));
+			if (tc.assertion!=undefined)
+				lines.push('  assertion: '+JSON.stringify(tc.assertion));
+			if (tc.failureFile) {
+				lines.push('  at:');
+				lines.push('    file: '+JSON.stringify(tc.failureFile));
+				lines.push('    line: '+(tc.failureLine!+1));
+			}
+			if (tc.file) {
+				lines.push('  file: '+JSON.stringify(tc.file));
+				lines.push('  line: '+(tc.line+1));
+			}
+			if (tc.tstates!=undefined)
+				lines.push('  tstates: '+tc.tstates);
+			if (tc.maxTstates!=undefined)
+				lines.push('  tstates_max: '+tc.maxTstates);
+			if (tc.previousTstates!=undefined)
+				lines.push('  tstates_previous: '+tc.previousTstates);
+			lines.push('  duration_ms: '+tc.duration);
+			lines.push('  ...');
+		}
+		return lines.join('\n')+'\n';
+	}
+
+
+	/**
+	 * Escapes the special XML characters.
+	 */
+	protected static escapeXml(text: string): string {
+		return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+	}
+
+
+	/**
+	 * Converts ms into a seconds string, e.g. "0.012".
+	 */
+	protected static getSeconds(ms: number): string {
+		return (ms/1000).toFixed(3);
+	}
+
+
+	/**
+	 * Writes a file. Creates the directory if not existing.
+	 */
+	protected static writeFile(filePath: string, text: string) {
+		fs.mkdirSync(path.dirname(filePath), {recursive: true});
+		fs.writeFileSync(filePath, text);
+	}
+}
@@ -0,0 +1,703 @@
+import {RemoteFactory, Remote} from './remotes/remotefactory';
+import {Labels, LabelsClass} from './labels/labels';
+import {RemoteBreakpoint} from './remotes/remotebase';
+import {GenericWatchpoint, GenericMock, GenericTstatesBudget} from './genericwatchpoint';
+import {Settings} from './settings';
+import * as jsonc from 'jsonc-parser';
+import {readFileSync, writeFileSync, existsSync, mkdirSync} from 'fs';
+import * as path from 'path';
+import {Utility} from './misc/utility';
+import {StepHistory, CpuHistory, CpuHistoryClass} from './remotes/cpuhistory';
+import {Z80RegistersClass, Z80Registers} from './remotes/z80registers';
+import {StepHistoryClass} from './remotes/stephistory';
+
+
+
+/**
+ * Enumeration for the returned test case pass or failure.
+ */
+export enum TestCaseResult {
+	OK = 0,
+	FAILED = 1,
+	TIMEOUT = 2,
+	CANCELLED = 3,	// Test cases have been cancelled, e.g. manually or the connection might have been lost or whatever.
+}
+
+
+/**
+ * This structure is returned by getAllUnitTests.
+ */
+export interface UnitTestCase {
+	label: string;	// The full label of the test case, e.g. "test.UT_test1"
+	file: string;	// The full path of the file
+	line: number;	// The line number of the label
+}
+
+
+/**
+ * The outcome of one executed test case.
+ */
+export interface UnitTestCaseResult {
+	label: string;	// The full label of the test case, e.g. "test.UT_test1"
+	address: number;	// The start address of the test case
+	file: string;	// The full path of the file of the label
+	line: number;	// The line number of the label
+	result: TestCaseResult;
+	message?: string;	// The break reason, e.g. "Assertion failed: A == 2". Undefined if passed.
+	assertion?: string;	// The failed ASSERT expression, e.g. "A == 2"
+	failureFile?: string;	// The file where the test case stopped (failure or timeout)
+	failureLine?: number;	// The line where the test case stopped (failure or timeout)
+	tstates: number|undefined;	// The number of executed T-states. Undefined if not measured (debug mode).
+	maxTstates?: number;	// The T-state budget (UNITTEST_TSTATES)
+	previousTstates?: number;	// The T-states of the previous run (unitTestTstates)
+	duration: number;	// The wall time in ms
+	coveredAddresses?: Set<number>;	// The executed addresses if 'codeCoverageEnabled'
+}
+
+
+/**
+ * Runs the unit tests without vscode, i.e. without a debug adapter and
+ * without any UI. Used by the command line interface (z80unittestcli)
+ * e.g. for continuous integration.
+ * It
+ * 1. Reads the list files and collects the labels, WPMEM, ASSERT and LOGPOINT.
+ * 2. Starts the internal simulator (zsim) and loads the binary.
+ * 3. Enables WPMEM and ASSERT.
+ * 4. Calls the unit test initialization and then all 'UT_' test cases.
+ * A test case fails if it does not end at UNITTEST_TEST_READY_SUCCESS,
+ * i.e. also on an ASSERT or WPMEM break, if it exceeds 'unitTestTimeout',
+ * if a mocked subroutine (UNITTEST_MOCK) was not called as often as expected
+ * and if it exceeds its T-states (UNITTEST_TSTATES, 'unitTestTstates').
+ */
+export class Z80UnitTestRunner {
+	/// Called for each line of text output.
+	protected output: (text: string) => void;
+
+	/// The unit test initialization routine. The user has to provide
+	/// it and the label.
+	protected addrStart: number;
+
+	/// The start address of the unit test wrapper.
+	/// This is called to start the unit test.
+	protected addrTestWrapper: number;
+
+	/// Here is the address of the unit test written.
+	protected addrCall: number;
+
+	/// At the end of the test this address is reached on success.
+	protected addrTestReadySuccess: number;
+
+	/// The T-states of the previous run ('unitTestTstates'), label to T-states.
+	protected previousTstates=new Map<string, number>();
+
+	/// The addresses covered since the last test case.
+	protected coveredAddresses=new Set<number>();
+
+
+	/**
+	 * Returns the unit tests launch configuration from a launch.json file.
+	 * @param launchPath The absolute path to the launch.json file.
+	 * @param configName The name of the configuration to use. If undefined the
+	 * configuration with property unitTests set to true is used.
+	 * @returns The configuration object.
+	 */
+	public static readLaunchConfig(launchPath: string, configName?: string): any {
+		const launchData=readFileSync(launchPath, 'utf8');
+		const parseErrors: jsonc.ParseError[]=[];
+		const launch=jsonc.parse(launchData, parseErrors, {allowTrailingComma: true});
+
+		// Check for error
+		if (parseErrors.length>0) {
+			// Error
+			throw Error("Parse error while reading "+launchPath+".");
+		}
+
+		// Find the right configuration
+		let configuration;
+		for (const config of launch.configurations||[]) {
+			if (configName!=undefined) {
+				// Search by name
+				if (config.name==configName) {
+					configuration=config;
+					break;
+				}
+			}
+			else if (config.unitTests) {
+				// Check if there is already unit test configuration:
+				// Only one is allowed.
+				if (configuration)
+					throw Error("More than one unit test launch configuration found. Only one is allowed.");
+				configuration=config;
+			}
+		}
+
+		if (!configuration) {
+			// No configuration found, Error
+			if (configName!=undefined)
+				throw Error("Configuration '"+configName+"' not found in "+launchPath+".");
+			throw Error('No unit test configuration found in '+launchPath+'.');
+		}
+
+		// Load user list and labels files
+		const listFiles=configuration.listFiles;
+		if (!listFiles) {
+			// No list file given
+			// Error
+			throw Error('no list file given in unit test configuration.');
+		}
+
+		return configuration;
+	}
+
+
+	/**
+	 * Check for z80asm:
+	 * In z80asm the labels will be visible in the list file for the macro definition.
+	 * Even if no unit test has been defined.
+	 * This can be checked. In that case the addresses for all labels are the same.
+	 */
+	public static areUnitTestsAvailable(labels: LabelsClass): boolean {
+		const firstLabel=labels.getNumberForLabel("UNITTEST_TEST_WRAPPER");
+		const lastLabel=labels.getNumberForLabel("UNITTEST_MAX_STACK_GUARD");
+
+		if (firstLabel==lastLabel) {
+			// Note: this is also true if both labels are not defined (undefined == undefined)
+			return false;
+		}
+
+		// Everything fine
+		return true;
+	}
+
+
+	/**
+	 * Returns all labels that start with "UT_".
+	 * @returns An array with label names.
+	 */
+	public static getAllUtLabels(labels: LabelsClass): UnitTestCase[] {
+		const utLabels=labels.getLabelsForRegEx('.*\\bUT_\\w*$', '');	// case sensitive
+		// Convert to filenames and line numbers.
+		const labelFilesLines: UnitTestCase[]=utLabels.map(label => {
+			const location=labels.getLocationOfLabel(label) as {file: string, lineNr: number};
+			Utility.assert(location);
+			return {label, file: Utility.getAbsFilePath(location.file), line: location.lineNr};
+		});
+		return labelFilesLines;
+	}
+
+
+	/**
+	 * Creates the result of an executed test case.
+	 * The failure message, the failed ASSERT and the location are
+	 * determined from the PC at which the test case stopped.
+	 * @param label The label of the test case, e.g. "UT_test1".
+	 * @param result OK, FAILED, TIMEOUT or CANCELLED.
+	 * @param pc The program counter after the break.
+	 * @param breakReason The break reason returned by Remote.continue.
+	 * @param tstates The number of executed T-states. Undefined if not measured.
+	 * @param duration The wall time in ms.
+	 */
+	public static createTestCaseResult(label: string, result: TestCaseResult, pc: number, breakReason: string|undefined, tstates: number|undefined, duration: number): UnitTestCaseResult {
+		const address=Labels.getNumberForLabel(label)||0;
+		const location=Labels.getLocationOfLabel(label);
+		const tcResult: UnitTestCaseResult={
+			label, address,
+			file: (location) ? Utility.getAbsFilePath(location.file) : '',
+			line: (location) ? location.lineNr : 0,
+			result, tstates, duration
+		};
+		if (result==TestCaseResult.OK || result==TestCaseResult.CANCELLED)
+			return tcResult;
+
+		// Location of the failure
+		const entry=Labels.getFileAndLineForAddress(pc);
+		if (entry.fileName) {
+			tcResult.failureFile=entry.fileName;
+			tcResult.failureLine=entry.lineNr;
+		}
+
+		if (result==TestCaseResult.TIMEOUT) {
+			tcResult.message='Timeout ('+Settings.launch.unitTestTimeout+'s).';
+			return tcResult;
+		}
+
+		// Failure
+		if (pc==Labels.getNumberForLabel("UNITTEST_TEST_READY_FAILURE_BREAKPOINT"))
+			tcResult.message="Test case failed.";
+		else if (pc==Labels.getNumberForLabel("UNITTEST_TEST_READY_RETURN_FAILURE"))
+			tcResult.message="Test case returned without TC_END.";
+		else {
+			// Otherwise e.g. ASSERT or WPMEM
+			tcResult.message=breakReason||undefined;
+			const abp=Remote.getAllAssertBreakpoints().find(bp => bp.address==pc);
+			if (abp)
+				tcResult.assertion=Utility.getAssertFromCondition(abp.condition);
+		}
+		return tcResult;
+	}
+
+
+	/**
+	 * Returns the mocked subroutines (UNITTEST_MOCK) of a test case.
+	 * A UNITTEST_MOCK line belongs to the test case whose label is the
+	 * nearest one in front of it.
+	 * @param label The label of the test case, e.g. "UT_test1".
+	 * @returns The mocks, an empty array if none.
+	 */
+	public static getMocksForTestCase(label: string): GenericMock[] {
+		const address=Labels.getNumberForLabel(label);
+		const utAddresses=Z80UnitTestRunner.getAllUtLabels(Labels).map(ut => Labels.getNumberForLabel(ut.label) as number);
+		return Remote.getAllMocks().filter(mock => Z80UnitTestRunner.getTestCaseAddress(mock.lineAddress, utAddresses)==address);
+	}
+
+
+	/**
+	 * Returns the T-state budget (UNITTEST_TSTATES) of a test case.
+	 * Like UNITTEST_MOCK the line belongs to the test case in front of it.
+	 * @param label The label of the test case, e.g. "UT_test1".
+	 * @returns The budget or undefined if none.
+	 */
+	public static getTstatesBudgetForTestCase(label: string): GenericTstatesBudget|undefined {
+		const address=Labels.getNumberForLabel(label);
+		const utAddresses=Z80UnitTestRunner.getAllUtLabels(Labels).map(ut => Labels.getNumberForLabel(ut.label) as number);
+		return Remote.getAllTstatesBudgets().find(budget => Z80UnitTestRunner.getTestCaseAddress(budget.lineAddress, utAddresses)==address);
+	}
+
+
+	/**
+	 * Returns the address of the test case a line belongs to,
+	 * i.e. the nearest test case label in front of the line.
+	 * @param lineAddress The address of the line.
+	 * @param utAddresses The addresses of all test cases.
+	 * @returns The address of the test case or -1 if there is none.
+	 */
+	protected static getTestCaseAddress(lineAddress: number, utAddresses: number[]): number {
+		let tcAddress=-1;
+		for (const utAddress of utAddresses) {
+			if (utAddress<=lineAddress && utAddress>tcAddress)
+				tcAddress=utAddress;
+		}
+		return tcAddress;
+	}
+
+
+	/**
+	 * Checks the number of calls of the mocked subroutines.
+	 * If a passed test case called a mock a different number of times than
+	 * expected ('calls=count') the result is changed to FAILED.
+	 * @param tcResult The result of the test case. Is modified.
+	 * @param mocks The mocks of the test case.
+	 * @param calls The number of calls of each mock, from Remote.getMockCalls().
+	 */
+	public static checkMockCalls(tcResult: UnitTestCaseResult, mocks: GenericMock[], calls: number[]) {
+		if (tcResult.result!=TestCaseResult.OK)
+			return;
+		mocks.forEach((mock, index) => {
+			if (tcResult.result!=TestCaseResult.OK || mock.expectedCalls==undefined)
+				return;
+			const count=calls[index]||0;
+			if (count==mock.expectedCalls)
+				return;
+			tcResult.result=TestCaseResult.FAILED;
+			tcResult.message="UNITTEST_MOCK "+mock.label+": called "+count+" time(s), expected "+mock.expectedCalls+".";
+			const entry=Labels.getFileAndLineForAddress(mock.lineAddress);
+			if (entry.fileName) {
+				tcResult.failureFile=entry.fileName;
+				tcResult.failureLine=entry.lineNr;
+			}
+		});
+	}
+
+
+	/**
+	 * Checks the T-states of a passed test case against its budget
+	 * (UNITTEST_TSTATES) and against the previous run.
+	 * The result is changed to FAILED if the budget is exceeded or
+	 * if the T-states increased by more than 'maxIncrease' percent.
+	 * Nothing is checked if the T-states were not measured.
+	 * @param tcResult The result of the test case. Is modified.
+	 * @param budget The T-state budget of the test case or undefined.
+	 * @param previousTstates The T-states of the previous run or undefined.
+	 * @param maxIncrease The allowed increase in percent or undefined.
+	 */
+	public static checkTstates(tcResult: UnitTestCaseResult, budget: GenericTstatesBudget|undefined, previousTstates: number|undefined, maxIncrease: number|undefined) {
+		const tstates=tcResult.tstates;
+		if (tcResult.result!=TestCaseResult.OK || tstates==undefined)
+			return;
+		tcResult.maxTstates=budget?.maxTstates;
+		tcResult.previousTstates=previousTstates;
+		if (budget && tstates>budget.maxTstates) {
+			tcResult.result=TestCaseResult.FAILED;
+			tcResult.message="T-states: "+tstates+", exceeds UNITTEST_TSTATES "+budget.maxTstates+".";
+			const entry=Labels.getFileAndLineForAddress(budget.lineAddress);
+			if (entry.fileName) {
+				tcResult.failureFile=entry.fileName;
+				tcResult.failureLine=entry.lineNr;
+			}
+			return;
+		}
+		if (previousTstates && maxIncrease!=undefined) {
+			const increase=100*(tstates-previousTstates)/previousTstates;
+			if (increase>maxIncrease) {
+				tcResult.result=TestCaseResult.FAILED;
+				tcResult.message="T-states: "+tstates+", increased by "+Math.round(increase)+"% (previous run: "+previousTstates+", maxIncrease: "+maxIncrease+"%).";
+			}
+		}
+	}
+
+
+	/**
+	 * Returns the T-states text shown for a test case.
+	 * E.g. "1234 T-states (+20)" if the previous run took 1214 T-states.
+	 * @param tcResult The result of the test case.
+	 * @returns The text or an empty string for a timeout or cancelled test case.
+	 */
+	public static getTstatesText(tcResult: UnitTestCaseResult): string {
+		if (tcResult.result==TestCaseResult.TIMEOUT || tcResult.result==TestCaseResult.CANCELLED)
+			return '';
+		const tstates=tcResult.tstates;
+		if (tstates==undefined)
+			return 'T-states not measured';
+		let text=tstates+' T-states';
+		if (tcResult.previousTstates!=undefined) {
+			const diff=tstates-tcResult.previousTstates;
+			if (diff!=0)
+				text+=' ('+((diff>0) ? '+' : '')+diff+')';
+		}
+		return text;
+	}
+
+
+	/**
+	 * Reads the T-states of the previous run.
+	 * @param filePath The path of the JSON file ('unitTestTstates.file').
+	 * @returns A map with the label of the test case and the T-states.
+	 * Empty if the file does not exist.
+	 */
+	public static readTstatesFile(filePath: string): Map<string, number> {
+		const tstatesMap=new Map<string, number>();
+		if (existsSync(filePath)) {
+			const data=JSON.parse(readFileSync(filePath, 'utf8'));
+			for (const label in data)
+				tstatesMap.set(label, data[label]);
+		}
+		return tstatesMap;
+	}
+
+
+	/**
+	 * Stores the T-states of the passed test cases for the next run.
+	 * The T-states of test cases not executed (or not measured) in this run are kept.
+	 * @param filePath The path of the JSON file ('unitTestTstates.file').
+	 * @param results The results of the executed test cases.
+	 */
+	public static writeTstatesFile(filePath: string, results: UnitTestCaseResult[]) {
+		const tstatesMap=Z80UnitTestRunner.readTstatesFile(filePath);
+		for (const tc of results) {
+			if (tc.result==TestCaseResult.OK && tc.tstates!=undefined)
+				tstatesMap.set(tc.label, tc.tstates);
+		}
+		const data: any={};
+		for (const [label, tstates] of tstatesMap)
+			data[label]=tstates;
+		mkdirSync(path.dirname(filePath), {recursive: true});
+		writeFileSync(filePath, JSON.stringify(data, undefined, '\t')+'\n');
+	}
+
+
+	/**
+	 * Constructor.
+	 * @param output Called for each line of text output.
+	 */
+	constructor(output: (text: string) => void) {
+		this.output=output;
+	}
+
+
+	/**
+	 * Runs all unit tests of the given launch configuration.
+	 * The simulator is always used, independent of the configured 'remoteType'.
+	 * @param configuration The launch configuration, e.g. from readLaunchConfig.
+	 * @param rootFolder The folder to resolve the relative paths of the configuration.
+	 * @returns The results of all test cases.
+	 * Throws an exception if the unit tests could not be started.
+	 */
+	public async run(configuration: any, rootFolder: string): Promise<UnitTestCaseResult[]> {
+		try {
+			await this.startRemote(configuration, rootFolder);
+			await this.initUnitTests();
+
+			// The T-states of the previous run
+			const tstatesFile=Settings.launch.unitTestTstates.file;
+			this.previousTstates=(tstatesFile) ? Z80UnitTestRunner.readTstatesFile(tstatesFile) : new Map<string, number>();
+
+			// Execute the initial unit test routine (provided by the user)
+			const init=await this.execAddr(this.addrStart);
+			if (init.timeout)
+				throw Error("Timeout while executing the unit test initialization (UNITTEST_START).");
+
+			// Get all labels that look like: 'UT_xxx'
+			const utLabels=Z80UnitTestRunner.getAllUtLabels(Labels).map(lfl => lfl.label);
+			if (utLabels.length==0)
+				throw Error("Couldn't start unit tests. No unit tests found. Unit test labels should start with 'UT_'.");
+
+			// Run all test cases
+			const results=new Array<UnitTestCaseResult>();
+			for (const label of utLabels) {
+				const tcResult=await this.execTestCase(label);
+				results.push(tcResult);
+				this.output(Z80UnitTestRunner.getResultText(tcResult));
+			}
+			return results;
+		}
+		finally {
+			await this.stopRemote();
+		}
+	}
+
+
+	/**
+	 * Returns the summary text of the test case results.
+	 * @param results The results returned by 'run'.
+	 * @returns The text, several lines.
+	 */
+	public static getSummary(results: UnitTestCaseResult[]): string {
+		const countExecuted=results.length;
+		const countFailed=results.filter(tc => tc.result!=TestCaseResult.OK).length;
+		const countPassed=countExecuted-countFailed;
+		let text='Total test cases: '+countExecuted+'\n';
+		text+='Passed test cases: '+countPassed+'\n';
+		text+='Failed test cases: '+countFailed+'\n';
+		if (countExecuted>0)
+			text+=Math.round(100*countPassed/countExecuted)+'% passed.\n';
+		return text;
+	}
+
+
+	/**
+	 * Returns a line with test case name, address and result.
+	 * E.g. "UT_test1 (0x8000):	Fail (Assertion failed: A == 2)"
+	 */
+	protected static getResultText(tcResult: UnitTestCaseResult): string {
+		let tcResultStr;
+		switch (tcResult.result) {
+			case TestCaseResult.OK: tcResultStr='OK'; break;
+			case TestCaseResult.FAILED: tcResultStr='Fail'; break;
+			case TestCaseResult.TIMEOUT: tcResultStr='Fail (timeout, '+Settings.launch.unitTestTimeout+'s)'; break;
+			default: tcResultStr='Cancelled'; break;
+		}
+		if (tcResult.result==TestCaseResult.FAILED && tcResult.message)
+			tcResultStr+=' ('+tcResult.message+')';
+		const tstatesText=Z80UnitTestRunner.getTstatesText(tcResult);
+		if (tstatesText)
+			tcResultStr+=', '+tstatesText;
+		return tcResult.label+' (0x'+tcResult.address.toString(16)+'):\t'+tcResultStr;
+	}
+
+
+	/**
+	 * Sets up the settings and the simulator, reads the list files
+	 * and waits until the binary has been loaded.
+	 */
+	protected async startRemote(configuration: any, rootFolder: string): Promise<void> {
+		// Set root path
+		Utility.setRootPath(rootFolder);
+
+		// Unit tests are always run in the simulator
+		if (configuration.remoteType!=undefined && configuration.remoteType!='zsim')
+			this.output("Note: remoteType '"+configuration.remoteType+"' is ignored, the unit tests are run in 'zsim'.");
+		Settings.Init({...configuration, remoteType: 'zsim'}, rootFolder);
+		Settings.CheckSettings();
+
+		// Create the registers
+		Z80RegistersClass.createRegisters();
+
+		// Start emulator.
+		RemoteFactory.createRemote(Settings.launch.remoteType);
+
+		// Check if a cpu history object has been created.
+		if (!(CpuHistory as any)) {
+			// If not create a lite (step) history
+			CpuHistoryClass.setCpuHistory(new StepHistoryClass());
+			StepHistory.decoder=Z80Registers.decoder;
+		}
+
+		// Reads the list file and also retrieves all occurrences of WPMEM, ASSERT and LOGPOINT.
+		Labels.init();
+		Remote.readListFiles(Settings.launch.listFiles);
+
+		Remote.on('warning', message => {
+			this.output("Warning: "+message);
+		});
+
+		Remote.on('log', message => {
+			this.output("Log: "+message);
+		});
+
+		Remote.on('coverage', coveredAddresses => {
+			coveredAddresses.forEach(this.coveredAddresses.add, this.coveredAddresses);
+		});
+
+		// Connect and wait until the binary has been loaded
+		await new Promise<void>((resolve, reject) => {
+			Remote.once('initialized', () => resolve());
+			Remote.once('error', reject);
+			Remote.init().catch(reject);
+		});
+
+		// Initialize Cpu- or StepHistory.
+		StepHistory.init();
+
+		// Memory guards and assertions
+		await Remote.enableWPMEM(true);
+		await Remote.enableAssertBreakpoints(true);
+
+		// Enable unit test logpoints
+		try {
+			await Remote.enableLogpointGroup('UNITTEST', true);
+		}
+		catch {}	// Note: This group might be used by tee user. Most probably this group is undefined.
+	}
+
+
+	/**
+	 * Stops the simulator and removes the remote.
+	 */
+	protected async stopRemote(): Promise<void> {
+		if (!Remote)
+			return;
+		Remote.removeAllListeners();
+		if (StepHistory)
+			StepHistory.clear();
+		await Remote.disconnect();
+		RemoteFactory.removeRemote();
+	}
+
+
+	/**
+	 * Reads the addresses of the unit test code and sets the success and
+	 * failure breakpoints and the stack watchpoints.
+	 */
+	protected async initUnitTests(): Promise<void> {
+		if (!Z80UnitTestRunner.areUnitTestsAvailable(Labels))
+			throw Error("Unit tests not enabled in assembler sources.");
+
+		// Get the unit test code
+		this.addrStart=this.getNumberForLabel("UNITTEST_START");
+		this.addrTestWrapper=this.getNumberForLabel("UNITTEST_TEST_WRAPPER");
+		this.addrCall=this.getNumberForLabel("UNITTEST_CALL_ADDR");
+		this.addrCall++;
+		this.addrTestReadySuccess=this.getNumberForLabel("UNITTEST_TEST_READY_SUCCESS");
+		const addrTestReadyReturnFailure=this.getNumberForLabel("UNITTEST_TEST_READY_RETURN_FAILURE");
+		const addrTestReadyFailure=this.getNumberForLabel("UNITTEST_TEST_READY_FAILURE_BREAKPOINT");
+		const stackMinWatchpoint=this.getNumberForLabel("UNITTEST_MIN_STACK_GUARD");
+		const stackMaxWatchpoint=this.getNumberForLabel("UNITTEST_MAX_STACK_GUARD");
+
+		// Check if code for unit tests is really present
+		// (In case labels are present but the actual code has not been loaded.)
+		const opcode=await Remote.readMemory(this.addrTestWrapper);
+		// Should start with DI (=0xF3)
+		if (opcode!=0xF3)
+			throw Error("Code for unit tests is not present.");
+
+		// Success and failure breakpoints
+		for (const address of [this.addrTestReadySuccess, addrTestReadyFailure, addrTestReadyReturnFailure]) {
+			const bp: RemoteBreakpoint={bpId: 0, filePath: '', lineNr: -1, address, condition: '', log: undefined};
+			await Remote.setBreakpoint(bp);
+		}
+
+		// Stack watchpoints
+		const stackMinWp: GenericWatchpoint={address: stackMinWatchpoint, size: 2, access: 'rw', condition: ''};
+		const stackMaxWp: GenericWatchpoint={address: stackMaxWatchpoint, size: 2, access: 'rw', condition: ''};
+		await Remote.setWatchpoint(stackMinWp);
+		await Remote.setWatchpoint(stackMaxWp);
+	}
+
+
+	/**
+	 * Returns the address for a label. Checks it and throws an error if it does not exist.
+	 * @param label The label eg. "UNITTEST_TEST_WRAPPER"
+	 * @returns An address.
+	 */
+	protected getNumberForLabel(label: string): number {
+		const addr=Labels.getNumberForLabel(label) as number;
+		if (addr==undefined) {
+			throw Error("Couldn't find the unit test wrapper ("+label+"). Did you forget to use the macro?");
+		}
+		return addr;
+	}
+
+
+	/**
+	 * Executes one test case and determines the result.
+	 * @param label The label of the test case, e.g. "UT_test1".
+	 */
+	protected async execTestCase(label: string): Promise<UnitTestCaseResult> {
+		const address=Labels.getNumberForLabel(label) as number;
+		Utility.assert(address!=undefined);
+		const mocks=Z80UnitTestRunner.getMocksForTestCase(label);
+		await Remote.setMocks(mocks);
+		// Coverage of the previous execution is not attributed to the test case
+		await Remote.flushCodeCoverage();
+		this.coveredAddresses=new Set<number>();
+		const {pc, breakReason, timeout, tstates, duration}=await this.execAddr(address);
+		let result=TestCaseResult.FAILED;
+		if (timeout)
+			result=TestCaseResult.TIMEOUT;
+		else if (pc==this.addrTestReadySuccess)
+			result=TestCaseResult.OK;
+		const tcResult=Z80UnitTestRunner.createTestCaseResult(label, result, pc, breakReason, tstates, duration);
+		if (Settings.launch.history.codeCoverageEnabled) {
+			await Remote.flushCodeCoverage();
+			tcResult.coveredAddresses=this.coveredAddresses;
+		}
+		Z80UnitTestRunner.checkMockCalls(tcResult, mocks, await Remote.getMockCalls());
+		Z80UnitTestRunner.checkTstates(tcResult, Z80UnitTestRunner.getTstatesBudgetForTestCase(label), this.previousTstates.get(label), Settings.launch.unitTestTstates.maxIncrease);
+		return tcResult;
+	}
+
+
+	/**
+	 * Executes the sub routine at 'address' through the unit test wrapper
+	 * until a break occurs or 'unitTestTimeout' has elapsed.
+	 * @param address The address of the test case or the initialization routine.
+	 * @returns The PC after the break, the break reason, whether the timeout occurred,
+	 * the executed T-states and the wall time in ms.
+	 */
+	protected async execAddr(address: number): Promise<{pc: number, breakReason: string, timeout: boolean, tstates: number, duration: number}> {
+		// Set memory values to test case address.
+		const callAddr=new Uint8Array([address&0xFF, address>>>8]);
+		await Remote.writeMemoryDump(this.addrCall, callAddr);
+		// Set PC
+		await Remote.setRegisterValue("PC", this.addrTestWrapper);
+
+		// Init
+		StepHistory.clear();
+		Z80Registers.clearCache();
+		Remote.clearCallStack();
+
+		// Set timeout
+		let timeout=false;
+		const toMs=1000*Settings.launch.unitTestTimeout;
+		const timeoutHandle=setTimeout(() => {
+			// Failure: Timeout. Send a break.
+			timeout=true;
+			Remote.pause();
+		}, toMs);
+
+		// Run
+		await Remote.resetTstates();
+		const startTime=Date.now();
+		Remote.startProcessing();
+		const breakReason=await Remote.continue();
+		Remote.stopProcessing();
+		const duration=Date.now()-startTime;
+		clearTimeout(timeoutHandle);
+		const tstates=await Remote.getTstates();
+
+		// Get current pc
+		await Remote.getRegisters();
+		const pc=Remote.getPC();
+		return {pc, breakReason, timeout, tstates, duration};
+	}
+}
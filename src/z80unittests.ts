@@ -6,13 +6,15 @@ import { RemoteBreakpoint } from './remotes/remotebase';
 import { GenericWatchpoint } from './genericwatchpoint';
 import { LabelsClass } from './labels/labels';
 import { Settings } from './settings';
-import * as jsonc from 'jsonc-parser';
-import { readFileSync } from 'fs';
 import { Utility } from './misc/utility';
 import { Decoration } from './decoration';
 import {StepHistory, CpuHistory, CpuHistoryClass} from './remotes/cpuhistory';
 import {Z80RegistersClass, Z80Registers} from './remotes/z80registers';
 import {StepHistoryClass} from './remotes/stephistory';
+import {Z80UnitTestRunner, TestCaseResult, UnitTestCase, UnitTestCaseResult} from './z80unittestrunner';
+import {UnitTestReport} from './z80unittestreport';
+import {UnitTestCoverage} from './z80unittestcoverage';
+import {CodeCoverageReport} from './codecoveragereport';
 
 
 
@@ -56,27 +58,6 @@ function colorize(color: string, text: string): string {
 }
 
 
-/**
- * Enumeration for the returned test case pass or failure.
- */
-enum TestCaseResult {
-	OK = 0,
-	FAILED = 1,
-	TIMEOUT = 2,
-	CANCELLED = 3,	// Test cases have been cancelled, e.g. manually or the connection might have been lost or whatever.
-}
-
-
-/**
- * This structure is returned by getAllUnitTests.
- */
-export interface UnitTestCase {
-	label: string;	// The full label of the test case, e.g. "test.UT_test1"
-	file: string;	// The full path of the file
-	line: number;	// The line number of the label
-}
-
-
 /**
  * This class takes care of executing the unit tests.
  * It basically
@@ -143,9 +124,21 @@ export class Z80UnitTests {
 	/// Stroes the covered accresses for all unit tests.
 	protected static allCoveredAddresses: Set<number>;
 
-	/// Caches the last received addresses (from Emulator)
+	/// Collects the received addresses (from Emulator) since the last test case.
 	protected static lastCoveredAddresses: Set<number>;
 
+	/// The results of the executed test cases, written to the 'unitTestReport' files.
+	protected static results: Array<UnitTestCaseResult>;
+
+	/// The T-states of the previous run ('unitTestTstates'), label to T-states.
+	protected static previousTstates: Map<string, number>;
+
+	/// The start time of the current test case (for the wall time).
+	protected static tcStartTime: number;
+
+	/// The break reason of the last continue (in run mode).
+	protected static lastBreakReason: string|undefined;
+
 	/// The output channel for the unit tests
 	protected static unitTestOutput = vscode.window.createOutputChannel("DeZog Unit Tests");
 
@@ -181,6 +174,7 @@ export class Z80UnitTests {
 	 */
 	protected static async terminateEmulatorAndStartTests(debug: boolean): Promise<void> {
 		Z80UnitTests.debug=debug;
+		Z80UnitTests.cancelled=false;
 		return new Promise<void>(async resolve => {
 			// Wait until vscode debugger has stopped.
 			if (Remote) {
@@ -194,14 +188,22 @@ export class Z80UnitTests {
 				if (time>=5.0) {
 					// Give up
 					vscode.window.showErrorMessage('Could not terminate active debug session. Please try manually.');
+					Z80UnitTests.CancelAllRemainingResults();
 					resolve();
 					return true;
 				}
 				// New coverage set
 				this.allCoveredAddresses=new Set<number>();
+				this.lastCoveredAddresses=new Set<number>();
+				CodeCoverageReport.clear();
 				// Check for active debug session
 				if (vscode.debug.activeDebugSession)
 					return false;  // Try again
+				// Cancelled while waiting
+				if (this.cancelled) {
+					resolve();
+					return true;
+				}
 				// Debugger not active anymore, start tests
 				if (debug)
 					this.debugTests();
@@ -291,8 +293,8 @@ export class Z80UnitTests {
 			});
 
 			Remote.on('coverage', coveredAddresses => {
-				// Cache covered addresses (since last unit test)
-			 	Z80UnitTests.lastCoveredAddresses = coveredAddresses;
+				// Collect covered addresses (since last unit test)
+				Z80UnitTests.addCoveredAddresses(coveredAddresses);
 			});
 
 			Remote.on('warning', message => {
@@ -356,6 +358,12 @@ export class Z80UnitTests {
 	 * Command execution: Cancel all unit tests.
 	 */
 	public static cmdCancelAllUnitTests() {
+		if (!Remote) {
+			// Not started yet (or already stopped): just return the results
+			this.cancelled=true;
+			Z80UnitTests.CancelAllRemainingResults();
+			return;
+		}
 		Remote.emit('terminated');
 		Z80UnitTests.cancelUnitTests();
 	}
@@ -410,10 +418,12 @@ export class Z80UnitTests {
 			const success = DebugSessionClass.unitTests(configName, this.handleDebugAdapter);
 			if(!success) {
 				vscode.window.showErrorMessage("Couldn't start unit tests. Is maybe a debug session active?");
+				Z80UnitTests.CancelAllRemainingResults();
 			}
 		}
 		catch(e) {
 			vscode.window.showErrorMessage(e.message);
+			Z80UnitTests.CancelAllRemainingResults();
 		}
 	}
 
@@ -443,50 +453,109 @@ export class Z80UnitTests {
 
 
 	/**
-	 * Returns the unit tests launch configuration. I.e. the configuration
-	 * from .vscode/launch.json with property unitTests set to true.
+	 * Returns the detailed result of an executed test case, e.g. the
+	 * failure message and location.
+	 * @param tcLabel The label of the test case.
+	 * @returns The result or undefined if the test case has not been executed (e.g. cancelled).
 	 */
-	protected static getUnitTestsLaunchConfig(): any {
-		const launchJsonFile = ".vscode/launch.json";
-		const launchPath = Utility.getAbsFilePath(launchJsonFile);
-		const launchData = readFileSync(launchPath, 'utf8');
-		const parseErrors: jsonc.ParseError[] = [];
-		const launch = jsonc.parse(launchData, parseErrors, {allowTrailingComma: true});
-
-		// Check for error
-		if(parseErrors.length > 0) {
-			// Error
-			throw Error("Parse error while reading " + launchJsonFile + ".");
-		}
+	public static getTestCaseResult(tcLabel: string): UnitTestCaseResult|undefined {
+		if (!Z80UnitTests.results)
+			return undefined;
+		return Z80UnitTests.results.find(tcResult => tcResult.label == tcLabel);
+	}
 
-		// Find the right configuration
-		let configuration;
-		for(const config of launch.configurations) {
-			if (config.unitTests) {
-				// Check if there is already unit test configuration:
-				// Only one is allowed.
-				if(configuration)
-					throw Error("More than one unit test launch configuration found. Only one is allowed.");
-				configuration = config;
-			}
-		}
+
+	/**
+	 * Adds the addresses of a 'coverage' event to the coverage of the current test case.
+	 */
+	protected static addCoveredAddresses(coveredAddresses: Set<number>) {
+		const target=Z80UnitTests.lastCoveredAddresses;
+		coveredAddresses.forEach(target.add, target);
+	}
 
 
-		// Load user list and labels files
-		if(!configuration) {
-			// No configuration found, Error
-			throw Error('No unit test configuration found in ' + launchPath + '.');
-		}
+	/**
+	 * Waits for the pending coverage of the remote and adds it to the
+	 * coverage of all test cases.
+	 * @returns The addresses covered since the last call.
+	 */
+	protected static async collectCoverage(): Promise<Set<number>> {
+		await Remote.flushCodeCoverage();
+		const coveredAddresses=Z80UnitTests.lastCoveredAddresses;
+		const target=Z80UnitTests.allCoveredAddresses;
+		coveredAddresses.forEach(target.add, target);
+		CodeCoverageReport.addAddresses(coveredAddresses);
+		Z80UnitTests.lastCoveredAddresses=new Set<number>();
+		return coveredAddresses;
+	}
 
-		// Load user list and labels files
-		const listFiles = configuration.listFiles;
-		if(!listFiles) {
-			// No list file given
-			// Error
-			throw Error('no list file given in unit test configuration.');
+
+	/**
+	 * Shows the test cases that cover the line at the cursor.
+	 * The user can select a test case to go to its label.
+	 * Requires a unit test run with 'codeCoverageEnabled'.
+	 */
+	public static async cmdShowTestCasesForLine(): Promise<void> {
+		const editor=vscode.window.activeTextEditor;
+		if (!editor)
+			return;
+		if (!Z80UnitTests.isCoverageAvailable())
+			return;
+		const line=editor.selection.active.line;
+		const labels=UnitTestCoverage.getTestCasesForLine(Z80UnitTests.results, editor.document.fileName, line);
+		if (labels.length==0) {
+			vscode.window.showInformationMessage('Line '+(line+1)+' is not covered by any unit test.');
+			return;
 		}
+		const label=await vscode.window.showQuickPick(labels, {placeHolder: 'Unit tests covering line '+(line+1)});
+		const tcResult=(label) ? Z80UnitTests.getTestCaseResult(label) : undefined;
+		if (!tcResult?.file)
+			return;
+		// Go to the test case
+		const position=new vscode.Position(tcResult.line, 0);
+		const doc=await vscode.workspace.openTextDocument(tcResult.file);
+		await vscode.window.showTextDocument(doc, {selection: new vscode.Range(position, position)});
+	}
 
-		return configuration;
+
+	/**
+	 * Prints the lines that are not covered by any test case
+	 * to the unit test output.
+	 * Requires a unit test run with 'codeCoverageEnabled'.
+	 */
+	public static cmdShowUncoveredLines() {
+		if (!Z80UnitTests.isCoverageAvailable())
+			return;
+		const uncovered=UnitTestCoverage.getUncoveredLines(Z80UnitTests.results);
+		this.unitTestOutput.show();
+		this.unitTestOutput.appendLine('');
+		this.unitTestOutput.appendLine('Lines not covered by any unit test:');
+		for (const [file, lines] of uncovered)
+			this.unitTestOutput.appendLine(file+': '+UnitTestCoverage.getLineRanges(lines));
+		if (uncovered.size==0)
+			this.unitTestOutput.appendLine('None.');
+	}
+
+
+	/**
+	 * Returns true if the last unit test run collected the coverage per test case.
+	 * Otherwise shows a message.
+	 */
+	protected static isCoverageAvailable(): boolean {
+		if (Z80UnitTests.results?.some(tcResult => tcResult.coveredAddresses))
+			return true;
+		vscode.window.showInformationMessage("No unit test coverage available. Please run the unit tests with 'codeCoverageEnabled'.");
+		return false;
+	}
+
+
+	/**
+	 * Returns the unit tests launch configuration. I.e. the configuration
+	 * from .vscode/launch.json with property unitTests set to true.
+	 */
+	protected static getUnitTestsLaunchConfig(): any {
+		const launchPath = Utility.getAbsFilePath(".vscode/launch.json");
+		return Z80UnitTestRunner.readLaunchConfig(launchPath);
 	}
 
 
@@ -551,16 +620,7 @@ export class Z80UnitTests {
 	 * This can be checked. In that case the addresses for all labels are the same.	protected
 	 */
 	protected static AreUnitTestsAvailable(labels: LabelsClass): boolean {
-		const firstLabel = labels.getNumberForLabel("UNITTEST_TEST_WRAPPER");
-		const lastLabel = labels.getNumberForLabel("UNITTEST_MAX_STACK_GUARD");
-
-		if(firstLabel == lastLabel) {
-			// Note: this is also true if both labels are not defined (undefined == undefined)
-			return false;
-		}
-
-		// Everything fine
-		return true;
+		return Z80UnitTestRunner.areUnitTestsAvailable(labels);
 	}
 
 
@@ -576,6 +636,9 @@ export class Z80UnitTests {
 		Z80UnitTests.countExecuted = 0;
 		Z80UnitTests.timeoutHandle = undefined;
 		Z80UnitTests.currentFail = true;
+		Z80UnitTests.results = [];
+		const tstatesFile = Settings.launch.unitTestTstates.file;
+		Z80UnitTests.previousTstates = (tstatesFile) ? Z80UnitTestRunner.readTstatesFile(tstatesFile) : new Map<string, number>();
 
 		if (!Z80UnitTests.AreUnitTestsAvailable(Labels))
 			throw Error("Unit tests not enabled in assembler sources.");
@@ -626,8 +689,8 @@ export class Z80UnitTests {
 			try {
 				// Handle coverage
 				Remote.on('coverage', coveredAddresses => {
-					// Cache covered addresses (since last unit test)
-					Z80UnitTests.lastCoveredAddresses = coveredAddresses;
+					// Collect covered addresses (since last unit test)
+					Z80UnitTests.addCoveredAddresses(coveredAddresses);
 				});
 
 				// After initialization vscode might send breakpoint requests
@@ -745,6 +808,9 @@ export class Z80UnitTests {
 			if (Z80UnitTests.cancelled)
 				return;
 			// Init
+			await Remote.resetTstates();
+			Z80UnitTests.tcStartTime = Date.now();
+			Z80UnitTests.lastBreakReason = undefined;
 			Remote.startProcessing();
 			// Run or Debug
 			if (da) {
@@ -756,7 +822,7 @@ export class Z80UnitTests {
 			}
 			else {
 				// Run: Continue
-				await Remote.continue();
+				Z80UnitTests.lastBreakReason = await Remote.continue();
 				Remote.stopProcessing();
 				Z80UnitTests.onBreak();
 			}
@@ -791,9 +857,14 @@ export class Z80UnitTests {
 			}, toMs);
 		}
 
-		// Start at test case address.
+		// Start at test case address (with the mocked subroutines of the test case).
 		Z80UnitTests.dbgOutput('TestCase ' + label + '(0x' + address.toString(16) + ') started.');
-		Z80UnitTests.execAddr(address, da);
+		(async () => {
+			// Coverage of the previous execution (e.g. the initialization) is not attributed to the test case
+			await Z80UnitTests.collectCoverage();
+			await Remote.setMocks(Z80UnitTestRunner.getMocksForTestCase(label));
+			Z80UnitTests.execAddr(address, da);
+		})().catch(e => Z80UnitTests.stopUnitTests(da, e.message));
 	}
 
 
@@ -909,6 +980,25 @@ export class Z80UnitTests {
 			tcResult = (Z80UnitTests.currentFail) ? TestCaseResult.FAILED : TestCaseResult.OK;
 		}
 
+		// Collect the result for the report.
+		// In debug mode the debug adapter resets the T-states on each
+		// step or continue. I.e. the T-states of the test case are unknown.
+		const tstates = (Z80UnitTests.debug) ? undefined : await Remote.getTstates();
+		const duration = Date.now() - Z80UnitTests.tcStartTime;
+		const tcReport = Z80UnitTestRunner.createTestCaseResult(label, tcResult, pc, Z80UnitTests.lastBreakReason, tstates, duration);
+		const coveredAddresses = await Z80UnitTests.collectCoverage();
+		if (Settings.launch.history.codeCoverageEnabled)
+			tcReport.coveredAddresses = coveredAddresses;
+		Z80UnitTestRunner.checkMockCalls(tcReport, Z80UnitTestRunner.getMocksForTestCase(label), await Remote.getMockCalls());
+		Z80UnitTestRunner.checkTstates(tcReport, Z80UnitTestRunner.getTstatesBudgetForTestCase(label), Z80UnitTests.previousTstates.get(label), Settings.launch.unitTestTstates.maxIncrease);
+		if (tcReport.result != tcResult) {
+			// Failed because of the number of calls of a mocked subroutine or the T-states
+			tcResult = tcReport.result;
+			Z80UnitTests.countFailed ++;
+			Z80UnitTests.dbgOutput(label + ' ' + tcReport.message);
+		}
+		Z80UnitTests.results.push(tcReport);
+
 		// Send result to calling extension (i.e. test adapter)
 		const resolveFunction = Z80UnitTests.testCaseMap.get(label);
 		if(resolveFunction) {
@@ -927,17 +1017,13 @@ export class Z80UnitTests {
 		}
 
 		const addr = Labels.getNumberForLabel(label) || 0;
-		const outTxt = label + ' (0x' + addr.toString(16) + '):\t' + tcResultStr;
+		let outTxt = label + ' (0x' + addr.toString(16) + '):\t' + tcResultStr;
+		const tstatesText = Z80UnitTestRunner.getTstatesText(tcReport);
+		if (tstatesText)
+			outTxt += ', ' + tstatesText;
 		Z80UnitTests.dbgOutput(outTxt);
 		Z80UnitTests.outputSummary += outTxt + '\n';
 
-		// Collect coverage:
-		// Get covered addresses (since last unit test) and add to collection.
-		if (Z80UnitTests.lastCoveredAddresses) {
-			const target=Z80UnitTests.allCoveredAddresses;
-			Z80UnitTests.lastCoveredAddresses.forEach(target.add, target);
-		}
-
 		// Next unit test
 		Z80UnitTests.utLabels.shift();
 		if(Z80UnitTests.utLabels.length == 0) {
@@ -953,11 +1039,26 @@ export class Z80UnitTests {
 
 	/**
 	 * Called when all unit tests have finished.
-	 * Will print the summary and display the decorations for the line coverage.
+	 * Will print the summary and write the unit test report and code coverage files.
 	 */
 	protected static unitTestsFinished() {
 		// Summary
 		Z80UnitTests.printSummary();
+		// Result files
+		try {
+			UnitTestReport.writeReports(Settings.launch.unitTestReport, Z80UnitTests.results);
+			if (Settings.launch.unitTestTstates.file && !Z80UnitTests.debug)
+				Z80UnitTestRunner.writeTstatesFile(Settings.launch.unitTestTstates.file, Z80UnitTests.results);
+		}
+		catch (e) {
+			vscode.window.showErrorMessage("Could not write the unit test report: " + e.message);
+		}
+		try {
+			CodeCoverageReport.writeReports(Settings.launch.codeCoverageReport, Z80UnitTests.allCoveredAddresses);
+		}
+		catch (e) {
+			vscode.window.showErrorMessage("Could not write the code coverage report: " + e.message);
+		}
 	}
 
 
@@ -966,14 +1067,7 @@ export class Z80UnitTests {
 	 * @returns An array with label names.
 	 */
 	protected static getAllUtLabels(labels: LabelsClass): UnitTestCase[] {
-		const utLabels = labels.getLabelsForRegEx('.*\\bUT_\\w*$', '');	// case sensitive
-		// Convert to filenames and line numbers.
-		const labelFilesLines: UnitTestCase[] = utLabels.map(label => {
-			const location = labels.getLocationOfLabel(label) as {file: string, lineNr: number};
-			Utility.assert(location);
-			return {label, file:Utility.getAbsFilePath(location.file), line:location.lineNr};
-		});
-		return labelFilesLines;
+		return Z80UnitTestRunner.getAllUtLabels(labels);
 	}
 
 
@@ -1004,7 +1098,7 @@ export class Z80UnitTests {
 			Z80UnitTests.CancelAllRemainingResults();
 			// Show coverage
 			Decoration.showCodeCoverage(Z80UnitTests.allCoveredAddresses);
-			Z80UnitTests.lastCoveredAddresses=undefined as any;
+			Z80UnitTests.lastCoveredAddresses=new Set<number>();
 
 			// Wait a little bit for pending messages (The vscode could hang on waiting on a response for getRegisters)
 			if (debugAdapter)